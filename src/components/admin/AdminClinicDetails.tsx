@@ -7,6 +7,7 @@ import { ArrowLeft, Building2, Loader2, AlertCircle } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { ClinicStatsCards } from './clinic-details/ClinicStatsCards';
 import { ClinicBasicInfo } from './clinic-details/ClinicBasicInfo';
 import { ClinicQuickActions } from './clinic-details/ClinicQuickActions';
@@ -17,6 +18,7 @@ import { EvolutionApiSettings } from './clinic-details/EvolutionApiSettings';
 import { InstagramSettings } from './clinic-details/InstagramSettings';
 import { WebhookSettings } from './clinic-details/WebhookSettings';
 import { CustomAdsSettings } from './clinic-details/CustomAdsSettings';
+import { WebhookLogViewer } from '@/components/webhooks/WebhookLogViewer';
 
 /**
  * Componente de detalhes de uma clínica específica no painel administrativo
@@ -297,13 +299,14 @@ export const AdminClinicDetails = () => {
 
         {/* Tabs de conteúdo detalhado */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-7">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
             <TabsTrigger value="chat">Chat</TabsTrigger>
             <TabsTrigger value="ai">IA</TabsTrigger>
             <TabsTrigger value="evolution">Evolution</TabsTrigger>
             <TabsTrigger value="instagram">Instagram</TabsTrigger>
             <TabsTrigger value="webhook">Webhook</TabsTrigger>
+            <TabsTrigger value="logs">Logs</TabsTrigger>
             <TabsTrigger value="ads">Anúncios Personalizados</TabsTrigger>
           </TabsList>
 
@@ -351,6 +354,20 @@ export const AdminClinicDetails = () => {
             />
           </TabsContent>
 
+          <TabsContent value="logs" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Logs de entrega de webhooks</CardTitle>
+                <CardDescription>
+                  Tentativas de envio de mensagens do CRM para o n8n, com payload e resposta completos
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <WebhookLogViewer clinicaId={clinica.id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="ads" className="space-y-6">
             <CustomAdsSettings clinicaId={clinica.id} />
           </TabsContent>
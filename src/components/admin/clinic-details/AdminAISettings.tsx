@@ -20,6 +20,7 @@ import { Loader2, Save, AlertCircle, Bot } from 'lucide-react';
 import { useAISettings } from '@/components/settings/ai/hooks/useAISettings';
 import { AIActivationSection } from '@/components/settings/ai/AIActivationSection';
 import { AIOperatingModeSection } from '@/components/settings/ai/AIOperatingModeSection';
+import { AIMessageBufferSection } from '@/components/settings/ai/AIMessageBufferSection';
 import { AIBusinessHoursSection } from '@/components/settings/ai/AIBusinessHoursSection';
 import { AIPersonalitySection } from '@/components/settings/ai/AIPersonalitySection';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -124,6 +125,10 @@ export const AdminAISettings = ({ clinicaId }: AdminAISettingsProps) => {
           settings={settings} 
           updateSetting={updateSetting} 
         />
+        <AIMessageBufferSection 
+          settings={settings} 
+          updateSetting={updateSetting} 
+        />
         <AIBusinessHoursSection 
           settings={settings} 
           updateSetting={updateSetting} 
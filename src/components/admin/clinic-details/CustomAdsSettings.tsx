@@ -26,6 +26,10 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
  * - Editar regra existente
  * - Ativar/desativar regra com switch
  * - Excluir regra de anúncio
+ * - Exibir quantos leads foram atribuídos automaticamente a cada regra
+ * 
+ * A comparação com a primeira mensagem ignora maiúsculas, acentos e pontuação
+ * e tolera pequenos erros de digitação (ver receive-message/adMatcher.ts).
  * 
  * Props:
  * - clinicaId: ID da clínica para buscar/gerenciar os anúncios
@@ -48,6 +52,7 @@ const AD_SOURCE_OPTIONS = [
 export const CustomAdsSettings: React.FC<CustomAdsSettingsProps> = ({ clinicaId }) => {
   const {
     customAds,
+    attributionCounts,
     isLoading,
     createCustomAd,
     updateCustomAd,
@@ -202,6 +207,7 @@ export const CustomAdsSettings: React.FC<CustomAdsSettingsProps> = ({ clinicaId
                 />
                 <p className="text-sm text-gray-500 mt-1">
                   Quando esta frase for encontrada na primeira mensagem do lead, a origem será automaticamente definida.
+                  Maiúsculas, acentos, pontuação e pequenos erros de digitação são ignorados.
                 </p>
               </div>
 
@@ -298,6 +304,8 @@ export const CustomAdsSettings: React.FC<CustomAdsSettingsProps> = ({ clinicaId
                 </div>
                 <CardDescription>
                   Origem: <strong>{ad.ad_source}</strong>
+                  {' · '}
+                  {attributionCounts[ad.id] || 0} lead(s) atribuído(s)
                 </CardDescription>
               </CardHeader>
               
@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { InboundWebhookSecretSettings } from './InboundWebhookSecretSettings';
 
 /**
  * 🔧 Componente para configurar integração com Evolution API
@@ -13,6 +14,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
  * RECURSOS:
  * - Configuração do nome da instância Evolution
  * - Configuração da API Key da Evolution
+ * - Segredo próprio de assinatura dos webhooks de entrada (com rotação)
  * - Proteção contra dados undefined
  * - Exibição de status das configurações
  * - Validação de entrada
@@ -283,6 +285,9 @@ export const EvolutionApiSettings = ({
           </div>
         </div>
 
+        {/* ✅ Segredo de assinatura dos webhooks de entrada */}
+        {clinica?.id && <InboundWebhookSecretSettings clinicaId={clinica.id} />}
+
         {/* ✅ Instruções de Configuração */}
         <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
           <h4 className="text-sm font-medium text-yellow-800 mb-3">
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { ShieldCheck, Copy, RefreshCw, Loader2, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { toast } from '@/hooks/use-toast';
+import { useInboundWebhookSecret } from '@/hooks/useInboundWebhookSecret';
+
+/**
+ * 🔐 Segredo de assinatura dos webhooks de entrada (n8n -> CRM)
+ *
+ * RECURSOS:
+ * - Exibe o segredo atual mascarado, com opção de mostrar e copiar
+ * - Gera um novo segredo mantendo o anterior válido no período de transição
+ * - Lista as últimas requisições recusadas pelas Edge Functions
+ *
+ * 📍 ONDE É USADO:
+ * - EvolutionApiSettings, na aba Evolution dos detalhes da clínica
+ */
+
+interface InboundWebhookSecretSettingsProps {
+  clinicaId: string;
+}
+
+export const InboundWebhookSecretSettings = ({ clinicaId }: InboundWebhookSecretSettingsProps) => {
+  const { secret, isLoading, rejections, rotateSecret, isRotating, periodoTransicaoHoras } = useInboundWebhookSecret(clinicaId);
+  const [showSecret, setShowSecret] = useState(false);
+
+  const currentSecret = secret?.inbound_webhook_secret || '';
+  const previousExpiresAt = secret?.inbound_webhook_secret_previous_expires_at;
+  const previousStillValid = previousExpiresAt && new Date(previousExpiresAt) > new Date();
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(currentSecret);
+    toast({ title: "Copiado", description: "Segredo copiado para a área de transferência." });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-base font-medium flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4" />
+          Segredo de assinatura dos webhooks
+        </Label>
+        <p className="text-sm text-gray-500 mt-1">
+          O n8n deve assinar o JWT (HS256) enviado para receive-message e receive-message-status com este segredo,
+          incluindo a claim <code className="bg-gray-100 px-1 rounded">clinica_id</code>.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Carregando segredo...
+        </div>
+      ) : currentSecret ? (
+        <div className="p-3 bg-green-50 rounded-lg border border-green-200 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm text-green-700 font-mono break-all">
+              {showSecret ? currentSecret : `${currentSecret.substring(0, 4)}${'*'.repeat(24)}`}
+            </p>
+            <div className="flex gap-1 flex-shrink-0">
+              <Button variant="ghost" size="sm" onClick={() => setShowSecret(!showSecret)} className="text-green-600">
+                {showSecret ? 'Ocultar' : 'Mostrar'}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleCopy} className="text-green-600">
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+          {secret?.inbound_webhook_secret_rotated_at && (
+            <p className="text-xs text-green-600">
+              Gerado em {new Date(secret.inbound_webhook_secret_rotated_at).toLocaleString('pt-BR')}
+            </p>
+          )}
+          {previousStillValid && (
+            <p className="text-xs text-yellow-700">
+              O segredo anterior ainda é aceito até {new Date(previousExpiresAt).toLocaleString('pt-BR')}
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="p-3 bg-yellow-50 rounded-lg border border-yellow-200 flex items-start gap-2">
+          <AlertCircle className="w-4 h-4 text-yellow-600 mt-0.5" />
+          <p className="text-sm text-yellow-700">
+            Esta clínica ainda usa o segredo global do sistema. Gere um segredo próprio para que apenas
+            requisições assinadas por ela sejam aceitas.
+          </p>
+        </div>
+      )}
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="outline" disabled={isRotating} className="flex items-center gap-2">
+            {isRotating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            {currentSecret ? 'Gerar novo segredo' : 'Gerar segredo'}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Gerar novo segredo?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {currentSecret
+                ? `O segredo atual continuará válido por ${periodoTransicaoHoras} horas. Atualize a credencial no n8n dentro desse prazo.`
+                : 'A partir de agora o segredo global deixará de ser aceito para esta clínica. Atualize a credencial no n8n antes de continuar.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => rotateSecret()}>Gerar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Últimas requisições recusadas */}
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Requisições recusadas recentes</Label>
+        {rejections.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhuma requisição recusada.</p>
+        ) : (
+          <ul className="divide-y border rounded-lg">
+            {rejections.map((rejection) => (
+              <li key={rejection.id} className="p-2 text-sm flex items-start justify-between gap-2">
+                <div>
+                  <p className="text-gray-800">{rejection.motivo}</p>
+                  <p className="text-xs text-gray-500">
+                    {rejection.instance_name && `Instância: ${rejection.instance_name} · `}
+                    {rejection.ip_origem && `IP: ${rejection.ip_origem} · `}
+                    {new Date(rejection.created_at).toLocaleString('pt-BR')}
+                  </p>
+                </div>
+                <Badge variant="secondary">{rejection.funcao}</Badge>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import { Loader2, RefreshCw, RotateCcw, Inbox } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useOutboundQueue, type OutboundQueueStatus } from '@/hooks/useOutboundQueue';
+
+/**
+ * 📤 Fila de envio de mensagens (CRM -> n8n)
+ *
+ * RECURSOS:
+ * - Lista os envios pendentes, em processamento e esgotados (dead letter)
+ * - Mostra tentativas, próxima tentativa e o último erro de cada item
+ * - Reenvio manual de itens pendentes ou esgotados
+ *
+ * 📍 ONDE É USADO:
+ * - WebhookSettings, na aba Webhook dos detalhes da clínica
+ */
+
+interface OutboundQueuePanelProps {
+  clinicaId: string;
+}
+
+const STATUS_LABELS: Record<OutboundQueueStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  pending: { label: 'Aguardando nova tentativa', variant: 'secondary' },
+  processing: { label: 'Enviando', variant: 'outline' },
+  sent: { label: 'Enviado', variant: 'default' },
+  dead_letter: { label: 'Falhou', variant: 'destructive' },
+};
+
+export const OutboundQueuePanel = ({ clinicaId }: OutboundQueuePanelProps) => {
+  const { items, pendingCount, deadLetterCount, isLoading, refetch, replay, isReplaying } = useOutboundQueue(clinicaId);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <Label className="text-base font-medium">Fila de envio</Label>
+          <p className="text-sm text-gray-500 mt-1">
+            Mensagens que não chegaram ao webhook são reenviadas automaticamente com intervalos crescentes.
+            Após esgotar as tentativas, ficam aqui para reenvio manual.
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => refetch()} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="flex gap-2">
+        <Badge variant="secondary">{pendingCount} pendentes</Badge>
+        <Badge variant={deadLetterCount > 0 ? 'destructive' : 'secondary'}>{deadLetterCount} com falha</Badge>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Carregando fila...
+        </div>
+      ) : items.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Inbox className="w-4 h-4" />
+          Nenhuma mensagem pendente. Todos os envios foram entregues.
+        </div>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {items.map((item) => {
+            const { label, variant } = STATUS_LABELS[item.status];
+
+            return (
+              <li key={item.id} className="p-3 text-sm flex items-start justify-between gap-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-800">{item.lead?.nome || 'Contato sem nome'}</span>
+                    <Badge variant="outline" className="capitalize">{item.canal}</Badge>
+                    <Badge variant={variant}>{label}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Tentativas: {item.tentativas}/{item.max_tentativas}
+                    {item.status === 'pending' && ` · Próxima: ${new Date(item.proxima_tentativa_em).toLocaleString('pt-BR')}`}
+                    {` · Criado em ${new Date(item.created_at).toLocaleString('pt-BR')}`}
+                  </p>
+                  {item.ultimo_erro && (
+                    <p className="text-xs text-red-600 break-all">{item.ultimo_erro}</p>
+                  )}
+                </div>
+                {item.status !== 'processing' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => replay(item.id)}
+                    disabled={isReplaying}
+                    className="flex-shrink-0"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Reenviar
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -8,6 +8,7 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { AlertCircle, Check, Globe, Settings } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
+import { OutboundQueuePanel } from './OutboundQueuePanel';
 
 /**
  * Componente de Configurações de Webhook
@@ -16,6 +17,7 @@ import { useToast } from '@/hooks/use-toast';
  * - Permite configurar o tipo de webhook para a clínica (padrão ou personalizado)
  * - Salva a URL personalizada do webhook quando necessário
  * - Interface similar ao InstagramSettings para manter consistência
+ * - Exibe a fila de envio (pendentes e com falha) com reenvio manual
  * 
  * Onde é usado no app:
  * - Na página de detalhes da clínica no painel administrativo
@@ -230,6 +232,11 @@ export const WebhookSettings = ({ clinica, onSave, saving }: WebhookSettingsProp
             )}
           </Button>
         </div>
+
+        {/* Fila de envio com reenvio manual */}
+        <div className="pt-4 border-t">
+          <OutboundQueuePanel clinicaId={clinica.id} />
+        </div>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,54 @@
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { type EscopoSerie } from '@/hooks/useAgendamentosData';
+
+/**
+ * Componente EscopoSerieOptions
+ *
+ * O que faz:
+ * - Pergunta a quais sessões de uma série recorrente a alteração se aplica:
+ *   somente esta, esta e as seguintes, ou todas as sessões da série
+ * - Sessões já realizadas, pagas, canceladas ou com falta nunca são alteradas em lote
+ *
+ * Onde é usado:
+ * - RegistroAgendamentoModal (edição) e CalendarPage (cancelamento)
+ *
+ * Props:
+ * - value / onChange: Escopo escolhido
+ * - acao: Verbo exibido no título (ex.: "Alterar", "Cancelar")
+ * - idPrefix: Prefixo dos ids dos campos, para usar o componente mais de uma vez na tela
+ */
+
+interface EscopoSerieOptionsProps {
+  value: EscopoSerie;
+  onChange: (escopo: EscopoSerie) => void;
+  acao: string;
+  idPrefix: string;
+}
+
+const OPCOES: { value: EscopoSerie; label: string }[] = [
+  { value: 'este', label: 'Somente esta sessão' },
+  { value: 'seguintes', label: 'Esta e as próximas sessões' },
+  { value: 'todos', label: 'Todas as sessões da série' },
+];
+
+export const EscopoSerieOptions = ({ value, onChange, acao, idPrefix }: EscopoSerieOptionsProps) => (
+  <div className="space-y-2 rounded-lg border p-3">
+    <Label>{acao} quais sessões?</Label>
+    <RadioGroup value={value} onValueChange={(escopo) => onChange(escopo as EscopoSerie)} className="space-y-1">
+      {OPCOES.map((opcao) => (
+        <div key={opcao.value} className="flex items-center space-x-2">
+          <RadioGroupItem value={opcao.value} id={`${idPrefix}-${opcao.value}`} />
+          <Label htmlFor={`${idPrefix}-${opcao.value}`} className="font-normal">
+            {opcao.label}
+          </Label>
+        </div>
+      ))}
+    </RadioGroup>
+    {value !== 'este' && (
+      <p className="text-xs text-gray-500">
+        Sessões já realizadas, pagas, canceladas ou com falta não são alteradas.
+      </p>
+    )}
+  </div>
+);
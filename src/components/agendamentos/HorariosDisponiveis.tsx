@@ -0,0 +1,107 @@
+import { useEffect } from 'react';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { CalendarSearch, Loader } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useHorariosDisponiveis, type HorarioDisponivel } from '@/hooks/useHorariosDisponiveis';
+
+/**
+ * Componente "Próximo horário disponível" do formulário de agendamento
+ *
+ * Busca os próximos horários livres (get-available-slots) para o serviço e o profissional
+ * escolhidos, a partir da data de início do formulário, e lista os horários como botões.
+ * Ao clicar, o formulário recebe início, fim e profissional do horário.
+ *
+ * Props:
+ * - servicoId: Serviço do catálogo (define duração, intervalo e profissionais)
+ * - duracaoMinutos: Duração usada quando não há serviço do catálogo (título manual)
+ * - profissionalId: Opcional; restringe a busca a um profissional
+ * - dataReferencia: A busca começa no dia desta data (ou hoje, se já passou)
+ * - onSelecionar: Recebe o horário escolhido
+ */
+
+interface HorariosDisponiveisProps {
+  servicoId: string | null;
+  duracaoMinutos: number;
+  profissionalId?: string | null;
+  dataReferencia?: Date;
+  onSelecionar: (horario: HorarioDisponivel) => void;
+}
+
+const LIMITE_HORARIOS = 12;
+
+export const HorariosDisponiveis = ({
+  servicoId,
+  duracaoMinutos,
+  profissionalId,
+  dataReferencia,
+  onSelecionar,
+}: HorariosDisponiveisProps) => {
+  const { horarios, buscarHorarios, limparHorarios, isBuscandoHorarios, buscaRealizada } =
+    useHorariosDisponiveis();
+
+  // A lista deixa de valer quando o serviço ou o profissional mudam
+  useEffect(() => {
+    limparHorarios();
+  }, [servicoId, profissionalId, limparHorarios]);
+
+  const handleBuscar = async () => {
+    try {
+      await buscarHorarios({
+        servico_id: servicoId,
+        duracao_minutos: servicoId ? undefined : duracaoMinutos,
+        profissional_id: profissionalId,
+        data_inicial: format(dataReferencia || new Date(), 'yyyy-MM-dd'),
+        limite: LIMITE_HORARIOS,
+      });
+    } catch (error) {
+      // O erro já é tratado no hook
+      console.error('Erro ao buscar horários disponíveis:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handleBuscar}
+        disabled={isBuscandoHorarios}
+      >
+        {isBuscandoHorarios ? (
+          <Loader className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <CalendarSearch className="w-4 h-4 mr-2" />
+        )}
+        Próximo horário disponível
+      </Button>
+
+      {buscaRealizada && horarios.length === 0 && (
+        <p className="text-sm text-gray-500">Nenhum horário livre nos próximos dias.</p>
+      )}
+
+      {horarios.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+          {horarios.map((horario) => (
+            <Button
+              key={`${horario.inicio}-${horario.profissional_id || 'clinica'}`}
+              type="button"
+              variant="secondary"
+              size="sm"
+              className="h-auto py-1.5 flex flex-col items-start"
+              onClick={() => onSelecionar(horario)}
+            >
+              <span className="text-xs font-semibold">
+                {format(new Date(horario.inicio), "EEE, dd/MM 'às' HH:mm", { locale: ptBR })}
+              </span>
+              {horario.profissional_nome && (
+                <span className="text-xs text-gray-500 truncate max-w-full">{horario.profissional_nome}</span>
+              )}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
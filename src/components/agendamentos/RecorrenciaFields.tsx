@@ -0,0 +1,195 @@
+import { format, parseISO } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Repeat } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { type PlanoTratamento } from '@/hooks/usePlanosTratamento';
+import {
+  FrequenciaRecorrencia,
+  MAXIMO_OCORRENCIAS,
+  NOVO_PLANO,
+  RecorrenciaFormState,
+  SEM_PLANO,
+  descreverRecorrencia,
+  gerarOcorrencias,
+  regraDoFormulario,
+} from '@/utils/recorrenciaUtils';
+
+/**
+ * Componente para repetir um novo agendamento (série recorrente e plano de tratamento)
+ *
+ * O que faz:
+ * - Liga/desliga a repetição e define a regra: toda semana ou a cada N dias,
+ *   com quantidade de sessões ou até uma data
+ * - Agrupa as sessões num plano de tratamento novo ou num plano ativo do paciente
+ * - Mostra a prévia da série (quantidade, primeira e última sessão)
+ *
+ * Onde é usado:
+ * - RegistroAgendamentoModal, apenas na criação de agendamentos
+ *
+ * Props:
+ * - value / onChange: Estado do formulário de recorrência
+ * - dataInicio / dataFim: Primeira sessão (a duração se repete nas demais)
+ * - planosDoCliente: Planos ativos do paciente escolhido
+ */
+
+interface RecorrenciaFieldsProps {
+  value: RecorrenciaFormState;
+  onChange: (alteracoes: Partial<RecorrenciaFormState>) => void;
+  dataInicio?: Date;
+  dataFim?: Date;
+  planosDoCliente: PlanoTratamento[];
+}
+
+export const RecorrenciaFields = ({
+  value,
+  onChange,
+  dataInicio,
+  dataFim,
+  planosDoCliente,
+}: RecorrenciaFieldsProps) => {
+  const regra = regraDoFormulario(value);
+  const ocorrencias = value.ativa && dataInicio && dataFim ? gerarOcorrencias(dataInicio, dataFim, regra) : [];
+  const planoExistente = planosDoCliente.find((plano) => plano.id === value.plano);
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="recorrencia-ativa" className="flex items-center gap-2">
+          <Repeat className="h-4 w-4" />
+          Repetir agendamento
+        </Label>
+        <Switch
+          id="recorrencia-ativa"
+          checked={value.ativa}
+          onCheckedChange={(ativa) => onChange({ ativa })}
+        />
+      </div>
+
+      {value.ativa && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <span className="text-xs text-gray-500">Frequência</span>
+              <Select
+                value={value.frequencia}
+                onValueChange={(frequencia) => onChange({ frequencia: frequencia as FrequenciaRecorrencia })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="semanal">Semanal</SelectItem>
+                  <SelectItem value="dias">A cada N dias</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-gray-500">
+                {value.frequencia === 'semanal' ? 'A cada quantas semanas' : 'A cada quantos dias'}
+              </span>
+              <Input
+                type="number"
+                min={1}
+                value={value.intervalo}
+                onChange={(e) => onChange({ intervalo: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <span className="text-xs text-gray-500">Termina</span>
+              <Select
+                value={value.termino}
+                onValueChange={(termino) => onChange({ termino: termino as RecorrenciaFormState['termino'] })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="quantidade">Após N sessões</SelectItem>
+                  <SelectItem value="data">Em uma data</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <span className="text-xs text-gray-500">
+                {value.termino === 'quantidade' ? 'Sessões' : 'Última data'}
+              </span>
+              {value.termino === 'quantidade' ? (
+                <Input
+                  type="number"
+                  min={2}
+                  max={MAXIMO_OCORRENCIAS}
+                  value={value.quantidade}
+                  onChange={(e) =>
+                    onChange({
+                      quantidade: Math.min(MAXIMO_OCORRENCIAS, Math.max(1, parseInt(e.target.value, 10) || 1)),
+                    })
+                  }
+                />
+              ) : (
+                <Input
+                  type="date"
+                  value={value.dataLimite}
+                  onChange={(e) => onChange({ dataLimite: e.target.value })}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <span className="text-xs text-gray-500">Plano de tratamento</span>
+            <Select value={value.plano} onValueChange={(plano) => onChange({ plano })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOVO_PLANO}>Criar novo plano com estas sessões</SelectItem>
+                {planosDoCliente.map((plano) => (
+                  <SelectItem key={plano.id} value={plano.id}>
+                    Continuar "{plano.nome}" ({plano.sessoes_realizadas} de {plano.total_sessoes} realizadas)
+                  </SelectItem>
+                ))}
+                <SelectItem value={SEM_PLANO}>Sem plano de tratamento</SelectItem>
+              </SelectContent>
+            </Select>
+            {value.plano === NOVO_PLANO && (
+              <Input
+                placeholder="Nome do plano (padrão: título do agendamento)"
+                value={value.nomePlano}
+                onChange={(e) => onChange({ nomePlano: e.target.value })}
+              />
+            )}
+          </div>
+
+          {ocorrencias.length > 0 ? (
+            <p className="text-xs text-gray-600">
+              {descreverRecorrencia(regra)}: {ocorrencias.length} sessão(ões), de{' '}
+              {format(ocorrencias[0].data_inicio, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })} a{' '}
+              {format(ocorrencias[ocorrencias.length - 1].data_inicio, 'dd/MM/yyyy', { locale: ptBR })}.
+              {planoExistente && ` As sessões continuam a numeração do plano "${planoExistente.nome}".`}
+              {regra.dataLimite && ocorrencias.length === MAXIMO_OCORRENCIAS &&
+                ` Limitado a ${MAXIMO_OCORRENCIAS} sessões.`}
+            </p>
+          ) : (
+            <p className="text-xs text-red-600">
+              {value.termino === 'data' && value.dataLimite
+                ? `A data limite (${format(parseISO(value.dataLimite), 'dd/MM/yyyy')}) é anterior à primeira sessão.`
+                : 'Informe quando a série termina.'}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
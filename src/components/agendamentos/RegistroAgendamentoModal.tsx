@@ -21,19 +21,43 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { AlertCircle } from 'lucide-react';
-import { useCreateAgendamento, useUpdateAgendamento, type AgendamentoFromDatabase } from '@/hooks/useAgendamentosData';
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, AlertTriangle, ListChecks } from 'lucide-react';
+import {
+  useAgendamentoConflitos,
+  useCreateAgendamento,
+  useCreateAgendamentosRecorrentes,
+  useUpdateAgendamento,
+  useUpdateSerieAgendamentos,
+  type AgendamentoFromDatabase,
+  type EscopoSerie,
+  type UpdateSerieAgendamentosData,
+} from '@/hooks/useAgendamentosData';
 import { useClinica } from '@/contexts/ClinicaContext';
 import { useAuthUser } from '@/hooks/useAuthUser';
 import { useLeads, type Lead } from '@/hooks/useLeadsData';
-import { useClinicServices } from '@/hooks/useClinicServices';
+import { useClinicServices, type ClinicaServico } from '@/hooks/useClinicServices';
+import { useProfissionais, useSalas } from '@/hooks/useAgendaResources';
+import type { HorarioDisponivel } from '@/hooks/useHorariosDisponiveis';
+import { usePlanosTratamento } from '@/hooks/usePlanosTratamento';
 import { ClienteSelector } from './ClienteSelector';
 import { NovoClienteFields } from './NovoClienteFields';
 import { ServicoSelector } from './ServicoSelector';
+import { HorariosDisponiveis } from './HorariosDisponiveis';
+import { EscopoSerieOptions } from './EscopoSerieOptions';
+import { RecorrenciaFields } from './RecorrenciaFields';
 import { AGENDAMENTO_STATUS_OPTIONS } from '@/constants/agendamentos';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { DateTimePicker } from '@/components/ui/DateTimePicker';
-import { addMinutes } from 'date-fns';
+import {
+  NOVO_PLANO,
+  RECORRENCIA_INICIAL,
+  SEM_PLANO,
+  gerarOcorrencias,
+  regraDoFormulario,
+  type RecorrenciaFormState,
+} from '@/utils/recorrenciaUtils';
+import { addMinutes, differenceInMinutes, format } from 'date-fns';
 
 // Esquema de validação
 const agendamentoSchema = z.object({
@@ -50,8 +74,16 @@ const agendamentoSchema = z.object({
   usuario_id: z.string().min(1, 'Usuário é obrigatório'),
   novo_cliente_nome: z.string().optional(),
   novo_cliente_telefone: z.string().optional(),
+  profissional_id: z.string().optional(),
+  sala_id: z.string().optional(),
 });
 
+// Valor do <Select> de sala para "sem sala" (o Select não aceita valor vazio)
+const SEM_SALA = 'sem_sala';
+
+// Status que não ocupam horário na agenda
+const STATUS_SEM_OCUPACAO = ['cancelado', 'nao_compareceu'];
+
 type AgendamentoFormData = z.infer<typeof agendamentoSchema>;
 
 interface RegistroAgendamentoModalProps {
@@ -73,15 +105,25 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
   const { userProfile, loading: isLoadingUser, profileError: userError, user } = useAuthUser();
   const createAgendamentoMutation = useCreateAgendamento();
   const updateAgendamentoMutation = useUpdateAgendamento();
+  const createRecorrentesMutation = useCreateAgendamentosRecorrentes();
+  const updateSerieMutation = useUpdateSerieAgendamentos();
 
   // Hooks para buscar dados para os seletores
   const { services: servicos, isLoading: loadingServices } = useClinicServices();
   const { data: leads, isLoading: loadingLeads } = useLeads();
+  const { profissionais } = useProfissionais();
+  const { salas, salasAtivas } = useSalas();
+  const { planosAtivosDoCliente, getPlano } = usePlanosTratamento();
 
   const [isNovoCliente, setIsNovoCliente] = useState(false);
   const [clienteBuscaInput, setClienteBuscaInput] = useState('');
   const [modoServico, setModoServico] = useState<'selecionar' | 'manual'>('selecionar');
   const [servicoSelecionadoIdHook, setServicoSelecionadoIdHook] = useState<string | null>(null);
+  // Repetição do novo agendamento e, na edição de uma sessão de série, a quais sessões aplicar
+  const [recorrencia, setRecorrencia] = useState<RecorrenciaFormState>(RECORRENCIA_INICIAL);
+  const [escopoSerie, setEscopoSerie] = useState<EscopoSerie>('este');
+  // Serviço do catálogo escolhido (define duração, valor, intervalo e profissionais)
+  const servicoSelecionado = servicos?.find((servico) => servico.id === servicoSelecionadoIdHook) || null;
   
   const form = useForm<AgendamentoFormData>({
     resolver: zodResolver(agendamentoSchema),
@@ -98,7 +140,9 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
       // não do 'userProfile'. O 'user.id' corresponde à chave na tabela auth.users.
       usuario_id: user?.id || '',
       novo_cliente_nome: '',
-      novo_cliente_telefone: ''
+      novo_cliente_telefone: '',
+      profissional_id: '',
+      sala_id: '',
     },
   });
 
@@ -123,6 +167,8 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
           valor: agendamento.valor || 0,
           clinica_id: clinicaAtiva?.id || '',
           usuario_id: user?.id || '',
+          profissional_id: agendamento.profissional_id || '',
+          sala_id: agendamento.sala_id || '',
         });
         const clienteExistente = leads?.find(l => l.id === agendamento.cliente_id);
         if (clienteExistente) {
@@ -141,6 +187,8 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
           valor: 0,
           clinica_id: clinicaAtiva?.id || '',
           usuario_id: user?.id || '',
+          profissional_id: '',
+          sala_id: '',
         });
         setClienteBuscaInput(lead.nome || "");
         setIsNovoCliente(false);
@@ -156,6 +204,8 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
           valor: 0,
           clinica_id: clinicaAtiva?.id || '',
           usuario_id: user?.id || '',
+          profissional_id: '',
+          sala_id: '',
         });
         setClienteBuscaInput('');
         setIsNovoCliente(false);
@@ -163,6 +213,8 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
       // Reseta o estado do seletor de serviço sempre que o contexto muda.
       setServicoSelecionadoIdHook(null);
       setModoServico('selecionar');
+      setRecorrencia(RECORRENCIA_INICIAL);
+      setEscopoSerie('este');
     };
 
     resetForm();
@@ -170,6 +222,30 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
   }, [agendamento, lead, selectedDate, clinicaAtiva, user, form, leads, isOpen]);
 
 
+  // Preenche data de fim e valor a partir do catálogo quando o serviço é escolhido.
+  // Não é usada na edição ao abrir o modal, para não sobrescrever o que já foi salvo.
+  const aplicarRegrasDoServico = (servico: ClinicaServico | null) => {
+    if (!servico) return;
+
+    const dataInicioAtual = form.getValues('data_inicio');
+    if (dataInicioAtual) {
+      form.setValue('data_fim', addMinutes(dataInicioAtual, servico.duracao_minutos), { shouldValidate: true });
+    }
+    if (servico.preco !== null) {
+      form.setValue('valor', Number(servico.preco));
+    }
+
+    // Profissional que não realiza o serviço deixa de estar selecionado
+    const profissionalAtual = form.getValues('profissional_id');
+    if (
+      profissionalAtual &&
+      servico.profissional_ids.length > 0 &&
+      !servico.profissional_ids.includes(profissionalAtual)
+    ) {
+      form.setValue('profissional_id', '');
+    }
+  };
+
   // EFEITO 2: Gerencia a lógica do seletor de serviço de forma isolada.
   // Reage ao carregamento da lista de serviços para definir um padrão ou encontrar um existente.
   useEffect(() => {
@@ -177,8 +253,11 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
     if (!isOpen || !servicos) return;
 
     if (agendamento) {
-      // MODO EDIÇÃO: Procura o serviço que corresponde ao título salvo.
-      const servicoCorrespondente = servicos.find(s => s.nome_servico === agendamento.titulo);
+      // MODO EDIÇÃO: Procura o serviço vinculado ao agendamento; agendamentos antigos, sem
+      // servico_id, são vinculados pelo título salvo.
+      const servicoCorrespondente =
+        servicos.find(s => s.id === agendamento.servico_id) ||
+        servicos.find(s => s.nome_servico === agendamento.titulo);
       if (servicoCorrespondente) {
         // Se encontrou, define o ID para o <Select> e mantém o modo de seleção.
         setServicoSelecionadoIdHook(servicoCorrespondente.id);
@@ -197,15 +276,102 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
         setServicoSelecionadoIdHook(primeiroServico.id);
         // CORREÇÃO PRINCIPAL: Define o valor do campo 'titulo' no formulário.
         form.setValue('titulo', primeiroServico.nome_servico, { shouldValidate: true });
+        // Duração e valor padrão do serviço
+        form.setValue('data_fim', addMinutes(form.getValues('data_inicio'), primeiroServico.duracao_minutos));
+        if (primeiroServico.preco !== null) {
+          form.setValue('valor', Number(primeiroServico.preco));
+        }
         console.log(`[EFFECT SERVIÇO] Serviço padrão definido: ${primeiroServico.nome_servico}`);
       }
     }
   // Depende da lista de serviços e do contexto (aberto, edição/criação).
   }, [isOpen, servicos, agendamento, form]);
 
+  // Conflito de horário com outro agendamento do mesmo profissional ou sala.
+  // No modo 'bloquear' o banco recusa o agendamento; no modo 'avisar' só mostramos o aviso.
+  const modoConflito = clinicaAtiva?.conflito_agendamento ?? 'bloquear';
+  const [dataInicio, dataFim, profissionalId, salaId, status, clienteId] = form.watch([
+    'data_inicio',
+    'data_fim',
+    'profissional_id',
+    'sala_id',
+    'status',
+    'cliente_id',
+  ]);
+  const { data: conflitosHorario = [] } = useAgendamentoConflitos({
+    dataInicio: isOpen && !STATUS_SEM_OCUPACAO.includes(status) ? dataInicio : null,
+    dataFim: isOpen && !STATUS_SEM_OCUPACAO.includes(status) ? dataFim : null,
+    profissionalId,
+    salaId,
+    ignorarId: agendamento?.id,
+    intervaloMinutos: servicoSelecionado?.intervalo_minutos ?? 0,
+  });
+  const conflitoBloqueia = modoConflito === 'bloquear' && conflitosHorario.length > 0;
+
+  // Profissionais para seleção: os ativos que realizam o serviço escolhido e, na edição, o
+  // atual mesmo que desativado
+  const profissionaisSelecionaveis = profissionais.filter(
+    (profissional) =>
+      profissional.id === agendamento?.profissional_id ||
+      (profissional.ativo &&
+        (!servicoSelecionado ||
+          servicoSelecionado.profissional_ids.length === 0 ||
+          servicoSelecionado.profissional_ids.includes(profissional.id)))
+  );
+  const salasSelecionaveis = salas.filter(
+    (sala) => sala.ativo || sala.id === agendamento?.sala_id
+  );
+
+  // Plano de tratamento da sessão em edição (progresso "3 de 10 realizadas")
+  const planoDaSessao = getPlano(agendamento?.plano_tratamento_id);
+  const sessaoEmSerie = !!agendamento?.recorrencia_id;
+  const isSaving =
+    createAgendamentoMutation.isPending ||
+    updateAgendamentoMutation.isPending ||
+    createRecorrentesMutation.isPending ||
+    updateSerieMutation.isPending;
+
+  // Horário escolhido em "Próximo horário disponível"
+  const aplicarHorarioDisponivel = (horario: HorarioDisponivel) => {
+    form.setValue('data_inicio', new Date(horario.inicio), { shouldValidate: true });
+    form.setValue('data_fim', new Date(horario.fim), { shouldValidate: true });
+    if (horario.profissional_id) {
+      form.setValue('profissional_id', horario.profissional_id, { shouldValidate: true });
+    }
+  };
+
   const onSubmit = async (data: AgendamentoFormData) => {
+    // Com profissionais cadastrados, todo agendamento precisa de um responsável
+    if (profissionaisSelecionaveis.length > 0 && !data.profissional_id) {
+      form.setError('profissional_id', { message: 'Profissional é obrigatório' });
+      return;
+    }
+
     try {
-      if (agendamento) {
+      if (agendamento && sessaoEmSerie && escopoSerie !== 'este') {
+        // Várias sessões da série: desloca os horários pela mesma diferença da sessão editada
+        // e aplica só os campos que mudaram, preservando o que é próprio de cada sessão
+        const servicoId = modoServico === 'selecionar' ? servicoSelecionadoIdHook : null;
+        const campos: UpdateSerieAgendamentosData['campos'] = {};
+        if (data.titulo !== agendamento.titulo) campos.titulo = data.titulo;
+        if ((data.descricao || '') !== (agendamento.descricao || '')) campos.descricao = data.descricao;
+        if (Number(data.valor) !== Number(agendamento.valor || 0)) campos.valor = Number(data.valor);
+        if (data.status !== agendamento.status) campos.status = data.status;
+        if ((data.profissional_id || null) !== agendamento.profissional_id) campos.profissional_id = data.profissional_id || null;
+        if ((data.sala_id || null) !== agendamento.sala_id) campos.sala_id = data.sala_id || null;
+        if (servicoId !== agendamento.servico_id) campos.servico_id = servicoId;
+
+        const duracaoOriginal = differenceInMinutes(new Date(agendamento.data_fim), new Date(agendamento.data_inicio));
+        const duracaoNova = differenceInMinutes(data.data_fim, data.data_inicio);
+
+        await updateSerieMutation.mutateAsync({
+          agendamento_id: agendamento.id,
+          escopo: escopoSerie,
+          deslocamento_minutos: differenceInMinutes(data.data_inicio, new Date(agendamento.data_inicio)),
+          duracao_minutos: duracaoNova !== duracaoOriginal ? duracaoNova : null,
+          campos,
+        });
+      } else if (agendamento) {
         // Para atualização, converter datas para strings ISO
         const updateData = {
           id: agendamento.id,
@@ -216,6 +382,9 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
           status: data.status,
           cliente_id: data.cliente_id,
           valor: Number(data.valor),
+          profissional_id: data.profissional_id || null,
+          sala_id: data.sala_id || null,
+          servico_id: modoServico === 'selecionar' ? servicoSelecionadoIdHook : null,
         };
         
         await updateAgendamentoMutation.mutateAsync(updateData);
@@ -231,9 +400,43 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
           clinica_id: data.clinica_id,
           usuario_id: data.usuario_id,
           valor: Number(data.valor) || 0,
+          profissional_id: data.profissional_id || null,
+          sala_id: data.sala_id || null,
+          servico_id: modoServico === 'selecionar' ? servicoSelecionadoIdHook : null,
         };
         
-        await createAgendamentoMutation.mutateAsync(createData);
+        if (recorrencia.ativa) {
+          // Série recorrente: todas as sessões são criadas juntas (ou nenhuma, se houver conflito)
+          const regra = regraDoFormulario(recorrencia);
+          const ocorrencias = gerarOcorrencias(data.data_inicio, data.data_fim, regra);
+          if (ocorrencias.length === 0) {
+            form.setError('data_inicio', { message: 'A série não tem sessões; revise quando ela termina' });
+            return;
+          }
+
+          const { data_inicio, data_fim, ...dadosComuns } = createData;
+          await createRecorrentesMutation.mutateAsync({
+            agendamento: dadosComuns,
+            ocorrencias: ocorrencias.map((ocorrencia) => ({
+              data_inicio: ocorrencia.data_inicio.toISOString(),
+              data_fim: ocorrencia.data_fim.toISOString(),
+            })),
+            regra: {
+              frequencia: regra.frequencia,
+              intervalo: regra.intervalo,
+              quantidade: regra.quantidade,
+              data_limite: regra.dataLimite,
+            },
+            plano_tratamento_id:
+              recorrencia.plano !== NOVO_PLANO && recorrencia.plano !== SEM_PLANO ? recorrencia.plano : null,
+            novo_plano:
+              recorrencia.plano === NOVO_PLANO
+                ? { nome: recorrencia.nomePlano.trim() || data.titulo, total_sessoes: ocorrencias.length }
+                : null,
+          });
+        } else {
+          await createAgendamentoMutation.mutateAsync(createData);
+        }
       }
       onClose();
     } catch (error: any) {
@@ -336,14 +539,36 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
               setModoServico={setModoServico}
               servicoSelecionadoId={servicoSelecionadoIdHook}
               setServicoSelecionadoId={setServicoSelecionadoIdHook}
+              onServicoSelecionado={aplicarRegrasDoServico}
             />
 
+            {servicoSelecionado?.instrucoes_preparo && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <strong>Preparo:</strong> {servicoSelecionado.instrucoes_preparo}
+                </AlertDescription>
+              </Alert>
+            )}
+
             <div className="grid grid-cols-1 gap-4">
               <div>
                 <Label htmlFor="descricao">Descrição (Opcional)</Label>
                 <Textarea id="descricao" {...form.register('descricao')} />
               </div>
 
+              <HorariosDisponiveis
+                servicoId={modoServico === 'selecionar' ? servicoSelecionadoIdHook : null}
+                duracaoMinutos={
+                  dataInicio && dataFim && dataFim > dataInicio
+                    ? Math.round((dataFim.getTime() - dataInicio.getTime()) / 60000)
+                    : 30
+                }
+                profissionalId={profissionalId || null}
+                dataReferencia={dataInicio}
+                onSelecionar={aplicarHorarioDisponivel}
+              />
+
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -356,8 +581,8 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
                          * LÓGICA DE ATUALIZAÇÃO AUTOMÁTICA DA DATA DE FIM
                          * O `onChange` do DateTimePicker foi customizado.
                          * 1. Ele chama o `field.onChange(date)` original para atualizar o estado do formulário para `data_inicio`.
-                         * 2. Se a data for válida, ele calcula uma nova data de fim (30 minutos após o início)
-                         *    e atualiza o campo `data_fim` usando `form.setValue`.
+                         * 2. Se a data for válida, ele calcula uma nova data de fim (duração do serviço
+                         *    escolhido ou 30 minutos) e atualiza o campo `data_fim` usando `form.setValue`.
                          *
                          * Isso facilita o preenchimento, mas o usuário ainda pode alterar a data de fim manualmente.
                          */}
@@ -366,7 +591,7 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
                           onChange={(date) => {
                             field.onChange(date); // Atualiza o campo de início
                             if (date) {
-                              const novaDataFim = addMinutes(date, 30);
+                              const novaDataFim = addMinutes(date, servicoSelecionado?.duracao_minutos ?? 30);
                               form.setValue('data_fim', novaDataFim, { shouldValidate: true });
                             }
                           }}
@@ -426,14 +651,144 @@ export const RegistroAgendamentoModal: React.FC<RegistroAgendamentoModalProps> =
                 </div>
               </div>
 
+              {(profissionaisSelecionaveis.length > 0 || salasSelecionaveis.length > 0) && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  {profissionaisSelecionaveis.length > 0 && (
+                    <FormField
+                      control={form.control}
+                      name="profissional_id"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Profissional *</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value || ''}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Selecione o profissional" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {profissionaisSelecionaveis.map((profissional) => (
+                                <SelectItem key={profissional.id} value={profissional.id}>
+                                  <div className="flex items-center gap-2">
+                                    <span
+                                      className="w-2 h-2 rounded-full"
+                                      style={{ backgroundColor: profissional.cor }}
+                                    />
+                                    {profissional.nome}
+                                  </div>
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {salasSelecionaveis.length > 0 && (
+                    <FormField
+                      control={form.control}
+                      name="sala_id"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Sala</FormLabel>
+                          <Select
+                            onValueChange={(value) => field.onChange(value === SEM_SALA ? '' : value)}
+                            value={field.value || SEM_SALA}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={SEM_SALA}>Sem sala</SelectItem>
+                              {salasSelecionaveis.map((sala) => (
+                                <SelectItem key={sala.id} value={sala.id}>
+                                  {sala.nome}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                </div>
+              )}
+
+              {conflitosHorario.length > 0 && (
+                <Alert variant={conflitoBloqueia ? 'destructive' : 'default'}>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <strong>
+                      {conflitoBloqueia
+                        ? 'Horário indisponível:'
+                        : 'Atenção: este horário já está ocupado:'}
+                    </strong>
+                    <ul className="mt-1 space-y-0.5">
+                      {conflitosHorario.map((conflito) => (
+                        <li key={`${conflito.agendamento_id}-${conflito.recurso}`} className="text-sm">
+                          {conflito.recurso === 'profissional' ? 'Profissional' : 'Sala'} ocupado(a) por
+                          {' '}"{conflito.titulo}" das {format(new Date(conflito.data_inicio), 'HH:mm')} às{' '}
+                          {format(new Date(conflito.data_fim), 'HH:mm')}
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {!agendamento && (
+                <RecorrenciaFields
+                  value={recorrencia}
+                  onChange={(alteracoes) => setRecorrencia((atual) => ({ ...atual, ...alteracoes }))}
+                  dataInicio={dataInicio}
+                  dataFim={dataFim}
+                  planosDoCliente={planosAtivosDoCliente(clienteId)}
+                />
+              )}
+
+              {planoDaSessao && (
+                <Alert>
+                  <ListChecks className="h-4 w-4" />
+                  <AlertDescription className="space-y-2">
+                    <p>
+                      <strong>{planoDaSessao.nome}</strong>
+                      {agendamento?.sessao_numero && ` · sessão ${agendamento.sessao_numero} de ${planoDaSessao.total_sessoes}`}
+                      {planoDaSessao.status !== 'ativo' && ` · plano ${planoDaSessao.status === 'concluido' ? 'concluído' : 'cancelado'}`}
+                    </p>
+                    <Progress value={(planoDaSessao.sessoes_realizadas / planoDaSessao.total_sessoes) * 100} />
+                    <p className="text-xs text-gray-500">
+                      {planoDaSessao.sessoes_realizadas} de {planoDaSessao.total_sessoes} sessões realizadas
+                      {planoDaSessao.sessoes_agendadas > 0 && ` · ${planoDaSessao.sessoes_agendadas} agendada(s)`}
+                    </p>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {sessaoEmSerie && (
+                <EscopoSerieOptions
+                  value={escopoSerie}
+                  onChange={setEscopoSerie}
+                  acao="Alterar"
+                  idPrefix="escopo-edicao"
+                />
+              )}
+
             </div>
 
             <DialogFooter>
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancelar
               </Button>
-              <Button type="submit" disabled={createAgendamentoMutation.isPending || updateAgendamentoMutation.isPending}>
-                {agendamento ? 'Atualizar' : 'Criar'} Agendamento
+              <Button
+                type="submit"
+                disabled={isSaving || conflitoBloqueia}
+              >
+                {agendamento ? 'Atualizar' : 'Criar'} {!agendamento && recorrencia.ativa ? 'Série' : 'Agendamento'}
               </Button>
             </DialogFooter>
           </form>
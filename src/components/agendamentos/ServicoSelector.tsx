@@ -35,6 +35,8 @@ import { AgendamentoFormData } from './types';
  * - setModoServico: Função para alterar o modo
  * - servicoSelecionadoId: ID do serviço selecionado
  * - setServicoSelecionadoId: Função para alterar serviço selecionado
+ * - onServicoSelecionado: Opcional; avisa o formulário do serviço escolhido (ou null no modo manual)
+ *   para preencher duração e valor a partir do catálogo
  */
 
 interface ServicoSelectorProps {
@@ -45,6 +47,7 @@ interface ServicoSelectorProps {
   setModoServico: (modo: 'selecionar' | 'manual') => void;
   servicoSelecionadoId: string | null;
   setServicoSelecionadoId: (id: string | null) => void;
+  onServicoSelecionado?: (servico: ClinicaServico | null) => void;
 }
 
 export const ServicoSelector = ({
@@ -55,6 +58,7 @@ export const ServicoSelector = ({
   setModoServico,
   servicoSelecionadoId,
   setServicoSelecionadoId,
+  onServicoSelecionado,
 }: ServicoSelectorProps) => {
   // Garantir que servicos seja sempre um array
   const servicosSeguro = Array.isArray(servicos) ? servicos : [];
@@ -66,12 +70,14 @@ export const ServicoSelector = ({
     setModoServico('manual');
     form.setValue('titulo', ''); // Limpa o título ao mudar para digitação manual
     setServicoSelecionadoId(null);
+    onServicoSelecionado?.(null);
   };
 
   const alternarParaSelecionar = () => {
     setModoServico('selecionar');
     form.setValue('titulo', '', { shouldValidate: true }); // Limpa e valida o título ao voltar para seleção
     setServicoSelecionadoId(null);
+    onServicoSelecionado?.(null);
   };
 
   return (
@@ -96,8 +102,10 @@ export const ServicoSelector = ({
                     setServicoSelecionadoId(servicoIdValue);
                     // Atualiza o campo 'titulo' do formulário com o nome do serviço
                     field.onChange(servico.nome_servico);
+                    onServicoSelecionado?.(servico);
                   } else {
                     setServicoSelecionadoId(null);
+                    onServicoSelecionado?.(null);
                     // Limpa o campo 'titulo' se nenhum serviço for encontrado
                     field.onChange('');
                   }
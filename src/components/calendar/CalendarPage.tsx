@@ -1,9 +1,12 @@
 import { useState } from 'react';
-import { ChevronLeft, ChevronRight, Plus, Edit, Clock, User, MessageSquare, Trash2 } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Plus, Edit, Clock, User, MessageSquare, Trash2, Stethoscope, DoorOpen, Repeat } from 'lucide-react';
 import { RegistroAgendamentoModal } from '@/components/agendamentos/RegistroAgendamentoModal';
-import { useFetchAgendamentos, useDeleteAgendamento, useUpdateAgendamento, AgendamentoFromDatabase } from '@/hooks/useAgendamentosData';
+import { useFetchAgendamentos, useDeleteAgendamento, useUpdateAgendamento, useUpdateSerieAgendamentos, AgendamentoFromDatabase, EscopoSerie } from '@/hooks/useAgendamentosData';
+import { EscopoSerieOptions } from '@/components/agendamentos/EscopoSerieOptions';
+import { usePlanosTratamento } from '@/hooks/usePlanosTratamento';
 import { AgendamentoStatusActions } from '@/components/agendamentos/AgendamentoStatusActions';
 import { useLeads } from '@/hooks/useLeadsData';
+import { useProfissionais, useSalas } from '@/hooks/useAgendaResources';
 import { format, startOfWeek, endOfWeek, eachDayOfInterval, startOfMonth, endOfMonth, isSameMonth, isSameDay } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 import { useNavigate } from 'react-router-dom';
@@ -20,6 +23,13 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { TimelineDayView } from '@/components/calendar/TimelineDayView';
 import { generateTimeSlots, calculateCardPosition, SLOT_HEIGHT_PX, START_HOUR } from '@/utils/timelineUtils';
 
@@ -31,6 +41,9 @@ import { generateTimeSlots, calculateCardPosition, SLOT_HEIGHT_PX, START_HOUR }
  * - Busca de agendamentos reais do Supabase
  * - Criação, edição e exclusão de agendamentos
  * - Integração com dados de clientes
+ * - Filtro por profissional e timeline do dia com uma coluna por profissional
+ * - Séries recorrentes: indicação "Sessão 3/10" do plano de tratamento e cancelamento
+ *   de uma sessão, das seguintes ou da série inteira
  * - Notificações e lembretes
  * 
  * Os agendamentos incluem:
@@ -51,6 +64,8 @@ export const CalendarPage = () => {
   const [monthViewMode, setMonthViewMode] = useState<MonthViewMode>('calendar');
   const [isAgendamentoModalOpen, setIsAgendamentoModalOpen] = useState(false);
   const [agendamentoParaEditar, setAgendamentoParaEditar] = useState<AgendamentoFromDatabase | null>(null);
+  // Filtro por profissional ('todos' mostra a agenda inteira)
+  const [profissionalFiltro, setProfissionalFiltro] = useState<string>('todos');
 
   // NOVO: Estado para controlar o diálogo de confirmação de exclusão
   const [agendamentoParaDeletarId, setAgendamentoParaDeletarId] = useState<string | null>(null);
@@ -64,11 +79,18 @@ export const CalendarPage = () => {
   // NOVO: Estado para armazenar o valor confirmado ao marcar como pago.
   const [valorConfirmado, setValorConfirmado] = useState<string>('');
 
+  // Ao cancelar uma sessão de série recorrente: somente ela, ela e as seguintes ou todas
+  const [escopoCancelamento, setEscopoCancelamento] = useState<EscopoSerie>('este');
+
   // Buscar agendamentos e instanciar as mutações de delete e update
   const { data: agendamentos = [], isLoading: loadingAgendamentos } = useFetchAgendamentos();
   const { data: leads = [] } = useLeads();
+  const { profissionais } = useProfissionais();
+  const { salas } = useSalas();
   const deleteAgendamentoMutation = useDeleteAgendamento();
   const updateAgendamentoMutation = useUpdateAgendamento(); // NOVO
+  const updateSerieMutation = useUpdateSerieAgendamentos();
+  const { getPlano } = usePlanosTratamento();
 
   // Função para navegar entre datas
   const navigateDate = (direction: 'prev' | 'next') => {
@@ -176,6 +198,13 @@ export const CalendarPage = () => {
     return cliente?.nome || 'Cliente não encontrado';
   };
 
+  // Funções para obter profissional e sala do agendamento pelo ID
+  const getProfissional = (profissionalId: string | null) =>
+    profissionais.find(profissional => profissional.id === profissionalId);
+
+  const getSalaNome = (salaId: string | null) =>
+    salas.find(sala => sala.id === salaId)?.nome;
+
   // Função para obter telefone do cliente pelo ID
   const getClienteTelefone = (clienteId: string) => {
     const cliente = leads.find(lead => lead.id === clienteId);
@@ -212,6 +241,11 @@ export const CalendarPage = () => {
     }
   };
 
+  // O cancelamento de uma sessão de série pergunta se as demais sessões também são canceladas
+  const cancelamentoDeSerie =
+    statusUpdateConfirmation?.newStatus === AgendamentoStatus.CANCELADO &&
+    !!statusUpdateConfirmation.agendamento.recorrencia_id;
+
   // NOVO: Funções para controlar a mudança de status e seu diálogo de confirmação
   const handleStatusChange = (agendamento: AgendamentoFromDatabase, newStatus: AgendamentoStatus) => {
     // Se o novo status for 'pago', pré-preenche o campo de valor com o valor existente do agendamento.
@@ -223,7 +257,16 @@ export const CalendarPage = () => {
   };
 
   const handleConfirmStatusUpdate = () => {
-    if (statusUpdateConfirmation) {
+    if (statusUpdateConfirmation && cancelamentoDeSerie && escopoCancelamento !== 'este') {
+      updateSerieMutation.mutate({
+        agendamento_id: statusUpdateConfirmation.agendamento.id,
+        escopo: escopoCancelamento,
+        campos: { status: AgendamentoStatus.CANCELADO },
+      });
+
+      setStatusUpdateConfirmation(null);
+      setEscopoCancelamento('este');
+    } else if (statusUpdateConfirmation) {
       // Prepara o objeto de dados para a atualização.
       const payload: { id: string; status: AgendamentoStatus; valor?: number } = {
         id: statusUpdateConfirmation.agendamento.id,
@@ -240,6 +283,7 @@ export const CalendarPage = () => {
       
       setStatusUpdateConfirmation(null); // Fecha o diálogo
       setValorConfirmado(''); // Limpa o estado do valor
+      setEscopoCancelamento('este');
     }
   };
   
@@ -258,6 +302,10 @@ export const CalendarPage = () => {
 
   // Filtrar agendamentos para a visualização atual
   const agendamentosFiltrados = agendamentos.filter(agendamento => {
+    if (profissionalFiltro !== 'todos' && agendamento.profissional_id !== profissionalFiltro) {
+      return false;
+    }
+
     const dataAgendamento = new Date(agendamento.data_inicio);
     const dataAtual = new Date(currentDate);
     
@@ -275,10 +323,18 @@ export const CalendarPage = () => {
     }
   });
 
+  // Colunas da timeline do dia: profissionais ativos e os desativados que ainda têm agendamento no dia
+  const profissionaisDaTimeline = profissionais.filter(profissional =>
+    profissional.ativo || agendamentosFiltrados.some(agendamento => agendamento.profissional_id === profissional.id)
+  );
+
   // MELHORIA: O card do agendamento foi reestruturado para acomodar as ações de status.
   const renderAgendamentoCard = (agendamento: AgendamentoFromDatabase) => {
     // Busca as classes de cor com base no status atual
     const statusClasses = getStatusClasses(agendamento.status);
+    const profissional = getProfissional(agendamento.profissional_id);
+    const salaNome = getSalaNome(agendamento.sala_id);
+    const plano = getPlano(agendamento.plano_tratamento_id);
     
     return (
       <div
@@ -299,8 +355,14 @@ export const CalendarPage = () => {
                 </h4>
               </div>
               
-              <p className="text-xs text-gray-600 mb-2 truncate">
-                {agendamento.titulo}
+              <p className="text-xs text-gray-600 mb-2 truncate flex items-center gap-1">
+                {agendamento.recorrencia_id && <Repeat size={12} className="flex-shrink-0" />}
+                <span className="truncate">{agendamento.titulo}</span>
+                {plano && agendamento.sessao_numero && (
+                  <span className="flex-shrink-0 text-gray-500">
+                    · Sessão {agendamento.sessao_numero}/{plano.total_sessoes}
+                  </span>
+                )}
               </p>
               
               <div className="flex items-center gap-3 text-xs text-gray-500">
@@ -312,6 +374,23 @@ export const CalendarPage = () => {
                   <span className="font-medium">R$ {agendamento.valor.toFixed(2)}</span>
                 )}
               </div>
+
+              {(profissional || salaNome) && (
+                <div className="flex items-center gap-3 text-xs text-gray-500 mt-1">
+                  {profissional && (
+                    <span className="flex items-center gap-1 truncate">
+                      <Stethoscope size={12} style={{ color: profissional.cor }} />
+                      {profissional.nome}
+                    </span>
+                  )}
+                  {salaNome && (
+                    <span className="flex items-center gap-1 truncate">
+                      <DoorOpen size={12} />
+                      {salaNome}
+                    </span>
+                  )}
+                </div>
+              )}
             </div>
             
             <div className="flex flex-col items-end justify-between h-full gap-2 ml-2">
@@ -531,6 +610,23 @@ export const CalendarPage = () => {
 
           {/* Controles de Visualização */}
           <div className="flex items-center gap-4">
+            {/* Filtro por profissional */}
+            {profissionais.length > 0 && (
+              <Select value={profissionalFiltro} onValueChange={setProfissionalFiltro}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todos">Todos os profissionais</SelectItem>
+                  {profissionais.map((profissional) => (
+                    <SelectItem key={profissional.id} value={profissional.id}>
+                      {profissional.nome}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
             {/* NOVO: Seletor de modo de exibição (Lista/Timeline) para Dia e Semana */}
             {(viewMode === 'day' || viewMode === 'week') && (
               <div className="flex bg-gray-100 rounded-lg p-1">
@@ -610,11 +706,13 @@ export const CalendarPage = () => {
               // NOVO: Renderiza a timeline de dia
               ) : viewMode === 'day' && displayMode === 'timeline' ? (
                 <div className="p-4 h-full">
+                  {/* Com todos os profissionais, o dia é dividido em uma coluna por profissional */}
                   <TimelineDayView
                     agendamentosDoDia={agendamentosFiltrados}
                     getClienteNome={getClienteNome}
                     getStatusClasses={getStatusClasses}
                     onEditAgendamento={handleEditAgendamento}
+                    profissionais={profissionalFiltro === 'todos' ? profissionaisDaTimeline : undefined}
                   />
                 </div>
               
@@ -725,6 +823,7 @@ export const CalendarPage = () => {
         if (!open) {
           setStatusUpdateConfirmation(null);
           setValorConfirmado('');
+          setEscopoCancelamento('este');
         }
       }}>
         <AlertDialogContent>
@@ -753,17 +852,27 @@ export const CalendarPage = () => {
             </div>
           )}
 
+          {cancelamentoDeSerie && (
+            <EscopoSerieOptions
+              value={escopoCancelamento}
+              onChange={setEscopoCancelamento}
+              acao="Cancelar"
+              idPrefix="escopo-cancelamento"
+            />
+          )}
+
           <AlertDialogFooter>
             <AlertDialogCancel onClick={() => {
               // Garante que ao clicar em "Cancelar", os estados sejam limpos.
               setStatusUpdateConfirmation(null);
               setValorConfirmado('');
+              setEscopoCancelamento('este');
             }}>Cancelar</AlertDialogCancel>
             <AlertDialogAction 
               onClick={handleConfirmStatusUpdate}
-              disabled={updateAgendamentoMutation.isPending}
+              disabled={updateAgendamentoMutation.isPending || updateSerieMutation.isPending}
             >
-              {updateAgendamentoMutation.isPending ? 'Atualizando...' : 'Confirmar'}
+              {updateAgendamentoMutation.isPending || updateSerieMutation.isPending ? 'Atualizando...' : 'Confirmar'}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
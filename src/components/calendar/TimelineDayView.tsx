@@ -1,21 +1,31 @@
 
 /**
  * TimelineDayView
- * 
+ *
  * O que faz:
  * - Renderiza a visualização de timeline para um único dia.
  * - Exibe uma grade de horários e os agendamentos posicionados cronologicamente.
- * 
+ * - Opcionalmente divide o dia em colunas, uma por profissional.
+ *
  * Onde é usado:
  * - Em `CalendarPage`, para a visualização de "Dia" e para cada dia na visualização de "Semana".
- * 
+ *
  * Como se conecta:
  * - `agendamentosDoDia`: Array de agendamentos para o dia específico.
  * - `showTimeColumn`: Prop opcional para ocultar a coluna de horários, útil na visão de semana.
+ * - `profissionais`: Prop opcional; quando informada, cada profissional vira uma coluna
+ *   (agrupamento feito por `groupByProfessional`).
  * - `...outras props`: Funções e dados necessários para os cards, como `getClienteNome`, `onEditAgendamento`, etc.
  */
 import { AgendamentoFromDatabase } from '@/hooks/useAgendamentosData';
-import { generateTimeSlots, calculateCardPosition, SLOT_HEIGHT_PX, START_HOUR } from '@/utils/timelineUtils';
+import { Profissional } from '@/hooks/useAgendaResources';
+import {
+  generateTimeSlots,
+  calculateCardPosition,
+  groupByProfessional,
+  SLOT_HEIGHT_PX,
+  START_HOUR,
+} from '@/utils/timelineUtils';
 import { AgendamentoTimelineCard } from './AgendamentoTimelineCard';
 
 interface TimelineDayViewProps {
@@ -24,6 +34,7 @@ interface TimelineDayViewProps {
   getStatusClasses: (status: string) => { border: string; tagBg: string; tagText: string };
   onEditAgendamento: (agendamento: AgendamentoFromDatabase) => void;
   showTimeColumn?: boolean;
+  profissionais?: Profissional[];
 }
 
 export const TimelineDayView = ({
@@ -32,64 +43,99 @@ export const TimelineDayView = ({
   getStatusClasses,
   onEditAgendamento,
   showTimeColumn = true, // Por padrão, a coluna de tempo é exibida.
+  profissionais,
 }: TimelineDayViewProps) => {
   const timeSlots = generateTimeSlots(START_HOUR);
 
-  return (
-    <div className="relative flex h-full">
-      {/* Coluna de Horários (renderizada condicionalmente) */}
-      {showTimeColumn && (
-        <div className="w-16 flex-shrink-0 text-right pr-2">
-          {timeSlots.map((slot) => {
-            // Exibe apenas as horas cheias para uma UI mais limpa.
-            if (slot.endsWith(':00')) {
-              return (
-                <div
-                  key={slot}
-                  className="relative text-xs text-gray-500"
-                  style={{ height: `${SLOT_HEIGHT_PX * 2}px` }}
-                >
-                  <span className="absolute -top-1.5">{slot}</span>
-                </div>
-              );
-            }
-            return null;
-          })}
-        </div>
-      )}
+  // Sem profissionais, o dia inteiro é uma única coluna.
+  const colunas = profissionais && profissionais.length > 0
+    ? groupByProfessional(agendamentosDoDia, profissionais)
+    : null;
+
+  // Grade de horários + cards de uma coluna da timeline.
+  const renderColuna = (agendamentos: AgendamentoFromDatabase[], comBorda: boolean) => (
+    <div className={`relative flex-1 min-w-0 ${comBorda ? 'border-l' : ''} border-gray-200`}>
+      {/* Camada para as Linhas da Grade de Horários */}
+      <div className="absolute inset-0">
+        {timeSlots.map((slot) => (
+          <div
+            key={`line-${slot}`}
+            className={`border-t ${slot.endsWith(':00') ? 'border-gray-200' : 'border-gray-100'}`}
+            style={{ height: `${SLOT_HEIGHT_PX}px` }}
+          ></div>
+        ))}
+      </div>
+
+      {/* Camada para os Cards de Agendamento */}
+      <div className="absolute top-0 left-2 right-2 bottom-0">
+        {agendamentos.map(agendamento => {
+          const position = calculateCardPosition(agendamento, START_HOUR);
+          const statusClasses = getStatusClasses(agendamento.status);
+          const clienteNome = getClienteNome(agendamento.cliente_id);
+
+          return (
+            <AgendamentoTimelineCard
+              key={agendamento.id}
+              agendamento={agendamento}
+              position={position}
+              statusClasses={statusClasses}
+              clienteNome={clienteNome}
+              onEdit={onEditAgendamento}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
 
-      {/* Área Principal da Timeline */}
-      <div className={`relative flex-1 ${showTimeColumn ? 'border-l' : ''} border-gray-200`}>
-        {/* Camada para as Linhas da Grade de Horários */}
-        <div className="absolute inset-0">
-          {timeSlots.map((slot) => (
+  return (
+    <div className="flex flex-col h-full">
+      {/* Cabeçalho com o nome de cada profissional (apenas na visão por profissional) */}
+      {colunas && (
+        <div className="flex border-b border-gray-200">
+          {showTimeColumn && <div className="w-16 flex-shrink-0" />}
+          {colunas.map((coluna) => (
             <div
-              key={`line-${slot}`}
-              className={`border-t ${slot.endsWith(':00') ? 'border-gray-200' : 'border-gray-100'}`}
-              style={{ height: `${SLOT_HEIGHT_PX}px` }}
-            ></div>
+              key={coluna.id ?? 'sem-profissional'}
+              className="flex-1 min-w-0 flex items-center gap-2 px-2 py-2 text-sm font-medium text-gray-700"
+            >
+              <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: coluna.cor }} />
+              <span className="truncate">{coluna.nome}</span>
+            </div>
           ))}
         </div>
-        
-        {/* Camada para os Cards de Agendamento */}
-        <div className="absolute top-0 left-2 right-2 bottom-0">
-          {agendamentosDoDia.map(agendamento => {
-            const position = calculateCardPosition(agendamento, START_HOUR);
-            const statusClasses = getStatusClasses(agendamento.status);
-            const clienteNome = getClienteNome(agendamento.cliente_id);
+      )}
 
-            return (
-              <AgendamentoTimelineCard
-                key={agendamento.id}
-                agendamento={agendamento}
-                position={position}
-                statusClasses={statusClasses}
-                clienteNome={clienteNome}
-                onEdit={onEditAgendamento}
-              />
-            );
-          })}
-        </div>
+      <div className="relative flex flex-1">
+        {/* Coluna de Horários (renderizada condicionalmente) */}
+        {showTimeColumn && (
+          <div className="w-16 flex-shrink-0 text-right pr-2">
+            {timeSlots.map((slot) => {
+              // Exibe apenas as horas cheias para uma UI mais limpa.
+              if (slot.endsWith(':00')) {
+                return (
+                  <div
+                    key={slot}
+                    className="relative text-xs text-gray-500"
+                    style={{ height: `${SLOT_HEIGHT_PX * 2}px` }}
+                  >
+                    <span className="absolute -top-1.5">{slot}</span>
+                  </div>
+                );
+              }
+              return null;
+            })}
+          </div>
+        )}
+
+        {/* Área Principal da Timeline */}
+        {colunas
+          ? colunas.map((coluna, index) => (
+              <div key={coluna.id ?? 'sem-profissional'} className="flex flex-1 min-w-0">
+                {renderColuna(coluna.agendamentos, showTimeColumn || index > 0)}
+              </div>
+            ))
+          : renderColuna(agendamentosDoDia, showTimeColumn)}
       </div>
     </div>
   );
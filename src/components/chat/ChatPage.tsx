@@ -14,6 +14,7 @@ import { useAdminCheck } from '@/hooks/useAdminCheck';
 import { useWebhook } from '@/hooks/useWebhook';
 import { useClinicaData } from '@/hooks/useClinicaData';
 import { useAIConversationControl } from '@/hooks/useAIConversationControl';
+import { useTemplateContext } from '@/hooks/useTemplateContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Lead } from '@/hooks/useLeadsData';
 import { toast } from 'sonner';
@@ -131,6 +132,9 @@ export const ChatPage = ({ selectedLeadId }: ChatPageProps) => {
 
   const selectedLead = currentChatData.leads.find(l => l.id === selectedConversation) || null;
 
+  // Variáveis do lead selecionado para preencher as respostas prontas
+  const { data: templateContext } = useTemplateContext(selectedConversation);
+
   const { aiEnabled, toggleAI, isInitializing, isUpdating } = useAIConversationControl({
     selectedLead,
     updateLeadAiConversationStatus: async (params: { leadId: string; aiEnabled: boolean }) => {
@@ -257,8 +261,8 @@ export const ChatPage = ({ selectedLeadId }: ChatPageProps) => {
         { body: formData }
       );
   
-      if (functionError || !uploadResponse?.publicUrl) {
-        const errorMessage = functionError?.message || uploadResponse?.error || 'Falha ao obter URL da mídia do MinIO.';
+      if (functionError || !uploadResponse?.mediaRef) {
+        const errorMessage = functionError?.message || uploadResponse?.error || 'Falha ao obter a referência da mídia no MinIO.';
         console.error('[ChatPage] Erro ao invocar send-crm-media-to-minio ou URL não retornada:', functionError, uploadResponse);
         setUploadError(errorMessage);
         alert(`Erro no upload: ${errorMessage}`);
@@ -266,7 +270,8 @@ export const ChatPage = ({ selectedLeadId }: ChatPageProps) => {
         return;
       }
   
-      const { publicUrl } = uploadResponse;
+      // Referência privada "minio://"; a exibição e o envio ao n8n usam URLs assinadas
+      const { mediaRef } = uploadResponse;
   
       // Determina o tipo de arquivo baseado no mimetype para enviar para o Supabase
       // e corresponder à constraint do banco de dados.
@@ -277,13 +282,13 @@ export const ChatPage = ({ selectedLeadId }: ChatPageProps) => {
         determinedFileType = 'audio';
       }
   
-      console.log(`[ChatPage] Upload do CRM para MinIO bem-sucedido. URL: ${publicUrl}. Tipo: ${determinedFileType}. Chamando handleSendMessage.`);
+      console.log(`[ChatPage] Upload do CRM para MinIO bem-sucedido. Referência: ${mediaRef}. Tipo: ${determinedFileType}. Chamando handleSendMessage.`);
       
       // Agora, chame handleSendMessage com os dados da mídia
       await handleSendMessage({
         type: determinedFileType,
         content: file.name,
-        anexoUrl: publicUrl,
+        anexoUrl: mediaRef,
         aiEnabled: aiEnabled
       });
   
@@ -336,7 +341,7 @@ export const ChatPage = ({ selectedLeadId }: ChatPageProps) => {
         selectedConversation,        // leadId
         messageData.content,         // conteúdo (nome do arquivo para mídia, texto para mensagens de texto)
         messageData.type,            // tipo: 'text', 'image', 'audio'
-        messageData.anexoUrl         // URL do MinIO para mídias, undefined para texto
+        messageData.anexoUrl         // Referência do MinIO para mídias, undefined para texto
       );
 
       // Limpar input de texto apenas se for mensagem de texto
@@ -497,6 +502,7 @@ export const ChatPage = ({ selectedLeadId }: ChatPageProps) => {
                 onFileSelect={handleFileUploadAndSend}
                 loading={sendingMessage || isUploadingMedia}
                 respostasProntas={currentChatData.respostasProntas}
+                contextoTemplate={templateContext}
                 aiEnabled={aiEnabled}
                 onToggleAI={toggleAI}
                 isAIInitializing={isInitializing || isUpdating}
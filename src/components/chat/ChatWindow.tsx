@@ -1,22 +1,29 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { format, isToday, isYesterday, isSameWeek, startOfWeek } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
-import { Loader2, FileText, Headphones, Image as ImageIcon, Shield } from 'lucide-react';
+import { Loader2, Shield } from 'lucide-react';
 import { useSupabaseData } from '@/hooks/useSupabaseData';
 import { useAdminChatMessages } from '@/hooks/useAdminChatMessages';
 import { useAdminCheck } from '@/hooks/useAdminCheck';
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useWebhook } from '@/hooks/useWebhook';
+import { MessageContent } from './MessageContent';
+import { MessageStatusIndicator } from './MessageStatusIndicator';
 
 /**
  * 💬 Componente de Janela de Chat
  * 
  * 📋 FUNCIONALIDADES:
  * - Exibe histórico de mensagens entre usuário e lead
- * - Suporta diferentes tipos de mídia (texto, imagem, áudio)
+ * - Suporta diferentes tipos de mídia (texto, imagem, áudio, vídeo, documento,
+ *   localização e contato) através do componente MessageContent
  * - Adapta-se automaticamente para modo admin
  * - Gerencia scroll inteligente para novas mensagens
  * - Exibe separadores de data para organizar conversas
+ * - Mostra o status de entrega (enviando, enviada, entregue, lida, falha)
+ *   das mensagens enviadas, com opção de reenviar as que falharam
  * 
  * 🔄 FLUXO DE SCROLL CORRIGIDO:
  * - Carregamento direto no final (sem animação visível)
@@ -36,10 +43,12 @@ export const ChatWindow = ({ leadId }: ChatWindowProps) => {
   const [localMessages, setLocalMessages] = useState<any[]>([]);
   const [isLoadingMessages, setIsLoadingMessages] = useState(false);
   const [hasScrolledToBottom, setHasScrolledToBottom] = useState(false);
+  const [retryingIds, setRetryingIds] = useState<string[]>([]);
 
   // 🔗 HOOKS PARA DADOS
   const normalChatData = useSupabaseData();
   const { isAdmin } = useAdminCheck();
+  const { enviarWebhook } = useWebhook();
   
   // Hook admin para mensagens (apenas se for admin)
   const adminChatMessages = useAdminChatMessages(
@@ -158,6 +167,70 @@ export const ChatWindow = ({ leadId }: ChatWindowProps) => {
     }
   }, [leadId, shouldUseAdminMode, normalChatData.marcarMensagensComoLidas]);
 
+  /**
+   * 🔄 useEffect: Atualizar status de entrega em tempo real (usuários normais)
+   * 
+   * O modo admin já recebe UPDATEs pelo useAdminChatMessages.
+   */
+  useEffect(() => {
+    if (!leadId || shouldUseAdminMode) return;
+
+    const channel = supabase
+      .channel(`chat-status-${leadId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'chat_mensagens',
+          filter: `lead_id=eq.${leadId}`
+        },
+        (payload) => {
+          const mensagemAtualizada = payload.new as { id: string };
+          setLocalMessages(prev => prev.map(msg =>
+            msg.id === mensagemAtualizada.id ? { ...msg, ...mensagemAtualizada } : msg
+          ));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [leadId, shouldUseAdminMode]);
+
+  /**
+   * 🔁 Reenviar mensagem que falhou
+   * 
+   * Volta o status para 'queued' e chama novamente o webhook de envio.
+   * O novo status (sent/failed) chega pela subscription de UPDATE.
+   */
+  const handleRetry = async (mensagem: any) => {
+    setRetryingIds(prev => [...prev, mensagem.id]);
+    try {
+      await supabase
+        .from('chat_mensagens')
+        .update({ status_entrega: 'queued', erro_entrega: null })
+        .eq('id', mensagem.id);
+
+      const lead = normalChatData.leads.find(l => l.id === mensagem.lead_id);
+      await enviarWebhook(
+        mensagem.id,
+        mensagem.lead_id,
+        mensagem.clinica_id,
+        mensagem.conteudo,
+        mensagem.tipo || 'text',
+        mensagem.created_at,
+        lead?.ai_conversation_enabled || false,
+        mensagem.anexo_url
+      );
+    } catch (error) {
+      console.error('❌ [ChatWindow] Erro ao reenviar mensagem:', error);
+    } finally {
+      setRetryingIds(prev => prev.filter(id => id !== mensagem.id));
+    }
+  };
+
   /**
    * 📜 CORREÇÃO: Scroll Inteligente e Controlado
    * 
@@ -228,76 +301,6 @@ export const ChatWindow = ({ leadId }: ChatWindowProps) => {
     }
   };
 
-  /**
-   * 🎨 Renderizar Conteúdo da Mensagem por Tipo
-   */
-  const renderMessageContent = (mensagem: any) => {
-    const { tipo, conteudo, anexo_url } = mensagem;
-
-    switch (tipo) {
-      case 'imagem':
-        return (
-          <div className="space-y-2">
-            {anexo_url && (
-              <div className="relative max-w-xs">
-                <img 
-                  src={anexo_url} 
-                  alt={conteudo || 'Imagem enviada'}
-                  className="rounded-lg max-w-full h-auto cursor-pointer hover:opacity-90 transition-opacity"
-                  onClick={() => window.open(anexo_url, '_blank')}
-                />
-              </div>
-            )}
-            {conteudo && conteudo !== 'Imagem enviada' && (
-              <p className="text-sm">{conteudo}</p>
-            )}
-          </div>
-        );
-
-      case 'audio':
-        return (
-          <div className="space-y-2">
-            {anexo_url && (
-              <div className="flex items-center gap-2 bg-gray-100 p-3 rounded-lg max-w-xs">
-                <Headphones className="w-5 h-5 text-blue-600" />
-                <div className="flex-1">
-                  <p className="text-sm font-medium">Áudio</p>
-                  <audio controls className="w-full mt-1">
-                    <source src={anexo_url} type="audio/mpeg" />
-                    <source src={anexo_url} type="audio/wav" />
-                    <source src={anexo_url} type="audio/ogg" />
-                    Seu navegador não suporta reprodução de áudio.
-                  </audio>
-                </div>
-              </div>
-            )}
-            {conteudo && conteudo !== 'Áudio enviado' && (
-              <p className="text-sm">{conteudo}</p>
-            )}
-          </div>
-        );
-
-      case 'arquivo':
-        return (
-          <div className="space-y-2">
-            {anexo_url && (
-              <div className="flex items-center gap-2 bg-gray-100 p-3 rounded-lg max-w-xs cursor-pointer hover:bg-gray-200 transition-colors"
-                   onClick={() => window.open(anexo_url, '_blank')}>
-                <FileText className="w-5 h-5 text-blue-600" />
-                <div className="flex-1">
-                  <p className="text-sm font-medium">Arquivo</p>
-                  <p className="text-xs text-gray-600">{conteudo || 'Clique para visualizar'}</p>
-                </div>
-              </div>
-            )}
-          </div>
-        );
-
-      default:
-        return <p className="text-sm">{conteudo}</p>;
-    }
-  };
-
   // 🚫 ESTADO: Nenhum Lead Selecionado
   if (!leadId) {
     return (
@@ -384,7 +387,7 @@ export const ChatWindow = ({ leadId }: ChatWindowProps) => {
                   }`}
                 >
                   {/* 📄 Conteúdo da Mensagem */}
-                  {renderMessageContent(item)}
+                  <MessageContent mensagem={item} isOwn={item.enviado_por === 'usuario'} />
                   
                   {/* 🕐 Timestamp */}
                   <div
@@ -393,8 +396,14 @@ export const ChatWindow = ({ leadId }: ChatWindowProps) => {
                     }`}
                   >
                     {formatMessageTime(item.created_at)}
-                    {!item.lida && item.enviado_por === 'usuario' && (
-                      <span className="ml-2">✓</span>
+                    {item.enviado_por === 'usuario' && (
+                      <MessageStatusIndicator
+                        status={item.status_entrega}
+                        lida={item.lida}
+                        erro={item.erro_entrega}
+                        isRetrying={retryingIds.includes(item.id)}
+                        onRetry={shouldUseAdminMode ? undefined : () => handleRetry(item)}
+                      />
                     )}
                   </div>
                 </div>
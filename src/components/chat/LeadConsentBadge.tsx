@@ -0,0 +1,117 @@
+import { ShieldCheck, ShieldOff } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  CanalConsentimento,
+  ORIGENS_CONSENTIMENTO,
+  useLeadConsent,
+  useRegisterLeadConsent,
+} from '@/hooks/useLeadConsent';
+
+/**
+ * Selo de consentimento de contato do lead (LGPD)
+ *
+ * O que faz:
+ * - Mostra se o lead autoriza mensagens no canal (WhatsApp ou Instagram) ou pediu opt-out,
+ *   com data e origem da última mudança
+ * - Ao clicar: histórico de consentimento e botão para a equipe registrar opt-out / opt-in
+ *
+ * Onde é usado:
+ * - LeadInfoSidebar, junto ao telefone do lead
+ */
+
+interface LeadConsentBadgeProps {
+  leadId: string;
+  clinicaId: string | null;
+  canal: CanalConsentimento;
+}
+
+const NOMES_CANAL: Record<CanalConsentimento, string> = {
+  whatsapp: 'WhatsApp',
+  instagram: 'Instagram',
+};
+
+const formatarData = (data: string) =>
+  new Date(data).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+export const LeadConsentBadge = ({ leadId, clinicaId, canal }: LeadConsentBadgeProps) => {
+  const { data: consentimento, isLoading } = useLeadConsent(leadId);
+  const registrarConsentimento = useRegisterLeadConsent();
+
+  if (isLoading) return null;
+
+  const atual = consentimento?.atual[canal];
+  const optOut = atual?.status === 'revogado';
+  const historico = (consentimento?.historico || []).filter((registro) => registro.canal === canal);
+
+  const handleRegistrar = () => {
+    if (!clinicaId) return;
+    registrarConsentimento.mutate({
+      leadId,
+      clinicaId,
+      canal,
+      status: optOut ? 'concedido' : 'revogado',
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button">
+          <Badge
+            variant="outline"
+            className={`gap-1 ${optOut ? 'border-red-300 bg-red-50 text-red-700' : 'border-green-300 bg-green-50 text-green-700'}`}
+          >
+            {optOut ? <ShieldOff className="w-3 h-3" /> : <ShieldCheck className="w-3 h-3" />}
+            {optOut ? 'Opt-out' : 'Contato autorizado'}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        <div>
+          <p className="text-sm font-medium">Consentimento - {NOMES_CANAL[canal]}</p>
+          <p className="text-xs text-gray-500">
+            {atual
+              ? `${optOut ? 'Opt-out' : 'Autorizado'} em ${formatarData(atual.created_at)} (${ORIGENS_CONSENTIMENTO[atual.origem]})`
+              : 'Sem pedido de opt-out registrado'}
+          </p>
+          {optOut && (
+            <p className="text-xs text-red-600 mt-1">
+              Mensagens do CRM e follow-ups não são enviados para este lead.
+            </p>
+          )}
+        </div>
+
+        {historico.length > 0 && (
+          <div className="max-h-40 overflow-y-auto border rounded divide-y">
+            {historico.map((registro) => (
+              <div key={registro.id} className="px-2 py-1 text-xs">
+                <div className="flex justify-between">
+                  <span className={registro.status === 'revogado' ? 'text-red-600' : 'text-green-600'}>
+                    {registro.status === 'revogado' ? 'Opt-out' : 'Autorizado'}
+                  </span>
+                  <span className="text-gray-500">{formatarData(registro.created_at)}</span>
+                </div>
+                <div className="text-gray-500">
+                  {ORIGENS_CONSENTIMENTO[registro.origem]}
+                  {registro.detalhes && `: "${registro.detalhes}"`}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Button
+          size="sm"
+          variant={optOut ? 'default' : 'outline'}
+          className="w-full"
+          onClick={handleRegistrar}
+          disabled={!clinicaId || registrarConsentimento.isPending}
+        >
+          {optOut ? 'Registrar nova autorização' : 'Registrar opt-out'}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
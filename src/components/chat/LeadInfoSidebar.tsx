@@ -15,6 +15,7 @@ import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAdAliases } from '@/hooks/useAdAliases';
 import { RegistroAgendamentoModal } from '@/components/agendamentos/RegistroAgendamentoModal';
+import { LeadConsentBadge } from '@/components/chat/LeadConsentBadge';
 import { toast } from 'sonner';
 
 /**
@@ -27,6 +28,7 @@ import { toast } from 'sonner';
  * - Tags e anotações
  * - Histórico de conversões e LTV
  * - Origem do lead e serviços de interesse
+ * - Consentimento de contato (opt-out LGPD) do canal do lead
  */
 
 interface LeadInfoSidebarProps {
@@ -367,6 +369,15 @@ export const LeadInfoSidebar = ({ lead, onClose }: LeadInfoSidebarProps) => {
                 <span className="text-sm">{formatPhoneNumber(lead.telefone)}</span>
               )}
             </div>
+            {!isEditing && (lead.telefone || lead.id_direct) && (
+              <div className="pl-7">
+                <LeadConsentBadge
+                  leadId={lead.id}
+                  clinicaId={lead.clinica_id}
+                  canal={lead.id_direct ? 'instagram' : 'whatsapp'}
+                />
+              </div>
+            )}
             <div className="flex items-center space-x-3">
               <Mail className="w-4 h-4 text-gray-400" />
               {isEditing ? (
@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { Download, FileText, Headphones, MapPin, User, Phone, AlertCircle, Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { useSignedMediaUrl } from '@/hooks/useSignedMediaUrl';
+
+/**
+ * 🎨 Conteúdo de uma mensagem do chat, renderizado de acordo com o tipo
+ *
+ * 📋 TIPOS SUPORTADOS (coluna chat_mensagens.tipo):
+ * - texto: texto simples
+ * - imagem: miniatura com visualização ampliada (lightbox)
+ * - audio: player de áudio
+ * - video: player de vídeo
+ * - arquivo: cartão de documento com download
+ * - localizacao: pino com link para o mapa
+ * - contato: cartão com nome e telefones
+ *
+ * 📍 ONDE É USADO:
+ * - ChatWindow, dentro de cada balão de mensagem
+ */
+
+// Campos possíveis em chat_mensagens.metadados, de acordo com o tipo da mensagem
+interface MessageMetadados {
+  mimetype?: string | null;
+  file_name?: string | null;
+  file_size?: number | null;
+  latitude?: number;
+  longitude?: number;
+  name?: string | null;
+  address?: string | null;
+  contacts?: { name: string; phones: string[] }[];
+}
+
+interface MessageContentProps {
+  mensagem: {
+    tipo?: string | null;
+    conteudo?: string | null;
+    anexo_url?: string | null;
+    metadados?: unknown;
+  };
+  isOwn: boolean; // Mensagem enviada pelo usuário do CRM (balão azul)
+}
+
+// Legendas padrão geradas pelo CRM e pela receive-message que não precisam ser exibidas
+const LEGENDAS_PADRAO = [
+  'Imagem enviada',
+  'Imagem recebida',
+  'Áudio enviado',
+  'Áudio recebido',
+  'Vídeo recebido',
+  'Documento recebido',
+];
+
+/**
+ * 📏 Formatar tamanho do arquivo em KB/MB
+ */
+const formatFileSize = (bytes?: number | null) => {
+  if (!bytes) return null;
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const MessageContent = ({ mensagem, isOwn }: MessageContentProps) => {
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const { tipo, conteudo } = mensagem;
+  // Mídias privadas ("minio://" e "storage://") são exibidas por URL assinada
+  const { url: anexo_url, isLoading: isLoadingMedia } = useSignedMediaUrl(mensagem.anexo_url);
+  const metadados = (mensagem.metadados || {}) as MessageMetadados;
+
+  const cardClass = isOwn ? 'bg-blue-500/40' : 'bg-gray-100';
+  const iconClass = isOwn ? 'text-white' : 'text-blue-600';
+  const secondaryTextClass = isOwn ? 'text-blue-100' : 'text-gray-600';
+
+  const caption = conteudo && !LEGENDAS_PADRAO.includes(conteudo) ? conteudo : null;
+
+  // ⚠️ Mídia que não pôde ser salva na receive-message (ou URL assinada ainda carregando)
+  const renderMissingMedia = (label: string) => (
+    <div className={`flex items-center gap-2 p-3 rounded-lg max-w-xs ${cardClass}`}>
+      {isLoadingMedia ? (
+        <Loader2 className={`w-5 h-5 animate-spin ${iconClass}`} />
+      ) : (
+        <AlertCircle className={`w-5 h-5 ${iconClass}`} />
+      )}
+      <p className={`text-xs ${secondaryTextClass}`}>
+        {isLoadingMedia ? `Carregando ${label.toLowerCase()}...` : `${label} indisponível`}
+      </p>
+    </div>
+  );
+
+  switch (tipo) {
+    case 'imagem':
+    case 'image':
+      return (
+        <div className="space-y-2">
+          {anexo_url ? (
+            <div className="relative max-w-xs">
+              <img
+                src={anexo_url}
+                alt={conteudo || 'Imagem'}
+                className="rounded-lg max-w-full h-auto cursor-pointer hover:opacity-90 transition-opacity"
+                onClick={() => setIsLightboxOpen(true)}
+              />
+              {/* 🔍 Lightbox para visualização ampliada */}
+              <Dialog open={isLightboxOpen} onOpenChange={setIsLightboxOpen}>
+                <DialogContent className="max-w-4xl p-2 bg-black border-none">
+                  <DialogTitle className="sr-only">{caption || 'Imagem'}</DialogTitle>
+                  <img
+                    src={anexo_url}
+                    alt={conteudo || 'Imagem'}
+                    className="max-h-[80vh] w-full object-contain rounded"
+                  />
+                  {caption && <p className="text-sm text-white text-center py-2">{caption}</p>}
+                </DialogContent>
+              </Dialog>
+            </div>
+          ) : renderMissingMedia('Imagem')}
+          {caption && <p className="text-sm">{caption}</p>}
+        </div>
+      );
+
+    case 'audio':
+      return (
+        <div className="space-y-2">
+          {anexo_url ? (
+            <div className={`flex items-center gap-2 p-3 rounded-lg max-w-xs ${cardClass}`}>
+              <Headphones className={`w-5 h-5 ${iconClass}`} />
+              <div className="flex-1">
+                <p className="text-sm font-medium">Áudio</p>
+                <audio controls className="w-full mt-1" preload="metadata">
+                  {metadados.mimetype && <source src={anexo_url} type={metadados.mimetype} />}
+                  <source src={anexo_url} type="audio/mpeg" />
+                  <source src={anexo_url} type="audio/wav" />
+                  <source src={anexo_url} type="audio/ogg" />
+                  Seu navegador não suporta reprodução de áudio.
+                </audio>
+              </div>
+            </div>
+          ) : renderMissingMedia('Áudio')}
+          {caption && <p className="text-sm">{caption}</p>}
+        </div>
+      );
+
+    case 'video':
+      return (
+        <div className="space-y-2">
+          {anexo_url ? (
+            <video controls className="rounded-lg max-w-xs w-full" preload="metadata">
+              <source src={anexo_url} type={metadados.mimetype || 'video/mp4'} />
+              Seu navegador não suporta reprodução de vídeo.
+            </video>
+          ) : renderMissingMedia('Vídeo')}
+          {caption && <p className="text-sm">{caption}</p>}
+        </div>
+      );
+
+    case 'arquivo': {
+      const fileName = metadados.file_name || conteudo || 'Arquivo';
+      const fileSize = formatFileSize(metadados.file_size);
+
+      return (
+        <div className="space-y-2">
+          {anexo_url ? (
+            <a
+              href={anexo_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              download={fileName}
+              className={`flex items-center gap-2 p-3 rounded-lg max-w-xs transition-opacity hover:opacity-80 ${cardClass}`}
+            >
+              <FileText className={`w-5 h-5 flex-shrink-0 ${iconClass}`} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{fileName}</p>
+                <p className={`text-xs ${secondaryTextClass}`}>
+                  {fileSize || 'Clique para baixar'}
+                </p>
+              </div>
+              <Download className={`w-4 h-4 flex-shrink-0 ${iconClass}`} />
+            </a>
+          ) : renderMissingMedia('Arquivo')}
+          {caption && caption !== fileName && <p className="text-sm">{caption}</p>}
+        </div>
+      );
+    }
+
+    case 'localizacao': {
+      const { latitude, longitude, name, address } = metadados;
+      const mapsUrl = `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
+
+      return (
+        <a
+          href={mapsUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`flex items-start gap-2 p-3 rounded-lg max-w-xs transition-opacity hover:opacity-80 ${cardClass}`}
+        >
+          <MapPin className={`w-5 h-5 flex-shrink-0 mt-0.5 ${iconClass}`} />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium">{name || 'Localização compartilhada'}</p>
+            {address && <p className={`text-xs ${secondaryTextClass}`}>{address}</p>}
+            <p className={`text-xs mt-1 underline ${secondaryTextClass}`}>Abrir no mapa</p>
+          </div>
+        </a>
+      );
+    }
+
+    case 'contato': {
+      const contacts = metadados.contacts || [];
+
+      return (
+        <div className="space-y-2">
+          {contacts.map((contact, index) => (
+            <div key={index} className={`flex items-start gap-2 p-3 rounded-lg max-w-xs ${cardClass}`}>
+              <User className={`w-5 h-5 flex-shrink-0 mt-0.5 ${iconClass}`} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium">{contact.name}</p>
+                {contact.phones?.map((phone) => (
+                  <p key={phone} className={`text-xs flex items-center gap-1 ${secondaryTextClass}`}>
+                    <Phone className="w-3 h-3" />
+                    {phone}
+                  </p>
+                ))}
+              </div>
+            </div>
+          ))}
+          {contacts.length === 0 && <p className="text-sm">{conteudo}</p>}
+        </div>
+      );
+    }
+
+    default:
+      return <p className="text-sm">{conteudo}</p>;
+  }
+};
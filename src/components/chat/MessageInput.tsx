@@ -4,6 +4,7 @@ import { Send, Paperclip, Zap, Bot, Smile } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ContextoTemplate, renderizarTemplate } from '../../../supabase/functions/_shared/templateEngine';
 
 /**
  * Componente de entrada de mensagem avançado
@@ -14,7 +15,7 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
  * - Seleção de arquivos de mídia (imagens e áudios)
  * - Botões para anexos, respostas prontas, IA e emojis
  * - Controle granular de ativação da IA com estado persistente
- * - Integração com respostas prontas via atalhos
+ * - Integração com respostas prontas via atalhos (variáveis preenchidas com os dados do lead)
  * - Validação de entrada e loading states
  * - Visual aprimorado para o botão de IA com gradiente quando ativo
  */
@@ -31,6 +32,7 @@ interface MessageInputProps {
     conteudo: string;
     atalho?: string;
   }>;
+  contextoTemplate?: ContextoTemplate; // Variáveis do lead para as respostas prontas
   // Props para controle da IA
   aiEnabled: boolean;
   onToggleAI: () => void;
@@ -45,6 +47,7 @@ export const MessageInput = ({
   onFileSelect, // Nova prop para lidar com seleção de arquivos
   loading = false,
   respostasProntas = [],
+  contextoTemplate,
   aiEnabled,
   onToggleAI,
   isAIInitializing = false,
@@ -99,7 +102,7 @@ export const MessageInput = ({
 
   // Função para inserir resposta pronta
   const inserirRespostaPronta = (conteudo: string) => {
-    onChange(conteudo);
+    onChange(contextoTemplate ? renderizarTemplate(conteudo, contextoTemplate) : conteudo);
     setShowRespostasProntas(false);
     textareaRef.current?.focus();
   };
@@ -0,0 +1,82 @@
+import { Check, CheckCheck, Clock, AlertCircle, RotateCcw, Loader2 } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+
+/**
+ * ✔️ Indicador de status de entrega de uma mensagem enviada pelo CRM
+ *
+ * 📋 STATUS (coluna chat_mensagens.status_entrega):
+ * - queued: relógio (aguardando envio ao WhatsApp)
+ * - sent: um tique (aceita pelo n8n/Evolution)
+ * - delivered: dois tiques (entregue no aparelho do paciente)
+ * - read: dois tiques destacados (lida pelo paciente)
+ * - failed: alerta com o motivo e botão para reenviar
+ *
+ * Mensagens antigas sem status usam o campo `lida` como antes.
+ *
+ * 📍 ONDE É USADO:
+ * - ChatWindow, ao lado do horário das mensagens enviadas pelo usuário
+ */
+
+interface MessageStatusIndicatorProps {
+  status?: string | null;
+  lida?: boolean | null;
+  erro?: string | null;
+  isRetrying?: boolean;
+  onRetry?: () => void;
+}
+
+export const MessageStatusIndicator = ({
+  status,
+  lida,
+  erro,
+  isRetrying = false,
+  onRetry,
+}: MessageStatusIndicatorProps) => {
+  if (isRetrying) {
+    return <Loader2 className="inline w-3 h-3 ml-2 animate-spin" aria-label="Reenviando" />;
+  }
+
+  switch (status) {
+    case 'queued':
+      return <Clock className="inline w-3 h-3 ml-2" aria-label="Enviando" />;
+
+    case 'sent':
+      return <Check className="inline w-3 h-3 ml-2" aria-label="Enviada" />;
+
+    case 'delivered':
+      return <CheckCheck className="inline w-3 h-3 ml-2" aria-label="Entregue" />;
+
+    case 'read':
+      return <CheckCheck className="inline w-3 h-3 ml-2 text-sky-300" aria-label="Lida" />;
+
+    case 'failed':
+      return (
+        <TooltipProvider>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <span className="inline-flex items-center ml-2 gap-1">
+                <AlertCircle className="w-3 h-3 text-red-300" aria-label="Falha no envio" />
+                {onRetry && (
+                  <button
+                    type="button"
+                    onClick={onRetry}
+                    className="inline-flex items-center gap-0.5 underline hover:no-underline"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                    Tentar novamente
+                  </button>
+                )}
+              </span>
+            </TooltipTrigger>
+            <TooltipContent>
+              <p className="max-w-xs text-xs">{erro || 'Falha ao enviar a mensagem'}</p>
+            </TooltipContent>
+          </Tooltip>
+        </TooltipProvider>
+      );
+
+    default:
+      // Compatibilidade com mensagens anteriores ao status de entrega
+      return !lida ? <span className="ml-2">✓</span> : null;
+  }
+};
@@ -4,12 +4,19 @@
  * 
  * O que faz:
  * - Formata números brasileiros no padrão (XX) XXXXX-XXXX
- * - Trata números com 10 e 11 dígitos
+ * - Trata números com 10 e 11 dígitos, com ou sem o código do país (55)
+ * - Reexporta o normalizador E.164 compartilhado com as Edge Functions,
+ *   usado para comparar telefones e detectar leads duplicados
  * 
  * Onde é usado:
  * - ChatPage para exibir telefones formatados
+ * - useLeadDuplicates para agrupar contatos com o mesmo telefone
  */
 
+import { normalizarTelefone } from '../../../../supabase/functions/_shared/phoneNormalizer';
+
+export { normalizarTelefone, mesmoTelefone } from '../../../../supabase/functions/_shared/phoneNormalizer';
+
 /**
  * Função para formatar números de telefone no padrão brasileiro
  * Converte números como "84987759827" para "(84) 98775-9827"
@@ -18,7 +25,13 @@ export const formatPhoneNumber = (phone: string | null | undefined): string => {
   if (!phone) return 'Telefone não informado';
   
   // Remove todos os caracteres não numéricos
-  const cleanPhone = phone.replace(/\D/g, '');
+  let cleanPhone = phone.replace(/\D/g, '');
+
+  // Números brasileiros com código do país (ex: 5584987759827) usam a parte nacional
+  const normalizedPhone = normalizarTelefone(phone);
+  if (normalizedPhone?.startsWith('+55') && cleanPhone.length > 11) {
+    cleanPhone = normalizedPhone.slice(3);
+  }
   
   // Se tem 11 dígitos (celular com 9 na frente)
   if (cleanPhone.length === 11) {
@@ -3,6 +3,7 @@ import React from 'react';
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Download, Trash2, Tag } from 'lucide-react';
+import { FollowupBulkSendDialog } from '@/components/followup/FollowupBulkSendDialog';
 
 /**
  * Barra de ações em massa para contatos selecionados
@@ -11,12 +12,14 @@ import { Download, Trash2, Tag } from 'lucide-react';
  * - Exportar contatos selecionados
  * - Deletar contatos em massa
  * - Atualizar status/etapa em massa
+ * - Enviar follow-up manual em massa (FollowupBulkSendDialog)
  * 
  * ONDE É USADO:
  * - ClientsPage quando há contatos selecionados
  */
 interface ClientsActionsBarProps {
   selectedCount: number;
+  selectedLeadIds: string[];
   onExport: () => Promise<void>;
   onDelete: () => Promise<void>;
   onStatusUpdate: (etapaId: string) => Promise<void>;
@@ -25,6 +28,7 @@ interface ClientsActionsBarProps {
 
 export const ClientsActionsBar: React.FC<ClientsActionsBarProps> = ({
   selectedCount,
+  selectedLeadIds,
   onExport,
   onDelete,
   onStatusUpdate,
@@ -40,6 +44,8 @@ export const ClientsActionsBar: React.FC<ClientsActionsBarProps> = ({
         </div>
         
         <div className="flex items-center gap-2">
+          <FollowupBulkSendDialog leadIds={selectedLeadIds} />
+
           <Button
             variant="outline"
             size="sm"
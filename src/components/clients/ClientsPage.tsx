@@ -11,6 +11,8 @@ import { ActiveFiltersDisplay } from './ActiveFiltersDisplay';
 import { Button } from '@/components/ui/button';
 import { RefreshCw } from 'lucide-react';
 import { LeadModal } from '@/components/kanban/LeadModal';
+import { DuplicateLeadsDialog } from './DuplicateLeadsDialog';
+import { useLeadDuplicates } from '@/hooks/useLeadDuplicates';
 
 /**
  * Página principal de clientes/contatos da clínica - REFATORADA
@@ -18,8 +20,9 @@ import { LeadModal } from '@/components/kanban/LeadModal';
  * FUNCIONALIDADES:
  * - Lista todos os contatos/leads da clínica
  * - Permite busca e filtros avançados
- * - Ações em massa (deletar, atualizar status, exportar)
+ * - Ações em massa (deletar, atualizar status, exportar, follow-up)
  * - Modal para edição de leads
+ * - Detecção e mesclagem de contatos duplicados
  * - Paginação de resultados
  * - Estados de carregamento e vazio
  * 
@@ -39,6 +42,7 @@ export const ClientsPage = () => {
     loading,
     tags,
     etapas,
+    leads,
     searchQuery,
     setSearchQuery,
     isFilterOpen,
@@ -69,6 +73,10 @@ export const ClientsPage = () => {
   // Estados locais para modal
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedLeadForEdit, setSelectedLeadForEdit] = useState(null);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+
+  // Contatos duplicados (mesmo telefone, e-mail ou Instagram + WhatsApp)
+  const { duplicateGroups, mergeLeads, isMerging } = useLeadDuplicates(leads);
 
   // Função para abrir modal de adicionar lead
   const handleOpenAddModal = () => {
@@ -109,12 +117,15 @@ export const ClientsPage = () => {
       {/* Cabeçalho da página */}
       <ClientsPageHeader 
         onAddLead={handleOpenAddModal}
+        duplicateCount={duplicateGroups.length}
+        onOpenDuplicates={() => setIsDuplicatesOpen(true)}
       />
 
       {/* Barra de ações quando há contatos selecionados */}
       {hasSelection && (
         <ClientsActionsBar
           selectedCount={selectedLeadIds.length}
+          selectedLeadIds={selectedLeadIds}
           onExport={handleExportContacts}
           onDelete={handleDeleteSelected}
           onStatusUpdate={handleBulkStatusUpdate}
@@ -200,6 +211,15 @@ export const ClientsPage = () => {
         onSave={handleSaveLeadData}
         etapas={etapas}
       />
+
+      {/* Diálogo de contatos duplicados */}
+      <DuplicateLeadsDialog
+        isOpen={isDuplicatesOpen}
+        onClose={() => setIsDuplicatesOpen(false)}
+        groups={duplicateGroups}
+        onMerge={(principalId, duplicadoIds) => mergeLeads({ principalId, duplicadoIds })}
+        isMerging={isMerging}
+      />
     </div>
   );
 };
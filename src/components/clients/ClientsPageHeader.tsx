@@ -1,33 +1,46 @@
 
 import React from 'react';
-import { Plus } from 'lucide-react';
+import { Plus, Users } from 'lucide-react';
 import { Button } from "@/components/ui/button";
 
 /**
  * Cabeçalho da página de Contatos.
- * Exibe o título da página e o botão para adicionar um novo lead.
+ * Exibe o título da página, o botão para adicionar um novo lead e o
+ * atalho para revisar contatos duplicados.
  * 
  * Props:
  * - onAddLead: Função a ser chamada ao clicar no botão "Adicionar Lead".
+ * - duplicateCount: Quantidade de grupos de contatos duplicados.
+ * - onOpenDuplicates: Abre o diálogo de contatos duplicados.
  * 
  * Onde é usado:
  * - ClientsPage.tsx
  */
 interface ClientsPageHeaderProps {
   onAddLead: () => void;
+  duplicateCount: number;
+  onOpenDuplicates: () => void;
 }
 
-export const ClientsPageHeader: React.FC<ClientsPageHeaderProps> = ({ onAddLead }) => {
+export const ClientsPageHeader: React.FC<ClientsPageHeaderProps> = ({ onAddLead, duplicateCount, onOpenDuplicates }) => {
   return (
     <div className="flex items-center justify-between">
       <div>
         <h1 className="text-2xl font-bold text-gray-900">Contatos</h1>
         <p className="text-gray-600 mt-1">Gerencie sua base de contatos e leads</p>
       </div>
-      <Button onClick={onAddLead}>
-        <Plus className="mr-2 h-4 w-4" />
-        Adicionar Lead
-      </Button>
+      <div className="flex items-center gap-2">
+        {duplicateCount > 0 && (
+          <Button variant="outline" onClick={onOpenDuplicates}>
+            <Users className="mr-2 h-4 w-4" />
+            Duplicados ({duplicateCount})
+          </Button>
+        )}
+        <Button onClick={onAddLead}>
+          <Plus className="mr-2 h-4 w-4" />
+          Adicionar Lead
+        </Button>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Loader2, Merge, Phone, Mail, Instagram } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { formatPhoneNumber } from '@/components/chat/utils/phoneFormatter';
+import type { DuplicateGroup, DuplicateReason } from '@/hooks/useLeadDuplicates';
+
+/**
+ * Diálogo de contatos duplicados
+ *
+ * Lista os grupos de leads que parecem ser a mesma pessoa e permite escolher
+ * qual lead será mantido. Os demais do grupo são mesclados nele: mensagens,
+ * agendamentos, execuções de follow-up e tag passam para o lead mantido.
+ *
+ * Props:
+ * - groups: grupos detectados pelo hook useLeadDuplicates
+ * - onMerge: mescla os duplicados no lead escolhido
+ *
+ * Onde é usado:
+ * - ClientsPage.tsx
+ */
+
+interface DuplicateLeadsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  groups: DuplicateGroup[];
+  onMerge: (principalId: string, duplicadoIds: string[]) => void;
+  isMerging: boolean;
+}
+
+const REASON_LABELS: Record<DuplicateReason, { label: string; icon: React.ElementType }> = {
+  telefone: { label: 'Mesmo telefone', icon: Phone },
+  email: { label: 'Mesmo e-mail', icon: Mail },
+  instagram: { label: 'Instagram com o mesmo nome', icon: Instagram },
+};
+
+export const DuplicateLeadsDialog: React.FC<DuplicateLeadsDialogProps> = ({
+  isOpen,
+  onClose,
+  groups,
+  onMerge,
+  isMerging,
+}) => {
+  // Lead escolhido para ser mantido em cada grupo (padrão: o mais antigo)
+  const [principalPorGrupo, setPrincipalPorGrupo] = useState<Record<string, string>>({});
+
+  const getPrincipalId = (group: DuplicateGroup) => {
+    if (principalPorGrupo[group.key]) return principalPorGrupo[group.key];
+    const maisAntigo = [...group.leads].sort((a, b) =>
+      (a.created_at || '').localeCompare(b.created_at || '')
+    )[0];
+    return maisAntigo.id;
+  };
+
+  const handleMerge = (group: DuplicateGroup) => {
+    const principalId = getPrincipalId(group);
+    onMerge(principalId, group.leads.filter((lead) => lead.id !== principalId).map((lead) => lead.id));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Contatos duplicados</DialogTitle>
+          <DialogDescription>
+            Escolha o contato que será mantido. O histórico dos demais será transferido para ele.
+          </DialogDescription>
+        </DialogHeader>
+
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">Nenhum contato duplicado encontrado.</p>
+        ) : (
+          <div className="space-y-4">
+            {groups.map((group) => {
+              const { label, icon: Icon } = REASON_LABELS[group.reason];
+
+              return (
+                <div key={group.key} className="border rounded-lg p-4 space-y-3">
+                  <Badge variant="secondary" className="flex items-center gap-1 w-fit">
+                    <Icon className="h-3 w-3" />
+                    {label}
+                  </Badge>
+
+                  <RadioGroup
+                    value={getPrincipalId(group)}
+                    onValueChange={(value) => setPrincipalPorGrupo((prev) => ({ ...prev, [group.key]: value }))}
+                    className="space-y-2"
+                  >
+                    {group.leads.map((lead) => (
+                      <div key={lead.id} className="flex items-start space-x-2">
+                        <RadioGroupItem value={lead.id} id={`${group.key}-${lead.id}`} className="mt-1" />
+                        <Label htmlFor={`${group.key}-${lead.id}`} className="flex flex-col gap-1 font-normal">
+                          <span className="font-medium">{lead.nome || 'Sem nome'}</span>
+                          <span className="text-sm text-gray-500">
+                            {lead.telefone ? formatPhoneNumber(lead.telefone) : 'Sem telefone'}
+                            {lead.email && ` · ${lead.email}`}
+                            {lead.id_direct && ' · Instagram'}
+                            {lead.created_at && ` · Criado em ${new Date(lead.created_at).toLocaleDateString('pt-BR')}`}
+                          </span>
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+
+                  <div className="flex justify-end">
+                    <Button size="sm" onClick={() => handleMerge(group)} disabled={isMerging}>
+                      {isMerging ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Merge className="mr-2 h-4 w-4" />
+                      )}
+                      Mesclar no selecionado
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,7 +1,7 @@
 
 import { ChartCard } from './ChartCard';
 import { AdPerformanceCard } from './AdPerformanceCard';
-import { TrendingUp } from 'lucide-react';
+import { ServiceRevenueCard } from './ServiceRevenueCard';
 import { DashboardMetrics } from '@/hooks/dashboard/types';
 
 /**
@@ -10,7 +10,7 @@ import { DashboardMetrics } from '@/hooks/dashboard/types';
  * O que faz:
  * - Renderiza os gráficos de leads e conversões
  * - Exibe a performance de anúncios
- * - Inclui espaço reservado para futuras métricas
+ * - Exibe o faturamento por serviço do catálogo
  * 
  * Onde é usado:
  * - Componente Dashboard principal
@@ -59,13 +59,8 @@ export const DashboardCharts = ({ dashboardData, filteredRawLeads }: DashboardCh
           data={dashboardData?.conversoesPorCategoria || []}
         />
         
-        {/* Espaço para futuro gráfico ou card adicional */}
-        <div className="bg-white rounded-lg p-6 border border-gray-200 flex items-center justify-center">
-          <div className="text-center text-gray-500">
-            <TrendingUp className="h-12 w-12 mx-auto mb-4 text-gray-300" />
-            <p className="text-sm">Espaço reservado para futuras métricas</p>
-          </div>
-        </div>
+        {/* Faturamento por serviço */}
+        <ServiceRevenueCard data={dashboardData?.faturamentoPorServico || []} />
       </div>
     </>
   );
@@ -0,0 +1,78 @@
+/**
+ * Componente para exibir o faturamento por serviço no dashboard
+ *
+ * O que faz:
+ * - Exibe o ranking dos serviços do catálogo pelo faturamento realizado no período
+ * - Mostra a quantidade de atendimentos e a participação de cada serviço no total
+ *
+ * Onde é usado:
+ * - DashboardCharts, ao lado do gráfico de conversões por categoria
+ *
+ * Como se conecta:
+ * - Recebe dados processados pelo dashboardService (processarFaturamentoPorServico)
+ * - Os agendamentos são agrupados pelo serviço vinculado (agendamentos.servico_id)
+ */
+
+import { DollarSign } from 'lucide-react';
+
+interface ServiceRevenueData {
+  servico: string;
+  faturamento: number;
+  atendimentos: number;
+}
+
+interface ServiceRevenueCardProps {
+  data: ServiceRevenueData[];
+}
+
+const formatarMoeda = (valor: number) =>
+  valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+
+export const ServiceRevenueCard = ({ data }: ServiceRevenueCardProps) => {
+  const total = data.reduce((soma, item) => soma + item.faturamento, 0);
+
+  return (
+    <div className="bg-white rounded-lg p-6 border border-gray-200 flex flex-col">
+      {/* Header do card */}
+      <div className="mb-6">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <DollarSign className="h-5 w-5 text-green-600" />
+          Faturamento por Serviço
+        </h3>
+        <p className="text-sm text-gray-600 mt-1">
+          Agendamentos realizados e pagos no período
+        </p>
+      </div>
+
+      {data.length === 0 ? (
+        <div className="flex items-center justify-center h-32">
+          <p className="text-gray-500 text-sm">Nenhum atendimento realizado no período</p>
+        </div>
+      ) : (
+        <div className="space-y-4 overflow-y-auto max-h-72 pr-1">
+          {data.map((item) => {
+            const participacao = total > 0 ? (item.faturamento / total) * 100 : 0;
+
+            return (
+              <div key={item.servico} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium text-gray-900 truncate">{item.servico}</span>
+                  <span className="text-gray-900 font-semibold ml-2">{formatarMoeda(item.faturamento)}</span>
+                </div>
+                <div className="w-full bg-gray-100 rounded-full h-2">
+                  <div
+                    className="bg-green-500 h-2 rounded-full"
+                    style={{ width: `${participacao}%` }}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">
+                  {item.atendimentos} atendimento(s) · {Math.round(participacao)}% do total
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,316 @@
+import { Fragment, useState } from 'react';
+import { BarChart3, FlaskConical, TrendingDown, TrendingUp } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  FollowupMetricas,
+  FollowupVariantAnalytics,
+  useFollowupAnalytics,
+  useFollowupVariantAnalytics,
+} from '@/hooks/useFollowupAnalytics';
+import { useUpdateFollowupTemplateVariant } from '@/hooks/useFollowupData';
+import { AMOSTRA_MINIMA_AB, compararProporcoes } from '@/utils/abTestUtils';
+
+/**
+ * Métricas das campanhas de follow-up
+ *
+ * O que faz:
+ * - Mostra por campanha e por etapa: enviados, falhas, leads que responderam
+ *   dentro da janela escolhida e leads que agendaram
+ * - Compara o período selecionado com o período anterior de mesmo tamanho
+ * - Em etapas com teste A/B, mostra cada variante contra a de controle (a primeira pelo nome)
+ *   com indicador de significância, e permite desativar as variantes perdedoras
+ *
+ * Onde é usado:
+ * - Aba "Métricas" do FollowupManagement
+ *
+ * Como se conecta:
+ * - useFollowupAnalytics (função SQL follow_up_metricas, calculada a partir de
+ *   follow_up_execucoes, chat_mensagens e agendamentos)
+ * - useFollowupVariantAnalytics (função SQL follow_up_metricas_variantes) e abTestUtils
+ */
+
+const PERIODOS = [
+  { value: '7', label: 'Últimos 7 dias' },
+  { value: '30', label: 'Últimos 30 dias' },
+  { value: '90', label: 'Últimos 90 dias' },
+];
+
+const JANELAS_RESPOSTA = [
+  { value: '1', label: 'Resposta em até 1 dia' },
+  { value: '3', label: 'Resposta em até 3 dias' },
+  { value: '7', label: 'Resposta em até 7 dias' },
+];
+
+const JANELAS_CONVERSAO = [
+  { value: '7', label: 'Agendamento em até 7 dias' },
+  { value: '30', label: 'Agendamento em até 30 dias' },
+];
+
+const taxa = (parte: number, total: number) => (total > 0 ? (parte / total) * 100 : 0);
+
+const formatarTaxa = (valor: number) => `${valor.toFixed(1).replace('.', ',')}%`;
+
+// Variação em relação ao período anterior (pontos percentuais para taxas)
+const Variacao = ({ atual, anterior, sufixo = '' }: { atual: number; anterior: number; sufixo?: string }) => {
+  const diferenca = atual - anterior;
+  if (Math.abs(diferenca) < 0.05) {
+    return <span className="text-xs text-gray-400">=</span>;
+  }
+
+  const Icone = diferenca > 0 ? TrendingUp : TrendingDown;
+  return (
+    <span className={`inline-flex items-center gap-0.5 text-xs ${diferenca > 0 ? 'text-green-600' : 'text-red-600'}`}>
+      <Icone className="w-3 h-3" />
+      {diferenca > 0 ? '+' : ''}
+      {Number.isInteger(diferenca) ? diferenca : diferenca.toFixed(1).replace('.', ',')}
+      {sufixo}
+    </span>
+  );
+};
+
+const ResumoMetricas = ({ atual, anterior }: { atual: FollowupMetricas; anterior: FollowupMetricas }) => {
+  const itens = [
+    { label: 'Enviados', valor: String(atual.enviados), atual: atual.enviados, anterior: anterior.enviados, sufixo: '' },
+    { label: 'Falhas', valor: String(atual.falhas), atual: atual.falhas, anterior: anterior.falhas, sufixo: '' },
+    {
+      label: 'Responderam',
+      valor: formatarTaxa(taxa(atual.respondidos, atual.enviados)),
+      atual: taxa(atual.respondidos, atual.enviados),
+      anterior: taxa(anterior.respondidos, anterior.enviados),
+      sufixo: ' p.p.',
+    },
+    {
+      label: 'Agendaram',
+      valor: formatarTaxa(taxa(atual.convertidos, atual.enviados)),
+      atual: taxa(atual.convertidos, atual.enviados),
+      anterior: taxa(anterior.convertidos, anterior.enviados),
+      sufixo: ' p.p.',
+    },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      {itens.map((item) => (
+        <div key={item.label} className="p-3 bg-gray-50 rounded-lg">
+          <p className="text-xs text-gray-500">{item.label}</p>
+          <p className="text-lg font-semibold text-gray-900">{item.valor}</p>
+          <Variacao atual={item.atual} anterior={item.anterior} sufixo={item.sufixo} />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Resultado da variante contra o controle (teste z de duas proporções, 95%)
+const Significancia = ({
+  controle,
+  variante,
+  campo,
+}: {
+  controle: FollowupVariantAnalytics;
+  variante: FollowupVariantAnalytics;
+  campo: 'respondidos' | 'convertidos';
+}) => {
+  const comparacao = compararProporcoes(controle[campo], controle.enviados, variante[campo], variante.enviados);
+
+  if (comparacao.resultado === 'amostra_pequena') {
+    return (
+      <span className="text-xs text-gray-400" title={`Mínimo de ${AMOSTRA_MINIMA_AB} envios por variante`}>
+        amostra pequena
+      </span>
+    );
+  }
+
+  if (comparacao.resultado === 'sem_diferenca') {
+    return <span className="text-xs text-gray-400">sem diferença</span>;
+  }
+
+  const melhor = comparacao.diferenca > 0;
+  return (
+    <span
+      className={`text-xs font-medium ${melhor ? 'text-green-600' : 'text-red-600'}`}
+      title={`p = ${comparacao.pValor?.toFixed(3)}`}
+    >
+      {melhor ? 'melhor' : 'pior'} ({melhor ? '+' : ''}
+      {(comparacao.diferenca * 100).toFixed(1).replace('.', ',')} p.p.)
+    </span>
+  );
+};
+
+const LinhasVariantes = ({ variantes }: { variantes: FollowupVariantAnalytics[] }) => {
+  const updateVariant = useUpdateFollowupTemplateVariant();
+  const controle = variantes[0];
+  const ativas = variantes.filter((v) => v.ativo).length;
+
+  return (
+    <>
+      {variantes.map((variante) => (
+        <TableRow key={variante.variante_id} className="bg-gray-50 text-xs">
+          <TableCell className="pl-8">
+            <div className="flex items-center gap-2">
+              <FlaskConical className="w-3 h-3 text-purple-600" />
+              <Badge variant={variante.ativo ? 'outline' : 'secondary'}>Variante {variante.nome}</Badge>
+              {variante.variante_id === controle.variante_id && <span className="text-gray-500">controle</span>}
+              {!variante.ativo && <span className="text-gray-500">desativada</span>}
+              {variante.ativo && ativas > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-2 text-xs text-red-600"
+                  disabled={updateVariant.isPending}
+                  onClick={() => updateVariant.mutate({ id: variante.variante_id, ativo: false })}
+                >
+                  Desativar
+                </Button>
+              )}
+            </div>
+          </TableCell>
+          <TableCell className="text-right">{variante.enviados}</TableCell>
+          <TableCell />
+          <TableCell className="text-right">
+            <div>
+              {variante.respondidos} ({formatarTaxa(taxa(variante.respondidos, variante.enviados))})
+            </div>
+            {variante.variante_id !== controle.variante_id && (
+              <Significancia controle={controle} variante={variante} campo="respondidos" />
+            )}
+          </TableCell>
+          <TableCell className="text-right">
+            <div>
+              {variante.convertidos} ({formatarTaxa(taxa(variante.convertidos, variante.enviados))})
+            </div>
+            {variante.variante_id !== controle.variante_id && (
+              <Significancia controle={controle} variante={variante} campo="convertidos" />
+            )}
+          </TableCell>
+        </TableRow>
+      ))}
+    </>
+  );
+};
+
+export const FollowupAnalytics = () => {
+  const [periodoDias, setPeriodoDias] = useState('30');
+  const [diasResposta, setDiasResposta] = useState('3');
+  const [diasConversao, setDiasConversao] = useState('30');
+
+  const params = {
+    periodoDias: Number(periodoDias),
+    diasResposta: Number(diasResposta),
+    diasConversao: Number(diasConversao),
+  };
+  const { data: campanhas = [], isLoading, error } = useFollowupAnalytics(params);
+  const { data: variantesPorEtapa = {} } = useFollowupVariantAnalytics(params);
+
+  const renderSelect = (
+    value: string,
+    onChange: (value: string) => void,
+    opcoes: { value: string; label: string }[]
+  ) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-[220px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {opcoes.map((opcao) => (
+          <SelectItem key={opcao.value} value={opcao.value}>
+            {opcao.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Filtros */}
+      <div className="flex flex-wrap gap-3">
+        {renderSelect(periodoDias, setPeriodoDias, PERIODOS)}
+        {renderSelect(diasResposta, setDiasResposta, JANELAS_RESPOSTA)}
+        {renderSelect(diasConversao, setDiasConversao, JANELAS_CONVERSAO)}
+      </div>
+      <p className="text-xs text-gray-500">
+        Comparação com os {periodoDias} dias anteriores. Envios recentes ainda podem receber respostas
+        e agendamentos dentro da janela.
+      </p>
+
+      {isLoading ? (
+        <div className="text-center py-12 text-gray-500">Carregando métricas...</div>
+      ) : error ? (
+        <div className="text-center py-12 text-red-600">Não foi possível carregar as métricas.</div>
+      ) : campanhas.length === 0 ? (
+        <div className="text-center py-12">
+          <BarChart3 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Nenhum envio no período</h3>
+          <p className="text-gray-600">As métricas aparecem depois dos primeiros follow-ups enviados</p>
+        </div>
+      ) : (
+        campanhas.map((campanha) => (
+          <Card key={campanha.campaign_id}>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">{campanha.campaign_nome}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ResumoMetricas atual={campanha.atual} anterior={campanha.anterior} />
+
+              {/* Métricas por etapa */}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Etapa</TableHead>
+                    <TableHead className="text-right">Enviados</TableHead>
+                    <TableHead className="text-right">Falhas</TableHead>
+                    <TableHead className="text-right">Responderam</TableHead>
+                    <TableHead className="text-right">Agendaram</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {campanha.etapas.map((etapa) => (
+                    <Fragment key={etapa.template_id}>
+                      <TableRow>
+                        <TableCell>
+                          <span className="font-medium">{etapa.sequencia}.</span> {etapa.titulo}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {etapa.atual.enviados}{' '}
+                          <Variacao atual={etapa.atual.enviados} anterior={etapa.anterior.enviados} />
+                        </TableCell>
+                        <TableCell className="text-right">{etapa.atual.falhas}</TableCell>
+                        <TableCell className="text-right">
+                          {etapa.atual.respondidos} ({formatarTaxa(taxa(etapa.atual.respondidos, etapa.atual.enviados))})
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {etapa.atual.convertidos} ({formatarTaxa(taxa(etapa.atual.convertidos, etapa.atual.enviados))})
+                        </TableCell>
+                      </TableRow>
+                      {(variantesPorEtapa[etapa.template_id]?.length ?? 0) > 1 && (
+                        <LinhasVariantes variantes={variantesPorEtapa[etapa.template_id]} />
+                      )}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,306 @@
+import { useState } from 'react';
+import { Eye, Filter, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FollowupCampaign, useUpdateFollowupCampaign } from '@/hooks/useFollowupData';
+import { useFollowupAudienceOptions, useFollowupAudiencePreview } from '@/hooks/useFollowupAudience';
+import { useEtapas } from '@/hooks/useEtapasData';
+import { useTags } from '@/hooks/useTagsData';
+import {
+  FiltroLista,
+  FiltrosPublico,
+  filtrosPublicoVazios,
+  possuiFiltrosPublico,
+} from '../../../supabase/functions/_shared/campaignAudience';
+
+/**
+ * Modal de público de uma campanha automática de follow-up
+ *
+ * O que faz:
+ * - Configura quem entra na campanha: incluir/excluir etapas do kanban, tags, origem,
+ *   anúncio e serviço de interesse, status de conversão e agendamento futuro
+ * - Simula (dry-run) os leads que a campanha atingiria hoje, antes de salvar ou ativar
+ *
+ * Como usar:
+ * - Clique em um valor para incluí-lo (verde), clique de novo para excluí-lo (vermelho)
+ *   e mais uma vez para limpar
+ *
+ * Onde é usado:
+ * - Cards de campanhas automáticas no FollowupManagement
+ *
+ * Como se conecta:
+ * - Grava follow_up_campaigns.filtros_publico, lido pelo process-followup-campaigns
+ * - Mesmas regras de _shared/campaignAudience.ts no processamento e na simulação
+ */
+
+interface FollowupAudienceDialogProps {
+  campaign: FollowupCampaign;
+}
+
+type ChaveLista = 'etapas' | 'tags' | 'origens' | 'anuncios' | 'servicos';
+
+interface Opcao {
+  value: string;
+  label: string;
+}
+
+// Ciclo do clique: neutro -> incluir -> excluir -> neutro
+const alternarValor = (lista: FiltroLista, valor: string): FiltroLista => {
+  if (lista.incluir.includes(valor)) {
+    return { incluir: lista.incluir.filter((v) => v !== valor), excluir: [...lista.excluir, valor] };
+  }
+  if (lista.excluir.includes(valor)) {
+    return { ...lista, excluir: lista.excluir.filter((v) => v !== valor) };
+  }
+  return { ...lista, incluir: [...lista.incluir, valor] };
+};
+
+export const FollowupAudienceDialog = ({ campaign }: FollowupAudienceDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [filtros, setFiltros] = useState<FiltrosPublico>(campaign.filtros_publico ?? filtrosPublicoVazios());
+  const [filtrosPrevia, setFiltrosPrevia] = useState<FiltrosPublico | null>(null);
+
+  const { data: etapas = [] } = useEtapas();
+  const { data: tags = [] } = useTags();
+  const { data: opcoesTexto } = useFollowupAudienceOptions(isOpen ? campaign.clinica_id : null);
+  const { data: previa, isFetching: carregandoPrevia, error: erroPrevia } = useFollowupAudiencePreview(
+    isOpen && filtrosPrevia
+      ? { clinicaId: campaign.clinica_id, diasInatividade: campaign.dias_inatividade, filtros: filtrosPrevia }
+      : null
+  );
+  const updateCampaign = useUpdateFollowupCampaign();
+
+  const previaDesatualizada = !filtrosPrevia || JSON.stringify(filtrosPrevia) !== JSON.stringify(filtros);
+
+  const secoes: { chave: ChaveLista; label: string; opcoes: Opcao[] }[] = [
+    {
+      chave: 'etapas',
+      label: 'Etapas do kanban',
+      opcoes: etapas
+        .filter((etapa) => etapa.clinica_id === campaign.clinica_id)
+        .map((etapa) => ({ value: etapa.id, label: etapa.nome })),
+    },
+    {
+      chave: 'tags',
+      label: 'Tags',
+      opcoes: tags
+        .filter((tag) => tag.clinica_id === campaign.clinica_id)
+        .map((tag) => ({ value: tag.id, label: tag.nome })),
+    },
+    { chave: 'origens', label: 'Origem do lead', opcoes: (opcoesTexto?.origens || []).map((v) => ({ value: v, label: v })) },
+    { chave: 'anuncios', label: 'Anúncio', opcoes: (opcoesTexto?.anuncios || []).map((v) => ({ value: v, label: v })) },
+    { chave: 'servicos', label: 'Serviço de interesse', opcoes: (opcoesTexto?.servicos || []).map((v) => ({ value: v, label: v })) },
+  ];
+
+  const handleSave = async (ativar: boolean) => {
+    await updateCampaign.mutateAsync({
+      id: campaign.id,
+      filtros_publico: filtros,
+      ...(ativar && { ativo: true }),
+    });
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (open) {
+          setFiltros(campaign.filtros_publico ?? filtrosPublicoVazios());
+          setFiltrosPrevia(null);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex-1 gap-1">
+          <Filter className="w-3 h-3" />
+          Público
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Público - {campaign.nome}</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-gray-600">
+          Leads com telefone, sem follow-up pausado e inativos há {campaign.dias_inatividade} dias. Clique em um
+          valor para incluir, de novo para excluir e mais uma vez para limpar.
+        </p>
+
+        <div className="space-y-4">
+          {secoes.map((secao) => (
+            <div key={secao.chave} className="space-y-2">
+              <Label>{secao.label}</Label>
+              {secao.opcoes.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {secao.opcoes.map((opcao) => {
+                    const lista = filtros[secao.chave];
+                    const incluido = lista.incluir.includes(opcao.value);
+                    const excluido = lista.excluir.includes(opcao.value);
+
+                    return (
+                      <button
+                        key={opcao.value}
+                        type="button"
+                        onClick={() => setFiltros({ ...filtros, [secao.chave]: alternarValor(lista, opcao.value) })}
+                      >
+                        <Badge
+                          variant="outline"
+                          className={
+                            incluido
+                              ? 'border-green-500 bg-green-50 text-green-700'
+                              : excluido
+                                ? 'border-red-500 bg-red-50 text-red-700 line-through'
+                                : 'text-gray-600'
+                          }
+                        >
+                          {incluido ? '+ ' : excluido ? '− ' : ''}
+                          {opcao.label}
+                        </Badge>
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-xs text-gray-400">Nenhum valor encontrado nos leads</p>
+              )}
+            </div>
+          ))}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label>Conversão</Label>
+              <Select
+                value={filtros.convertido}
+                onValueChange={(convertido: FiltrosPublico['convertido']) => setFiltros({ ...filtros, convertido })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todos">Todos</SelectItem>
+                  <SelectItem value="nao_convertidos">Apenas não convertidos</SelectItem>
+                  <SelectItem value="convertidos">Apenas convertidos</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Agendamento futuro</Label>
+              <Select
+                value={filtros.agendamento_futuro}
+                onValueChange={(agendamento_futuro: FiltrosPublico['agendamento_futuro']) =>
+                  setFiltros({ ...filtros, agendamento_futuro })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todos">Todos</SelectItem>
+                  <SelectItem value="sem">Sem agendamento futuro</SelectItem>
+                  <SelectItem value="com">Com agendamento futuro</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <Separator />
+
+        {/* Simulação do público */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Users className="w-4 h-4" />
+              Simulação do público
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => setFiltrosPrevia(filtros)}
+              disabled={carregandoPrevia}
+            >
+              <Eye className="w-4 h-4" />
+              {carregandoPrevia ? 'Simulando...' : 'Pré-visualizar'}
+            </Button>
+          </div>
+
+          {erroPrevia ? (
+            <p className="text-sm text-red-600">Não foi possível simular o público.</p>
+          ) : previa && filtrosPrevia ? (
+            <div className="space-y-2">
+              <p className="text-sm text-gray-700">
+                <span className="font-semibold">{previa.leads.length}</span> de {previa.total_inativos} leads
+                inativos entrariam na campanha hoje
+                {previaDesatualizada && <span className="text-amber-600"> (filtros alterados desde a simulação)</span>}
+              </p>
+              {previa.leads.length > 0 && (
+                <div className="max-h-48 overflow-y-auto border rounded-lg divide-y">
+                  {previa.leads.slice(0, 50).map((lead) => (
+                    <div key={lead.id} className="flex items-center justify-between px-3 py-2 text-xs">
+                      <span className="font-medium">{lead.nome || 'Sem nome'}</span>
+                      <span className="text-gray-500">
+                        {lead.data_ultimo_contato
+                          ? `Último contato ${new Date(lead.data_ultimo_contato).toLocaleDateString('pt-BR')}`
+                          : 'Sem contato'}
+                      </span>
+                    </div>
+                  ))}
+                  {previa.leads.length > 50 && (
+                    <div className="px-3 py-2 text-xs text-gray-500">e mais {previa.leads.length - 50} leads</div>
+                  )}
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Leads que já estão em uma sequência desta campanha não recebem a primeira etapa de novo.
+              </p>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">
+              {possuiFiltrosPublico(filtros)
+                ? 'Simule para ver quais leads entram com estes filtros.'
+                : 'Sem filtros: a campanha atinge todos os leads inativos.'}
+            </p>
+          )}
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={() => setIsOpen(false)} disabled={updateCampaign.isPending}>
+            Cancelar
+          </Button>
+          <Button
+            variant={campaign.ativo ? 'default' : 'outline'}
+            onClick={() => handleSave(false)}
+            disabled={updateCampaign.isPending}
+          >
+            Salvar público
+          </Button>
+          {!campaign.ativo && (
+            <Button onClick={() => handleSave(true)} disabled={updateCampaign.isPending || previaDesatualizada}>
+              Salvar e ativar
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import { Clock, Send, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import { DateTimePicker } from '@/components/ui/DateTimePicker';
+import { useClinica } from '@/contexts/ClinicaContext';
+import { useFollowupCampaigns, useFollowupTemplates } from '@/hooks/useFollowupData';
+import {
+  MOTIVOS_EXCLUSAO_ENVIO_EM_MASSA,
+  useBulkFollowupLeads,
+  useCreateBulkFollowup,
+  useFollowupBulkSends,
+} from '@/hooks/useFollowupBulkSend';
+import { renderizarTemplate } from '../../../supabase/functions/_shared/templateEngine';
+import { FollowupBulkSendProgress } from './FollowupBulkSendProgress';
+
+/**
+ * Modal de follow-up manual em massa
+ *
+ * O que faz:
+ * - Envia um template de uma campanha para vários leads de uma vez, agora ou em data futura
+ * - Mostra a prévia da mensagem renderizada para cada lead (mesmo motor do envio)
+ * - Deixa de fora, com o motivo, os leads com opt-out, follow-up pausado ou sem telefone
+ * - Depois de criado, acompanha o progresso das execuções do envio
+ *
+ * Onde é usado:
+ * - Barra de ações da tabela de contatos (leads selecionados)
+ * - Cabeçalho das colunas do kanban (leads da etapa)
+ *
+ * Como se conecta:
+ * - useCreateBulkFollowup cria o lote e as execuções manuais pendentes
+ * - process-followup-campaigns envia as execuções aos poucos, dentro dos limites de envio
+ */
+
+interface FollowupBulkSendDialogProps {
+  leadIds: string[];
+  trigger?: React.ReactNode;
+}
+
+// Prévias renderizadas de uma vez (o envio vale para todos os elegíveis)
+const MAXIMO_PREVIAS = 50;
+
+export const FollowupBulkSendDialog = ({ leadIds, trigger }: FollowupBulkSendDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedCampaignId, setSelectedCampaignId] = useState('');
+  const [selectedTemplateId, setSelectedTemplateId] = useState('');
+  const [agendar, setAgendar] = useState(false);
+  const [dataAgendada, setDataAgendada] = useState<Date | undefined>(undefined);
+  const [loteCriadoId, setLoteCriadoId] = useState<string | null>(null);
+
+  const { clinicaId } = useClinica();
+  const { data: campaigns = [], isLoading: campaignsLoading } = useFollowupCampaigns();
+  const { data: templates = [], isLoading: templatesLoading } = useFollowupTemplates(selectedCampaignId || null);
+  const { data: leads = [], isLoading: leadsLoading } = useBulkFollowupLeads(leadIds, isOpen && !loteCriadoId);
+  const { data: envios = [] } = useFollowupBulkSends(loteCriadoId ? clinicaId : null);
+  const createBulkFollowup = useCreateBulkFollowup();
+
+  const availableCampaigns = campaigns.filter((campaign) => campaign.ativo);
+  const selectedCampaign = availableCampaigns.find((campaign) => campaign.id === selectedCampaignId);
+  const selectedTemplate = templates.find((template) => template.id === selectedTemplateId);
+  const elegiveis = leads.filter((lead) => !lead.motivoExclusao);
+  const excluidos = leads.filter((lead) => lead.motivoExclusao);
+  const loteCriado = envios.find((envio) => envio.id === loteCriadoId);
+
+  const dataValida = !agendar || (!!dataAgendada && dataAgendada > new Date());
+
+  const resetar = () => {
+    setSelectedCampaignId('');
+    setSelectedTemplateId('');
+    setAgendar(false);
+    setDataAgendada(undefined);
+    setLoteCriadoId(null);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) resetar();
+  };
+
+  const handleSend = async () => {
+    if (!clinicaId || !selectedCampaignId || !selectedTemplateId || elegiveis.length === 0 || !dataValida) {
+      return;
+    }
+
+    const lote = await createBulkFollowup.mutateAsync({
+      clinicaId,
+      campaignId: selectedCampaignId,
+      templateId: selectedTemplateId,
+      leadIds: elegiveis.map((lead) => lead.id),
+      leadsExcluidos: excluidos.length,
+      dataAgendada: agendar && dataAgendada ? dataAgendada : new Date(),
+    });
+    setLoteCriadoId(lote.id);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {trigger ?? (
+          <Button variant="outline" size="sm" className="flex items-center gap-1" disabled={leadIds.length === 0}>
+            <Send className="h-4 w-4" />
+            Follow-up
+          </Button>
+        )}
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-blue-600" />
+            Follow-up em massa
+          </DialogTitle>
+        </DialogHeader>
+
+        {loteCriadoId ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              As mensagens saem aos poucos, dentro dos limites de envio da clínica e da janela de
+              envio da campanha. Você pode acompanhar este envio também na Gestão de Follow-up.
+            </p>
+            {loteCriado ? (
+              <FollowupBulkSendProgress envio={loteCriado} />
+            ) : (
+              <p className="text-sm text-gray-500">Carregando progresso...</p>
+            )}
+            <div className="flex justify-end">
+              <Button onClick={() => handleOpenChange(false)}>Fechar</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{leadIds.length} selecionados</Badge>
+              {!leadsLoading && (
+                <>
+                  <Badge>{elegiveis.length} recebem</Badge>
+                  {excluidos.length > 0 && <Badge variant="outline">{excluidos.length} ficam fora</Badge>}
+                </>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Campanha</Label>
+                <Select
+                  value={selectedCampaignId}
+                  onValueChange={(value) => {
+                    setSelectedCampaignId(value);
+                    setSelectedTemplateId('');
+                  }}
+                  disabled={campaignsLoading}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione uma campanha..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableCampaigns.map((campaign) => (
+                      <SelectItem key={campaign.id} value={campaign.id}>
+                        {campaign.nome}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Template</Label>
+                <Select
+                  value={selectedTemplateId}
+                  onValueChange={setSelectedTemplateId}
+                  disabled={!selectedCampaignId || templatesLoading}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione um template..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline">{template.sequencia}</Badge>
+                          <span>{template.titulo}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Agendamento */}
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Switch id="agendar-envio-em-massa" checked={agendar} onCheckedChange={setAgendar} />
+                <Label htmlFor="agendar-envio-em-massa">Agendar para depois</Label>
+              </div>
+              {agendar && (
+                <>
+                  <DateTimePicker value={dataAgendada} onChange={setDataAgendada} />
+                  {!dataValida && (
+                    <p className="text-sm text-red-600">Escolha uma data e hora no futuro.</p>
+                  )}
+                </>
+              )}
+            </div>
+
+            {/* Prévia por lead */}
+            <div className="space-y-2">
+              <Label>Prévia das mensagens</Label>
+              <ScrollArea className="h-64 border rounded-lg">
+                <div className="p-3 space-y-3">
+                  {leadsLoading && <p className="text-sm text-gray-500">Carregando leads...</p>}
+                  {elegiveis.slice(0, MAXIMO_PREVIAS).map((lead) => (
+                    <div key={lead.id} className="space-y-1">
+                      <p className="text-xs font-medium text-gray-700">
+                        {lead.nome || 'Nome não informado'}
+                        {lead.telefone && <span className="text-gray-400"> · {lead.telefone}</span>}
+                      </p>
+                      {selectedTemplate && (
+                        <p className="text-sm text-gray-800 whitespace-pre-wrap p-2 bg-blue-50 border border-blue-200 rounded">
+                          {renderizarTemplate(selectedTemplate.conteudo, {
+                            ...lead.contexto,
+                            campanha: selectedCampaign?.nome,
+                            etapa: selectedTemplate.sequencia,
+                            sequencia: selectedTemplate.sequencia,
+                          })}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                  {elegiveis.length > MAXIMO_PREVIAS && (
+                    <p className="text-xs text-gray-500">
+                      E mais {elegiveis.length - MAXIMO_PREVIAS} leads.
+                    </p>
+                  )}
+                  {!leadsLoading && elegiveis.length === 0 && (
+                    <p className="text-sm text-gray-500">Nenhum lead selecionado pode receber o follow-up.</p>
+                  )}
+                </div>
+              </ScrollArea>
+            </div>
+
+            {/* Leads fora do envio */}
+            {excluidos.length > 0 && (
+              <div className="space-y-2">
+                <Label>Ficam fora do envio</Label>
+                <div className="max-h-32 overflow-y-auto space-y-1 p-3 bg-gray-50 rounded-lg">
+                  {excluidos.map((lead) => (
+                    <div key={lead.id} className="flex items-center justify-between text-xs">
+                      <span className="text-gray-700">{lead.nome || 'Nome não informado'}</span>
+                      <span className="text-gray-500">
+                        {lead.motivoExclusao && MOTIVOS_EXCLUSAO_ENVIO_EM_MASSA[lead.motivoExclusao]}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              As mensagens entram na fila de envio e saem aos poucos, dentro dos limites de envio da
+              clínica e da janela de envio da campanha.
+            </p>
+
+            <Separator />
+
+            <div className="flex gap-2 justify-end">
+              <Button
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                disabled={createBulkFollowup.isPending}
+              >
+                Cancelar
+              </Button>
+              <Button
+                onClick={handleSend}
+                disabled={
+                  !selectedCampaignId ||
+                  !selectedTemplateId ||
+                  elegiveis.length === 0 ||
+                  !dataValida ||
+                  createBulkFollowup.isPending
+                }
+                className="gap-2"
+              >
+                {createBulkFollowup.isPending ? (
+                  <>
+                    <Clock className="w-4 h-4 animate-spin" />
+                    Criando envio...
+                  </>
+                ) : (
+                  <>
+                    <Send className="w-4 h-4" />
+                    {agendar ? `Agendar para ${elegiveis.length} leads` : `Enviar para ${elegiveis.length} leads`}
+                  </>
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,70 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { BulkFollowupSend, useCancelBulkFollowup } from '@/hooks/useFollowupBulkSend';
+
+/**
+ * Progresso de um envio de follow-up em massa
+ *
+ * O que faz:
+ * - Mostra campanha, template e data agendada do lote
+ * - Barra de progresso (execuções finalizadas / total) e contagem por status
+ * - Cancela os envios que ainda não saíram
+ *
+ * Onde é usado:
+ * - FollowupBulkSendDialog, logo após criar o envio
+ * - FollowupManagement, na lista de envios em massa
+ */
+
+interface FollowupBulkSendProgressProps {
+  envio: BulkFollowupSend;
+}
+
+export const FollowupBulkSendProgress = ({ envio }: FollowupBulkSendProgressProps) => {
+  const cancelBulkFollowup = useCancelBulkFollowup();
+
+  const { pendente, processando, enviado, erro, cancelado } = envio.progresso;
+  const total = pendente + processando + enviado + erro + cancelado;
+  const finalizadas = enviado + erro + cancelado;
+  const agendado = new Date(envio.data_agendada) > new Date();
+
+  return (
+    <div className="space-y-2 p-3 border rounded-lg">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium text-gray-900">
+            {envio.campaign_nome || 'Campanha removida'}
+            {envio.template_titulo && <span className="text-gray-500"> · {envio.template_titulo}</span>}
+          </p>
+          <p className="text-xs text-gray-500">
+            {agendado ? 'Agendado para ' : 'Iniciado em '}
+            {format(new Date(envio.data_agendada), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })}
+            {envio.leads_excluidos > 0 && ` · ${envio.leads_excluidos} leads fora do envio`}
+          </p>
+        </div>
+        {pendente > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-600 hover:text-red-700"
+            disabled={cancelBulkFollowup.isPending}
+            onClick={() => cancelBulkFollowup.mutate(envio.id)}
+          >
+            Cancelar pendentes
+          </Button>
+        )}
+      </div>
+
+      <Progress value={total > 0 ? (finalizadas / total) * 100 : 0} className="h-2" />
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        <Badge variant="secondary">{enviado} enviados</Badge>
+        {pendente + processando > 0 && <Badge variant="outline">{pendente + processando} na fila</Badge>}
+        {erro > 0 && <Badge variant="destructive">{erro} com erro</Badge>}
+        {cancelado > 0 && <Badge variant="outline">{cancelado} cancelados</Badge>}
+      </div>
+    </div>
+  );
+};
@@ -18,9 +18,17 @@ import {
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { useFollowupCampaigns, useFollowupTemplates } from '@/hooks/useFollowupData';
+import {
+  TIPOS_CAMPANHA_FOLLOWUP,
+  useFollowupCampaigns,
+  useFollowupTemplates,
+  useLeadFollowupSequences,
+} from '@/hooks/useFollowupData';
 import { useSendManualFollowup } from '@/hooks/useFollowupWebhook';
 import { useAuthUser } from '@/hooks/useAuthUser';
+import { useTemplateContext } from '@/hooks/useTemplateContext';
+import { renderizarTemplate } from '../../../supabase/functions/_shared/templateEngine';
+import { FollowupSequenceStatus } from './FollowupSequenceStatus';
 
 /**
  * Componente de Botão de Follow-up Manual
@@ -29,6 +37,7 @@ import { useAuthUser } from '@/hooks/useAuthUser';
  * - Exibe botão para envio manual de follow-up
  * - Permite seleção de campanha e template específicos
  * - Mostra prévia do conteúdo antes do envio
+ * - Mostra em que etapa das sequências automáticas o lead está
  * - Integra com sistema de webhook de follow-up
  * 
  * Onde é usado:
@@ -69,6 +78,8 @@ export const FollowupButton = ({
   const { user } = useAuthUser();
   const { data: campaigns = [], isLoading: campaignsLoading } = useFollowupCampaigns();
   const { data: templates = [], isLoading: templatesLoading } = useFollowupTemplates(selectedCampaignId || null);
+  const { data: sequences = [] } = useLeadFollowupSequences(isOpen ? leadId : null);
+  const { data: templateContext } = useTemplateContext(isOpen ? leadId : null);
   const sendManualFollowup = useSendManualFollowup();
 
   // Filtrar apenas campanhas manuais ou que permitem envio manual
@@ -77,19 +88,18 @@ export const FollowupButton = ({
   // Template selecionado
   const selectedTemplate = templates.find(t => t.id === selectedTemplateId);
 
-  // Processar conteúdo do template com variáveis
+  // Processar conteúdo do template com as variáveis do lead (mesmo motor do envio)
   const processTemplateContent = (content: string) => {
-    const variaveis = {
-      '{nome}': leadNome || 'Cliente',
-      '{telefone}': leadTelefone || '',
-    };
+    const campaign = availableCampaigns.find(c => c.id === selectedCampaignId);
 
-    let processedContent = content;
-    Object.entries(variaveis).forEach(([variavel, valor]) => {
-      processedContent = processedContent.replace(new RegExp(variavel, 'g'), valor);
+    return renderizarTemplate(content, {
+      nome: leadNome,
+      telefone: leadTelefone,
+      ...templateContext,
+      campanha: campaign?.nome,
+      etapa: selectedTemplate?.sequencia,
+      sequencia: selectedTemplate?.sequencia,
     });
-
-    return processedContent;
   };
 
   // Handler para envio
@@ -154,6 +164,22 @@ export const FollowupButton = ({
             )}
           </div>
 
+          {/* Sequências automáticas do lead */}
+          {sequences.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700">Sequências automáticas:</h4>
+              <div className="space-y-2 p-3 border rounded-lg">
+                {sequences.map((sequence) => (
+                  <FollowupSequenceStatus
+                    key={sequence.campaign_id}
+                    progress={sequence}
+                    titulo={sequence.campaign_nome}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Seleção da Campanha */}
           <div className="space-y-2">
             <label className="text-sm font-medium text-gray-700">
@@ -175,8 +201,8 @@ export const FollowupButton = ({
                   <SelectItem key={campaign.id} value={campaign.id}>
                     <div className="flex items-center gap-2">
                       <span>{campaign.nome}</span>
-                      <Badge variant={campaign.tipo === 'automatico' ? 'default' : 'secondary'}>
-                        {campaign.tipo}
+                      <Badge variant={campaign.tipo === 'manual' ? 'secondary' : 'default'}>
+                        {TIPOS_CAMPANHA_FOLLOWUP[campaign.tipo]}
                       </Badge>
                     </div>
                   </SelectItem>
@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  TIPOS_CAMPANHA_FOLLOWUP,
+  TipoCampanhaFollowup,
+  useCreateFollowupCampaign,
+} from '@/hooks/useFollowupData';
+import { useEtapas } from '@/hooks/useEtapasData';
+import { useClinica } from '@/contexts/ClinicaContext';
+
+/**
+ * Modal de criação de campanha de follow-up
+ *
+ * O que faz:
+ * - Cria campanhas de inatividade, manuais ou disparadas por eventos (mudança de etapa,
+ *   não comparecimento, pós-atendimento e aniversário)
+ * - Configura o gatilho (etapa e dias de atraso) e a janela de envio
+ * - A campanha nasce inativa: os templates são cadastrados depois, em "Templates"
+ *
+ * Onde é usado:
+ * - Botão "Nova Campanha" do FollowupManagement
+ */
+
+interface FollowupCampaignDialogProps {
+  tipoInicial?: TipoCampanhaFollowup;
+  trigger?: React.ReactNode;
+}
+
+const DESCRICOES_GATILHO: Record<TipoCampanhaFollowup, string> = {
+  automatico: 'Leads sem contato há alguns dias',
+  manual: 'Templates prontos para envio pelo CRM',
+  mudanca_etapa: 'Lead entra em uma etapa do kanban',
+  nao_compareceu: 'Agendamento marcado como "não compareceu"',
+  pos_atendimento: 'Agendamento marcado como "realizado"',
+  aniversario: 'Dia do aniversário do lead (data de nascimento no cadastro)',
+};
+
+const formularioInicial = (tipo: TipoCampanhaFollowup) => ({
+  nome: '',
+  descricao: '',
+  tipo,
+  dias_inatividade: 7,
+  gatilho_etapa_id: '',
+  gatilho_dias_apos: tipo === 'pos_atendimento' ? 7 : 0,
+  horario_envio: '09:00',
+  horario_envio_fim: '18:00',
+  apenas_dias_uteis: true,
+});
+
+export const FollowupCampaignDialog = ({ tipoInicial = 'automatico', trigger }: FollowupCampaignDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState(formularioInicial(tipoInicial));
+
+  const { clinicaId } = useClinica();
+  const { data: etapas = [] } = useEtapas();
+  const createCampaign = useCreateFollowupCampaign();
+
+  const porEvento = !['automatico', 'manual'].includes(form.tipo);
+  const podeSalvar =
+    !!clinicaId &&
+    !!form.nome.trim() &&
+    (form.tipo !== 'mudanca_etapa' || !!form.gatilho_etapa_id) &&
+    (form.tipo === 'manual' || form.horario_envio_fim > form.horario_envio);
+
+  const handleSave = async () => {
+    if (!podeSalvar || !clinicaId) return;
+
+    await createCampaign.mutateAsync({
+      clinica_id: clinicaId,
+      nome: form.nome.trim(),
+      descricao: form.descricao.trim() || undefined,
+      tipo: form.tipo,
+      ativo: false,
+      dias_inatividade: form.dias_inatividade,
+      gatilho_etapa_id: form.tipo === 'mudanca_etapa' ? form.gatilho_etapa_id : null,
+      gatilho_dias_apos: porEvento ? form.gatilho_dias_apos : 0,
+      horario_envio: form.horario_envio,
+      horario_envio_fim: form.horario_envio_fim,
+      apenas_dias_uteis: form.apenas_dias_uteis,
+    });
+
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (open) setForm(formularioInicial(tipoInicial));
+      }}
+    >
+      <DialogTrigger asChild>
+        {trigger ?? (
+          <Button className="gap-2">
+            <Plus className="w-4 h-4" />
+            Nova Campanha
+          </Button>
+        )}
+      </DialogTrigger>
+
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Nova campanha de follow-up</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="campanha-nome">Nome</Label>
+            <Input
+              id="campanha-nome"
+              value={form.nome}
+              onChange={(e) => setForm({ ...form, nome: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="campanha-descricao">Descrição</Label>
+            <Textarea
+              id="campanha-descricao"
+              rows={2}
+              value={form.descricao}
+              onChange={(e) => setForm({ ...form, descricao: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label>Gatilho</Label>
+            <Select
+              value={form.tipo}
+              onValueChange={(tipo: TipoCampanhaFollowup) =>
+                setForm({ ...form, tipo, gatilho_dias_apos: tipo === 'pos_atendimento' ? 7 : 0 })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TIPOS_CAMPANHA_FOLLOWUP) as TipoCampanhaFollowup[]).map((tipo) => (
+                  <SelectItem key={tipo} value={tipo}>
+                    {TIPOS_CAMPANHA_FOLLOWUP[tipo]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">{DESCRICOES_GATILHO[form.tipo]}</p>
+          </div>
+
+          {form.tipo === 'automatico' && (
+            <div className="space-y-1">
+              <Label htmlFor="campanha-inatividade">Dias de inatividade</Label>
+              <Input
+                id="campanha-inatividade"
+                type="number"
+                min={1}
+                value={form.dias_inatividade}
+                onChange={(e) => setForm({ ...form, dias_inatividade: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </div>
+          )}
+
+          {form.tipo === 'mudanca_etapa' && (
+            <div className="space-y-1">
+              <Label>Etapa do kanban</Label>
+              <Select
+                value={form.gatilho_etapa_id}
+                onValueChange={(gatilho_etapa_id) => setForm({ ...form, gatilho_etapa_id })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione a etapa..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {etapas.map((etapa) => (
+                    <SelectItem key={etapa.id} value={etapa.id}>
+                      {etapa.nome}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {porEvento && form.tipo !== 'aniversario' && (
+            <div className="space-y-1">
+              <Label htmlFor="campanha-dias-apos">Iniciar quantos dias depois do evento</Label>
+              <Input
+                id="campanha-dias-apos"
+                type="number"
+                min={0}
+                value={form.gatilho_dias_apos}
+                onChange={(e) => setForm({ ...form, gatilho_dias_apos: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </div>
+          )}
+
+          {form.tipo !== 'manual' && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="campanha-inicio">Envio a partir de</Label>
+                  <Input
+                    id="campanha-inicio"
+                    type="time"
+                    value={form.horario_envio}
+                    onChange={(e) => setForm({ ...form, horario_envio: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="campanha-fim">Até</Label>
+                  <Input
+                    id="campanha-fim"
+                    type="time"
+                    value={form.horario_envio_fim}
+                    onChange={(e) => setForm({ ...form, horario_envio_fim: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="campanha-dias-uteis">Apenas dias úteis</Label>
+                <Switch
+                  id="campanha-dias-uteis"
+                  checked={form.apenas_dias_uteis}
+                  onCheckedChange={(apenas_dias_uteis) => setForm({ ...form, apenas_dias_uteis })}
+                />
+              </div>
+            </>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => setIsOpen(false)} disabled={createCampaign.isPending}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={createCampaign.isPending || !podeSalvar}>
+              {createCampaign.isPending ? 'Criando...' : 'Criar campanha'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,69 @@
+import { useCampaignFollowupSequences } from '@/hooks/useFollowupData';
+import { FollowupSequenceStatus } from './FollowupSequenceStatus';
+
+/**
+ * Leads em andamento na sequência de uma campanha automática
+ *
+ * O que faz:
+ * - Conta quantos leads estão em cada etapa da sequência
+ * - Lista os leads com a etapa atual e a data da próxima etapa
+ *
+ * Onde é usado:
+ * - Cards de campanhas automáticas do FollowupManagement
+ */
+
+interface FollowupCampaignSequencesProps {
+  campaignId: string;
+}
+
+const LIMITE_LEADS_EXIBIDOS = 5;
+
+export const FollowupCampaignSequences = ({ campaignId }: FollowupCampaignSequencesProps) => {
+  const { data: sequences = [], isLoading } = useCampaignFollowupSequences(campaignId);
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-500">Carregando sequência...</p>;
+  }
+
+  const emAndamento = sequences.filter((sequence) => sequence.status === 'em_andamento');
+
+  if (emAndamento.length === 0) {
+    return <p className="text-xs text-gray-500">Nenhum lead na sequência no momento</p>;
+  }
+
+  // Quantidade de leads aguardando cada etapa
+  const porEtapa = emAndamento.reduce<Record<number, number>>((acc, sequence) => {
+    acc[sequence.etapa_atual] = (acc[sequence.etapa_atual] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-500">Leads na sequência:</span>
+        <span className="font-medium">{emAndamento.length}</span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {Object.entries(porEtapa).map(([etapa, total]) => (
+          <span key={etapa} className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-700">
+            Etapa {etapa}: {total}
+          </span>
+        ))}
+      </div>
+      <div className="space-y-2 pt-1">
+        {emAndamento.slice(0, LIMITE_LEADS_EXIBIDOS).map((sequence) => (
+          <FollowupSequenceStatus
+            key={sequence.lead_id}
+            progress={sequence}
+            titulo={sequence.lead_nome || 'Lead sem nome'}
+          />
+        ))}
+        {emAndamento.length > LIMITE_LEADS_EXIBIDOS && (
+          <p className="text-xs text-gray-500">
+            + {emAndamento.length - LIMITE_LEADS_EXIBIDOS} leads
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,27 @@
 
 import { useState } from 'react';
-import { Plus, Settings, Play, Pause, Edit2, Trash2, MessageSquare } from 'lucide-react';
+import { Plus, Settings, Play, Pause, Edit2, Trash2, MessageSquare, Zap, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { 
+  FollowupCampaign,
+  TIPOS_CAMPANHA_FOLLOWUP,
   useFollowupCampaigns, 
-  useCreateFollowupCampaign 
+  useUpdateFollowupCampaign,
 } from '@/hooks/useFollowupData';
+import { useEtapas } from '@/hooks/useEtapasData';
+import { useFollowupBulkSends } from '@/hooks/useFollowupBulkSend';
+import { useClinica } from '@/contexts/ClinicaContext';
+import { FollowupCampaignSequences } from './FollowupCampaignSequences';
+import { FollowupTemplatesDialog } from './FollowupTemplatesDialog';
+import { FollowupAudienceDialog } from './FollowupAudienceDialog';
+import { FollowupCampaignDialog } from './FollowupCampaignDialog';
+import { FollowupSendLimitsDialog } from './FollowupSendLimitsDialog';
+import { FollowupAnalytics } from './FollowupAnalytics';
+import { FollowupBulkSendProgress } from './FollowupBulkSendProgress';
+import { possuiFiltrosPublico } from '../../../supabase/functions/_shared/campaignAudience';
 
 /**
  * Componente de Gestão de Follow-up
@@ -17,7 +30,12 @@ import {
  * - Interface principal para gerenciar campanhas de follow-up
  * - Permite criar, editar e ativar/desativar campanhas
  * - Mostra métricas de performance de cada campanha
+ * - Mostra em que etapa da sequência está cada lead das campanhas automáticas
+ * - Define o público das campanhas automáticas, com simulação antes de ativar
+ * - Lista as campanhas disparadas por eventos (etapa, não comparecimento, pós-atendimento, aniversário)
  * - Configura templates e sequências de mensagens
+ * - Configura os limites de envio da clínica (FollowupSendLimitsDialog)
+ * - Acompanha os envios em massa disparados pela tabela de contatos e pelo kanban
  * 
  * Onde é usado:
  * - Página dedicada de follow-up no menu de configurações
@@ -25,7 +43,7 @@ import {
  * 
  * Como se conecta:
  * - Usa useFollowupCampaigns para listar campanhas existentes
- * - Integra com useCreateFollowupCampaign para criar novas
+ * - FollowupCampaignDialog cria novas campanhas; useUpdateFollowupCampaign ativa/pausa
  * - Conecta com Edge Functions para processamento automático
  */
 
@@ -34,12 +52,38 @@ export const FollowupManagement = () => {
 
   // Hooks para dados
   const { data: campaigns = [], isLoading: campaignsLoading } = useFollowupCampaigns();
-  const createCampaign = useCreateFollowupCampaign();
+  const { data: etapas = [] } = useEtapas();
+  const { clinicaId } = useClinica();
+  const { data: bulkSends = [] } = useFollowupBulkSends(clinicaId);
+  const updateCampaign = useUpdateFollowupCampaign();
 
   // Separar campanhas por tipo
   const automaticCampaigns = campaigns.filter(c => c.tipo === 'automatico');
+  const eventCampaigns = campaigns.filter(c => c.tipo !== 'automatico' && c.tipo !== 'manual');
   const manualCampaigns = campaigns.filter(c => c.tipo === 'manual');
 
+  // Botão de ativar/pausar a campanha
+  const renderToggleButton = (campaign: FollowupCampaign) => (
+    <Button
+      variant="outline"
+      size="sm"
+      className="p-2"
+      title={campaign.ativo ? 'Pausar campanha' : 'Ativar campanha'}
+      disabled={updateCampaign.isPending}
+      onClick={() => updateCampaign.mutate({ id: campaign.id, ativo: !campaign.ativo })}
+    >
+      {campaign.ativo ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3 text-green-600" />}
+    </Button>
+  );
+
+  const descreverGatilho = (campaign: FollowupCampaign) => {
+    if (campaign.tipo === 'mudanca_etapa') {
+      const etapa = etapas.find((e) => e.id === campaign.gatilho_etapa_id);
+      return `Entrou na etapa ${etapa ? `"${etapa.nome}"` : '(removida)'}`;
+    }
+    return TIPOS_CAMPANHA_FOLLOWUP[campaign.tipo];
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -50,10 +94,10 @@ export const FollowupManagement = () => {
             Configure campanhas automáticas e manuais para manter contato com seus leads
           </p>
         </div>
-        <Button className="gap-2">
-          <Plus className="w-4 h-4" />
-          Nova Campanha
-        </Button>
+        <div className="flex gap-2">
+          <FollowupSendLimitsDialog />
+          <FollowupCampaignDialog />
+        </div>
       </div>
 
       {/* Tabs de Navegação */}
@@ -135,9 +179,11 @@ export const FollowupManagement = () => {
                         </div>
                         
                         <div className="flex items-center justify-between text-sm">
-                          <span className="text-gray-500">Horário:</span>
+                          <span className="text-gray-500">Janela de envio:</span>
                           <span className="font-medium">
-                            {campaign.horario_envio || '09:00'}
+                            {(campaign.horario_envio || '09:00').slice(0, 5)}
+                            {' – '}
+                            {campaign.horario_envio_fim ? campaign.horario_envio_fim.slice(0, 5) : '23:59'}
                           </span>
                         </div>
 
@@ -148,6 +194,20 @@ export const FollowupManagement = () => {
                           </span>
                         </div>
 
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-gray-500">Público:</span>
+                          <span className="font-medium">
+                            {campaign.filtros_publico && possuiFiltrosPublico(campaign.filtros_publico)
+                              ? 'Filtrado'
+                              : 'Todos os inativos'}
+                          </span>
+                        </div>
+
+                        <Separator />
+
+                        {/* Posição dos leads na sequência */}
+                        <FollowupCampaignSequences campaignId={campaign.id} />
+
                         <Separator />
 
                         <div className="flex gap-2">
@@ -155,10 +215,9 @@ export const FollowupManagement = () => {
                             <Edit2 className="w-3 h-3" />
                             Editar
                           </Button>
-                          <Button variant="outline" size="sm" className="flex-1 gap-1">
-                            <Settings className="w-3 h-3" />
-                            Templates
-                          </Button>
+                          <FollowupTemplatesDialog campaign={campaign} />
+                          <FollowupAudienceDialog campaign={campaign} />
+                          {renderToggleButton(campaign)}
                           <Button 
                             variant="outline" 
                             size="sm"
@@ -182,10 +241,112 @@ export const FollowupManagement = () => {
                   <p className="text-gray-600 text-center mb-4">
                     Crie campanhas automáticas para engajar leads inativos automaticamente
                   </p>
-                  <Button className="gap-2">
-                    <Plus className="w-4 h-4" />
-                    Criar Campanha Automática
-                  </Button>
+                  <FollowupCampaignDialog
+                    tipoInicial="automatico"
+                    trigger={
+                      <Button className="gap-2">
+                        <Plus className="w-4 h-4" />
+                        Criar Campanha Automática
+                      </Button>
+                    }
+                  />
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Campanhas por Evento */}
+          <div>
+            <div className="flex items-center gap-2 mb-4">
+              <Zap className="w-5 h-5 text-amber-500" />
+              <h2 className="text-lg font-semibold text-gray-900">
+                Campanhas por Evento
+              </h2>
+              <Badge variant="secondary">{eventCampaigns.length}</Badge>
+            </div>
+
+            {eventCampaigns.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {eventCampaigns.map((campaign) => (
+                  <Card key={campaign.id} className="relative">
+                    <CardHeader className="pb-3">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <CardTitle className="text-base">{campaign.nome}</CardTitle>
+                          <p className="text-sm text-gray-600 mt-1">
+                            {campaign.descricao || 'Sem descrição'}
+                          </p>
+                        </div>
+                        <Badge 
+                          variant={campaign.ativo ? 'default' : 'secondary'}
+                          className="ml-2"
+                        >
+                          {campaign.ativo ? 'Ativo' : 'Inativo'}
+                        </Badge>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="pt-0">
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-gray-500">Gatilho:</span>
+                          <span className="font-medium text-right">{descreverGatilho(campaign)}</span>
+                        </div>
+
+                        {campaign.tipo !== 'aniversario' && (
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-gray-500">Início:</span>
+                            <span className="font-medium">
+                              {campaign.gatilho_dias_apos
+                                ? `${campaign.gatilho_dias_apos} dia(s) após o evento`
+                                : 'Logo após o evento'}
+                            </span>
+                          </div>
+                        )}
+
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-gray-500">Janela de envio:</span>
+                          <span className="font-medium">
+                            {(campaign.horario_envio || '09:00').slice(0, 5)}
+                            {' – '}
+                            {campaign.horario_envio_fim ? campaign.horario_envio_fim.slice(0, 5) : '23:59'}
+                          </span>
+                        </div>
+
+                        <Separator />
+
+                        {/* Posição dos leads na sequência */}
+                        <FollowupCampaignSequences campaignId={campaign.id} />
+
+                        <Separator />
+
+                        <div className="flex gap-2">
+                          <FollowupTemplatesDialog campaign={campaign} />
+                          {renderToggleButton(campaign)}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <Card className="border-dashed">
+                <CardContent className="flex flex-col items-center justify-center py-8">
+                  <Zap className="w-12 h-12 text-gray-400 mb-4" />
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">
+                    Nenhuma campanha por evento
+                  </h3>
+                  <p className="text-gray-600 text-center mb-4">
+                    Dispare sequências quando o lead muda de etapa, falta ou realiza uma consulta, ou faz aniversário
+                  </p>
+                  <FollowupCampaignDialog
+                    tipoInicial="mudanca_etapa"
+                    trigger={
+                      <Button className="gap-2">
+                        <Plus className="w-4 h-4" />
+                        Criar Campanha por Evento
+                      </Button>
+                    }
+                  />
                 </CardContent>
               </Card>
             )}
@@ -234,10 +395,8 @@ export const FollowupManagement = () => {
                             <Edit2 className="w-3 h-3" />
                             Editar
                           </Button>
-                          <Button variant="outline" size="sm" className="flex-1 gap-1">
-                            <Settings className="w-3 h-3" />
-                            Templates
-                          </Button>
+                          <FollowupTemplatesDialog campaign={campaign} />
+                          {renderToggleButton(campaign)}
                           <Button 
                             variant="outline" 
                             size="sm"
@@ -261,14 +420,43 @@ export const FollowupManagement = () => {
                   <p className="text-gray-600 text-center mb-4">
                     Crie campanhas manuais para ter templates prontos para envio rápido
                   </p>
-                  <Button className="gap-2">
-                    <Plus className="w-4 h-4" />
-                    Criar Campanha Manual
-                  </Button>
+                  <FollowupCampaignDialog
+                    tipoInicial="manual"
+                    trigger={
+                      <Button className="gap-2">
+                        <Plus className="w-4 h-4" />
+                        Criar Campanha Manual
+                      </Button>
+                    }
+                  />
                 </CardContent>
               </Card>
             )}
           </div>
+
+          {/* Envios em Massa */}
+          <div>
+            <div className="flex items-center gap-2 mb-4">
+              <Users className="w-5 h-5 text-purple-600" />
+              <h2 className="text-lg font-semibold text-gray-900">
+                Envios em Massa
+              </h2>
+              <Badge variant="secondary">{bulkSends.length}</Badge>
+            </div>
+
+            {bulkSends.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {bulkSends.map((envio) => (
+                  <FollowupBulkSendProgress key={envio.id} envio={envio} />
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">
+                Selecione contatos na tabela de contatos (ou use o botão de follow-up de uma coluna do kanban)
+                para enviar um template para vários leads de uma vez.
+              </p>
+            )}
+          </div>
         </div>
       )}
 
@@ -284,17 +472,7 @@ export const FollowupManagement = () => {
         </div>
       )}
 
-      {selectedTab === 'metrics' && (
-        <div className="text-center py-12">
-          <Settings className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-          <h3 className="text-lg font-medium text-gray-900 mb-2">
-            Métricas de Follow-up
-          </h3>
-          <p className="text-gray-600">
-            Em desenvolvimento - Dashboard com métricas de performance
-          </p>
-        </div>
-      )}
+      {selectedTab === 'metrics' && <FollowupAnalytics />}
     </div>
   );
 };
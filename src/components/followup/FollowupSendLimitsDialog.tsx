@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { Gauge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { useClinica } from '@/contexts/ClinicaContext';
+import { useFollowupSendLimits, useUpdateFollowupSendLimits } from '@/hooks/useFollowupSendLimits';
+import {
+  LIMITES_ENVIO_PADRAO,
+  LimitesEnvio,
+  estimarVazaoPorHora,
+} from '../../../supabase/functions/_shared/sendThrottle';
+
+/**
+ * Modal de limites de envio dos follow-ups automáticos
+ *
+ * O que faz:
+ * - Configura quantas mensagens de follow-up a clínica envia por minuto, hora e dia
+ *   e o intervalo aleatório entre uma mensagem e outra
+ * - Mostra os envios recentes e a vazão estimada com os limites escolhidos
+ *
+ * Por que existe:
+ * - Disparar centenas de mensagens em segundos pelo mesmo número pode levar o WhatsApp
+ *   a bloquear a clínica; o processador passa a enviar as etapas aos poucos
+ *
+ * Onde é usado:
+ * - Cabeçalho do FollowupManagement
+ */
+
+const CAMPOS: { chave: keyof LimitesEnvio; label: string; minimo: number }[] = [
+  { chave: 'porMinuto', label: 'Mensagens por minuto', minimo: 1 },
+  { chave: 'porHora', label: 'Mensagens por hora', minimo: 1 },
+  { chave: 'porDia', label: 'Mensagens por dia', minimo: 1 },
+  { chave: 'intervaloMinSegundos', label: 'Intervalo mínimo (segundos)', minimo: 0 },
+  { chave: 'intervaloMaxSegundos', label: 'Intervalo máximo (segundos)', minimo: 0 },
+];
+
+export const FollowupSendLimitsDialog = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<LimitesEnvio>(LIMITES_ENVIO_PADRAO);
+  const [formCarregado, setFormCarregado] = useState(false);
+
+  const { clinicaId } = useClinica();
+  const { data } = useFollowupSendLimits(isOpen ? clinicaId : null);
+  const updateLimits = useUpdateFollowupSendLimits();
+
+  // Preenche o formulário uma vez por abertura (os envios recentes continuam atualizando)
+  useEffect(() => {
+    if (!isOpen) {
+      setFormCarregado(false);
+    } else if (data && !formCarregado) {
+      setForm(data.limites);
+      setFormCarregado(true);
+    }
+  }, [isOpen, data, formCarregado]);
+
+  const intervaloValido = form.intervaloMaxSegundos >= form.intervaloMinSegundos;
+
+  const handleSave = async () => {
+    if (!clinicaId || !intervaloValido) return;
+    await updateLimits.mutateAsync({ clinicaId, limites: form });
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={setIsOpen}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Gauge className="w-4 h-4" />
+          Limites de envio
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Limites de envio de follow-up</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-gray-600">
+          As mensagens automáticas saem aos poucos, dentro destes limites e com um intervalo aleatório
+          entre elas. O que não couber fica na fila e é enviado nas próximas rodadas.
+        </p>
+
+        <div className="grid grid-cols-2 gap-3">
+          {CAMPOS.map((campo) => (
+            <div key={campo.chave} className="space-y-1">
+              <Label htmlFor={`limite-${campo.chave}`}>{campo.label}</Label>
+              <Input
+                id={`limite-${campo.chave}`}
+                type="number"
+                min={campo.minimo}
+                value={form[campo.chave]}
+                onChange={(e) =>
+                  setForm({ ...form, [campo.chave]: Math.max(campo.minimo, Number(e.target.value) || campo.minimo) })
+                }
+              />
+            </div>
+          ))}
+        </div>
+
+        {!intervaloValido && (
+          <p className="text-sm text-red-600">O intervalo máximo deve ser maior ou igual ao mínimo.</p>
+        )}
+
+        <p className="text-xs text-gray-500">
+          Vazão estimada: até {estimarVazaoPorHora(form)} mensagens por hora.
+        </p>
+
+        {data && (
+          <>
+            <Separator />
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div>
+                <p className="text-lg font-semibold">{data.uso.ultimo_minuto}</p>
+                <p className="text-xs text-gray-500">no último minuto</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold">{data.uso.ultima_hora}</p>
+                <p className="text-xs text-gray-500">na última hora</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold">{data.uso.ultimo_dia}</p>
+                <p className="text-xs text-gray-500">nas últimas 24h</p>
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={() => setIsOpen(false)} disabled={updateLimits.isPending}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={updateLimits.isPending || !clinicaId || !intervaloValido}>
+            {updateLimits.isPending ? 'Salvando...' : 'Salvar limites'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,62 @@
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Badge } from '@/components/ui/badge';
+import {
+  FollowupSequenceProgress,
+  MOTIVOS_ENCERRAMENTO_SEQUENCIA,
+} from '@/hooks/useFollowupData';
+
+/**
+ * Posição de um lead em uma sequência automática de follow-up
+ *
+ * O que faz:
+ * - Mostra a etapa atual ("Etapa 2 de 4") e o estado da sequência
+ * - Em andamento: data prevista da próxima etapa
+ * - Encerrada: motivo (lead respondeu, agendamento, follow-up pausado)
+ *
+ * Onde é usado:
+ * - FollowupButton (sequências do lead)
+ * - FollowupCampaignSequences (leads de uma campanha no FollowupManagement)
+ */
+
+interface FollowupSequenceStatusProps {
+  progress: FollowupSequenceProgress;
+  titulo: string; // Nome da campanha ou do lead, conforme a tela
+}
+
+const STATUS_CONFIG: Record<FollowupSequenceProgress['status'], { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  em_andamento: { label: 'Em andamento', variant: 'default' },
+  concluida: { label: 'Concluída', variant: 'secondary' },
+  encerrada: { label: 'Encerrada', variant: 'outline' },
+  erro: { label: 'Erro no envio', variant: 'destructive' },
+};
+
+const formatarData = (data: string) => format(new Date(data), "dd/MM 'às' HH:mm", { locale: ptBR });
+
+export const FollowupSequenceStatus = ({ progress, titulo }: FollowupSequenceStatusProps) => {
+  const config = STATUS_CONFIG[progress.status];
+
+  let detalhe: string | null = null;
+  if (progress.status === 'em_andamento' && progress.proxima_etapa_em) {
+    detalhe = `Próxima etapa em ${formatarData(progress.proxima_etapa_em)}`;
+  } else if (progress.status === 'encerrada') {
+    detalhe = MOTIVOS_ENCERRAMENTO_SEQUENCIA[progress.motivo_cancelamento || ''] || 'Cancelada';
+  } else if (progress.ultimo_envio_em) {
+    detalhe = `Último envio em ${formatarData(progress.ultimo_envio_em)}`;
+  }
+
+  return (
+    <div className="flex items-start justify-between gap-2 text-sm">
+      <div className="min-w-0">
+        <p className="font-medium text-gray-900 truncate">{titulo}</p>
+        {detalhe && <p className="text-xs text-gray-500">{detalhe}</p>}
+      </div>
+      <div className="flex flex-col items-end gap-1 flex-shrink-0">
+        <Badge variant={config.variant}>{config.label}</Badge>
+        <span className="text-xs text-gray-500">
+          Etapa {progress.etapa_atual} de {progress.total_etapas}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { FlaskConical, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  useCreateFollowupTemplateVariants,
+  useFollowupTemplateVariants,
+  useUpdateFollowupTemplateVariant,
+} from '@/hooks/useFollowupData';
+import { TemplateContentEditor } from './TemplateContentEditor';
+import { validarTemplate } from '../../../supabase/functions/_shared/templateEngine';
+
+/**
+ * Variantes de teste A/B de uma etapa de follow-up
+ *
+ * O que faz:
+ * - Lista as variantes da etapa com peso (proporção de leads) e status
+ * - Cria novas variantes; na primeira, o texto atual do template vira a variante "A" (controle)
+ * - Com variantes ativas, o envio usa o texto da variante sorteada para o lead, e não o do template
+ *
+ * Onde é usado:
+ * - FollowupTemplatesDialog, ao editar um template existente
+ *
+ * Como se conecta:
+ * - process-followup-campaigns sorteia a variante (_shared/abVariants.ts) e a grava na execução
+ * - FollowupAnalytics compara as variantes e permite desativar as perdedoras
+ */
+
+interface FollowupTemplateVariantsProps {
+  templateId: string;
+  conteudoTemplate: string;
+}
+
+// Próximo nome livre na sequência A, B, C...
+const proximoNome = (usados: string[]) => {
+  for (let i = 0; i < 26; i++) {
+    const nome = String.fromCharCode(65 + i);
+    if (!usados.includes(nome)) return nome;
+  }
+  return `V${usados.length + 1}`;
+};
+
+export const FollowupTemplateVariants = ({ templateId, conteudoTemplate }: FollowupTemplateVariantsProps) => {
+  const [novoConteudo, setNovoConteudo] = useState<string | null>(null);
+
+  const { data: variantes = [], isLoading } = useFollowupTemplateVariants(templateId);
+  const createVariants = useCreateFollowupTemplateVariants();
+  const updateVariant = useUpdateFollowupTemplateVariant();
+
+  const pesoAtivo = variantes.filter((v) => v.ativo).reduce((total, v) => total + v.peso, 0);
+  const validacao = novoConteudo !== null ? validarTemplate(novoConteudo) : null;
+
+  const handleCriar = async () => {
+    if (novoConteudo === null || !novoConteudo.trim() || !validacao?.valido) return;
+
+    const nomes = variantes.map((v) => v.nome);
+    const novas = [];
+
+    // Primeira variante: o texto atual do template entra como controle
+    if (variantes.length === 0) {
+      novas.push({ template_id: templateId, nome: 'A', conteudo: conteudoTemplate, peso: 1, ativo: true });
+      nomes.push('A');
+    }
+
+    novas.push({ template_id: templateId, nome: proximoNome(nomes), conteudo: novoConteudo, peso: 1, ativo: true });
+
+    await createVariants.mutateAsync(novas);
+    setNovoConteudo(null);
+  };
+
+  return (
+    <div className="space-y-3 p-3 border rounded-lg bg-gray-50">
+      <div className="flex items-center gap-2">
+        <FlaskConical className="w-4 h-4 text-purple-600" />
+        <span className="text-sm font-medium">Teste A/B</span>
+        {variantes.length > 0 && (
+          <span className="ml-auto text-xs text-gray-500">
+            {variantes.filter((v) => v.ativo).length} variante(s) ativa(s)
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-xs text-gray-500">Carregando variantes...</p>
+      ) : variantes.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          Crie uma variante para testar outro texto nesta etapa. O texto atual vira a variante A.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">
+            Com variantes ativas, os envios usam o texto da variante sorteada para cada lead.
+          </p>
+          {variantes.map((variante) => (
+            <div key={variante.id} className="flex items-start gap-3 p-2 bg-white border rounded">
+              <Badge variant={variante.ativo ? 'default' : 'secondary'}>{variante.nome}</Badge>
+              <p className="flex-1 text-xs text-gray-700 line-clamp-2">{variante.conteudo}</p>
+              <div className="flex items-center gap-1">
+                <Label htmlFor={`peso-${variante.id}`} className="text-xs text-gray-500">
+                  Peso
+                </Label>
+                <Input
+                  id={`peso-${variante.id}`}
+                  type="number"
+                  min={1}
+                  className="w-16 h-8"
+                  defaultValue={variante.peso}
+                  onBlur={(e) => {
+                    const peso = Math.max(1, Math.round(Number(e.target.value) || 1));
+                    if (peso !== variante.peso) updateVariant.mutate({ id: variante.id, peso });
+                  }}
+                />
+              </div>
+              <span className="w-10 text-right text-xs text-gray-500">
+                {variante.ativo && pesoAtivo > 0 ? `${Math.round((variante.peso / pesoAtivo) * 100)}%` : '-'}
+              </span>
+              <Switch
+                checked={variante.ativo}
+                onCheckedChange={(ativo) => updateVariant.mutate({ id: variante.id, ativo })}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {novoConteudo === null ? (
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => setNovoConteudo('')}>
+          <Plus className="w-4 h-4" />
+          Nova variante
+        </Button>
+      ) : (
+        <div className="space-y-2">
+          <TemplateContentEditor value={novoConteudo} onChange={setNovoConteudo} rows={4} />
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" size="sm" onClick={() => setNovoConteudo(null)} disabled={createVariants.isPending}>
+              Cancelar
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleCriar}
+              disabled={createVariants.isPending || !novoConteudo.trim() || !validacao?.valido}
+            >
+              {createVariants.isPending ? 'Criando...' : 'Criar variante'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
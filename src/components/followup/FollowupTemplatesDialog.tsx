@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { Plus, Settings } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import {
+  FollowupCampaign,
+  FollowupTemplate,
+  useCreateFollowupTemplate,
+  useFollowupTemplates,
+  useUpdateFollowupTemplate,
+} from '@/hooks/useFollowupData';
+import { TemplateContentEditor } from './TemplateContentEditor';
+import { FollowupTemplateVariants } from './FollowupTemplateVariants';
+import { validarTemplate } from '../../../supabase/functions/_shared/templateEngine';
+
+/**
+ * Modal de templates de uma campanha de follow-up
+ *
+ * O que faz:
+ * - Lista as etapas (templates) da campanha em ordem de sequência
+ * - Cria e edita templates com validação de variáveis e prévia ao vivo
+ * - Bloqueia o salvamento de templates com variáveis desconhecidas ou blocos abertos
+ * - Em templates já salvos, gerencia as variantes de teste A/B da etapa
+ *
+ * Onde é usado:
+ * - Botão "Templates" dos cards de campanha no FollowupManagement
+ */
+
+interface FollowupTemplatesDialogProps {
+  campaign: FollowupCampaign;
+}
+
+interface TemplateForm {
+  id: string | null;
+  titulo: string;
+  conteudo: string;
+  sequencia: number;
+  intervalo_dias: number;
+}
+
+export const FollowupTemplatesDialog = ({ campaign }: FollowupTemplatesDialogProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState<TemplateForm | null>(null);
+
+  const { data: templates = [], isLoading } = useFollowupTemplates(isOpen ? campaign.id : null);
+  const createTemplate = useCreateFollowupTemplate();
+  const updateTemplate = useUpdateFollowupTemplate();
+
+  const isSaving = createTemplate.isPending || updateTemplate.isPending;
+  const validacao = form ? validarTemplate(form.conteudo) : null;
+
+  const novoTemplate = () => {
+    const ultimaSequencia = templates.reduce((max, template) => Math.max(max, template.sequencia), 0);
+    setForm({ id: null, titulo: '', conteudo: '', sequencia: ultimaSequencia + 1, intervalo_dias: 1 });
+  };
+
+  const editarTemplate = (template: FollowupTemplate) => {
+    setForm({
+      id: template.id,
+      titulo: template.titulo,
+      conteudo: template.conteudo,
+      sequencia: template.sequencia,
+      intervalo_dias: template.intervalo_dias,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form || !form.titulo.trim() || !form.conteudo.trim() || !validacao?.valido) return;
+
+    if (form.id) {
+      await updateTemplate.mutateAsync({
+        id: form.id,
+        titulo: form.titulo.trim(),
+        conteudo: form.conteudo,
+        intervalo_dias: form.intervalo_dias,
+      });
+    } else {
+      await createTemplate.mutateAsync({
+        campaign_id: campaign.id,
+        titulo: form.titulo.trim(),
+        conteudo: form.conteudo,
+        sequencia: form.sequencia,
+        intervalo_dias: form.intervalo_dias,
+        tipo_mensagem: 'text',
+        ativo: true,
+      });
+    }
+
+    setForm(null);
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) setForm(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex-1 gap-1">
+          <Settings className="w-3 h-3" />
+          Templates
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Templates - {campaign.nome}</DialogTitle>
+        </DialogHeader>
+
+        {/* Etapas da campanha */}
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Carregando templates...</p>
+          ) : templates.length > 0 ? (
+            templates.map((template) => (
+              <button
+                key={template.id}
+                onClick={() => editarTemplate(template)}
+                className={`w-full text-left p-3 border rounded-lg hover:bg-gray-50 ${
+                  form?.id === template.id ? 'border-blue-500' : ''
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{template.sequencia}</Badge>
+                  <span className="text-sm font-medium">{template.titulo}</span>
+                  {!template.ativo && <Badge variant="secondary">Inativo</Badge>}
+                  {campaign.tipo !== 'manual' && template.sequencia > 1 && (
+                    <span className="ml-auto text-xs text-gray-500">
+                      {template.intervalo_dias} dia(s) após a etapa anterior
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1 truncate">{template.conteudo}</p>
+              </button>
+            ))
+          ) : (
+            <p className="text-sm text-gray-500">Nenhum template cadastrado</p>
+          )}
+
+          {!form && (
+            <Button variant="outline" size="sm" className="gap-2" onClick={novoTemplate}>
+              <Plus className="w-4 h-4" />
+              Novo template
+            </Button>
+          )}
+        </div>
+
+        {/* Formulário */}
+        {form && (
+          <>
+            <Separator />
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <div className="md:col-span-2 space-y-1">
+                  <Label htmlFor="template-titulo">Título</Label>
+                  <Input
+                    id="template-titulo"
+                    value={form.titulo}
+                    onChange={(e) => setForm({ ...form, titulo: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="template-intervalo">Intervalo (dias)</Label>
+                  <Input
+                    id="template-intervalo"
+                    type="number"
+                    min={0}
+                    value={form.intervalo_dias}
+                    onChange={(e) => setForm({ ...form, intervalo_dias: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                </div>
+              </div>
+
+              <TemplateContentEditor
+                value={form.conteudo}
+                onChange={(conteudo) => setForm({ ...form, conteudo })}
+              />
+
+              <div className="flex gap-2 justify-end">
+                <Button variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+                  Cancelar
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={isSaving || !form.titulo.trim() || !form.conteudo.trim() || !validacao?.valido}
+                >
+                  {isSaving ? 'Salvando...' : form.id ? 'Salvar alterações' : `Criar etapa ${form.sequencia}`}
+                </Button>
+              </div>
+
+              {form.id && (
+                <FollowupTemplateVariants
+                  key={form.id}
+                  templateId={form.id}
+                  conteudoTemplate={templates.find((t) => t.id === form.id)?.conteudo ?? form.conteudo}
+                />
+              )}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
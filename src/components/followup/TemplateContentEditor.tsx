@@ -0,0 +1,135 @@
+import { useRef } from 'react';
+import { AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  CONTEXTO_EXEMPLO,
+  ContextoTemplate,
+  GrupoVariavelTemplate,
+  renderizarTemplate,
+  validarTemplate,
+  VARIAVEIS_TEMPLATE,
+} from '../../../supabase/functions/_shared/templateEngine';
+
+/**
+ * Editor de conteúdo de templates de mensagem
+ *
+ * O que faz:
+ * - Campo de texto com botões para inserir as variáveis do catálogo na posição do cursor
+ * - Valida blocos {#se}/{senao}/{/se} e aponta variáveis desconhecidas
+ * - Mostra a prévia ao vivo com dados de exemplo (ou de um lead real, via contexto)
+ *
+ * Onde é usado:
+ * - FollowupTemplatesDialog (templates das campanhas de follow-up)
+ * - AppointmentReminderSettings (texto do lembrete de agendamento, com as variáveis do agendamento)
+ *
+ * Como se conecta:
+ * - Usa o mesmo motor de templates da send-followup-webhook e da
+ *   process-appointment-reminders (_shared/templateEngine.ts)
+ */
+
+interface TemplateContentEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  contexto?: ContextoTemplate;
+  rows?: number;
+  grupos?: GrupoVariavelTemplate[];
+  placeholder?: string;
+}
+
+const LABEL_GRUPO: Record<GrupoVariavelTemplate, string> = {
+  lead: 'Lead',
+  clinica: 'Clínica',
+  followup: 'Follow-up',
+  agendamento: 'Agenda',
+};
+
+export const TemplateContentEditor = ({
+  value,
+  onChange,
+  contexto = CONTEXTO_EXEMPLO,
+  rows = 6,
+  grupos = ['lead', 'clinica', 'followup'],
+  placeholder = 'Olá {primeiro_nome}! {#se servico_interesse}Ainda tem interesse em {servico_interesse}?{/se}',
+}: TemplateContentEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const validacao = validarTemplate(value);
+
+  // Inserir a variável na posição do cursor
+  const inserirVariavel = (nome: string) => {
+    const textarea = textareaRef.current;
+    const marcador = `{${nome}}`;
+    const inicio = textarea?.selectionStart ?? value.length;
+    const fim = textarea?.selectionEnd ?? value.length;
+
+    onChange(value.slice(0, inicio) + marcador + value.slice(fim));
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(inicio + marcador.length, inicio + marcador.length);
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        rows={rows}
+        placeholder={placeholder}
+        className="font-mono text-sm"
+      />
+
+      {/* Variáveis disponíveis */}
+      <div className="space-y-1">
+        {grupos.map((grupo) => (
+          <div key={grupo} className="flex flex-wrap items-center gap-1">
+            <span className="text-xs text-gray-500 w-16">{LABEL_GRUPO[grupo]}:</span>
+            {VARIAVEIS_TEMPLATE.filter((variavel) => variavel.grupo === grupo).map((variavel) => (
+              <Badge
+                key={variavel.nome}
+                variant="outline"
+                className="cursor-pointer hover:bg-gray-100"
+                title={variavel.descricao}
+                onClick={() => inserirVariavel(variavel.nome)}
+              >
+                {`{${variavel.nome}}`}
+              </Badge>
+            ))}
+          </div>
+        ))}
+        <p className="text-xs text-gray-500">
+          Use {'{variavel|texto}'} para um valor alternativo e {'{#se variavel}...{senao}...{/se}'} para condicionais.
+        </p>
+      </div>
+
+      {/* Validação */}
+      {validacao.valido ? (
+        <p className="flex items-center gap-1 text-xs text-green-600">
+          <CheckCircle2 className="w-3 h-3" />
+          Template válido
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {validacao.erros.map((erro) => (
+            <p key={erro} className="flex items-center gap-1 text-xs text-red-600">
+              <AlertCircle className="w-3 h-3" />
+              {erro}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* Prévia */}
+      <div className="space-y-1">
+        <label className="text-sm font-medium text-gray-700">Prévia:</label>
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+          <p className="text-sm text-gray-800 whitespace-pre-wrap">
+            {renderizarTemplate(value, contexto) || 'A prévia aparece aqui'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
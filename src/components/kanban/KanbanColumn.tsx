@@ -1,8 +1,9 @@
 
 import React, { useState } from 'react';
-import { Edit2, Trash2 } from 'lucide-react';
+import { Edit2, Send, Trash2 } from 'lucide-react';
 import { Lead } from '@/hooks/useLeadsData';
 import { LeadCard } from './LeadCard';
+import { FollowupBulkSendDialog } from '@/components/followup/FollowupBulkSendDialog';
 
 interface KanbanColumnProps {
   column: IKanbanColumn;
@@ -27,7 +28,7 @@ interface IKanbanColumn {
 /**
  * Componente de coluna do Kanban.
  * - Aceita drag and drop de cards de lead.
- * - Mostra header com nome, cor, contador e ações da etapa.
+ * - Mostra header com nome, cor, contador e ações da etapa (inclui follow-up em massa para os leads da etapa).
  * - Renderiza os LeadCards da etapa.
  */
 export const KanbanColumn = ({
@@ -160,6 +161,20 @@ export const KanbanColumn = ({
         
         {/* Botões de ação da etapa */}
         <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          {leads.length > 0 && (
+            <FollowupBulkSendDialog
+              leadIds={leads.map((lead) => lead.id)}
+              trigger={
+                <button
+                  className="p-1.5 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                  title="Follow-up para os leads da etapa"
+                  aria-label={`Follow-up para os leads da etapa ${column.title || column.nome}`}
+                >
+                  <Send size={14} />
+                </button>
+              }
+            />
+          )}
           <button
             onClick={onEditEtapa}
             className="p-1.5 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
@@ -16,7 +16,7 @@
  */
 
 import { useState, useEffect } from 'react';
-import { X, User, Phone, Mail, MessageSquare, Building, Stethoscope, Workflow } from 'lucide-react';
+import { X, User, Phone, Mail, MessageSquare, Building, Stethoscope, Workflow, Cake } from 'lucide-react';
 import { Lead } from '@/hooks/useLeadsData';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -73,7 +73,7 @@ export const LeadModal = ({ isOpen, onClose, lead, etapas, onSave, onOpenHistory
   
   const [formData, setFormData] = useState({
     nome: '', telefone: '', email: '', origem_lead: '',
-    servico_interesse: '', etapa_kanban_id: '', anotacoes: ''
+    servico_interesse: '', etapa_kanban_id: '', anotacoes: '', data_nascimento: ''
   });
 
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
@@ -88,13 +88,14 @@ export const LeadModal = ({ isOpen, onClose, lead, etapas, onSave, onOpenHistory
         origem_lead: lead.origem_lead || '',
         servico_interesse: lead.servico_interesse || '',
         etapa_kanban_id: lead.etapa_kanban_id || (etapas.length > 0 ? etapas[0].id : ''),
-        anotacoes: lead.anotacoes || ''
+        anotacoes: lead.anotacoes || '',
+        data_nascimento: lead.data_nascimento || ''
       });
     } else {
       setFormData({
         nome: '', telefone: '', email: '', origem_lead: '',
         servico_interesse: '', etapa_kanban_id: etapas.length > 0 ? etapas[0].id : '',
-        anotacoes: ''
+        anotacoes: '', data_nascimento: ''
       });
     }
     setErrors({});
@@ -127,6 +128,7 @@ export const LeadModal = ({ isOpen, onClose, lead, etapas, onSave, onOpenHistory
       const leadDataToSave = {
         ...formData,
         telefone: formData.telefone.replace(/\D/g, ''),
+        data_nascimento: formData.data_nascimento || null,
         ...(lead && { id: lead.id })
       };
       await onSave(leadDataToSave);
@@ -221,6 +223,13 @@ export const LeadModal = ({ isOpen, onClose, lead, etapas, onSave, onOpenHistory
                             </div>
                             {errors.servico_interesse && <p className="text-red-500 text-xs mt-1">{errors.servico_interesse}</p>}
                         </div>
+                        <div>
+                            <Label htmlFor="data_nascimento">Data de Nascimento</Label>
+                            <div className="relative mt-1">
+                                <Cake className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+                                <Input id="data_nascimento" type="date" value={formData.data_nascimento} onChange={(e) => handleInputChange('data_nascimento', e.target.value)} className="pl-10" />
+                            </div>
+                        </div>
                     </div>
                 </div>
                 {!lead && (
@@ -5,6 +5,7 @@ import { Sidebar } from '@/components/layout/Sidebar'; // ✅ Corrigido: usar na
 import { TagManager } from '@/components/tags/TagManager';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { useRespostasLembretes } from '@/hooks/useRespostasLembretes';
 
 /**
  * Layout Principal da Aplicação
@@ -17,11 +18,15 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/co
  * - Sidebar fixa com navegação
  * - Área de conteúdo principal (renderizada via Outlet)
  * - Painel deslizante de categorias (TagManager)
+ * - Aviso de confirmação/cancelamento de agendamento pelo paciente (useRespostasLembretes)
  */
 const MainLayout = () => {
   const location = useLocation();
   const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
 
+  // Avisa a equipe quando o paciente responde ao lembrete de agendamento
+  useRespostasLembretes();
+
   // Determina se o botão de categorias deve ser mostrado
   // Esconde em páginas que não fazem sentido ter categorias
   const shouldShowCategoriesButton = !['/chat', '/configuracoes'].includes(location.pathname);
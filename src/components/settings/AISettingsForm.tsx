@@ -4,6 +4,7 @@ import { Loader2, Save, AlertCircle } from 'lucide-react';
 import { useAISettings } from './ai/hooks/useAISettings';
 import { AIActivationSection } from './ai/AIActivationSection';
 import { AIOperatingModeSection } from './ai/AIOperatingModeSection';
+import { AIMessageBufferSection } from './ai/AIMessageBufferSection';
 import { AIBusinessHoursSection } from './ai/AIBusinessHoursSection';
 import { AIPersonalitySection } from './ai/AIPersonalitySection';
 import { useClinica } from '@/contexts/ClinicaContext';
@@ -138,6 +139,11 @@ export const AISettingsForm = () => {
         updateSetting={updateSetting} 
       />
 
+      <AIMessageBufferSection 
+        settings={settings} 
+        updateSetting={updateSetting} 
+      />
+
       <AIBusinessHoursSection 
         settings={settings} 
         updateSetting={updateSetting} 
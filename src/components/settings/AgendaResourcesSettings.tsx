@@ -0,0 +1,326 @@
+/**
+ * Componente de configuração da agenda: profissionais, salas, conflitos de horário e bloqueios
+ *
+ * O que faz:
+ * - Cadastra os profissionais (nome, especialidade, cor na agenda e horário de trabalho) e as salas da clínica
+ * - Ativa/desativa profissionais e salas (os desativados somem da seleção de novos agendamentos)
+ * - Define o que acontece quando um agendamento sobrepõe outro do mesmo profissional ou sala:
+ *   bloquear o agendamento ou apenas avisar (campo 'conflito_agendamento' da tabela 'clinicas')
+ * - Gerencia os períodos bloqueados da agenda (BloqueiosAgendaManager)
+ *
+ * Onde é usado:
+ * - Renderizado dentro da aba "Agenda" na `SettingsPage`.
+ *
+ * Como se conecta com outras partes:
+ * - useProfissionais / useSalas (useAgendaResources) para o cadastro
+ * - O trigger validar_conflito_agendamento lê o modo de conflito ao salvar agendamentos
+ */
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Plus, Loader, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Profissional, useProfissionais, useSalas } from '@/hooks/useAgendaResources';
+import { ProfissionalHorarioDialog } from './ProfissionalHorarioDialog';
+import { BloqueiosAgendaManager } from './BloqueiosAgendaManager';
+
+interface AgendaResourcesSettingsProps {
+  clinicaId: string | null;
+}
+
+type ModoConflito = 'bloquear' | 'avisar';
+
+const COR_PADRAO_PROFISSIONAL = '#3B82F6';
+
+export const AgendaResourcesSettings = ({ clinicaId }: AgendaResourcesSettingsProps) => {
+  const queryClient = useQueryClient();
+  const [novoProfissional, setNovoProfissional] = useState('');
+  const [novaEspecialidade, setNovaEspecialidade] = useState('');
+  const [novaCor, setNovaCor] = useState(COR_PADRAO_PROFISSIONAL);
+  const [novaSala, setNovaSala] = useState('');
+  const [modoConflito, setModoConflito] = useState<ModoConflito>('bloquear');
+  const [isSavingModo, setIsSavingModo] = useState(false);
+  const [profissionalHorario, setProfissionalHorario] = useState<Profissional | null>(null);
+
+  const {
+    profissionais,
+    isLoading: profissionaisLoading,
+    addProfissional,
+    updateProfissional,
+    isAddingProfissional,
+    isUpdatingProfissional,
+  } = useProfissionais();
+  const { salas, isLoading: salasLoading, addSala, toggleSala, isAddingSala, isUpdatingSala } = useSalas();
+
+  // Efeito que busca o modo de conflito salvo no banco
+  useEffect(() => {
+    if (!clinicaId) return;
+
+    const fetchModo = async () => {
+      const { data, error } = await supabase
+        .from('clinicas')
+        .select('conflito_agendamento')
+        .eq('id', clinicaId)
+        .single();
+
+      if (error) {
+        console.error('Erro ao buscar modo de conflito da agenda:', error);
+        return;
+      }
+      if (data?.conflito_agendamento) {
+        setModoConflito(data.conflito_agendamento as ModoConflito);
+      }
+    };
+
+    fetchModo();
+  }, [clinicaId]);
+
+  const handleAddProfissional = async () => {
+    if (!novoProfissional.trim()) return;
+
+    try {
+      await addProfissional({ nome: novoProfissional, especialidade: novaEspecialidade, cor: novaCor });
+      setNovoProfissional('');
+      setNovaEspecialidade('');
+      setNovaCor(COR_PADRAO_PROFISSIONAL);
+    } catch (error) {
+      // O erro já é tratado no hook
+      console.error('Erro ao cadastrar profissional:', error);
+    }
+  };
+
+  const handleAddSala = async () => {
+    if (!novaSala.trim()) return;
+
+    try {
+      await addSala(novaSala);
+      setNovaSala('');
+    } catch (error) {
+      // O erro já é tratado no hook
+      console.error('Erro ao cadastrar sala:', error);
+    }
+  };
+
+  const handleModoConflitoChange = async (modo: ModoConflito) => {
+    if (!clinicaId) return;
+
+    const modoAnterior = modoConflito;
+    setModoConflito(modo);
+    setIsSavingModo(true);
+
+    const { error } = await supabase
+      .from('clinicas')
+      .update({ conflito_agendamento: modo })
+      .eq('id', clinicaId);
+
+    if (error) {
+      console.error('Erro ao salvar modo de conflito da agenda:', error);
+      toast.error('Erro ao salvar a regra de conflito de horário.');
+      setModoConflito(modoAnterior);
+    } else {
+      queryClient.invalidateQueries({ queryKey: ['clinicaData'] });
+      toast.success('Regra de conflito de horário salva!');
+    }
+    setIsSavingModo(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Conflitos de horário */}
+      <div className="space-y-2">
+        <Label>Conflito de horário</Label>
+        <p className="text-xs text-gray-500">
+          O que fazer quando um agendamento ocupa o mesmo profissional ou a mesma sala de outro
+          agendamento no mesmo horário. Cancelados e faltas não ocupam horário.
+        </p>
+        <Select
+          value={modoConflito}
+          onValueChange={(value) => handleModoConflitoChange(value as ModoConflito)}
+          disabled={isSavingModo || !clinicaId}
+        >
+          <SelectTrigger className="w-full md:w-[320px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="bloquear">Bloquear o agendamento</SelectItem>
+            <SelectItem value="avisar">Apenas avisar e permitir salvar</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Separator />
+
+      {/* Profissionais */}
+      <div className="space-y-3">
+        <div>
+          <Label>Profissionais</Label>
+          <p className="text-xs text-gray-500">
+            Quem realiza os atendimentos. A cor identifica o profissional na agenda.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Input
+            placeholder="Nome do profissional"
+            value={novoProfissional}
+            onChange={(e) => setNovoProfissional(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAddProfissional();
+            }}
+            disabled={isAddingProfissional}
+            className="flex-1 min-w-[180px]"
+          />
+          <Input
+            placeholder="Especialidade (opcional)"
+            value={novaEspecialidade}
+            onChange={(e) => setNovaEspecialidade(e.target.value)}
+            disabled={isAddingProfissional}
+            className="flex-1 min-w-[160px]"
+          />
+          <Input
+            type="color"
+            value={novaCor}
+            onChange={(e) => setNovaCor(e.target.value)}
+            disabled={isAddingProfissional}
+            className="w-14 p-1"
+            aria-label="Cor do profissional na agenda"
+          />
+          <Button onClick={handleAddProfissional} disabled={isAddingProfissional || !novoProfissional.trim()}>
+            {isAddingProfissional ? <Loader className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Adicionar
+          </Button>
+        </div>
+
+        {profissionaisLoading ? (
+          <p className="text-sm text-gray-500">Carregando profissionais...</p>
+        ) : profissionais.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhum profissional cadastrado.</p>
+        ) : (
+          <div className="space-y-2">
+            {profissionais.map((profissional) => (
+              <div
+                key={profissional.id}
+                className="flex items-center justify-between p-3 border rounded-lg"
+              >
+                <div className="flex items-center gap-3">
+                  <span
+                    className="w-3 h-3 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: profissional.cor }}
+                  />
+                  <div>
+                    <p className={`text-sm font-medium ${profissional.ativo ? 'text-gray-900' : 'text-gray-400'}`}>
+                      {profissional.nome}
+                    </p>
+                    {profissional.especialidade && (
+                      <p className="text-xs text-gray-500">{profissional.especialidade}</p>
+                    )}
+                  </div>
+                  {!profissional.ativo && <Badge variant="outline">Inativo</Badge>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setProfissionalHorario(profissional)}
+                    title="Horário de trabalho"
+                  >
+                    <Clock className="w-4 h-4" />
+                    {profissional.horario_trabalho ? 'Horário próprio' : 'Horário da clínica'}
+                  </Button>
+                  <Switch
+                    checked={profissional.ativo}
+                    disabled={isUpdatingProfissional}
+                    onCheckedChange={(ativo) => updateProfissional({ id: profissional.id, ativo })}
+                    aria-label={`Ativar ${profissional.nome}`}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Separator />
+
+      {/* Salas */}
+      <div className="space-y-3">
+        <div>
+          <Label>Salas</Label>
+          <p className="text-xs text-gray-500">
+            Opcional. Com salas cadastradas, dois agendamentos não ocupam a mesma sala no mesmo horário.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Nome da sala"
+            value={novaSala}
+            onChange={(e) => setNovaSala(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleAddSala();
+            }}
+            disabled={isAddingSala}
+            className="flex-1"
+          />
+          <Button onClick={handleAddSala} disabled={isAddingSala || !novaSala.trim()}>
+            {isAddingSala ? <Loader className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Adicionar
+          </Button>
+        </div>
+
+        {salasLoading ? (
+          <p className="text-sm text-gray-500">Carregando salas...</p>
+        ) : salas.length === 0 ? (
+          <p className="text-sm text-gray-500">Nenhuma sala cadastrada.</p>
+        ) : (
+          <div className="space-y-2">
+            {salas.map((sala) => (
+              <div key={sala.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="flex items-center gap-2">
+                  <p className={`text-sm font-medium ${sala.ativo ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {sala.nome}
+                  </p>
+                  {!sala.ativo && <Badge variant="outline">Inativa</Badge>}
+                </div>
+                <Switch
+                  checked={sala.ativo}
+                  disabled={isUpdatingSala}
+                  onCheckedChange={(ativo) => toggleSala({ id: sala.id, ativo })}
+                  aria-label={`Ativar ${sala.nome}`}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <Separator />
+
+      {/* Bloqueios */}
+      <BloqueiosAgendaManager profissionais={profissionais} />
+
+      <ProfissionalHorarioDialog
+        profissional={profissionalHorario}
+        isSaving={isUpdatingProfissional}
+        onClose={() => setProfissionalHorario(null)}
+        onSave={async (horarioTrabalho) => {
+          if (!profissionalHorario) return;
+          await updateProfissional({ id: profissionalHorario.id, horario_trabalho: horarioTrabalho });
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,221 @@
+/**
+ * Componente para configurar os lembretes automáticos de agendamento pelo WhatsApp
+ *
+ * O que faz:
+ * - Liga/desliga os lembretes da clínica
+ * - Define com quantas horas de antecedência o paciente é lembrado (ex.: 24h e 2h)
+ * - Edita o texto do lembrete com as variáveis do lead, da clínica e do agendamento
+ * - Mostra as respostas que confirmam ou cancelam o agendamento
+ * - Os dados ficam nos campos 'lembretes_agendamento_ativos', 'lembretes_agendamento_horas'
+ *   e 'lembrete_agendamento_template' da tabela 'clinicas'.
+ *
+ * Onde é usado:
+ * - Renderizado dentro da aba "Lembretes" na `SettingsPage`.
+ *
+ * Como se conecta com outras partes:
+ * - A Edge Function process-appointment-reminders envia os lembretes vencidos pela send-webhook.
+ * - A receive-message interpreta a resposta do paciente (_shared/appointmentReply.ts) e
+ *   confirma ou cancela o agendamento.
+ */
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Plus, X } from 'lucide-react';
+import { TemplateContentEditor } from '@/components/followup/TemplateContentEditor';
+import { validarTemplate } from '../../../supabase/functions/_shared/templateEngine';
+import {
+  RESPOSTAS_CANCELAMENTO,
+  RESPOSTAS_CONFIRMACAO,
+} from '../../../supabase/functions/_shared/appointmentReply';
+
+interface AppointmentReminderSettingsProps {
+  clinicaId: string | null;
+}
+
+// Antecedência máxima aceita (uma semana)
+const HORAS_MAXIMAS = 168;
+
+const descreverAntecedencia = (horas: number) =>
+  horas % 24 === 0 ? `${horas / 24} dia(s) antes` : `${horas}h antes`;
+
+export const AppointmentReminderSettings = ({ clinicaId }: AppointmentReminderSettingsProps) => {
+  const [ativos, setAtivos] = useState(false);
+  const [horas, setHoras] = useState<number[]>([24, 2]);
+  const [novaHora, setNovaHora] = useState('');
+  const [template, setTemplate] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Efeito que busca a configuração salva no banco quando o componente carrega
+  useEffect(() => {
+    if (!clinicaId) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchConfiguracao = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('clinicas')
+        .select('lembretes_agendamento_ativos, lembretes_agendamento_horas, lembrete_agendamento_template')
+        .eq('id', clinicaId)
+        .single();
+
+      if (error) {
+        console.error('Erro ao buscar configuração de lembretes:', error);
+        toast.error('Não foi possível carregar os lembretes de agendamento.');
+      } else if (data) {
+        setAtivos(data.lembretes_agendamento_ativos);
+        setHoras(data.lembretes_agendamento_horas);
+        setTemplate(data.lembrete_agendamento_template);
+      }
+      setLoading(false);
+    };
+
+    fetchConfiguracao();
+  }, [clinicaId]);
+
+  const handleAddHora = () => {
+    const valor = parseInt(novaHora, 10);
+    if (!valor || valor < 1 || valor > HORAS_MAXIMAS) {
+      toast.error(`Informe um número de horas entre 1 e ${HORAS_MAXIMAS}.`);
+      return;
+    }
+    setHoras(Array.from(new Set([...horas, valor])).sort((a, b) => b - a));
+    setNovaHora('');
+  };
+
+  const handleSave = async () => {
+    if (!clinicaId) {
+      toast.error('ID da clínica não encontrado.');
+      return;
+    }
+
+    if (ativos && horas.length === 0) {
+      toast.error('Adicione ao menos um lembrete.');
+      return;
+    }
+
+    if (!template.trim() || !validarTemplate(template).valido) {
+      toast.error('Corrija o texto do lembrete antes de salvar.');
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await supabase
+      .from('clinicas')
+      .update({
+        lembretes_agendamento_ativos: ativos,
+        lembretes_agendamento_horas: horas,
+        lembrete_agendamento_template: template,
+      })
+      .eq('id', clinicaId);
+
+    if (error) {
+      console.error('Erro ao salvar configuração de lembretes:', error);
+      toast.error('Erro ao salvar os lembretes de agendamento.');
+    } else {
+      toast.success('Lembretes de agendamento salvos com sucesso!');
+    }
+    setIsSaving(false);
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Carregando...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="lembretes-ativos">Enviar lembretes automáticos</Label>
+          <p className="text-xs text-gray-500">
+            Agendamentos com status agendado ou confirmado recebem o lembrete pelo WhatsApp.
+          </p>
+        </div>
+        <Switch id="lembretes-ativos" checked={ativos} onCheckedChange={setAtivos} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="lembrete-horas">Quando enviar</Label>
+        <div className="flex flex-wrap gap-2">
+          {horas.map((hora) => (
+            <Badge key={hora} variant="secondary" className="gap-1">
+              {descreverAntecedencia(hora)}
+              <button
+                type="button"
+                onClick={() => setHoras(horas.filter((h) => h !== hora))}
+                aria-label={`Remover lembrete de ${hora}h`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+          {horas.length === 0 && <span className="text-xs text-gray-400">Nenhum lembrete configurado</span>}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            id="lembrete-horas"
+            type="number"
+            min={1}
+            max={HORAS_MAXIMAS}
+            value={novaHora}
+            onChange={(e) => setNovaHora(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleAddHora();
+              }
+            }}
+            placeholder="Horas antes"
+            className="max-w-[140px]"
+          />
+          <Button type="button" variant="outline" size="sm" onClick={handleAddHora}>
+            <Plus className="w-4 h-4 mr-1" />
+            Adicionar
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Quem marca em cima da hora só recebe os lembretes que ainda não venceram.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Texto do lembrete</Label>
+        <TemplateContentEditor
+          value={template}
+          onChange={setTemplate}
+          grupos={['lead', 'clinica', 'agendamento']}
+          placeholder="Olá {primeiro_nome}! Lembrete do seu agendamento em {data_agendamento} às {hora_agendamento}."
+          rows={4}
+        />
+      </div>
+
+      <div className="space-y-1 text-xs text-gray-500">
+        <p>
+          <strong>Confirmam:</strong> {RESPOSTAS_CONFIRMACAO.join(', ')}
+        </p>
+        <p>
+          <strong>Cancelam:</strong> {RESPOSTAS_CANCELAMENTO.join(', ')}
+        </p>
+        <p>
+          A resposta ao último lembrete muda o status do agendamento e a equipe é avisada no CRM.
+          Maiúsculas, acentos e pontuação são ignorados. Confirmações valem por até 4 horas após o
+          lembrete; cancelamentos e respostas genéricas ("sim", "ok", "não"), por 1 hora. Se a
+          clínica mandar outra mensagem depois do lembrete, a resposta fica para a equipe.
+        </p>
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Salvando...' : 'Salvar lembretes'}
+        </Button>
+      </div>
+    </div>
+  );
+};
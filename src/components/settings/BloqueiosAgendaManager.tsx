@@ -0,0 +1,153 @@
+/**
+ * Componente para gerenciar os bloqueios da agenda
+ *
+ * O que faz:
+ * - Cadastra períodos sem atendimento (férias, congressos, feriados locais), da clínica
+ *   inteira ou de um profissional
+ * - Lista os bloqueios que ainda não terminaram e permite removê-los
+ *
+ * Onde é usado:
+ * - AgendaResourcesSettings (aba Agenda das configurações)
+ *
+ * Como se conecta com outras partes:
+ * - useBloqueiosAgenda (useAgendaResources) para ler e gravar a tabela 'bloqueios_agenda'
+ * - get-available-slots não sugere horários dentro dos períodos bloqueados
+ */
+import { useState } from 'react';
+import { addDays, format, startOfDay } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { Plus, Loader, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { DateTimePicker } from '@/components/ui/DateTimePicker';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Profissional, useBloqueiosAgenda } from '@/hooks/useAgendaResources';
+
+interface BloqueiosAgendaManagerProps {
+  profissionais: Profissional[];
+}
+
+// Valor do <Select> para "clínica inteira" (o Select não aceita valor vazio)
+const CLINICA_INTEIRA = 'clinica_inteira';
+
+export const BloqueiosAgendaManager = ({ profissionais }: BloqueiosAgendaManagerProps) => {
+  const [dataInicio, setDataInicio] = useState<Date | undefined>(() => addDays(startOfDay(new Date()), 1));
+  const [dataFim, setDataFim] = useState<Date | undefined>(() => addDays(startOfDay(new Date()), 2));
+  const [profissionalId, setProfissionalId] = useState(CLINICA_INTEIRA);
+  const [motivo, setMotivo] = useState('');
+
+  const { bloqueios, isLoading, addBloqueio, removeBloqueio, isAddingBloqueio, isRemovingBloqueio } =
+    useBloqueiosAgenda();
+
+  const periodoValido = !!dataInicio && !!dataFim && dataFim > dataInicio;
+  const nomeProfissional = (id: string | null) =>
+    id ? profissionais.find((profissional) => profissional.id === id)?.nome || 'Profissional removido' : 'Clínica inteira';
+
+  const handleAddBloqueio = async () => {
+    if (!periodoValido) return;
+
+    try {
+      await addBloqueio({
+        profissional_id: profissionalId === CLINICA_INTEIRA ? null : profissionalId,
+        data_inicio: dataInicio!.toISOString(),
+        data_fim: dataFim!.toISOString(),
+        motivo,
+      });
+      setMotivo('');
+    } catch (error) {
+      // O erro já é tratado no hook
+      console.error('Erro ao criar bloqueio da agenda:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Bloqueios de agenda</Label>
+        <p className="text-xs text-gray-500">
+          Períodos sem atendimento, como férias e feriados locais. Horários bloqueados não são
+          sugeridos como disponíveis.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <span className="text-xs text-gray-500">Início</span>
+          <DateTimePicker value={dataInicio} onChange={setDataInicio} />
+        </div>
+        <div className="space-y-1">
+          <span className="text-xs text-gray-500">Fim</span>
+          <DateTimePicker value={dataFim} onChange={setDataFim} />
+        </div>
+        <Select value={profissionalId} onValueChange={setProfissionalId}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={CLINICA_INTEIRA}>Clínica inteira</SelectItem>
+            {profissionais.map((profissional) => (
+              <SelectItem key={profissional.id} value={profissional.id}>
+                {profissional.nome}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          <Input
+            placeholder="Motivo (opcional)"
+            value={motivo}
+            onChange={(e) => setMotivo(e.target.value)}
+            disabled={isAddingBloqueio}
+            className="flex-1"
+          />
+          <Button onClick={handleAddBloqueio} disabled={isAddingBloqueio || !periodoValido}>
+            {isAddingBloqueio ? <Loader className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Bloquear
+          </Button>
+        </div>
+      </div>
+      {!periodoValido && (
+        <p className="text-sm text-red-600">O fim do bloqueio deve ser depois do início.</p>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Carregando bloqueios...</p>
+      ) : bloqueios.length === 0 ? (
+        <p className="text-sm text-gray-500">Nenhum bloqueio futuro.</p>
+      ) : (
+        <div className="space-y-2">
+          {bloqueios.map((bloqueio) => (
+            <div key={bloqueio.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div>
+                <p className="text-sm font-medium text-gray-900">
+                  {format(new Date(bloqueio.data_inicio), "dd/MM/yyyy HH:mm", { locale: ptBR })} até{' '}
+                  {format(new Date(bloqueio.data_fim), "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {nomeProfissional(bloqueio.profissional_id)}
+                  {bloqueio.motivo ? ` · ${bloqueio.motivo}` : ''}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeBloqueio(bloqueio.id)}
+                disabled={isRemovingBloqueio}
+                aria-label="Remover bloqueio"
+              >
+                <Trash2 className="h-4 w-4 text-muted-foreground" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
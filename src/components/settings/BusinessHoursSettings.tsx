@@ -4,6 +4,7 @@
  * O que faz:
  * - Permite ao usuário definir os horários de funcionamento para cada dia da semana.
  * - Para cada dia, é possível marcar como "Fechado" ou adicionar um ou mais intervalos de horário (ex: 08:00-12:00 e 14:00-18:00).
+ * - Permite escolher o fuso horário da clínica (campo 'fuso_horario'), usado nos envios automáticos de follow-up.
  * - As alterações são salvas diretamente no banco de dados, na tabela 'clinicas', campo 'horario_funcionamento' (JSONB).
  *
  * Onde é usado:
@@ -24,6 +25,7 @@ import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Plus, Trash2 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 
 interface BusinessHoursSettingsProps {
   clinicaId: string | null;
@@ -47,6 +49,22 @@ type BusinessHours = {
 // Dias da semana em ordem
 const daysOfWeek = ['Domingo', 'Segunda-feira', 'Terça-feira', 'Quarta-feira', 'Quinta-feira', 'Sexta-feira', 'Sábado'];
 
+// Fusos horários do Brasil (IANA)
+const brazilTimezones = [
+  { value: 'America/Noronha', label: 'Fernando de Noronha (UTC-2)' },
+  { value: 'America/Sao_Paulo', label: 'Brasília (UTC-3)' },
+  { value: 'America/Bahia', label: 'Bahia (UTC-3)' },
+  { value: 'America/Fortaleza', label: 'Fortaleza (UTC-3)' },
+  { value: 'America/Recife', label: 'Recife (UTC-3)' },
+  { value: 'America/Belem', label: 'Belém (UTC-3)' },
+  { value: 'America/Manaus', label: 'Manaus (UTC-4)' },
+  { value: 'America/Cuiaba', label: 'Cuiabá (UTC-4)' },
+  { value: 'America/Campo_Grande', label: 'Campo Grande (UTC-4)' },
+  { value: 'America/Porto_Velho', label: 'Porto Velho (UTC-4)' },
+  { value: 'America/Boa_Vista', label: 'Boa Vista (UTC-4)' },
+  { value: 'America/Rio_Branco', label: 'Rio Branco (UTC-5)' },
+];
+
 // Estrutura inicial para os horários, com todos os dias fechados por padrão
 const initialHours: BusinessHours = daysOfWeek.reduce((acc, day) => {
   acc[day] = { isClosed: true, slots: [{ start: '08:00', end: '18:00' }] };
@@ -56,6 +74,7 @@ const initialHours: BusinessHours = daysOfWeek.reduce((acc, day) => {
 
 export const BusinessHoursSettings = ({ clinicaId }: BusinessHoursSettingsProps) => {
   const [hours, setHours] = useState<BusinessHours>(initialHours);
+  const [timezone, setTimezone] = useState('America/Sao_Paulo');
   const [loading, setLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
 
@@ -70,7 +89,7 @@ export const BusinessHoursSettings = ({ clinicaId }: BusinessHoursSettingsProps)
       setLoading(true);
       const { data, error } = await supabase
         .from('clinicas')
-        .select('horario_funcionamento')
+        .select('horario_funcionamento, fuso_horario')
         .eq('id', clinicaId)
         .single();
 
@@ -89,6 +108,9 @@ export const BusinessHoursSettings = ({ clinicaId }: BusinessHoursSettingsProps)
         }
         setHours(mergedHours);
       }
+      if (data?.fuso_horario) {
+        setTimezone(data.fuso_horario);
+      }
       setLoading(false);
     };
 
@@ -140,7 +162,7 @@ export const BusinessHoursSettings = ({ clinicaId }: BusinessHoursSettingsProps)
     // que pode estar com tipos desatualizados após a migração do banco.
     const { error } = await supabase
       .from('clinicas')
-      .update({ horario_funcionamento: hours } as any)
+      .update({ horario_funcionamento: hours, fuso_horario: timezone } as any)
       .eq('id', clinicaId);
 
     if (error) {
@@ -169,6 +191,19 @@ export const BusinessHoursSettings = ({ clinicaId }: BusinessHoursSettingsProps)
         </CardDescription>
       </CardHeader>
       <CardContent>
+        <div className="flex flex-col md:flex-row md:items-center gap-4 pb-6 border-b border-border">
+          <Label className="font-semibold w-full md:w-32 shrink-0">Fuso horário</Label>
+          <Select value={timezone} onValueChange={setTimezone}>
+            <SelectTrigger className="w-full md:w-[280px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {brazilTimezones.map(tz => (
+                <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
         <div className="divide-y divide-border">
           {daysOfWeek.map(day => (
             <div key={day} className="py-6">
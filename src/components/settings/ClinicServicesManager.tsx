@@ -1,9 +1,11 @@
 
 import React, { useState } from 'react';
-import { Plus, Trash2, Loader } from 'lucide-react';
+import { Plus, Trash2, Loader, Pencil } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { useClinicServices } from '@/hooks/useClinicServices';
+import { ClinicaServico, useClinicServices } from '@/hooks/useClinicServices';
+import { useProfissionais } from '@/hooks/useAgendaResources';
+import { ServicoCatalogoDialog } from './ServicoCatalogoDialog';
 
 /**
  * Componente para gerenciar os serviços/procedimentos da clínica
@@ -12,6 +14,7 @@ import { useClinicServices } from '@/hooks/useClinicServices';
  * - Exibir lista de serviços cadastrados
  * - Adicionar novos serviços através de campo de entrada
  * - Remover serviços existentes
+ * - Editar duração, preço, intervalo, instruções de preparo e profissionais de cada serviço
  * - Interface intuitiva com feedback visual
  * 
  * Utilizado na página de configurações para permitir que a clínica
@@ -20,16 +23,36 @@ import { useClinicServices } from '@/hooks/useClinicServices';
 export const ClinicServicesManager = () => {
   // Estado local para o campo de entrada de novo serviço
   const [newServiceName, setNewServiceName] = useState('');
+  // Serviço aberto no modal de edição
+  const [servicoEmEdicao, setServicoEmEdicao] = useState<ClinicaServico | null>(null);
 
   // Hook para gerenciar os serviços da clínica
   const {
     services,
     isLoading,
     addService,
+    updateService,
     removeService,
     isAddingService,
+    isUpdatingService,
     isRemovingService,
   } = useClinicServices();
+  const { profissionais } = useProfissionais();
+
+  // Resumo das regras do serviço exibido na lista (ex.: "30 min · R$ 150,00")
+  const formatarResumo = (service: ClinicaServico) => {
+    const partes = [`${service.duracao_minutos} min`];
+    if (service.preco !== null) {
+      partes.push(service.preco.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }));
+    }
+    if (service.intervalo_minutos > 0) {
+      partes.push(`+${service.intervalo_minutos} min de intervalo`);
+    }
+    if (service.profissional_ids.length > 0) {
+      partes.push(`${service.profissional_ids.length} profissional(is)`);
+    }
+    return partes.join(' · ');
+  };
 
   // Função para adicionar um novo serviço
   const handleAddService = async () => {
@@ -110,18 +133,31 @@ export const ClinicServicesManager = () => {
                   key={service.id}
                   className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border border-gray-200"
                 >
-                  <span className="text-gray-900 font-medium">
-                    {service.nome_servico}
-                  </span>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleRemoveService(service.id)}
-                    disabled={isRemovingService}
-                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                  >
-                    <Trash2 size={16} />
-                  </Button>
+                  <div className="min-w-0">
+                    <span className="text-gray-900 font-medium">
+                      {service.nome_servico}
+                    </span>
+                    <p className="text-xs text-gray-500">{formatarResumo(service)}</p>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setServicoEmEdicao(service)}
+                      title="Editar serviço"
+                    >
+                      <Pencil size={16} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemoveService(service.id)}
+                      disabled={isRemovingService}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      <Trash2 size={16} />
+                    </Button>
+                  </div>
                 </div>
               ))}
             </div>
@@ -158,7 +194,7 @@ export const ClinicServicesManager = () => {
                 Os serviços cadastrados aqui poderão ser utilizados em:
               </p>
               <ul className="list-disc list-inside mt-1 space-y-1">
-                <li>Agendamento de consultas</li>
+                <li>Agendamento de consultas (duração e valor já preenchidos)</li>
                 <li>Relatórios de procedimentos realizados</li>
                 <li>Métricas do dashboard</li>
               </ul>
@@ -166,6 +202,16 @@ export const ClinicServicesManager = () => {
           </div>
         </div>
       </div>
+
+      <ServicoCatalogoDialog
+        servico={servicoEmEdicao}
+        profissionais={profissionais.filter(
+          (profissional) => profissional.ativo || servicoEmEdicao?.profissional_ids.includes(profissional.id)
+        )}
+        isSaving={isUpdatingService}
+        onClose={() => setServicoEmEdicao(null)}
+        onSave={updateService}
+      />
     </div>
   );
 };
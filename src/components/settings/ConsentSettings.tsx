@@ -0,0 +1,194 @@
+/**
+ * Componente para configurar as palavras-chave de opt-out / opt-in da clínica (LGPD)
+ *
+ * O que faz:
+ * - Permite editar as palavras que, enviadas sozinhas pelo paciente no WhatsApp, registram
+ *   o pedido para não receber mais mensagens (ex.: "PARE", "SAIR") ou a volta do consentimento
+ *   (ex.: "VOLTAR").
+ * - As palavras são salvas normalizadas (minúsculas, sem acentos e pontuação) nos campos
+ *   'palavras_opt_out' e 'palavras_opt_in' da tabela 'clinicas'.
+ *
+ * Onde é usado:
+ * - Renderizado dentro da aba "Consentimento" na `SettingsPage`.
+ *
+ * Como se conecta com outras partes:
+ * - A Edge Function receive-message compara cada mensagem recebida com estas palavras
+ *   (mesma normalização de _shared/consentKeywords.ts) e grava lead_consentimentos.
+ * - Leads com opt-out deixam de receber follow-ups e mensagens do CRM.
+ */
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Plus, X } from 'lucide-react';
+import {
+  PALAVRAS_OPT_IN_PADRAO,
+  PALAVRAS_OPT_OUT_PADRAO,
+  normalizarMensagemConsentimento,
+  normalizarPalavrasConsentimento,
+} from '../../../supabase/functions/_shared/consentKeywords';
+
+interface ConsentSettingsProps {
+  clinicaId: string | null;
+}
+
+interface ListaPalavrasProps {
+  id: string;
+  label: string;
+  descricao: string;
+  palavras: string[];
+  onChange: (palavras: string[]) => void;
+}
+
+const ListaPalavras = ({ id, label, descricao, palavras, onChange }: ListaPalavrasProps) => {
+  const [novaPalavra, setNovaPalavra] = useState('');
+
+  const handleAdd = () => {
+    const palavra = normalizarMensagemConsentimento(novaPalavra);
+    if (!palavra) return;
+    onChange(normalizarPalavrasConsentimento([...palavras, palavra]));
+    setNovaPalavra('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <p className="text-xs text-gray-500">{descricao}</p>
+      <div className="flex flex-wrap gap-2">
+        {palavras.map((palavra) => (
+          <Badge key={palavra} variant="secondary" className="gap-1">
+            {palavra}
+            <button
+              type="button"
+              onClick={() => onChange(palavras.filter((p) => p !== palavra))}
+              aria-label={`Remover ${palavra}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+        {palavras.length === 0 && <span className="text-xs text-gray-400">Nenhuma palavra configurada</span>}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          value={novaPalavra}
+          onChange={(e) => setNovaPalavra(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Nova palavra ou frase"
+          className="max-w-xs"
+        />
+        <Button type="button" variant="outline" size="sm" onClick={handleAdd}>
+          <Plus className="w-4 h-4 mr-1" />
+          Adicionar
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const ConsentSettings = ({ clinicaId }: ConsentSettingsProps) => {
+  const [palavrasOptOut, setPalavrasOptOut] = useState<string[]>(PALAVRAS_OPT_OUT_PADRAO);
+  const [palavrasOptIn, setPalavrasOptIn] = useState<string[]>(PALAVRAS_OPT_IN_PADRAO);
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Efeito que busca as palavras salvas no banco quando o componente carrega
+  useEffect(() => {
+    if (!clinicaId) {
+      setLoading(false);
+      return;
+    }
+
+    const fetchPalavras = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('clinicas')
+        .select('palavras_opt_out, palavras_opt_in')
+        .eq('id', clinicaId)
+        .single();
+
+      if (error) {
+        console.error('Erro ao buscar palavras de consentimento:', error);
+        toast.error('Não foi possível carregar as palavras de opt-out.');
+      } else if (data) {
+        setPalavrasOptOut(data.palavras_opt_out);
+        setPalavrasOptIn(data.palavras_opt_in);
+      }
+      setLoading(false);
+    };
+
+    fetchPalavras();
+  }, [clinicaId]);
+
+  const handleSave = async () => {
+    if (!clinicaId) {
+      toast.error('ID da clínica não encontrado.');
+      return;
+    }
+
+    // A mesma palavra não pode ser de opt-out e de opt-in
+    const conflito = palavrasOptOut.find((palavra) => palavrasOptIn.includes(palavra));
+    if (conflito) {
+      toast.error(`"${conflito}" está nas duas listas.`);
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await supabase
+      .from('clinicas')
+      .update({ palavras_opt_out: palavrasOptOut, palavras_opt_in: palavrasOptIn })
+      .eq('id', clinicaId);
+
+    if (error) {
+      console.error('Erro ao salvar palavras de consentimento:', error);
+      toast.error('Erro ao salvar as palavras de opt-out.');
+    } else {
+      toast.success('Palavras de opt-out salvas com sucesso!');
+    }
+    setIsSaving(false);
+  };
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Carregando...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <ListaPalavras
+        id="palavras-opt-out"
+        label="Palavras de opt-out"
+        descricao='Quando o paciente envia apenas uma destas palavras (ex.: "PARE"), ele deixa de receber follow-ups e mensagens do CRM.'
+        palavras={palavrasOptOut}
+        onChange={setPalavrasOptOut}
+      />
+
+      <ListaPalavras
+        id="palavras-opt-in"
+        label="Palavras de retorno"
+        descricao="Quando o paciente envia apenas uma destas palavras, o consentimento volta a valer."
+        palavras={palavrasOptIn}
+        onChange={setPalavrasOptIn}
+      />
+
+      <p className="text-xs text-gray-500">
+        Maiúsculas, acentos e pontuação são ignorados. Evite palavras usadas em outras conversas,
+        como "cancelar", que o paciente também usa para cancelar uma consulta.
+      </p>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Salvando...' : 'Salvar palavras'}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { HorarioSemanal, Profissional } from '@/hooks/useAgendaResources';
+
+/**
+ * Modal do horário de trabalho de um profissional
+ *
+ * O que faz:
+ * - Define em quais dias e horários o profissional atende, no mesmo formato do horário
+ *   de funcionamento da clínica (BusinessHoursSettings)
+ * - Sem horário próprio, o profissional atende em todo o horário de funcionamento
+ *
+ * Onde é usado:
+ * - AgendaResourcesSettings (aba Agenda das configurações)
+ *
+ * Como se conecta:
+ * - onSave recebe o valor de profissionais.horario_trabalho (null = segue a clínica)
+ * - get-available-slots cruza este horário com o da clínica para sugerir horários livres
+ */
+
+interface ProfissionalHorarioDialogProps {
+  profissional: Profissional | null;
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (horarioTrabalho: HorarioSemanal | null) => Promise<void>;
+}
+
+// Dias da semana em ordem
+const daysOfWeek = ['Domingo', 'Segunda-feira', 'Terça-feira', 'Quarta-feira', 'Quinta-feira', 'Sexta-feira', 'Sábado'];
+
+// Ponto de partida ao ativar o horário próprio: dias úteis, 08:00 às 18:00
+const horarioInicial = (): HorarioSemanal =>
+  daysOfWeek.reduce((acc, day) => {
+    acc[day] = {
+      isClosed: day === 'Domingo' || day === 'Sábado',
+      slots: [{ start: '08:00', end: '18:00' }],
+    };
+    return acc;
+  }, {} as HorarioSemanal);
+
+export const ProfissionalHorarioDialog = ({
+  profissional,
+  isSaving,
+  onClose,
+  onSave,
+}: ProfissionalHorarioDialogProps) => {
+  const [horarioProprio, setHorarioProprio] = useState(false);
+  const [hours, setHours] = useState<HorarioSemanal>(horarioInicial);
+
+  useEffect(() => {
+    if (!profissional) return;
+    setHorarioProprio(!!profissional.horario_trabalho);
+    setHours({ ...horarioInicial(), ...(profissional.horario_trabalho || {}) });
+  }, [profissional]);
+
+  const handleToggleClosed = (day: string) => {
+    setHours((prev) => ({
+      ...prev,
+      [day]: { ...prev[day], isClosed: !prev[day].isClosed },
+    }));
+  };
+
+  const handleTimeChange = (day: string, slotIndex: number, type: 'start' | 'end', value: string) => {
+    setHours((prev) => ({
+      ...prev,
+      [day]: {
+        ...prev[day],
+        slots: prev[day].slots.map((slot, index) => (index === slotIndex ? { ...slot, [type]: value } : slot)),
+      },
+    }));
+  };
+
+  const handleAddTimeSlot = (day: string) => {
+    setHours((prev) => ({
+      ...prev,
+      [day]: { ...prev[day], slots: [...prev[day].slots, { start: '14:00', end: '18:00' }] },
+    }));
+  };
+
+  const handleRemoveTimeSlot = (day: string, slotIndex: number) => {
+    setHours((prev) => ({
+      ...prev,
+      [day]: { ...prev[day], slots: prev[day].slots.filter((_, index) => index !== slotIndex) },
+    }));
+  };
+
+  const handleSave = async () => {
+    try {
+      await onSave(horarioProprio ? hours : null);
+      onClose();
+    } catch (error) {
+      // O erro já é tratado no hook
+      console.error('Erro ao salvar horário do profissional:', error);
+    }
+  };
+
+  return (
+    <Dialog open={!!profissional} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Horário de trabalho — {profissional?.nome}</DialogTitle>
+          <DialogDescription>
+            Usado para sugerir horários livres. Fora do horário de funcionamento da clínica o
+            profissional nunca é sugerido.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between p-3 border rounded-lg">
+          <Label htmlFor="horario-proprio" className="font-normal">
+            Horário próprio (desligado: atende em todo o horário da clínica)
+          </Label>
+          <Switch id="horario-proprio" checked={horarioProprio} onCheckedChange={setHorarioProprio} />
+        </div>
+
+        {horarioProprio && (
+          <div className="divide-y divide-border">
+            {daysOfWeek.map((day) => (
+              <div key={day} className="py-3 space-y-2">
+                <div className="flex items-center gap-4">
+                  <Label className="font-semibold w-32 shrink-0">{day}</Label>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`prof-closed-${day}`}
+                      checked={hours[day]?.isClosed}
+                      onCheckedChange={() => handleToggleClosed(day)}
+                    />
+                    <Label htmlFor={`prof-closed-${day}`} className="font-normal">Não atende</Label>
+                  </div>
+                </div>
+
+                {!hours[day]?.isClosed && (
+                  <div className="space-y-2 pl-36">
+                    {hours[day].slots.map((slot, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          type="time"
+                          value={slot.start}
+                          onChange={(e) => handleTimeChange(day, index, 'start', e.target.value)}
+                          className="w-[110px]"
+                        />
+                        <span className="text-sm text-muted-foreground">até</span>
+                        <Input
+                          type="time"
+                          value={slot.end}
+                          onChange={(e) => handleTimeChange(day, index, 'end', e.target.value)}
+                          className="w-[110px]"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleRemoveTimeSlot(day, index)}
+                          disabled={hours[day].slots.length <= 1}
+                        >
+                          <Trash2 className="h-4 w-4 text-muted-foreground" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button variant="outline" size="sm" onClick={() => handleAddTimeSlot(day)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Adicionar horário
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Salvando...' : 'Salvar horário'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ClinicaServico, ClinicaServicoInput } from '@/hooks/useClinicServices';
+import { Profissional } from '@/hooks/useAgendaResources';
+
+/**
+ * Modal de edição de um serviço do catálogo
+ *
+ * O que faz:
+ * - Edita nome, duração padrão, preço, intervalo após o atendimento e instruções de preparo
+ * - Marca quais profissionais realizam o serviço (nenhum marcado = qualquer profissional)
+ *
+ * Onde é usado:
+ * - ClinicServicesManager (aba Serviços das configurações)
+ *
+ * Como se conecta:
+ * - onSave recebe os dados no formato de useClinicServices().updateService
+ */
+
+interface ServicoCatalogoDialogProps {
+  servico: ClinicaServico | null;
+  profissionais: Profissional[];
+  isSaving: boolean;
+  onClose: () => void;
+  onSave: (dados: ClinicaServicoInput & { id: string }) => Promise<void>;
+}
+
+export const ServicoCatalogoDialog = ({
+  servico,
+  profissionais,
+  isSaving,
+  onClose,
+  onSave,
+}: ServicoCatalogoDialogProps) => {
+  const [nome, setNome] = useState('');
+  const [duracao, setDuracao] = useState('30');
+  const [preco, setPreco] = useState('');
+  const [intervalo, setIntervalo] = useState('0');
+  const [instrucoes, setInstrucoes] = useState('');
+  const [profissionalIds, setProfissionalIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!servico) return;
+    setNome(servico.nome_servico);
+    setDuracao(String(servico.duracao_minutos));
+    setPreco(servico.preco !== null ? String(servico.preco) : '');
+    setIntervalo(String(servico.intervalo_minutos));
+    setInstrucoes(servico.instrucoes_preparo || '');
+    setProfissionalIds(servico.profissional_ids);
+  }, [servico]);
+
+  const duracaoMinutos = parseInt(duracao, 10);
+  const intervaloMinutos = parseInt(intervalo || '0', 10);
+  const precoNumero = preco.trim() ? Number(preco.replace(',', '.')) : null;
+  const dadosValidos =
+    !!nome.trim() &&
+    duracaoMinutos > 0 &&
+    intervaloMinutos >= 0 &&
+    (precoNumero === null || (!isNaN(precoNumero) && precoNumero >= 0));
+
+  const toggleProfissional = (profissionalId: string, marcado: boolean) => {
+    setProfissionalIds((atuais) =>
+      marcado ? [...atuais, profissionalId] : atuais.filter((id) => id !== profissionalId)
+    );
+  };
+
+  const handleSave = async () => {
+    if (!servico || !dadosValidos) return;
+
+    try {
+      await onSave({
+        id: servico.id,
+        nome_servico: nome,
+        duracao_minutos: duracaoMinutos,
+        preco: precoNumero,
+        intervalo_minutos: intervaloMinutos,
+        instrucoes_preparo: instrucoes,
+        profissional_ids: profissionalIds,
+      });
+      onClose();
+    } catch (error) {
+      // O erro já é tratado no hook
+      console.error('Erro ao salvar serviço:', error);
+    }
+  };
+
+  return (
+    <Dialog open={!!servico} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Editar serviço</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="servico-nome">Nome</Label>
+            <Input id="servico-nome" value={nome} onChange={(e) => setNome(e.target.value)} />
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="servico-duracao">Duração (min)</Label>
+              <Input
+                id="servico-duracao"
+                type="number"
+                min={5}
+                step={5}
+                value={duracao}
+                onChange={(e) => setDuracao(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="servico-preco">Preço (R$)</Label>
+              <Input
+                id="servico-preco"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Opcional"
+                value={preco}
+                onChange={(e) => setPreco(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="servico-intervalo">Intervalo (min)</Label>
+              <Input
+                id="servico-intervalo"
+                type="number"
+                min={0}
+                step={5}
+                value={intervalo}
+                onChange={(e) => setIntervalo(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            O intervalo é o tempo após o atendimento em que o profissional e a sala continuam
+            ocupados (ex.: limpeza e preparo da sala).
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="servico-instrucoes">Instruções de preparo</Label>
+            <Textarea
+              id="servico-instrucoes"
+              placeholder="Ex.: Jejum de 8 horas, vir sem maquiagem..."
+              value={instrucoes}
+              onChange={(e) => setInstrucoes(e.target.value)}
+            />
+          </div>
+
+          {profissionais.length > 0 && (
+            <div className="space-y-2">
+              <Label>Profissionais que realizam</Label>
+              <p className="text-xs text-gray-500">
+                Sem nenhum marcado, qualquer profissional pode realizar o serviço.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                {profissionais.map((profissional) => (
+                  <label key={profissional.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={profissionalIds.includes(profissional.id)}
+                      onCheckedChange={(marcado) => toggleProfissional(profissional.id, marcado === true)}
+                    />
+                    {profissional.nome}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} disabled={!dadosValidos || isSaving}>
+            {isSaving ? 'Salvando...' : 'Salvar serviço'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
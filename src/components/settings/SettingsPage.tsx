@@ -8,12 +8,16 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { toast } from 'sonner';
 import { ClinicServicesManager } from './ClinicServicesManager';
 import { BusinessHoursSettings } from './BusinessHoursSettings';
+import { ConsentSettings } from './ConsentSettings';
+import { AppointmentReminderSettings } from './AppointmentReminderSettings';
+import { AgendaResourcesSettings } from './AgendaResourcesSettings';
 import { AISettingsForm } from './AISettingsForm';
 import { TagManager } from '@/components/tags/TagManager';
 import BillingPage from '@/components/billing/BillingPage';
 import { useClinica } from '@/contexts/ClinicaContext';
 import { useUpdateClinica } from '@/hooks/useClinicaOperations';
-import { Building2, Clock, Stethoscope, Users, CreditCard } from 'lucide-react';
+import { Building2, Clock, Stethoscope, Users, CreditCard, Webhook, ShieldCheck, CalendarDays, BellRing } from 'lucide-react';
+import { WebhookLogViewer } from '@/components/webhooks/WebhookLogViewer';
 
 /**
  * Página de configurações da clínica com layout em abas aprimorado
@@ -23,6 +27,7 @@ import { Building2, Clock, Stethoscope, Users, CreditCard } from 'lucide-react';
  * - Horário: horários de funcionamento  
  * - Serviços: gerenciamento de serviços/procedimentos
  * - Usuários: gerenciamento de usuários (placeholder)
+ * - Integrações: logs de entrega dos webhooks (somente leitura)
  * - Planos e Cobrança: gestão de assinaturas e pagamentos
  */
 
@@ -164,6 +169,28 @@ export const SettingsPage = () => {
               </div>
             </TabsTrigger>
             
+            <TabsTrigger 
+              value="agenda"
+              className="w-full justify-start gap-3 p-4 text-left data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:border-blue-200 data-[state=active]:shadow-sm hover:bg-gray-50 transition-all duration-200 rounded-lg border border-transparent"
+            >
+              <CalendarDays size={20} className="flex-shrink-0" />
+              <div className="text-left">
+                <div className="font-medium">Agenda</div>
+                <div className="text-xs text-gray-500">Profissionais e salas</div>
+              </div>
+            </TabsTrigger>
+            
+            <TabsTrigger 
+              value="lembretes"
+              className="w-full justify-start gap-3 p-4 text-left data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:border-blue-200 data-[state=active]:shadow-sm hover:bg-gray-50 transition-all duration-200 rounded-lg border border-transparent"
+            >
+              <BellRing size={20} className="flex-shrink-0" />
+              <div className="text-left">
+                <div className="font-medium">Lembretes</div>
+                <div className="text-xs text-gray-500">Confirmação de agendamentos</div>
+              </div>
+            </TabsTrigger>
+            
             <TabsTrigger 
               value="usuarios"
               className="w-full justify-start gap-3 p-4 text-left data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:border-blue-200 data-[state=active]:shadow-sm hover:bg-gray-50 transition-all duration-200 rounded-lg border border-transparent"
@@ -175,6 +202,28 @@ export const SettingsPage = () => {
               </div>
             </TabsTrigger>
 
+            <TabsTrigger 
+              value="consentimento"
+              className="w-full justify-start gap-3 p-4 text-left data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:border-blue-200 data-[state=active]:shadow-sm hover:bg-gray-50 transition-all duration-200 rounded-lg border border-transparent"
+            >
+              <ShieldCheck size={20} className="flex-shrink-0" />
+              <div className="text-left">
+                <div className="font-medium">Consentimento</div>
+                <div className="text-xs text-gray-500">Opt-out (LGPD)</div>
+              </div>
+            </TabsTrigger>
+
+            <TabsTrigger 
+              value="integracoes"
+              className="w-full justify-start gap-3 p-4 text-left data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:border-blue-200 data-[state=active]:shadow-sm hover:bg-gray-50 transition-all duration-200 rounded-lg border border-transparent"
+            >
+              <Webhook size={20} className="flex-shrink-0" />
+              <div className="text-left">
+                <div className="font-medium">Integrações</div>
+                <div className="text-xs text-gray-500">Logs de webhooks</div>
+              </div>
+            </TabsTrigger>
+
             <TabsTrigger 
               value="billing"
               className="w-full justify-start gap-3 p-4 text-left data-[state=active]:bg-blue-50 data-[state=active]:text-blue-700 data-[state=active]:border-blue-200 data-[state=active]:shadow-sm hover:bg-gray-50 transition-all duration-200 rounded-lg border border-transparent"
@@ -375,6 +424,36 @@ export const SettingsPage = () => {
             </Card>
           </TabsContent>
 
+          {/* Aba Agenda */}
+          <TabsContent value="agenda" className="mt-0">
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-xl">Agenda</CardTitle>
+                <p className="text-sm text-gray-600">
+                  Cadastre os profissionais e as salas da clínica e defina como tratar conflitos de horário.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <AgendaResourcesSettings clinicaId={clinicaAtiva.id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Aba Lembretes */}
+          <TabsContent value="lembretes" className="mt-0">
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-xl">Lembretes de Agendamento</CardTitle>
+                <p className="text-sm text-gray-600">
+                  Lembre os pacientes pelo WhatsApp antes da consulta e receba a confirmação ou o cancelamento pela resposta.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <AppointmentReminderSettings clinicaId={clinicaAtiva.id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Aba Usuários */}
           <TabsContent value="usuarios" className="mt-0">
             <Card className="shadow-sm">
@@ -398,6 +477,36 @@ export const SettingsPage = () => {
             </Card>
           </TabsContent>
 
+          {/* Aba Consentimento */}
+          <TabsContent value="consentimento" className="mt-0">
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-xl">Consentimento de Contato</CardTitle>
+                <p className="text-sm text-gray-600">
+                  Configure as palavras que o paciente pode enviar no WhatsApp para deixar de receber mensagens.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <ConsentSettings clinicaId={clinicaAtiva.id} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          {/* Aba Integrações */}
+          <TabsContent value="integracoes" className="mt-0">
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-xl">Logs de Webhooks</CardTitle>
+                <p className="text-sm text-gray-600">
+                  Acompanhe o envio das mensagens do CRM para a automação (n8n) e veja o motivo de falhas.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <WebhookLogViewer clinicaId={clinicaAtiva.id} readOnly />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           {/* Aba Planos e Cobrança */}
           <TabsContent value="billing" className="mt-0">
             <div className="bg-white rounded-lg shadow-sm">
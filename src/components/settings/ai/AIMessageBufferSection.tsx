@@ -0,0 +1,64 @@
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { AISettings, UpdateSettingFunction } from './types';
+
+/**
+ * Seção de Agrupamento de Mensagens
+ * 
+ * Permite configurar o buffer de mensagens: quando ativo, a IA aguarda
+ * o paciente parar de digitar e responde uma única vez a todas as
+ * mensagens enviadas em sequência
+ */
+
+interface AIMessageBufferSectionProps {
+  settings: AISettings;
+  updateSetting: UpdateSettingFunction;
+}
+
+export const AIMessageBufferSection = ({ settings, updateSetting }: AIMessageBufferSectionProps) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Agrupamento de Mensagens</CardTitle>
+        <CardDescription>
+          Evite respostas picadas quando o paciente envia várias mensagens seguidas.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="ai-message-buffer" className="flex flex-col gap-1">
+            <span>Agrupar mensagens antes de responder</span>
+            <span className="text-sm text-gray-500">A IA aguarda o paciente parar de digitar e responde tudo de uma vez</span>
+          </Label>
+          <Switch
+            id="ai-message-buffer"
+            checked={settings.ai_message_buffer_active}
+            onCheckedChange={(checked) => updateSetting('ai_message_buffer_active', checked)}
+          />
+        </div>
+
+        {settings.ai_message_buffer_active && (
+          <div className="space-y-2">
+            <Label htmlFor="ai-message-buffer-seconds">Tempo de espera (segundos)</Label>
+            <Input
+              id="ai-message-buffer-seconds"
+              type="number"
+              min={3}
+              max={300}
+              value={settings.ai_message_buffer_seconds}
+              onChange={(e) => updateSetting('ai_message_buffer_seconds', Number(e.target.value))}
+              onBlur={() => updateSetting('ai_message_buffer_seconds', Math.min(300, Math.max(3, settings.ai_message_buffer_seconds || 15)))}
+              className="w-32"
+            />
+            <p className="text-sm text-gray-500">
+              Tempo sem novas mensagens do paciente para considerar o turno encerrado (entre 3 e 300 segundos).
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
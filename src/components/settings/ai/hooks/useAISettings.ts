@@ -52,6 +52,8 @@ export const useAISettings = (clinicaIdProp?: string) => {
           ai_sunday_hours_start,
           ai_sunday_hours_end,
           ai_operating_mode,
+          ai_message_buffer_active,
+          ai_message_buffer_seconds,
           ai_name,
           ai_clinica_prompt,
           ai_restricted_topics_prompt,
@@ -92,6 +94,8 @@ export const useAISettings = (clinicaIdProp?: string) => {
         ai_sunday_hours_start: currentSettings.ai_sunday_hours_start ?? '08:00',
         ai_sunday_hours_end: currentSettings.ai_sunday_hours_end ?? '12:00',
         ai_operating_mode: currentSettings.ai_operating_mode ?? '24/7',
+        ai_message_buffer_active: currentSettings.ai_message_buffer_active ?? false,
+        ai_message_buffer_seconds: currentSettings.ai_message_buffer_seconds ?? 15,
         ai_name: currentSettings.ai_name ?? '',
         ai_clinica_prompt: currentSettings.ai_clinica_prompt ?? '',
         ai_restricted_topics_prompt: currentSettings.ai_restricted_topics_prompt ?? '',
@@ -124,6 +128,8 @@ export const useAISettings = (clinicaIdProp?: string) => {
         ai_sunday_hours_start: newSettings.ai_sunday_hours_start,
         ai_sunday_hours_end: newSettings.ai_sunday_hours_end,
         ai_operating_mode: newSettings.ai_operating_mode,
+        ai_message_buffer_active: newSettings.ai_message_buffer_active,
+        ai_message_buffer_seconds: newSettings.ai_message_buffer_seconds,
         ai_name: newSettings.ai_name,
         ai_clinica_prompt: newSettings.ai_clinica_prompt,
         ai_restricted_topics_prompt: newSettings.ai_restricted_topics_prompt,
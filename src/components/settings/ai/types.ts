@@ -19,6 +19,8 @@ export interface AISettings {
   ai_sunday_hours_start: string;
   ai_sunday_hours_end: string;
   ai_operating_mode: string;
+  ai_message_buffer_active: boolean;
+  ai_message_buffer_seconds: number;
   ai_name: string;
   ai_clinica_prompt: string;
   ai_restricted_topics_prompt: string;
@@ -43,6 +45,8 @@ export const defaultAISettings: AISettings = {
   ai_sunday_hours_start: '08:00',
   ai_sunday_hours_end: '12:00',
   ai_operating_mode: '24/7',
+  ai_message_buffer_active: false,
+  ai_message_buffer_seconds: 15,
   ai_name: '',
   ai_clinica_prompt: '',
   ai_restricted_topics_prompt: '',
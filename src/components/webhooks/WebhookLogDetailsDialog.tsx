@@ -0,0 +1,86 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import type { WebhookLog } from '@/hooks/useWebhookLogs';
+
+/**
+ * Diálogo com os detalhes de um log de entrega de webhook
+ *
+ * Exibe a URL de destino, o payload enviado ao n8n, o status HTTP,
+ * a resposta recebida e o erro da tentativa.
+ *
+ * Onde é usado:
+ * - WebhookLogViewer
+ */
+
+interface WebhookLogDetailsDialogProps {
+  log: WebhookLog | null;
+  onClose: () => void;
+}
+
+// Respostas JSON são exibidas formatadas; texto puro é exibido como veio
+const formatarConteudo = (conteudo: unknown): string => {
+  if (conteudo === null || conteudo === undefined || conteudo === '') return '—';
+  if (typeof conteudo === 'string') {
+    try {
+      return JSON.stringify(JSON.parse(conteudo), null, 2);
+    } catch {
+      return conteudo;
+    }
+  }
+  return JSON.stringify(conteudo, null, 2);
+};
+
+export const WebhookLogDetailsDialog = ({ log, onClose }: WebhookLogDetailsDialogProps) => {
+  return (
+    <Dialog open={!!log} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Detalhes da entrega</DialogTitle>
+          <DialogDescription>
+            {log?.leads?.nome || 'Contato sem nome'}
+            {log?.created_at && ` · ${new Date(log.created_at).toLocaleString('pt-BR')}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {log && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant={log.status_code && log.status_code < 300 ? 'default' : 'destructive'}>
+                HTTP {log.status_code || 'sem resposta'}
+              </Badge>
+              {log.canal && <Badge variant="outline" className="capitalize">{log.canal}</Badge>}
+              <Badge variant="secondary">Tentativa {log.tentativas ?? 1}</Badge>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-sm font-medium">URL</Label>
+              <p className="text-sm font-mono break-all bg-gray-50 p-2 rounded">{log.webhook_url}</p>
+            </div>
+
+            {log.erro && (
+              <div className="space-y-1">
+                <Label className="text-sm font-medium">Erro</Label>
+                <p className="text-sm text-red-600 break-all bg-red-50 p-2 rounded">{log.erro}</p>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <Label className="text-sm font-medium">Requisição</Label>
+              <pre className="text-xs bg-gray-50 p-3 rounded overflow-x-auto whitespace-pre-wrap break-all">
+                {log.payload ? formatarConteudo(log.payload) : 'Payload não registrado (envio anterior à fila de envio)'}
+              </pre>
+            </div>
+
+            <div className="space-y-1">
+              <Label className="text-sm font-medium">Resposta</Label>
+              <pre className="text-xs bg-gray-50 p-3 rounded overflow-x-auto whitespace-pre-wrap break-all">
+                {formatarConteudo(log.resposta)}
+              </pre>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
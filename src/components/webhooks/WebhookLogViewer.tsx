@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, Eye, Loader2, RefreshCw, RotateCcw, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  useWebhookLogs,
+  WEBHOOK_LOGS_PAGE_SIZE,
+  type WebhookLog,
+  type WebhookLogFilters,
+  type WebhookLogStatusFilter,
+} from '@/hooks/useWebhookLogs';
+import { WebhookLogDetailsDialog } from './WebhookLogDetailsDialog';
+
+/**
+ * 📜 Visualizador de logs de entrega de webhooks (CRM -> n8n)
+ *
+ * RECURSOS:
+ * - Lista paginada das tentativas de envio, com status HTTP e erro
+ * - Filtros por lead (nome ou telefone), faixa de status e período
+ * - Detalhes com o payload enviado e a resposta completa
+ * - Reenvio da mensagem (apenas quando readOnly = false)
+ *
+ * 📍 ONDE É USADO:
+ * - AdminClinicDetails, aba "Logs" (com reenvio)
+ * - SettingsPage da clínica, aba "Integrações" (somente leitura)
+ */
+
+interface WebhookLogViewerProps {
+  clinicaId: string;
+  readOnly?: boolean;
+}
+
+const STATUS_OPTIONS: { value: WebhookLogStatusFilter; label: string }[] = [
+  { value: 'todos', label: 'Todos os status' },
+  { value: 'sucesso', label: 'Sucesso (2xx)' },
+  { value: 'erro_cliente', label: 'Erro do webhook (4xx)' },
+  { value: 'erro_servidor', label: 'Erro do servidor (5xx)' },
+  { value: 'erro_rede', label: 'Sem resposta (timeout/rede)' },
+];
+
+const FILTROS_INICIAIS: WebhookLogFilters = {
+  lead: '',
+  status: 'todos',
+  dataInicio: '',
+  dataFim: '',
+};
+
+const getStatusVariant = (statusCode: number | null): 'default' | 'destructive' | 'secondary' => {
+  if (statusCode && statusCode >= 200 && statusCode < 300) return 'default';
+  if (!statusCode) return 'secondary';
+  return 'destructive';
+};
+
+export const WebhookLogViewer = ({ clinicaId, readOnly = false }: WebhookLogViewerProps) => {
+  const [filtros, setFiltros] = useState<WebhookLogFilters>(FILTROS_INICIAIS);
+  const [buscaLead, setBuscaLead] = useState('');
+  const [pagina, setPagina] = useState(0);
+  const [logSelecionado, setLogSelecionado] = useState<WebhookLog | null>(null);
+
+  const { logs, total, isLoading, isFetching, refetch, resend, isResending } = useWebhookLogs(clinicaId, filtros, pagina);
+
+  const totalPaginas = Math.max(1, Math.ceil(total / WEBHOOK_LOGS_PAGE_SIZE));
+
+  // Toda mudança de filtro volta para a primeira página
+  const atualizarFiltros = (novos: Partial<WebhookLogFilters>) => {
+    setFiltros((prev) => ({ ...prev, ...novos }));
+    setPagina(0);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filtros */}
+      <div className="flex flex-wrap items-end gap-2">
+        <form
+          className="flex gap-2 flex-1 min-w-[220px]"
+          onSubmit={(e) => {
+            e.preventDefault();
+            atualizarFiltros({ lead: buscaLead });
+          }}
+        >
+          <Input
+            placeholder="Buscar lead por nome ou telefone"
+            value={buscaLead}
+            onChange={(e) => setBuscaLead(e.target.value)}
+          />
+          <Button type="submit" variant="outline" size="icon">
+            <Search className="w-4 h-4" />
+          </Button>
+        </form>
+
+        <Select
+          value={filtros.status}
+          onValueChange={(value) => atualizarFiltros({ status: value as WebhookLogStatusFilter })}
+        >
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STATUS_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Input
+          type="date"
+          className="w-[160px]"
+          value={filtros.dataInicio}
+          onChange={(e) => atualizarFiltros({ dataInicio: e.target.value })}
+          aria-label="Data inicial"
+        />
+        <Input
+          type="date"
+          className="w-[160px]"
+          value={filtros.dataFim}
+          onChange={(e) => atualizarFiltros({ dataFim: e.target.value })}
+          aria-label="Data final"
+        />
+
+        <Button variant="ghost" size="icon" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {/* Lista de logs */}
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500 py-6">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Carregando logs...
+        </div>
+      ) : logs.length === 0 ? (
+        <p className="text-sm text-gray-500 py-6 text-center">Nenhum envio encontrado para os filtros selecionados.</p>
+      ) : (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Lead</TableHead>
+                <TableHead>Canal</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Tentativa</TableHead>
+                <TableHead>Erro</TableHead>
+                <TableHead className="text-right">Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {logs.map((log) => (
+                <TableRow key={log.id}>
+                  <TableCell className="whitespace-nowrap text-sm">
+                    {log.created_at ? new Date(log.created_at).toLocaleString('pt-BR') : '—'}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div className="font-medium">{log.leads?.nome || 'Sem nome'}</div>
+                    {log.leads?.telefone && <div className="text-xs text-gray-500">{log.leads.telefone}</div>}
+                  </TableCell>
+                  <TableCell className="text-sm capitalize">{log.canal || '—'}</TableCell>
+                  <TableCell>
+                    <Badge variant={getStatusVariant(log.status_code)}>{log.status_code || 'sem resposta'}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{log.tentativas ?? 1}</TableCell>
+                  <TableCell className="text-xs text-red-600 max-w-[240px] truncate" title={log.erro || undefined}>
+                    {log.erro || ''}
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => setLogSelecionado(log)}>
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                    {!readOnly && (
+                      <Button variant="ghost" size="sm" onClick={() => resend(log)} disabled={isResending}>
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Paginação */}
+      <div className="flex items-center justify-between text-sm text-gray-500">
+        <span>{total} envios</span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPagina((p) => p - 1)} disabled={pagina === 0}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span>Página {pagina + 1} de {totalPaginas}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPagina((p) => p + 1)}
+            disabled={pagina + 1 >= totalPaginas}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <WebhookLogDetailsDialog log={logSelecionado} onClose={() => setLogSelecionado(null)} />
+    </div>
+  );
+};
@@ -49,6 +49,8 @@ interface Clinica {
   ai_clinica_prompt?: string;
   ai_restricted_topics_prompt?: string;
   admin_prompt?: string;
+  // Agenda: bloquear ou só avisar quando o horário conflita (profissional/sala)
+  conflito_agendamento?: 'bloquear' | 'avisar';
 }
 
 interface ClinicaContextType {
@@ -23,6 +23,10 @@ export interface DashboardMetrics {
    * Formato: Array de objetos com nome do anúncio e quantidade de leads.
    */
   leadsPorAnuncio: Array<{ anuncio: string; leads: number; conversoes: number }>;
+  /**
+   * Faturamento dos agendamentos realizados/pagos por serviço do catálogo (agendamentos.servico_id).
+   */
+  faturamentoPorServico: Array<{ servico: string; faturamento: number; atendimentos: number }>;
   variacaoContatos: number;
   variacaoConsultas: number;
   variacaoConsultasRealizadas: number;
@@ -0,0 +1,369 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useClinica } from '@/contexts/ClinicaContext';
+
+/**
+ * Hooks dos recursos da agenda: profissionais, salas e bloqueios
+ *
+ * O que faz:
+ * - useProfissionais: lista, cadastra, edita e ativa/desativa os profissionais da clínica
+ *   (incluindo o horário de trabalho usado no cálculo de horários livres)
+ * - useSalas: lista, cadastra e ativa/desativa as salas da clínica
+ * - useBloqueiosAgenda: lista, cria e remove períodos sem atendimento (férias, feriados locais)
+ * - Os desativados continuam na lista (para o histórico da agenda), mas não aparecem
+ *   para novos agendamentos
+ *
+ * Onde é usado:
+ * - AgendaResourcesSettings (aba Agenda das configurações)
+ * - RegistroAgendamentoModal (seleção de profissional e sala)
+ * - CalendarPage (colunas por profissional e filtro)
+ */
+
+// Mesmo formato de clinicas.horario_funcionamento (BusinessHoursSettings)
+export type HorarioSemanal = Record<string, { isClosed: boolean; slots: { start: string; end: string }[] }>;
+
+export interface Profissional {
+  id: string;
+  clinica_id: string;
+  nome: string;
+  especialidade: string | null;
+  user_id: string | null;
+  cor: string;
+  // Nulo: atende em todo o horário de funcionamento da clínica
+  horario_trabalho: HorarioSemanal | null;
+  ativo: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Sala {
+  id: string;
+  clinica_id: string;
+  nome: string;
+  ativo: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProfissionalInput {
+  nome: string;
+  especialidade?: string | null;
+  cor?: string;
+  horario_trabalho?: HorarioSemanal | null;
+}
+
+export interface BloqueioAgenda {
+  id: string;
+  clinica_id: string;
+  // Nulo: bloqueio da clínica inteira
+  profissional_id: string | null;
+  data_inicio: string;
+  data_fim: string;
+  motivo: string | null;
+  criado_por: string | null;
+  created_at: string;
+}
+
+export interface BloqueioAgendaInput {
+  profissional_id: string | null;
+  data_inicio: string;
+  data_fim: string;
+  motivo?: string | null;
+}
+
+export const useProfissionais = () => {
+  const { clinicaId } = useClinica();
+  const queryClient = useQueryClient();
+  const queryKey = ['profissionais', clinicaId];
+
+  const { data: profissionais = [], isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<Profissional[]> => {
+      if (!clinicaId) return [];
+
+      const { data, error } = await supabase
+        .from('profissionais')
+        .select('*')
+        .eq('clinica_id', clinicaId)
+        .order('nome');
+
+      if (error) {
+        console.error('❌ Erro ao buscar profissionais:', error);
+        throw new Error('Erro ao carregar profissionais da clínica');
+      }
+
+      return data as unknown as Profissional[];
+    },
+    enabled: !!clinicaId,
+    staleTime: 5 * 60 * 1000, // 5 minutos
+  });
+
+  const addProfissionalMutation = useMutation({
+    mutationFn: async (input: ProfissionalInput): Promise<Profissional> => {
+      if (!clinicaId) {
+        throw new Error('Clínica não identificada');
+      }
+
+      if (!input.nome.trim()) {
+        throw new Error('Nome do profissional é obrigatório');
+      }
+
+      const { data, error } = await supabase
+        .from('profissionais')
+        .insert({
+          clinica_id: clinicaId,
+          nome: input.nome.trim(),
+          especialidade: input.especialidade?.trim() || null,
+          ...(input.cor ? { cor: input.cor } : {}),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ Erro ao cadastrar profissional:', error);
+        throw new Error('Erro ao cadastrar profissional');
+      }
+
+      return data as unknown as Profissional;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Profissional cadastrado com sucesso!');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao cadastrar profissional');
+    },
+  });
+
+  const updateProfissionalMutation = useMutation({
+    mutationFn: async ({
+      id,
+      ...updates
+    }: Partial<ProfissionalInput> & { id: string; ativo?: boolean }): Promise<void> => {
+      const { error } = await supabase
+        .from('profissionais')
+        .update({
+          ...updates,
+          ...(updates.nome !== undefined ? { nome: updates.nome.trim() } : {}),
+          ...(updates.especialidade !== undefined
+            ? { especialidade: updates.especialidade?.trim() || null }
+            : {}),
+        })
+        .eq('id', id);
+
+      if (error) {
+        console.error('❌ Erro ao atualizar profissional:', error);
+        throw new Error('Erro ao atualizar profissional');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Profissional atualizado!');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao atualizar profissional');
+    },
+  });
+
+  return {
+    profissionais,
+    profissionaisAtivos: profissionais.filter((profissional) => profissional.ativo),
+    isLoading,
+    error,
+    addProfissional: addProfissionalMutation.mutateAsync,
+    updateProfissional: updateProfissionalMutation.mutateAsync,
+    isAddingProfissional: addProfissionalMutation.isPending,
+    isUpdatingProfissional: updateProfissionalMutation.isPending,
+  };
+};
+
+export const useSalas = () => {
+  const { clinicaId } = useClinica();
+  const queryClient = useQueryClient();
+  const queryKey = ['salas', clinicaId];
+
+  const { data: salas = [], isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<Sala[]> => {
+      if (!clinicaId) return [];
+
+      const { data, error } = await supabase
+        .from('salas')
+        .select('*')
+        .eq('clinica_id', clinicaId)
+        .order('nome');
+
+      if (error) {
+        console.error('❌ Erro ao buscar salas:', error);
+        throw new Error('Erro ao carregar salas da clínica');
+      }
+
+      return data as Sala[];
+    },
+    enabled: !!clinicaId,
+    staleTime: 5 * 60 * 1000, // 5 minutos
+  });
+
+  const addSalaMutation = useMutation({
+    mutationFn: async (nome: string): Promise<Sala> => {
+      if (!clinicaId) {
+        throw new Error('Clínica não identificada');
+      }
+
+      if (!nome.trim()) {
+        throw new Error('Nome da sala é obrigatório');
+      }
+
+      const { data, error } = await supabase
+        .from('salas')
+        .insert({ clinica_id: clinicaId, nome: nome.trim() })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ Erro ao cadastrar sala:', error);
+        throw new Error('Erro ao cadastrar sala');
+      }
+
+      return data as Sala;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Sala cadastrada com sucesso!');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao cadastrar sala');
+    },
+  });
+
+  const toggleSalaMutation = useMutation({
+    mutationFn: async ({ id, ativo }: { id: string; ativo: boolean }): Promise<void> => {
+      const { error } = await supabase
+        .from('salas')
+        .update({ ativo })
+        .eq('id', id);
+
+      if (error) {
+        console.error('❌ Erro ao atualizar sala:', error);
+        throw new Error('Erro ao atualizar sala');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Sala atualizada!');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao atualizar sala');
+    },
+  });
+
+  return {
+    salas,
+    salasAtivas: salas.filter((sala) => sala.ativo),
+    isLoading,
+    error,
+    addSala: addSalaMutation.mutateAsync,
+    toggleSala: toggleSalaMutation.mutateAsync,
+    isAddingSala: addSalaMutation.isPending,
+    isUpdatingSala: toggleSalaMutation.isPending,
+  };
+};
+
+export const useBloqueiosAgenda = () => {
+  const { clinicaId } = useClinica();
+  const queryClient = useQueryClient();
+  const queryKey = ['bloqueios-agenda', clinicaId];
+
+  // Só os bloqueios que ainda não terminaram
+  const { data: bloqueios = [], isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<BloqueioAgenda[]> => {
+      if (!clinicaId) return [];
+
+      const { data, error } = await supabase
+        .from('bloqueios_agenda')
+        .select('*')
+        .eq('clinica_id', clinicaId)
+        .gt('data_fim', new Date().toISOString())
+        .order('data_inicio');
+
+      if (error) {
+        console.error('❌ Erro ao buscar bloqueios da agenda:', error);
+        throw new Error('Erro ao carregar bloqueios da agenda');
+      }
+
+      return data as BloqueioAgenda[];
+    },
+    enabled: !!clinicaId,
+    staleTime: 5 * 60 * 1000, // 5 minutos
+  });
+
+  const addBloqueioMutation = useMutation({
+    mutationFn: async (input: BloqueioAgendaInput): Promise<void> => {
+      if (!clinicaId) {
+        throw new Error('Clínica não identificada');
+      }
+
+      if (new Date(input.data_fim) <= new Date(input.data_inicio)) {
+        throw new Error('O fim do bloqueio deve ser depois do início');
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase
+        .from('bloqueios_agenda')
+        .insert({
+          clinica_id: clinicaId,
+          profissional_id: input.profissional_id,
+          data_inicio: input.data_inicio,
+          data_fim: input.data_fim,
+          motivo: input.motivo?.trim() || null,
+          criado_por: user?.id || null,
+        });
+
+      if (error) {
+        console.error('❌ Erro ao criar bloqueio da agenda:', error);
+        throw new Error('Erro ao criar bloqueio da agenda');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Período bloqueado na agenda!');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao criar bloqueio da agenda');
+    },
+  });
+
+  const removeBloqueioMutation = useMutation({
+    mutationFn: async (id: string): Promise<void> => {
+      const { error } = await supabase
+        .from('bloqueios_agenda')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('❌ Erro ao remover bloqueio da agenda:', error);
+        throw new Error('Erro ao remover bloqueio da agenda');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Bloqueio removido!');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao remover bloqueio da agenda');
+    },
+  });
+
+  return {
+    bloqueios,
+    isLoading,
+    error,
+    addBloqueio: addBloqueioMutation.mutateAsync,
+    removeBloqueio: removeBloqueioMutation.mutateAsync,
+    isAddingBloqueio: addBloqueioMutation.isPending,
+    isRemovingBloqueio: removeBloqueioMutation.isPending,
+  };
+};
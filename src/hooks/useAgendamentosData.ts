@@ -12,6 +12,7 @@ import { useClinica } from '@/contexts/ClinicaContext';
  * - Buscar agendamentos da clínica
  * - Atualizar agendamentos existentes
  * - Excluir agendamentos
+ * - Criar séries recorrentes (com plano de tratamento) e editar/cancelar várias sessões
  * - Invalidar cache para atualizar a UI automaticamente
  * - Feedback visual para o usuário via toast
  * 
@@ -31,6 +32,9 @@ interface CreateAgendamentoData {
   valor?: number;
   status: string;
   descricao?: string;
+  profissional_id?: string | null;
+  sala_id?: string | null;
+  servico_id?: string | null;
 }
 
 interface UpdateAgendamentoData {
@@ -42,6 +46,9 @@ interface UpdateAgendamentoData {
   valor?: number;
   status?: string;
   descricao?: string;
+  profissional_id?: string | null;
+  sala_id?: string | null;
+  servico_id?: string | null;
 }
 
 interface AgendamentoFromDatabase {
@@ -55,10 +62,46 @@ interface AgendamentoFromDatabase {
   valor: number | null;
   status: string;
   descricao: string | null;
+  profissional_id: string | null;
+  sala_id: string | null;
+  servico_id: string | null;
+  recorrencia_id: string | null;
+  plano_tratamento_id: string | null;
+  sessao_numero: number | null;
   created_at: string;
   updated_at: string;
 }
 
+// Escopo de edição/cancelamento de uma sessão de série recorrente
+type EscopoSerie = 'este' | 'seguintes' | 'todos';
+
+interface CreateAgendamentosRecorrentesData {
+  agendamento: Omit<CreateAgendamentoData, 'data_inicio' | 'data_fim'>;
+  ocorrencias: { data_inicio: string; data_fim: string }[];
+  regra: {
+    frequencia: 'semanal' | 'dias';
+    intervalo: number;
+    quantidade: number | null;
+    data_limite: string | null;
+  };
+  // Plano existente do paciente (continua a numeração) ou novo plano
+  plano_tratamento_id?: string | null;
+  novo_plano?: { nome: string; total_sessoes: number } | null;
+}
+
+interface UpdateSerieAgendamentosData {
+  agendamento_id: string;
+  escopo: Exclude<EscopoSerie, 'este'>;
+  deslocamento_minutos?: number;
+  duracao_minutos?: number | null;
+  // Só os campos alterados, para não sobrescrever valores próprios de cada sessão
+  campos?: Partial<Pick<UpdateAgendamentoData, 'titulo' | 'descricao' | 'valor' | 'status' | 'profissional_id' | 'sala_id' | 'servico_id'>>;
+}
+
+// Conflito de horário bloqueado pelo trigger validar_conflito_agendamento (exclusion_violation)
+const isConflitoHorario = (error: { code?: string; message?: string }) =>
+  error.code === '23P01' || !!error.message?.includes('Conflito de horário');
+
 // Hook para buscar agendamentos da clínica
 export const useFetchAgendamentos = () => {
   const { clinicaAtiva } = useClinica();
@@ -122,6 +165,66 @@ export const useFetchAgendamentosByLeadId = (leadId: string | undefined) => {
   });
 };
 
+export interface ConflitoAgendamento {
+  agendamento_id: string;
+  titulo: string;
+  cliente_id: string;
+  data_inicio: string;
+  data_fim: string;
+  recurso: 'profissional' | 'sala';
+}
+
+// Hook para checar, antes de salvar, se o horário sobrepõe outro agendamento do mesmo
+// profissional ou sala (função conflitos_agendamento no banco). O intervalo após o
+// atendimento de cada serviço também conta como horário ocupado.
+export const useAgendamentoConflitos = (params: {
+  dataInicio: Date | null;
+  dataFim: Date | null;
+  profissionalId?: string | null;
+  salaId?: string | null;
+  ignorarId?: string | null;
+  intervaloMinutos?: number;
+}) => {
+  const { clinicaAtiva } = useClinica();
+  const { dataInicio, dataFim, profissionalId, salaId, ignorarId, intervaloMinutos = 0 } = params;
+  const periodoValido = !!dataInicio && !!dataFim && dataFim > dataInicio;
+
+  return useQuery({
+    queryKey: [
+      'agendamento-conflitos',
+      clinicaAtiva?.id,
+      dataInicio?.toISOString(),
+      dataFim?.toISOString(),
+      profissionalId,
+      salaId,
+      ignorarId,
+      intervaloMinutos,
+    ],
+    queryFn: async (): Promise<ConflitoAgendamento[]> => {
+      if (!clinicaAtiva?.id || !dataInicio || !dataFim) return [];
+
+      const { data, error } = await supabase.rpc('conflitos_agendamento', {
+        p_clinica_id: clinicaAtiva.id,
+        p_data_inicio: dataInicio.toISOString(),
+        p_data_fim: dataFim.toISOString(),
+        p_profissional_id: profissionalId || undefined,
+        p_sala_id: salaId || undefined,
+        p_ignorar_id: ignorarId || undefined,
+        p_intervalo_minutos: intervaloMinutos,
+      });
+
+      if (error) {
+        console.error('❌ Erro ao verificar conflitos de horário:', error);
+        throw new Error('Falha ao verificar conflitos de horário');
+      }
+
+      return (data || []) as ConflitoAgendamento[];
+    },
+    enabled: !!clinicaAtiva?.id && periodoValido && (!!profissionalId || !!salaId),
+    staleTime: 30 * 1000,
+  });
+};
+
 // Hook para criar agendamento
 export const useCreateAgendamento = () => {
   const { toast } = useToast();
@@ -169,7 +272,10 @@ export const useCreateAgendamento = () => {
           data_fim: data.data_fim,
           valor: data.valor || 0,
           status: data.status,
-          descricao: data.descricao
+          descricao: data.descricao,
+          profissional_id: data.profissional_id || null,
+          sala_id: data.sala_id || null,
+          servico_id: data.servico_id || null
         }])
         .select()
         .single();
@@ -188,6 +294,11 @@ export const useCreateAgendamento = () => {
           throw new Error('Cliente não encontrado no sistema. Selecione um cliente válido.');
         }
 
+        if (isConflitoHorario(error)) {
+          console.warn('⚠️ [useCreateAgendamento] Horário em conflito:', error.message);
+          throw new Error(`${error.message}. Escolha outro horário, profissional ou sala.`);
+        }
+
         throw error;
       }
 
@@ -235,6 +346,11 @@ export const useUpdateAgendamento = () => {
 
       if (error) {
         console.error('❌ Erro ao atualizar agendamento:', error);
+
+        if (isConflitoHorario(error)) {
+          throw new Error(`${error.message}. Escolha outro horário, profissional ou sala.`);
+        }
+
         throw error;
       }
 
@@ -305,5 +421,125 @@ export const useDeleteAgendamento = () => {
   });
 };
 
+// Hook para criar uma série recorrente (todas as sessões ou nenhuma)
+export const useCreateAgendamentosRecorrentes = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: CreateAgendamentosRecorrentesData) => {
+      console.log('🔄 [useCreateAgendamentosRecorrentes] Criando série com', data.ocorrencias.length, 'sessões');
+
+      if (!data.agendamento.usuario_id || !data.agendamento.clinica_id || !data.agendamento.cliente_id) {
+        throw new Error('Cliente, clínica e usuário são obrigatórios para criar a série');
+      }
+
+      const { data: recorrenciaId, error } = await supabase.rpc('criar_agendamentos_recorrentes', {
+        p_agendamento: {
+          ...data.agendamento,
+          valor: data.agendamento.valor || 0,
+        },
+        p_ocorrencias: data.ocorrencias,
+        p_frequencia: data.regra.frequencia,
+        p_intervalo: data.regra.intervalo,
+        p_quantidade: data.regra.quantidade,
+        p_data_limite: data.regra.data_limite,
+        p_plano_tratamento_id: data.plano_tratamento_id || null,
+        p_novo_plano_nome: data.novo_plano?.nome.trim() || null,
+        p_novo_plano_total_sessoes: data.novo_plano?.total_sessoes ?? null,
+      });
+
+      if (error) {
+        console.error('❌ [useCreateAgendamentosRecorrentes] Erro do Supabase:', error);
+
+        if (isConflitoHorario(error)) {
+          throw new Error(`${error.message}. Nenhuma sessão foi criada; ajuste o horário, profissional ou sala.`);
+        }
+
+        throw error;
+      }
+
+      console.log('✅ [useCreateAgendamentosRecorrentes] Série criada:', recorrenciaId);
+      return { recorrenciaId, total: data.ocorrencias.length, titulo: data.agendamento.titulo };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['agendamentos'] });
+      queryClient.invalidateQueries({ queryKey: ['planos-tratamento'] });
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+
+      toast({
+        title: "Série criada!",
+        description: `${data.total} sessões de "${data.titulo}" foram agendadas.`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('❌ [useCreateAgendamentosRecorrentes] Erro na mutação:', error);
+      toast({
+        variant: "destructive",
+        title: "Erro ao criar a série",
+        description: error.message || "Ocorreu um erro inesperado. Tente novamente.",
+      });
+    },
+  });
+};
+
+// Hook para editar ou cancelar "esta e as seguintes" ou "todas" as sessões de uma série
+export const useUpdateSerieAgendamentos = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: UpdateSerieAgendamentosData) => {
+      console.log('🔄 Atualizando série de agendamentos:', data);
+
+      const { data: total, error } = await supabase.rpc('atualizar_serie_agendamentos', {
+        p_agendamento_id: data.agendamento_id,
+        p_escopo: data.escopo,
+        p_deslocamento_minutos: data.deslocamento_minutos ?? 0,
+        p_duracao_minutos: data.duracao_minutos ?? null,
+        p_campos: data.campos || {},
+      });
+
+      if (error) {
+        console.error('❌ Erro ao atualizar série de agendamentos:', error);
+
+        if (isConflitoHorario(error)) {
+          throw new Error(`${error.message}. Nenhuma sessão foi alterada.`);
+        }
+
+        throw error;
+      }
+
+      console.log('✅ Sessões atualizadas:', total);
+      return { total: total || 0, cancelamento: data.campos?.status === 'cancelado' };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['agendamentos'] });
+      queryClient.invalidateQueries({ queryKey: ['planos-tratamento'] });
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+
+      toast({
+        title: data.cancelamento ? "Sessões canceladas!" : "Sessões atualizadas!",
+        description: `${data.total} sessão(ões) da série foram ${data.cancelamento ? 'canceladas' : 'atualizadas'}.`,
+      });
+    },
+    onError: (error: Error) => {
+      console.error('❌ Erro na atualização da série:', error);
+      toast({
+        variant: "destructive",
+        title: "Erro ao atualizar a série",
+        description: error.message || "Ocorreu um erro inesperado. Tente novamente.",
+      });
+    },
+  });
+};
+
 // Exportar tipos para uso em outros arquivos
-export type { CreateAgendamentoData, UpdateAgendamentoData, AgendamentoFromDatabase };
+export type {
+  CreateAgendamentoData,
+  UpdateAgendamentoData,
+  AgendamentoFromDatabase,
+  EscopoSerie,
+  CreateAgendamentosRecorrentesData,
+  UpdateSerieAgendamentosData,
+};
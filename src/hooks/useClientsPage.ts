@@ -392,6 +392,7 @@ export const useClientsPage = () => {
           anotacoes: leadData.anotacoes,
           origem_lead: leadData.origem_lead,
           servico_interesse: leadData.servico_interesse,
+          data_nascimento: leadData.data_nascimento,
           updated_at: new Date().toISOString()
         };
 
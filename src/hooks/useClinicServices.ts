@@ -15,18 +15,72 @@ export interface ClinicaServico {
   clinica_id: string;
   nome_servico: string;
   ativo: boolean;
+  // Duração padrão do atendimento, usada para preencher a data de fim do agendamento
+  duracao_minutos: number;
+  // Preço padrão, usado para preencher o valor do agendamento
+  preco: number | null;
+  // Orientações ao paciente antes do atendimento (ex.: jejum, suspender medicação)
+  instrucoes_preparo: string | null;
+  // Intervalo após o atendimento em que profissional e sala continuam ocupados
+  intervalo_minutos: number;
+  // Profissionais que realizam o serviço (vazio = qualquer profissional)
+  profissional_ids: string[];
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Dados editáveis de um serviço no catálogo da clínica
+ */
+export interface ClinicaServicoInput {
+  nome_servico: string;
+  duracao_minutos?: number;
+  preco?: number | null;
+  instrucoes_preparo?: string | null;
+  intervalo_minutos?: number;
+  profissional_ids?: string[];
+}
+
+// Substitui os profissionais vinculados ao serviço
+const salvarProfissionaisDoServico = async (
+  servicoId: string,
+  clinicaId: string,
+  profissionalIds: string[]
+) => {
+  const { error: deleteError } = await supabase
+    .from('profissional_servicos')
+    .delete()
+    .eq('servico_id', servicoId);
+
+  if (deleteError) {
+    console.error('[useClinicServices] Erro ao desvincular profissionais:', deleteError);
+    throw new Error('Erro ao salvar profissionais do serviço');
+  }
+
+  if (profissionalIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('profissional_servicos')
+    .insert(profissionalIds.map((profissionalId) => ({
+      profissional_id: profissionalId,
+      servico_id: servicoId,
+      clinica_id: clinicaId,
+    })));
+
+  if (error) {
+    console.error('[useClinicServices] Erro ao vincular profissionais:', error);
+    throw new Error('Erro ao salvar profissionais do serviço');
+  }
+};
+
 /**
  * Hook para gerenciar os serviços da clínica
  * 
  * Fornece funcionalidades para:
  * - Buscar a lista de serviços da clínica logada
- * - Adicionar novos serviços
+ * - Adicionar novos serviços (só o nome ou com duração, preço e regras de agendamento)
  * - Remover serviços existentes
- * - Atualizar serviços
+ * - Atualizar serviços e os profissionais que os realizam
  * 
  * Utiliza React Query para cache e gerenciamento de estado.
  */
@@ -45,7 +99,7 @@ export const useClinicServices = () => {
 
       const { data, error } = await supabase
         .from('clinica_servicos')
-        .select('*')
+        .select('*, profissional_servicos(profissional_id)')
         .eq('clinica_id', userProfile.clinica_id)
         .eq('ativo', true)
         .order('nome_servico');
@@ -55,7 +109,10 @@ export const useClinicServices = () => {
         throw new Error('Erro ao carregar serviços da clínica');
       }
 
-      return data as ClinicaServico[];
+      return (data || []).map(({ profissional_servicos, ...servico }) => ({
+        ...servico,
+        profissional_ids: (profissional_servicos || []).map((vinculo) => vinculo.profissional_id),
+      })) as ClinicaServico[];
     },
     enabled: !!userProfile?.clinica_id,
     staleTime: 5 * 60 * 1000, // 5 minutos
@@ -63,11 +120,14 @@ export const useClinicServices = () => {
 
   // Mutation para adicionar um novo serviço
   const addServiceMutation = useMutation({
-    mutationFn: async (nomeServico: string): Promise<ClinicaServico> => {
+    mutationFn: async (servico: string | ClinicaServicoInput): Promise<ClinicaServico> => {
       if (!userProfile?.clinica_id) {
         throw new Error('Clínica não identificada');
       }
 
+      const input: ClinicaServicoInput = typeof servico === 'string' ? { nome_servico: servico } : servico;
+      const nomeServico = input.nome_servico;
+
       if (!nomeServico.trim()) {
         throw new Error('Nome do serviço é obrigatório');
       }
@@ -91,6 +151,10 @@ export const useClinicServices = () => {
           clinica_id: userProfile.clinica_id,
           nome_servico: nomeServico.trim(),
           ativo: true,
+          duracao_minutos: input.duracao_minutos,
+          preco: input.preco ?? null,
+          instrucoes_preparo: input.instrucoes_preparo?.trim() || null,
+          intervalo_minutos: input.intervalo_minutos,
         })
         .select()
         .single();
@@ -100,7 +164,12 @@ export const useClinicServices = () => {
         throw new Error('Erro ao adicionar serviço');
       }
 
-      return data as ClinicaServico;
+      const profissionalIds = input.profissional_ids || [];
+      if (profissionalIds.length > 0) {
+        await salvarProfissionaisDoServico(data.id, userProfile.clinica_id, profissionalIds);
+      }
+
+      return { ...data, profissional_ids: profissionalIds } as ClinicaServico;
     },
     onSuccess: () => {
       // Atualizar cache dos serviços
@@ -115,6 +184,53 @@ export const useClinicServices = () => {
     },
   });
 
+  // Mutation para atualizar um serviço do catálogo
+  const updateServiceMutation = useMutation({
+    mutationFn: async ({
+      id,
+      profissional_ids,
+      ...input
+    }: ClinicaServicoInput & { id: string }): Promise<void> => {
+      if (!userProfile?.clinica_id) {
+        throw new Error('Clínica não identificada');
+      }
+
+      if (!input.nome_servico.trim()) {
+        throw new Error('Nome do serviço é obrigatório');
+      }
+
+      const { error } = await supabase
+        .from('clinica_servicos')
+        .update({
+          nome_servico: input.nome_servico.trim(),
+          duracao_minutos: input.duracao_minutos,
+          preco: input.preco ?? null,
+          instrucoes_preparo: input.instrucoes_preparo?.trim() || null,
+          intervalo_minutos: input.intervalo_minutos,
+        })
+        .eq('id', id);
+
+      if (error) {
+        console.error('[useClinicServices] Erro ao atualizar serviço:', error);
+        throw new Error('Erro ao atualizar serviço');
+      }
+
+      if (profissional_ids) {
+        await salvarProfissionaisDoServico(id, userProfile.clinica_id, profissional_ids);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ['clinic-services', userProfile?.clinica_id],
+      });
+      toast.success('Serviço atualizado com sucesso!');
+    },
+    onError: (error: Error) => {
+      console.error('[useClinicServices] Erro na mutation de atualizar:', error);
+      toast.error(error.message || 'Erro ao atualizar serviço');
+    },
+  });
+
   // Mutation para remover um serviço
   const removeServiceMutation = useMutation({
     mutationFn: async (serviceId: string): Promise<void> => {
@@ -146,8 +262,10 @@ export const useClinicServices = () => {
     isLoading,
     error,
     addService: addServiceMutation.mutateAsync,
+    updateService: updateServiceMutation.mutateAsync,
     removeService: removeServiceMutation.mutateAsync,
     isAddingService: addServiceMutation.isPending,
+    isUpdatingService: updateServiceMutation.isPending,
     isRemovingService: removeServiceMutation.isPending,
   };
 };
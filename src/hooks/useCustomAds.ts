@@ -16,6 +16,8 @@ import { toast } from '@/hooks/use-toast';
  * - Criar nova regra de anúncio
  * - Atualizar regra existente (incluindo status ativo/inativo)
  * - Excluir regra de anúncio
+ * - Contar quantos leads foram atribuídos automaticamente a cada regra
+ *   (tabela `lead_ad_attributions`, preenchida pela Edge Function receive-message)
  * 
  * Utiliza React Query para cache e sincronização de dados do servidor.
  */
@@ -73,6 +75,33 @@ export const useCustomAds = (clinicaId: string) => {
     enabled: !!clinicaId, // Só executa se clinicaId existir
   });
 
+  // Query para contar os leads atribuídos automaticamente a cada anúncio
+  const attributionsQuery = useQuery({
+    queryKey: ['custom-ads-attributions', clinicaId],
+    queryFn: async () => {
+      console.log(`🔍 [useCustomAds] Buscando atribuições de anúncios da clínica: ${clinicaId}`);
+
+      const { data, error } = await supabase
+        .from('lead_ad_attributions')
+        .select('custom_ad_id')
+        .eq('clinica_id', clinicaId);
+
+      if (error) {
+        console.error('❌ [useCustomAds] Erro ao buscar atribuições:', error);
+        throw error;
+      }
+
+      // Agrupar contagem por anúncio
+      return (data || []).reduce<Record<string, number>>((acc, { custom_ad_id }) => {
+        if (custom_ad_id) {
+          acc[custom_ad_id] = (acc[custom_ad_id] || 0) + 1;
+        }
+        return acc;
+      }, {});
+    },
+    enabled: !!clinicaId,
+  });
+
   // Mutation para criar novo anúncio personalizado
   const createCustomAdMutation = useMutation({
     mutationFn: async (data: CreateCustomAdData) => {
@@ -192,6 +221,7 @@ export const useCustomAds = (clinicaId: string) => {
     customAds: customAdsQuery.data || [],
     isLoading: customAdsQuery.isLoading,
     error: customAdsQuery.error,
+    attributionCounts: attributionsQuery.data || {},
 
     // Mutations
     createCustomAd: createCustomAdMutation.mutate,
@@ -0,0 +1,196 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Hook de métricas das campanhas de follow-up
+ *
+ * O que faz:
+ * - Chama a função SQL follow_up_metricas para o período atual e para o período
+ *   anterior de mesmo tamanho (ex.: últimos 30 dias x 30 dias antes disso)
+ * - Agrupa o resultado por campanha, com os totais e as métricas de cada etapa
+ *
+ * - useFollowupVariantAnalytics traz as mesmas métricas por variante de teste A/B
+ *   (função SQL follow_up_metricas_variantes), agrupadas por etapa
+ *
+ * Onde é usado:
+ * - FollowupAnalytics (aba Métricas do FollowupManagement)
+ */
+
+export interface FollowupMetricas {
+  enviados: number;
+  falhas: number;
+  // Qualquer mensagem do lead na janela, inclusive opt-out ("PARE") e resposta a lembrete
+  respondidos: number;
+  // Agendamentos criados na janela, exceto cancelados e faltas
+  convertidos: number;
+}
+
+export interface FollowupStepAnalytics {
+  template_id: string;
+  sequencia: number;
+  titulo: string;
+  atual: FollowupMetricas;
+  anterior: FollowupMetricas;
+}
+
+export interface FollowupCampaignAnalytics {
+  campaign_id: string;
+  campaign_nome: string;
+  atual: FollowupMetricas;
+  anterior: FollowupMetricas;
+  etapas: FollowupStepAnalytics[];
+}
+
+export interface FollowupVariantAnalytics {
+  variante_id: string;
+  nome: string;
+  ativo: boolean;
+  enviados: number;
+  respondidos: number;
+  convertidos: number;
+}
+
+interface FollowupAnalyticsParams {
+  periodoDias: number;
+  diasResposta: number;
+  diasConversao: number;
+}
+
+type LinhaMetricas = {
+  campaign_id: string;
+  campaign_nome: string;
+  template_id: string;
+  sequencia: number;
+  template_titulo: string;
+} & FollowupMetricas;
+
+const metricasVazias = (): FollowupMetricas => ({ enviados: 0, falhas: 0, respondidos: 0, convertidos: 0 });
+
+const somarMetricas = (destino: FollowupMetricas, origem: FollowupMetricas) => {
+  destino.enviados += Number(origem.enviados);
+  destino.falhas += Number(origem.falhas);
+  destino.respondidos += Number(origem.respondidos);
+  destino.convertidos += Number(origem.convertidos);
+};
+
+const buscarMetricas = async (
+  inicio: Date,
+  fim: Date,
+  params: FollowupAnalyticsParams
+): Promise<LinhaMetricas[]> => {
+  const { data, error } = await supabase.rpc('follow_up_metricas', {
+    p_inicio: inicio.toISOString(),
+    p_fim: fim.toISOString(),
+    p_dias_resposta: params.diasResposta,
+    p_dias_conversao: params.diasConversao,
+  });
+
+  if (error) {
+    console.error('❌ Erro ao buscar métricas de follow-up:', error);
+    throw new Error(`Erro ao buscar métricas: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+export const useFollowupAnalytics = (params: FollowupAnalyticsParams) => {
+  return useQuery({
+    queryKey: ['followup-analytics', params.periodoDias, params.diasResposta, params.diasConversao],
+    queryFn: async (): Promise<FollowupCampaignAnalytics[]> => {
+      console.log('📊 Buscando métricas de follow-up:', params);
+
+      const periodoMs = params.periodoDias * 24 * 60 * 60 * 1000;
+      const fim = new Date();
+      const inicio = new Date(fim.getTime() - periodoMs);
+      const inicioAnterior = new Date(inicio.getTime() - periodoMs);
+
+      const [atual, anterior] = await Promise.all([
+        buscarMetricas(inicio, fim, params),
+        buscarMetricas(inicioAnterior, inicio, params),
+      ]);
+
+      const campanhas = new Map<string, FollowupCampaignAnalytics>();
+
+      const registrar = (linha: LinhaMetricas, periodo: 'atual' | 'anterior') => {
+        let campanha = campanhas.get(linha.campaign_id);
+        if (!campanha) {
+          campanha = {
+            campaign_id: linha.campaign_id,
+            campaign_nome: linha.campaign_nome,
+            atual: metricasVazias(),
+            anterior: metricasVazias(),
+            etapas: [],
+          };
+          campanhas.set(linha.campaign_id, campanha);
+        }
+
+        let etapa = campanha.etapas.find((e) => e.template_id === linha.template_id);
+        if (!etapa) {
+          etapa = {
+            template_id: linha.template_id,
+            sequencia: linha.sequencia,
+            titulo: linha.template_titulo,
+            atual: metricasVazias(),
+            anterior: metricasVazias(),
+          };
+          campanha.etapas.push(etapa);
+        }
+
+        somarMetricas(campanha[periodo], linha);
+        somarMetricas(etapa[periodo], linha);
+      };
+
+      atual.forEach((linha) => registrar(linha, 'atual'));
+      anterior.forEach((linha) => registrar(linha, 'anterior'));
+
+      return Array.from(campanhas.values())
+        .map((campanha) => ({
+          ...campanha,
+          etapas: campanha.etapas.sort((a, b) => a.sequencia - b.sequencia),
+        }))
+        .sort((a, b) => a.campaign_nome.localeCompare(b.campaign_nome));
+    },
+    staleTime: 60000,
+  });
+};
+
+export const useFollowupVariantAnalytics = (params: FollowupAnalyticsParams) => {
+  return useQuery({
+    queryKey: ['followup-analytics', 'variantes', params.periodoDias, params.diasResposta, params.diasConversao],
+    queryFn: async (): Promise<Record<string, FollowupVariantAnalytics[]>> => {
+      console.log('🧪 Buscando métricas das variantes de follow-up:', params);
+
+      const fim = new Date();
+      const inicio = new Date(fim.getTime() - params.periodoDias * 24 * 60 * 60 * 1000);
+
+      const { data, error } = await supabase.rpc('follow_up_metricas_variantes', {
+        p_inicio: inicio.toISOString(),
+        p_fim: fim.toISOString(),
+        p_dias_resposta: params.diasResposta,
+        p_dias_conversao: params.diasConversao,
+      });
+
+      if (error) {
+        console.error('❌ Erro ao buscar métricas das variantes:', error);
+        throw new Error(`Erro ao buscar métricas das variantes: ${error.message}`);
+      }
+
+      // Agrupa por etapa (template_id); a função já retorna ordenado pelo nome da variante
+      const porEtapa: Record<string, FollowupVariantAnalytics[]> = {};
+      (data || []).forEach((linha) => {
+        if (!porEtapa[linha.template_id]) porEtapa[linha.template_id] = [];
+        porEtapa[linha.template_id].push({
+          variante_id: linha.variante_id,
+          nome: linha.variante_nome,
+          ativo: linha.variante_ativa,
+          enviados: Number(linha.enviados),
+          respondidos: Number(linha.respondidos),
+          convertidos: Number(linha.convertidos),
+        });
+      });
+
+      return porEtapa;
+    },
+    staleTime: 60000,
+  });
+};
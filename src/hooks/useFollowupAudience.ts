@@ -0,0 +1,159 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  FiltrosPublico,
+  leadAtendeFiltros,
+  STATUS_AGENDAMENTO_FUTURO,
+} from '../../supabase/functions/_shared/campaignAudience';
+
+/**
+ * Hooks de público das campanhas automáticas de follow-up
+ *
+ * O que faz:
+ * - useFollowupAudienceOptions: valores existentes nos leads da clínica para os filtros
+ *   de texto (origem, anúncio e serviço de interesse)
+ * - useFollowupAudiencePreview: simulação (dry-run) de quais leads a campanha atingiria
+ *   hoje, sem criar execuções
+ *
+ * Como funciona:
+ * - A simulação usa os mesmos critérios do process-followup-campaigns: leads da clínica com
+ *   telefone, follow-up não pausado e inativos há dias_inatividade, e depois as regras de
+ *   público de _shared/campaignAudience.ts
+ *
+ * Onde é usado:
+ * - FollowupAudienceDialog
+ */
+
+export interface FollowupAudienceOptions {
+  origens: string[];
+  anuncios: string[];
+  servicos: string[];
+}
+
+export interface FollowupAudienceLead {
+  id: string;
+  nome: string | null;
+  telefone: string | null;
+  data_ultimo_contato: string | null;
+}
+
+export interface FollowupAudiencePreview {
+  total_inativos: number;
+  leads: FollowupAudienceLead[];
+}
+
+interface FollowupAudiencePreviewParams {
+  clinicaId: string;
+  diasInatividade: number;
+  filtros: FiltrosPublico;
+}
+
+// Valores distintos, ignorando vazios e diferenças de maiúsculas/espaços
+const valoresDistintos = (valores: (string | null)[]) => {
+  const porChave = new Map<string, string>();
+  valores.forEach((valor) => {
+    const texto = (valor || '').trim();
+    if (texto && !porChave.has(texto.toLowerCase())) porChave.set(texto.toLowerCase(), texto);
+  });
+  return Array.from(porChave.values()).sort((a, b) => a.localeCompare(b));
+};
+
+export const useFollowupAudienceOptions = (clinicaId: string | null) => {
+  return useQuery({
+    queryKey: ['followup-audience-options', clinicaId],
+    queryFn: async (): Promise<FollowupAudienceOptions> => {
+      if (!clinicaId) return { origens: [], anuncios: [], servicos: [] };
+
+      console.log('🔍 Buscando opções de público da clínica:', clinicaId);
+
+      const { data, error } = await supabase
+        .from('leads')
+        .select('origem_lead, ad_name, servico_interesse')
+        .eq('clinica_id', clinicaId);
+
+      if (error) {
+        console.error('❌ Erro ao buscar opções de público:', error);
+        throw new Error(`Erro ao buscar opções de público: ${error.message}`);
+      }
+
+      const leads = data || [];
+      return {
+        origens: valoresDistintos(leads.map((lead) => lead.origem_lead)),
+        anuncios: valoresDistintos(leads.map((lead) => lead.ad_name)),
+        servicos: valoresDistintos(leads.map((lead) => lead.servico_interesse)),
+      };
+    },
+    enabled: !!clinicaId,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export const useFollowupAudiencePreview = (params: FollowupAudiencePreviewParams | null) => {
+  return useQuery({
+    queryKey: ['followup-audience-preview', params],
+    queryFn: async (): Promise<FollowupAudiencePreview> => {
+      if (!params) return { total_inativos: 0, leads: [] };
+
+      console.log('🎯 Simulando público da campanha:', params);
+
+      const dataLimite = new Date();
+      dataLimite.setDate(dataLimite.getDate() - params.diasInatividade);
+
+      const { data: leads, error } = await supabase
+        .from('leads')
+        .select('id, nome, telefone, data_ultimo_contato, etapa_kanban_id, tag_id, origem_lead, ad_name, servico_interesse, convertido')
+        .eq('clinica_id', params.clinicaId)
+        .eq('follow_up_pausado', false)
+        .or(`data_ultimo_contato.lt.${dataLimite.toISOString()},data_ultimo_contato.is.null`)
+        .not('telefone', 'is', null);
+
+      if (error) {
+        console.error('❌ Erro ao simular público:', error);
+        throw new Error(`Erro ao simular público: ${error.message}`);
+      }
+
+      const inativos = leads || [];
+      const comAgendamentoFuturo = new Set<string>();
+
+      if (params.filtros.agendamento_futuro !== 'todos' && inativos.length > 0) {
+        const agora = new Date().toISOString();
+
+        for (let i = 0; i < inativos.length; i += 200) {
+          const { data: agendamentos, error: agendamentosError } = await supabase
+            .from('agendamentos')
+            .select('cliente_id')
+            .in('cliente_id', inativos.slice(i, i + 200).map((lead) => lead.id))
+            .in('status', STATUS_AGENDAMENTO_FUTURO)
+            .gt('data_inicio', agora);
+
+          if (agendamentosError) {
+            console.error('❌ Erro ao buscar agendamentos futuros:', agendamentosError);
+            throw new Error(`Erro ao buscar agendamentos futuros: ${agendamentosError.message}`);
+          }
+
+          (agendamentos || []).forEach((agendamento) => {
+            if (agendamento.cliente_id) comAgendamentoFuturo.add(agendamento.cliente_id);
+          });
+        }
+      }
+
+      const noPublico = inativos.filter((lead) =>
+        leadAtendeFiltros(lead, params.filtros, comAgendamentoFuturo.has(lead.id))
+      );
+
+      console.log(`✅ Público simulado: ${noPublico.length} de ${inativos.length} leads inativos`);
+
+      return {
+        total_inativos: inativos.length,
+        leads: noPublico.map(({ id, nome, telefone, data_ultimo_contato }) => ({
+          id,
+          nome,
+          telefone,
+          data_ultimo_contato,
+        })),
+      };
+    },
+    enabled: !!params,
+    staleTime: 30000,
+  });
+};
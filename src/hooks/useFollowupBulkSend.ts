@@ -0,0 +1,316 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ContextoTemplate,
+  montarContextoTemplate,
+} from '../../supabase/functions/_shared/templateEngine';
+
+/**
+ * Hooks do follow-up manual em massa
+ *
+ * O que faz:
+ * - useBulkFollowupLeads: dados dos leads selecionados para a prévia (contexto do template
+ *   de cada lead) e o motivo de quem fica fora do envio (opt-out, follow-up pausado, sem telefone)
+ * - useCreateBulkFollowup: cria o lote (follow_up_envios_em_massa) e uma execução manual
+ *   'pendente' por lead elegível, para agora ou para a data agendada, numa única transação
+ *   (RPC criar_envio_em_massa_follow_up)
+ * - useFollowupBulkSends: últimos lotes da clínica com o progresso das execuções
+ * - useCancelBulkFollowup: cancela as execuções do lote que ainda não saíram
+ *
+ * Como se conecta:
+ * - process-followup-campaigns envia as execuções vencidas dos lotes, dentro dos limites
+ *   de envio da clínica e da janela de envio da campanha
+ * - O contexto do template é montado pelo mesmo motor da send-followup-webhook
+ *   (_shared/templateEngine.ts), como no useTemplateContext
+ *
+ * Onde é usado:
+ * - FollowupBulkSendDialog (barra de ações da tabela de contatos e colunas do kanban)
+ * - FollowupManagement (lista de envios em massa)
+ */
+
+// Tamanho dos lotes de consulta/inserção, para não estourar a URL do filtro "in"
+const TAMANHO_LOTE = 200;
+
+const emLotes = <T>(itens: T[]): T[][] => {
+  const lotes: T[][] = [];
+  for (let i = 0; i < itens.length; i += TAMANHO_LOTE) {
+    lotes.push(itens.slice(i, i + TAMANHO_LOTE));
+  }
+  return lotes;
+};
+
+export type MotivoExclusaoEnvioEmMassa = 'opt_out' | 'follow_up_pausado' | 'sem_telefone';
+
+export const MOTIVOS_EXCLUSAO_ENVIO_EM_MASSA: Record<MotivoExclusaoEnvioEmMassa, string> = {
+  opt_out: 'Pediu para não receber mensagens',
+  follow_up_pausado: 'Follow-up pausado',
+  sem_telefone: 'Sem telefone',
+};
+
+export interface BulkFollowupLead {
+  id: string;
+  nome: string | null;
+  telefone: string | null;
+  contexto: ContextoTemplate;
+  motivoExclusao: MotivoExclusaoEnvioEmMassa | null;
+}
+
+export type StatusExecucaoFollowup = 'pendente' | 'processando' | 'enviado' | 'erro' | 'cancelado';
+
+export interface BulkFollowupSend {
+  id: string;
+  campaign_id: string;
+  campaign_nome: string | null;
+  template_titulo: string | null;
+  data_agendada: string;
+  total_leads: number;
+  leads_excluidos: number;
+  created_at: string;
+  progresso: Record<StatusExecucaoFollowup, number>;
+}
+
+export const useBulkFollowupLeads = (leadIds: string[], enabled: boolean) => {
+  return useQuery({
+    queryKey: ['followup-bulk-leads', leadIds],
+    queryFn: async (): Promise<BulkFollowupLead[]> => {
+      console.log(`🔄 Preparando prévia do envio em massa para ${leadIds.length} leads`);
+
+      const leads = [];
+      const comOptOut = new Set<string>();
+      const ultimoAgendamento = new Map<string, string>();
+      const agora = new Date().toISOString();
+
+      for (const ids of emLotes(leadIds)) {
+        const { data, error } = await supabase
+          .from('leads')
+          .select(`
+            id,
+            nome,
+            telefone,
+            email,
+            servico_interesse,
+            origem_lead,
+            follow_up_pausado,
+            etapa_kanban:etapas_kanban(nome),
+            clinica:clinicas(nome, endereco, endereco_completo, telefone, cidade, fuso_horario)
+          `)
+          .in('id', ids);
+
+        if (error) {
+          console.error('❌ Erro ao buscar leads do envio em massa:', error);
+          throw new Error(`Erro ao buscar leads: ${error.message}`);
+        }
+        leads.push(...(data || []));
+
+        const { data: consentimentos, error: consentError } = await supabase
+          .from('lead_consentimento_atual')
+          .select('lead_id, status')
+          .in('lead_id', ids)
+          .eq('canal', 'whatsapp');
+
+        if (consentError) {
+          console.error('❌ Erro ao verificar opt-out dos leads:', consentError);
+          throw new Error(`Erro ao verificar opt-out: ${consentError.message}`);
+        }
+        (consentimentos || []).forEach((c) => {
+          if (c.status === 'revogado' && c.lead_id) comOptOut.add(c.lead_id);
+        });
+
+        // Último agendamento já ocorrido de cada lead (variável {ultimo_agendamento})
+        const { data: agendamentos } = await supabase
+          .from('agendamentos')
+          .select('cliente_id, data_inicio')
+          .in('cliente_id', ids)
+          .lte('data_inicio', agora)
+          .order('data_inicio', { ascending: false });
+
+        (agendamentos || []).forEach((a) => {
+          if (!ultimoAgendamento.has(a.cliente_id)) ultimoAgendamento.set(a.cliente_id, a.data_inicio);
+        });
+      }
+
+      // Mantém a ordem da seleção
+      const porId = new Map(leads.map((lead) => [lead.id, lead]));
+
+      return leadIds
+        .map((id) => porId.get(id))
+        .filter((lead): lead is NonNullable<typeof lead> => !!lead)
+        .map((lead) => ({
+          id: lead.id,
+          nome: lead.nome,
+          telefone: lead.telefone,
+          contexto: montarContextoTemplate({
+            lead,
+            clinica: lead.clinica,
+            ultimoAgendamento: ultimoAgendamento.get(lead.id),
+          }),
+          motivoExclusao: comOptOut.has(lead.id)
+            ? 'opt_out'
+            : lead.follow_up_pausado
+              ? 'follow_up_pausado'
+              : !lead.telefone
+                ? 'sem_telefone'
+                : null,
+        }));
+    },
+    enabled: enabled && leadIds.length > 0,
+    staleTime: 30000,
+  });
+};
+
+export const useCreateBulkFollowup = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      clinicaId,
+      campaignId,
+      templateId,
+      leadIds,
+      leadsExcluidos,
+      dataAgendada,
+    }: {
+      clinicaId: string;
+      campaignId: string;
+      templateId: string;
+      leadIds: string[];
+      leadsExcluidos: number;
+      dataAgendada: Date;
+    }) => {
+      console.log(`📨 Criando envio em massa para ${leadIds.length} leads:`, {
+        campaignId,
+        templateId,
+        dataAgendada,
+      });
+
+      // Lote e execuções na mesma transação (criar_envio_em_massa_follow_up)
+      const { data: lote, error } = await supabase.rpc('criar_envio_em_massa_follow_up', {
+        p_clinica_id: clinicaId,
+        p_campaign_id: campaignId,
+        p_template_id: templateId,
+        p_lead_ids: leadIds,
+        p_leads_excluidos: leadsExcluidos,
+        p_data_agendada: dataAgendada.toISOString(),
+      });
+
+      if (error || !lote) {
+        console.error('❌ Erro ao criar envio em massa:', error);
+        throw new Error(`Erro ao criar envio em massa: ${error?.message}`);
+      }
+
+      console.log('✅ Envio em massa criado:', lote.id);
+      return lote;
+    },
+    onSuccess: (lote) => {
+      queryClient.invalidateQueries({ queryKey: ['followup-bulk-sends'] });
+      queryClient.invalidateQueries({ queryKey: ['followup-executions'] });
+      toast.success(
+        new Date(lote.data_agendada) > new Date()
+          ? `Follow-up agendado para ${lote.total_leads} leads!`
+          : `Follow-up para ${lote.total_leads} leads entrou na fila de envio!`
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+};
+
+export const useFollowupBulkSends = (clinicaId: string | null) => {
+  return useQuery({
+    queryKey: ['followup-bulk-sends', clinicaId],
+    queryFn: async (): Promise<BulkFollowupSend[]> => {
+      if (!clinicaId) return [];
+
+      const { data: lotes, error } = await supabase
+        .from('follow_up_envios_em_massa')
+        .select(`
+          *,
+          campanha:follow_up_campaigns(nome),
+          template:follow_up_templates(titulo)
+        `)
+        .eq('clinica_id', clinicaId)
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) {
+        console.error('❌ Erro ao buscar envios em massa:', error);
+        throw new Error(`Erro ao buscar envios em massa: ${error.message}`);
+      }
+
+      if (!lotes || lotes.length === 0) return [];
+
+      const { data: execucoes, error: execucoesError } = await supabase
+        .from('follow_up_execucoes')
+        .select('lote_id, status')
+        .in('lote_id', lotes.map((lote) => lote.id));
+
+      if (execucoesError) {
+        console.error('❌ Erro ao buscar progresso dos envios em massa:', execucoesError);
+        throw new Error(`Erro ao buscar progresso: ${execucoesError.message}`);
+      }
+
+      return lotes.map((lote) => {
+        const progresso: Record<StatusExecucaoFollowup, number> = {
+          pendente: 0,
+          processando: 0,
+          enviado: 0,
+          erro: 0,
+          cancelado: 0,
+        };
+        (execucoes || [])
+          .filter((execucao) => execucao.lote_id === lote.id)
+          .forEach((execucao) => {
+            progresso[execucao.status as StatusExecucaoFollowup]++;
+          });
+
+        return {
+          id: lote.id,
+          campaign_id: lote.campaign_id,
+          campaign_nome: lote.campanha?.nome ?? null,
+          template_titulo: lote.template?.titulo ?? null,
+          data_agendada: lote.data_agendada,
+          total_leads: lote.total_leads,
+          leads_excluidos: lote.leads_excluidos,
+          created_at: lote.created_at,
+          progresso,
+        };
+      });
+    },
+    enabled: !!clinicaId,
+    refetchInterval: 15000,
+  });
+};
+
+export const useCancelBulkFollowup = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (loteId: string) => {
+      console.log('⏹️ Cancelando envio em massa:', loteId);
+
+      const { data, error } = await supabase
+        .from('follow_up_execucoes')
+        .update({ status: 'cancelado', motivo_cancelamento: 'envio_cancelado' })
+        .eq('lote_id', loteId)
+        .eq('status', 'pendente')
+        .select('id');
+
+      if (error) {
+        console.error('❌ Erro ao cancelar envio em massa:', error);
+        throw new Error(`Erro ao cancelar envio em massa: ${error.message}`);
+      }
+
+      return data?.length || 0;
+    },
+    onSuccess: (canceladas) => {
+      queryClient.invalidateQueries({ queryKey: ['followup-bulk-sends'] });
+      queryClient.invalidateQueries({ queryKey: ['followup-executions'] });
+      toast.success(`${canceladas} envios pendentes cancelados`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+};
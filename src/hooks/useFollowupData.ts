@@ -2,6 +2,11 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  FiltrosPublico,
+  normalizarFiltrosPublico,
+} from '../../supabase/functions/_shared/campaignAudience';
 
 /**
  * Hook para gerenciar dados de Follow-up
@@ -24,16 +29,39 @@ import { toast } from 'sonner';
  */
 
 // Tipos das entidades de follow-up
+
+// automatico = inatividade; manual = envio pelo CRM; os demais são disparados por eventos
+export type TipoCampanhaFollowup =
+  | 'automatico'
+  | 'manual'
+  | 'mudanca_etapa'
+  | 'nao_compareceu'
+  | 'pos_atendimento'
+  | 'aniversario';
+
+export const TIPOS_CAMPANHA_FOLLOWUP: Record<TipoCampanhaFollowup, string> = {
+  automatico: 'Inatividade',
+  manual: 'Manual',
+  mudanca_etapa: 'Mudança de etapa',
+  nao_compareceu: 'Não comparecimento',
+  pos_atendimento: 'Pós-atendimento',
+  aniversario: 'Aniversário',
+};
+
 export interface FollowupCampaign {
   id: string;
   clinica_id: string;
   nome: string;
   descricao?: string;
-  tipo: 'automatico' | 'manual';
+  tipo: TipoCampanhaFollowup;
   ativo: boolean;
   dias_inatividade: number;
-  horario_envio?: string;
+  gatilho_etapa_id?: string | null; // Etapa do kanban (campanhas de mudança de etapa)
+  gatilho_dias_apos?: number; // Atraso do início da sequência após o evento
+  horario_envio?: string; // Início da janela de envio (fuso da clínica)
+  horario_envio_fim?: string | null; // Fim da janela de envio
   apenas_dias_uteis?: boolean;
+  filtros_publico?: FiltrosPublico; // Regras de público (campanhas automáticas)
   created_at?: string;
   updated_at?: string;
 }
@@ -51,22 +79,60 @@ export interface FollowupTemplate {
   updated_at?: string;
 }
 
+// Variante de texto de uma etapa em teste A/B
+export interface FollowupTemplateVariant {
+  id: string;
+  template_id: string;
+  nome: string;
+  conteudo: string;
+  peso: number;
+  ativo: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface FollowupExecution {
   id: string;
   lead_id: string;
   campaign_id: string;
   template_id: string;
   tipo_execucao: 'automatico' | 'manual';
-  status: 'pendente' | 'enviado' | 'erro' | 'cancelado';
+  status: 'pendente' | 'processando' | 'enviado' | 'erro' | 'cancelado';
   data_agendada: string;
   data_enviado?: string;
   mensagem_id?: string;
   erro_detalhes?: string;
+  motivo_cancelamento?: string | null;
+  variante_id?: string | null;
+  lote_id?: string | null; // Envio em massa (follow_up_envios_em_massa)
   user_id_manual?: string;
   created_at?: string;
   updated_at?: string;
 }
 
+// Posição de um lead na sequência automática de uma campanha
+export interface FollowupSequenceProgress {
+  lead_id: string;
+  lead_nome: string | null;
+  campaign_id: string;
+  campaign_nome: string;
+  etapa_atual: number; // Posição (1..total_etapas) da última etapa agendada/enviada
+  total_etapas: number;
+  status: 'em_andamento' | 'concluida' | 'encerrada' | 'erro';
+  proxima_etapa_em: string | null; // data_agendada da etapa pendente
+  ultimo_envio_em: string | null;
+  motivo_cancelamento: string | null;
+}
+
+// Motivos gravados pelo banco/processador ao encerrar uma sequência
+export const MOTIVOS_ENCERRAMENTO_SEQUENCIA: Record<string, string> = {
+  lead_respondeu: 'Lead respondeu',
+  agendamento: 'Agendamento criado',
+  follow_up_pausado: 'Follow-up pausado',
+  opt_out: 'Lead pediu para não receber mensagens',
+  envio_cancelado: 'Envio em massa cancelado',
+};
+
 // Hook para buscar campanhas de follow-up
 export const useFollowupCampaigns = () => {
   return useQuery({
@@ -89,7 +155,8 @@ export const useFollowupCampaigns = () => {
       // Type assertion para garantir que os tipos do Supabase sejam tratados corretamente
       return (data || []).map(campaign => ({
         ...campaign,
-        tipo: campaign.tipo as 'automatico' | 'manual'
+        tipo: campaign.tipo as TipoCampanhaFollowup,
+        filtros_publico: normalizarFiltrosPublico(campaign.filtros_publico)
       }));
     },
     staleTime: 30000, // Cache por 30 segundos
@@ -134,12 +201,15 @@ export const useCreateFollowupCampaign = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (campaignData: Omit<FollowupCampaign, 'id' | 'created_at' | 'updated_at'>): Promise<FollowupCampaign> => {
+    mutationFn: async ({
+      filtros_publico,
+      ...campaignData
+    }: Omit<FollowupCampaign, 'id' | 'created_at' | 'updated_at'>): Promise<FollowupCampaign> => {
       console.log('🔄 Criando nova campanha de follow-up:', campaignData);
 
       const { data, error } = await supabase
         .from('follow_up_campaigns')
-        .insert([campaignData])
+        .insert([{ ...campaignData, filtros_publico: (filtros_publico ?? {}) as unknown as Json }])
         .select()
         .single();
 
@@ -153,7 +223,8 @@ export const useCreateFollowupCampaign = () => {
       // Type assertion para garantir que o tipo seja tratado corretamente
       return {
         ...data,
-        tipo: data.tipo as 'automatico' | 'manual'
+        tipo: data.tipo as TipoCampanhaFollowup,
+        filtros_publico: normalizarFiltrosPublico(data.filtros_publico)
       };
     },
     onSuccess: () => {
@@ -167,6 +238,52 @@ export const useCreateFollowupCampaign = () => {
   });
 };
 
+// Hook para atualizar campanha (status, janela de envio, regras de público...)
+export const useUpdateFollowupCampaign = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      filtros_publico,
+      ...campaignData
+    }: Partial<Omit<FollowupCampaign, 'created_at' | 'updated_at'>> & { id: string }): Promise<FollowupCampaign> => {
+      console.log('🔄 Atualizando campanha:', id);
+
+      const { data, error } = await supabase
+        .from('follow_up_campaigns')
+        .update({
+          ...campaignData,
+          ...(filtros_publico && { filtros_publico: filtros_publico as unknown as Json }),
+        })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ Erro ao atualizar campanha:', error);
+        throw new Error(`Erro ao atualizar campanha: ${error.message}`);
+      }
+
+      console.log('✅ Campanha atualizada com sucesso:', data);
+
+      return {
+        ...data,
+        tipo: data.tipo as TipoCampanhaFollowup,
+        filtros_publico: normalizarFiltrosPublico(data.filtros_publico)
+      };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['followup-campaigns'] });
+      toast.success('Campanha atualizada com sucesso!');
+    },
+    onError: (error: Error) => {
+      console.error('❌ Erro na atualização da campanha:', error);
+      toast.error(`Erro ao atualizar campanha: ${error.message}`);
+    },
+  });
+};
+
 // Hook para criar template
 export const useCreateFollowupTemplate = () => {
   const queryClient = useQueryClient();
@@ -205,6 +322,143 @@ export const useCreateFollowupTemplate = () => {
   });
 };
 
+// Hook para atualizar template
+export const useUpdateFollowupTemplate = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...templateData
+    }: Partial<Omit<FollowupTemplate, 'created_at' | 'updated_at'>> & { id: string }): Promise<FollowupTemplate> => {
+      console.log('🔄 Atualizando template:', id);
+
+      const { data, error } = await supabase
+        .from('follow_up_templates')
+        .update(templateData)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ Erro ao atualizar template:', error);
+        throw new Error(`Erro ao atualizar template: ${error.message}`);
+      }
+
+      console.log('✅ Template atualizado com sucesso:', data);
+
+      return {
+        ...data,
+        tipo_mensagem: data.tipo_mensagem as 'text' | 'image' | 'audio'
+      };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['followup-templates', data.campaign_id] });
+      toast.success('Template atualizado com sucesso!');
+    },
+    onError: (error: Error) => {
+      console.error('❌ Erro na atualização do template:', error);
+      toast.error(`Erro ao atualizar template: ${error.message}`);
+    },
+  });
+};
+
+// Hook para buscar as variantes (teste A/B) de um template
+export const useFollowupTemplateVariants = (templateId: string | null) => {
+  return useQuery({
+    queryKey: ['followup-template-variants', templateId],
+    queryFn: async (): Promise<FollowupTemplateVariant[]> => {
+      if (!templateId) return [];
+
+      console.log('🔄 Buscando variantes do template:', templateId);
+
+      const { data, error } = await supabase
+        .from('follow_up_template_variantes')
+        .select('*')
+        .eq('template_id', templateId)
+        .order('nome', { ascending: true });
+
+      if (error) {
+        console.error('❌ Erro ao buscar variantes:', error);
+        throw new Error(`Erro ao buscar variantes: ${error.message}`);
+      }
+
+      return data || [];
+    },
+    enabled: !!templateId,
+    staleTime: 30000,
+  });
+};
+
+// Hook para criar variantes de um template (uma ou mais de uma vez)
+export const useCreateFollowupTemplateVariants = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      variants: Omit<FollowupTemplateVariant, 'id' | 'created_at' | 'updated_at'>[]
+    ): Promise<FollowupTemplateVariant[]> => {
+      console.log('🔄 Criando variantes de template:', variants.map(v => v.nome));
+
+      const { data, error } = await supabase
+        .from('follow_up_template_variantes')
+        .insert(variants)
+        .select();
+
+      if (error) {
+        console.error('❌ Erro ao criar variante:', error);
+        throw new Error(`Erro ao criar variante: ${error.message}`);
+      }
+
+      return data || [];
+    },
+    onSuccess: (_, variants) => {
+      queryClient.invalidateQueries({ queryKey: ['followup-template-variants', variants[0]?.template_id] });
+      toast.success('Variante criada com sucesso!');
+    },
+    onError: (error: Error) => {
+      console.error('❌ Erro na criação da variante:', error);
+      toast.error(`Erro ao criar variante: ${error.message}`);
+    },
+  });
+};
+
+// Hook para atualizar peso, texto ou status de uma variante
+export const useUpdateFollowupTemplateVariant = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      ...variantData
+    }: Partial<Pick<FollowupTemplateVariant, 'conteudo' | 'peso' | 'ativo'>> & { id: string }): Promise<FollowupTemplateVariant> => {
+      console.log('🔄 Atualizando variante:', id, variantData);
+
+      const { data, error } = await supabase
+        .from('follow_up_template_variantes')
+        .update(variantData)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ Erro ao atualizar variante:', error);
+        throw new Error(`Erro ao atualizar variante: ${error.message}`);
+      }
+
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['followup-template-variants', data.template_id] });
+      queryClient.invalidateQueries({ queryKey: ['followup-analytics'] });
+    },
+    onError: (error: Error) => {
+      console.error('❌ Erro na atualização da variante:', error);
+      toast.error(`Erro ao atualizar variante: ${error.message}`);
+    },
+  });
+};
+
 // Hook para criar execução manual de follow-up
 export const useCreateFollowupExecution = () => {
   const queryClient = useQueryClient();
@@ -237,7 +491,7 @@ export const useCreateFollowupExecution = () => {
       return {
         ...data,
         tipo_execucao: data.tipo_execucao as 'automatico' | 'manual',
-        status: data.status as 'pendente' | 'enviado' | 'erro' | 'cancelado'
+        status: data.status as 'pendente' | 'processando' | 'enviado' | 'erro' | 'cancelado'
       };
     },
     onSuccess: () => {
@@ -279,7 +533,7 @@ export const useLeadFollowupExecutions = (leadId: string | null) => {
       return (data || []).map(execution => ({
         ...execution,
         tipo_execucao: execution.tipo_execucao as 'automatico' | 'manual',
-        status: execution.status as 'pendente' | 'enviado' | 'erro' | 'cancelado'
+        status: execution.status as 'pendente' | 'processando' | 'enviado' | 'erro' | 'cancelado'
       }));
     },
     enabled: !!leadId,
@@ -300,7 +554,7 @@ export const useUpdateFollowupExecution = () => {
       erro_detalhes 
     }: {
       id: string;
-      status: 'pendente' | 'enviado' | 'erro' | 'cancelado';
+      status: 'pendente' | 'processando' | 'enviado' | 'erro' | 'cancelado';
       data_enviado?: string;
       mensagem_id?: string;
       erro_detalhes?: string;
@@ -330,7 +584,7 @@ export const useUpdateFollowupExecution = () => {
       return {
         ...data,
         tipo_execucao: data.tipo_execucao as 'automatico' | 'manual',
-        status: data.status as 'pendente' | 'enviado' | 'erro' | 'cancelado'
+        status: data.status as 'pendente' | 'processando' | 'enviado' | 'erro' | 'cancelado'
       };
     },
     onSuccess: () => {
@@ -370,10 +624,25 @@ export const useToggleLeadFollowup = () => {
         throw new Error(`Erro ao alterar follow-up: ${error.message}`);
       }
 
+      // Pausar encerra as etapas automáticas que ainda seriam enviadas
+      if (pausado) {
+        const { error: encerrarError } = await supabase
+          .from('follow_up_execucoes')
+          .update({ status: 'cancelado', motivo_cancelamento: 'follow_up_pausado' })
+          .eq('lead_id', leadId)
+          .eq('tipo_execucao', 'automatico')
+          .eq('status', 'pendente');
+
+        if (encerrarError) {
+          console.error('⚠️ Erro ao encerrar sequências do lead:', encerrarError);
+        }
+      }
+
       console.log('✅ Follow-up do lead alterado com sucesso');
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['leads'] });
+      queryClient.invalidateQueries({ queryKey: ['followup-executions'] });
       toast.success(
         variables.pausado 
           ? 'Follow-up pausado para este lead' 
@@ -386,3 +655,137 @@ export const useToggleLeadFollowup = () => {
     },
   });
 };
+
+interface ExecucaoSequencia {
+  lead_id: string;
+  campaign_id: string;
+  status: string;
+  data_enviado: string | null;
+  data_agendada: string;
+  motivo_cancelamento: string | null;
+  template_id: string;
+  lead: { nome: string | null } | null;
+  template: { sequencia: number } | null;
+  campaign: {
+    nome: string;
+    templates: { id: string; sequencia: number; ativo: boolean }[];
+  } | null;
+}
+
+const SELECT_EXECUCOES_SEQUENCIA = `
+  lead_id,
+  campaign_id,
+  status,
+  data_agendada,
+  data_enviado,
+  motivo_cancelamento,
+  template_id,
+  lead:leads(nome),
+  template:follow_up_templates(sequencia),
+  campaign:follow_up_campaigns(nome, templates:follow_up_templates(id, sequencia, ativo))
+`;
+
+/**
+ * Agrupa as execuções automáticas por lead e campanha e calcula a posição
+ * de cada lead na sequência a partir da execução mais recente.
+ * As execuções devem vir ordenadas por data_agendada (mais recente primeiro).
+ */
+const calcularProgressoSequencias = (execucoes: ExecucaoSequencia[]): FollowupSequenceProgress[] => {
+  const progressos = new Map<string, FollowupSequenceProgress>();
+
+  execucoes.forEach((execucao) => {
+    const chave = `${execucao.lead_id}:${execucao.campaign_id}`;
+    const existente = progressos.get(chave);
+
+    if (existente) {
+      // Execuções mais antigas só completam a data do último envio
+      if (!existente.ultimo_envio_em && execucao.status === 'enviado') {
+        existente.ultimo_envio_em = execucao.data_enviado;
+      }
+      return;
+    }
+
+    const etapasAtivas = (execucao.campaign?.templates || [])
+      .filter((template) => template.ativo)
+      .sort((a, b) => a.sequencia - b.sequencia);
+    const posicao = etapasAtivas.findIndex((template) => template.id === execucao.template_id);
+
+    const status: FollowupSequenceProgress['status'] =
+      execucao.status === 'pendente' || execucao.status === 'processando' ? 'em_andamento'
+        : execucao.status === 'cancelado' ? 'encerrada'
+        : execucao.status === 'erro' ? 'erro'
+        : 'concluida';
+
+    progressos.set(chave, {
+      lead_id: execucao.lead_id,
+      lead_nome: execucao.lead?.nome || null,
+      campaign_id: execucao.campaign_id,
+      campaign_nome: execucao.campaign?.nome || 'Campanha',
+      etapa_atual: posicao >= 0 ? posicao + 1 : execucao.template?.sequencia || 1,
+      total_etapas: Math.max(etapasAtivas.length, 1),
+      status,
+      proxima_etapa_em: status === 'em_andamento' ? execucao.data_agendada : null,
+      ultimo_envio_em: execucao.status === 'enviado' ? execucao.data_enviado : null,
+      motivo_cancelamento: execucao.motivo_cancelamento,
+    });
+  });
+
+  return Array.from(progressos.values());
+};
+
+// Hook para buscar a posição do lead nas sequências automáticas
+export const useLeadFollowupSequences = (leadId: string | null) => {
+  return useQuery({
+    queryKey: ['followup-executions', 'sequencias', 'lead', leadId],
+    queryFn: async (): Promise<FollowupSequenceProgress[]> => {
+      if (!leadId) return [];
+
+      console.log('🔄 Buscando sequências de follow-up do lead:', leadId);
+
+      const { data, error } = await supabase
+        .from('follow_up_execucoes')
+        .select(SELECT_EXECUCOES_SEQUENCIA)
+        .eq('lead_id', leadId)
+        .eq('tipo_execucao', 'automatico')
+        .order('data_agendada', { ascending: false });
+
+      if (error) {
+        console.error('❌ Erro ao buscar sequências do lead:', error);
+        throw new Error(`Erro ao buscar sequências: ${error.message}`);
+      }
+
+      return calcularProgressoSequencias((data || []) as unknown as ExecucaoSequencia[]);
+    },
+    enabled: !!leadId,
+    staleTime: 30000,
+  });
+};
+
+// Hook para buscar a posição de cada lead na sequência de uma campanha
+export const useCampaignFollowupSequences = (campaignId: string | null) => {
+  return useQuery({
+    queryKey: ['followup-executions', 'sequencias', 'campanha', campaignId],
+    queryFn: async (): Promise<FollowupSequenceProgress[]> => {
+      if (!campaignId) return [];
+
+      console.log('🔄 Buscando leads na sequência da campanha:', campaignId);
+
+      const { data, error } = await supabase
+        .from('follow_up_execucoes')
+        .select(SELECT_EXECUCOES_SEQUENCIA)
+        .eq('campaign_id', campaignId)
+        .eq('tipo_execucao', 'automatico')
+        .order('data_agendada', { ascending: false })
+        .limit(500);
+
+      if (error) {
+        console.error('❌ Erro ao buscar sequências da campanha:', error);
+        throw new Error(`Erro ao buscar sequências: ${error.message}`);
+      }
+
+      return calcularProgressoSequencias((data || []) as unknown as ExecucaoSequencia[]);
+    },
+    enabled: !!campaignId,
+    staleTime: 30000,
+  });
+};
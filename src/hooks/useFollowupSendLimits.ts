@@ -0,0 +1,110 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  LimitesEnvio,
+  normalizarLimitesEnvio,
+} from '../../supabase/functions/_shared/sendThrottle';
+
+/**
+ * Hooks dos limites de envio de follow-up da clínica
+ *
+ * O que faz:
+ * - useFollowupSendLimits: limites configurados (por minuto, hora e dia e intervalo
+ *   aleatório entre mensagens) e os envios recentes da clínica
+ * - useUpdateFollowupSendLimits: salva os limites em clinicas
+ *
+ * Como se conecta:
+ * - process-followup-campaigns lê os mesmos campos e envia as etapas vencidas aos poucos,
+ *   dentro dos limites (regras em _shared/sendThrottle.ts)
+ * - Envios recentes vêm da função follow_up_envios_recentes
+ *
+ * Onde é usado:
+ * - FollowupSendLimitsDialog
+ */
+
+export interface FollowupSendUsage {
+  ultimo_minuto: number;
+  ultima_hora: number;
+  ultimo_dia: number;
+  ultimo_envio_em: string | null;
+}
+
+export interface FollowupSendLimits {
+  limites: LimitesEnvio;
+  uso: FollowupSendUsage;
+}
+
+export const useFollowupSendLimits = (clinicaId: string | null) => {
+  return useQuery({
+    queryKey: ['followup-send-limits', clinicaId],
+    queryFn: async (): Promise<FollowupSendLimits | null> => {
+      if (!clinicaId) return null;
+
+      const { data: clinica, error } = await supabase
+        .from('clinicas')
+        .select('followup_limite_por_minuto, followup_limite_por_hora, followup_limite_por_dia, followup_intervalo_min_segundos, followup_intervalo_max_segundos')
+        .eq('id', clinicaId)
+        .single();
+
+      if (error) {
+        console.error('❌ Erro ao buscar limites de envio:', error);
+        throw new Error(`Erro ao buscar limites de envio: ${error.message}`);
+      }
+
+      const { data: uso, error: usoError } = await supabase.rpc('follow_up_envios_recentes', {
+        p_clinica_id: clinicaId,
+      });
+
+      if (usoError) {
+        console.error('❌ Erro ao buscar envios recentes:', usoError);
+        throw new Error(`Erro ao buscar envios recentes: ${usoError.message}`);
+      }
+
+      return {
+        limites: normalizarLimitesEnvio(clinica),
+        uso: {
+          ultimo_minuto: Number(uso?.[0]?.ultimo_minuto || 0),
+          ultima_hora: Number(uso?.[0]?.ultima_hora || 0),
+          ultimo_dia: Number(uso?.[0]?.ultimo_dia || 0),
+          ultimo_envio_em: uso?.[0]?.ultimo_envio_em || null,
+        },
+      };
+    },
+    enabled: !!clinicaId,
+    refetchInterval: 60000,
+  });
+};
+
+export const useUpdateFollowupSendLimits = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ clinicaId, limites }: { clinicaId: string; limites: LimitesEnvio }) => {
+      console.log('🚦 Salvando limites de envio de follow-up:', limites);
+
+      const { error } = await supabase
+        .from('clinicas')
+        .update({
+          followup_limite_por_minuto: limites.porMinuto,
+          followup_limite_por_hora: limites.porHora,
+          followup_limite_por_dia: limites.porDia,
+          followup_intervalo_min_segundos: limites.intervaloMinSegundos,
+          followup_intervalo_max_segundos: limites.intervaloMaxSegundos,
+        })
+        .eq('id', clinicaId);
+
+      if (error) {
+        console.error('❌ Erro ao salvar limites de envio:', error);
+        throw new Error(`Erro ao salvar limites de envio: ${error.message}`);
+      }
+    },
+    onSuccess: (_, { clinicaId }) => {
+      queryClient.invalidateQueries({ queryKey: ['followup-send-limits', clinicaId] });
+      toast.success('Limites de envio salvos com sucesso!');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+};
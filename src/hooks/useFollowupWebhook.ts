@@ -91,6 +91,18 @@ export const useSendManualFollowup = () => {
         templateId,
       });
 
+      // Lead com opt-out no WhatsApp não recebe follow-up (LGPD)
+      const { data: consentimento } = await supabase
+        .from('lead_consentimento_atual')
+        .select('status')
+        .eq('lead_id', leadId)
+        .eq('canal', 'whatsapp')
+        .maybeSingle();
+
+      if (consentimento?.status === 'revogado') {
+        throw new Error('o lead pediu para não receber mensagens (opt-out)');
+      }
+
       // Primeiro, criar a execução manual
       const { data: execution, error: executionError } = await supabase
         .from('follow_up_execucoes')
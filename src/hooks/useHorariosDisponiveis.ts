@@ -0,0 +1,57 @@
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { HorarioDisponivel } from '../../supabase/functions/_shared/availability';
+
+/**
+ * Hook para buscar os próximos horários livres da agenda
+ *
+ * Chama a Edge Function get-available-slots, que cruza o funcionamento da clínica,
+ * o horário de trabalho dos profissionais, os agendamentos ativos e os bloqueios.
+ * A busca é sob demanda (botão "Próximo horário disponível"), por isso é uma mutation.
+ *
+ * Usado pelo RegistroAgendamentoModal.
+ */
+
+export type { HorarioDisponivel };
+
+export interface BuscaHorariosDisponiveis {
+  servico_id?: string | null;
+  duracao_minutos?: number;
+  profissional_id?: string | null;
+  data_inicial?: string; // YYYY-MM-DD
+  data_final?: string; // YYYY-MM-DD
+  limite?: number;
+}
+
+export const useHorariosDisponiveis = () => {
+  const buscaMutation = useMutation({
+    mutationFn: async (busca: BuscaHorariosDisponiveis): Promise<HorarioDisponivel[]> => {
+      const { data, error } = await supabase.functions.invoke('get-available-slots', {
+        body: {
+          ...busca,
+          servico_id: busca.servico_id || undefined,
+          profissional_id: busca.profissional_id || undefined,
+        },
+      });
+
+      if (error) {
+        console.error('❌ [useHorariosDisponiveis] Erro ao buscar horários livres:', error);
+        throw new Error('Erro ao buscar horários disponíveis');
+      }
+
+      return (data?.slots || []) as HorarioDisponivel[];
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao buscar horários disponíveis');
+    },
+  });
+
+  return {
+    horarios: buscaMutation.data || [],
+    buscarHorarios: buscaMutation.mutateAsync,
+    limparHorarios: buscaMutation.reset,
+    isBuscandoHorarios: buscaMutation.isPending,
+    buscaRealizada: buscaMutation.isSuccess,
+  };
+};
@@ -0,0 +1,156 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+/**
+ * Hook para gerenciar o segredo de assinatura dos webhooks de entrada da clínica
+ *
+ * O n8n assina o JWT enviado para as Edge Functions receive-message e
+ * receive-message-status com este segredo (claim "clinica_id"). Cada clínica tem
+ * o seu, e ele pode ser rotacionado a qualquer momento.
+ *
+ * Funcionalidades:
+ * - Buscar o segredo atual e as datas de rotação
+ * - Gerar um novo segredo (o anterior continua válido por PERIODO_TRANSICAO_HORAS)
+ * - Listar as últimas requisições recusadas (tabela `inbound_webhook_rejections`)
+ *
+ * Usado pelo componente EvolutionApiSettings no painel de admin.
+ */
+
+export interface InboundWebhookSecret {
+  inbound_webhook_secret: string | null;
+  inbound_webhook_secret_previous_expires_at: string | null;
+  inbound_webhook_secret_rotated_at: string | null;
+}
+
+export interface InboundWebhookRejection {
+  id: string;
+  funcao: string;
+  motivo: string;
+  instance_name: string | null;
+  clinica_id_informado: string | null;
+  ip_origem: string | null;
+  created_at: string;
+}
+
+// Tempo em que o segredo anterior ainda é aceito, para dar tempo de atualizar o n8n
+const PERIODO_TRANSICAO_HORAS = 24;
+
+/**
+ * 🔐 Gerar segredo aleatório (32 bytes em hexadecimal)
+ */
+const gerarSegredo = () => {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const useInboundWebhookSecret = (clinicaId: string) => {
+  const queryClient = useQueryClient();
+
+  // Query para buscar o segredo atual da clínica
+  const secretQuery = useQuery({
+    queryKey: ['inbound-webhook-secret', clinicaId],
+    queryFn: async () => {
+      console.log(`🔍 [useInboundWebhookSecret] Buscando segredo de webhook da clínica: ${clinicaId}`);
+
+      const { data, error } = await supabase
+        .from('clinicas')
+        .select('inbound_webhook_secret, inbound_webhook_secret_previous_expires_at, inbound_webhook_secret_rotated_at')
+        .eq('id', clinicaId)
+        .single();
+
+      if (error) {
+        console.error('❌ [useInboundWebhookSecret] Erro ao buscar segredo:', error);
+        throw error;
+      }
+
+      return data as InboundWebhookSecret;
+    },
+    enabled: !!clinicaId,
+  });
+
+  // Query para listar as últimas requisições recusadas
+  const rejectionsQuery = useQuery({
+    queryKey: ['inbound-webhook-rejections', clinicaId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('inbound_webhook_rejections')
+        .select('id, funcao, motivo, instance_name, clinica_id_informado, ip_origem, created_at')
+        .eq('clinica_id', clinicaId)
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) {
+        console.error('❌ [useInboundWebhookSecret] Erro ao buscar requisições recusadas:', error);
+        throw error;
+      }
+
+      return data as InboundWebhookRejection[];
+    },
+    enabled: !!clinicaId,
+  });
+
+  // Mutation para gerar um novo segredo, mantendo o anterior no período de transição
+  const rotateSecretMutation = useMutation({
+    mutationFn: async () => {
+      console.log(`🔑 [useInboundWebhookSecret] Gerando novo segredo para a clínica: ${clinicaId}`);
+
+      const { data: atual, error: selectError } = await supabase
+        .from('clinicas')
+        .select('inbound_webhook_secret')
+        .eq('id', clinicaId)
+        .single();
+
+      if (selectError) {
+        throw selectError;
+      }
+
+      const agora = new Date();
+      const { error } = await supabase
+        .from('clinicas')
+        .update({
+          inbound_webhook_secret: gerarSegredo(),
+          inbound_webhook_secret_previous: atual.inbound_webhook_secret,
+          inbound_webhook_secret_previous_expires_at: atual.inbound_webhook_secret
+            ? new Date(agora.getTime() + PERIODO_TRANSICAO_HORAS * 60 * 60 * 1000).toISOString()
+            : null,
+          inbound_webhook_secret_rotated_at: agora.toISOString(),
+          updated_at: agora.toISOString(),
+        })
+        .eq('id', clinicaId);
+
+      if (error) {
+        console.error('❌ [useInboundWebhookSecret] Erro ao gerar segredo:', error);
+        throw error;
+      }
+
+      console.log('✅ [useInboundWebhookSecret] Novo segredo gerado com sucesso');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['inbound-webhook-secret', clinicaId] });
+
+      toast({
+        title: "Sucesso",
+        description: "Novo segredo gerado. Atualize a credencial no n8n.",
+      });
+    },
+    onError: (error: Error) => {
+      console.error('❌ [useInboundWebhookSecret] Erro na rotação:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao gerar novo segredo. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    secret: secretQuery.data || null,
+    isLoading: secretQuery.isLoading,
+    rejections: rejectionsQuery.data || [],
+    rotateSecret: rotateSecretMutation.mutate,
+    isRotating: rotateSecretMutation.isPending,
+    periodoTransicaoHoras: PERIODO_TRANSICAO_HORAS,
+  };
+};
@@ -0,0 +1,121 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+/**
+ * Hooks de consentimento de contato do lead (LGPD)
+ *
+ * O que faz:
+ * - useLeadConsent: histórico de consentimento do lead e estado atual por canal
+ * - useRegisterLeadConsent: registro manual pela equipe (ex.: paciente pediu por telefone
+ *   para não receber mensagens, ou voltou a autorizar)
+ *
+ * Como funciona:
+ * - lead_consentimentos é um histórico: cada mudança é um novo registro, nada é alterado
+ * - O estado atual do canal é o registro mais recente; sem registros o lead é consentido
+ * - Revogar o WhatsApp encerra as sequências de follow-up pendentes (trigger no banco) e
+ *   bloqueia os envios do CRM (send-webhook)
+ *
+ * Onde é usado:
+ * - LeadConsentBadge (LeadInfoSidebar)
+ */
+
+export type CanalConsentimento = 'whatsapp' | 'instagram';
+export type StatusConsentimento = 'concedido' | 'revogado';
+export type OrigemConsentimento = 'palavra_chave' | 'crm' | 'formulario';
+
+export interface LeadConsentRecord {
+  id: string;
+  canal: CanalConsentimento;
+  status: StatusConsentimento;
+  origem: OrigemConsentimento;
+  detalhes: string | null;
+  created_at: string;
+}
+
+export interface LeadConsent {
+  historico: LeadConsentRecord[];
+  atual: Partial<Record<CanalConsentimento, LeadConsentRecord>>;
+}
+
+export const ORIGENS_CONSENTIMENTO: Record<OrigemConsentimento, string> = {
+  palavra_chave: 'mensagem do lead',
+  crm: 'registro da equipe',
+  formulario: 'formulário',
+};
+
+export const useLeadConsent = (leadId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ['lead-consent', leadId],
+    queryFn: async (): Promise<LeadConsent> => {
+      if (!leadId) return { historico: [], atual: {} };
+
+      const { data, error } = await supabase
+        .from('lead_consentimentos')
+        .select('id, canal, status, origem, detalhes, created_at')
+        .eq('lead_id', leadId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('❌ Erro ao buscar consentimento do lead:', error);
+        throw new Error(`Erro ao buscar consentimento: ${error.message}`);
+      }
+
+      const historico = (data || []) as LeadConsentRecord[];
+      const atual: LeadConsent['atual'] = {};
+      historico.forEach((registro) => {
+        if (!atual[registro.canal]) atual[registro.canal] = registro;
+      });
+
+      return { historico, atual };
+    },
+    enabled: !!leadId,
+  });
+};
+
+export const useRegisterLeadConsent = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (params: {
+      leadId: string;
+      clinicaId: string;
+      canal: CanalConsentimento;
+      status: StatusConsentimento;
+      detalhes?: string;
+    }) => {
+      console.log('📝 Registrando consentimento do lead:', params);
+
+      const { error } = await supabase
+        .from('lead_consentimentos')
+        .insert({
+          lead_id: params.leadId,
+          clinica_id: params.clinicaId,
+          canal: params.canal,
+          status: params.status,
+          origem: 'crm',
+          detalhes: params.detalhes || null,
+          registrado_por: user?.id ?? null,
+        });
+
+      if (error) {
+        console.error('❌ Erro ao registrar consentimento:', error);
+        throw new Error(`Erro ao registrar consentimento: ${error.message}`);
+      }
+    },
+    onSuccess: (_, params) => {
+      queryClient.invalidateQueries({ queryKey: ['lead-consent', params.leadId] });
+      queryClient.invalidateQueries({ queryKey: ['followup-executions'] });
+      toast.success(
+        params.status === 'revogado'
+          ? 'Opt-out registrado: o lead não receberá mais mensagens'
+          : 'Consentimento registrado'
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+};
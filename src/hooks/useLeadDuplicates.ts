@@ -0,0 +1,129 @@
+import { useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { normalizarTelefone } from '@/components/chat/utils/phoneFormatter';
+import type { Lead } from './useSupabaseLeads';
+
+/**
+ * Hook para detectar e mesclar leads duplicados
+ * 
+ * Critérios de duplicidade (aplicados sobre os leads já carregados na página de Contatos):
+ * - telefone: mesmo número após normalização E.164 (com/sem 55, com/sem nono dígito)
+ * - email: mesmo e-mail, ignorando maiúsculas
+ * - instagram: lead do Instagram Direct sem telefone com o mesmo nome de um lead do WhatsApp
+ * 
+ * A mesclagem é feita pela função SQL `mesclar_leads`, que move mensagens, agendamentos,
+ * execuções de follow-up e tag para o lead mantido e remove os demais em uma transação.
+ * 
+ * Usado pelo componente DuplicateLeadsDialog na página de Contatos.
+ */
+
+export type DuplicateReason = 'telefone' | 'email' | 'instagram';
+
+export interface DuplicateGroup {
+  key: string;
+  reason: DuplicateReason;
+  leads: Lead[];
+}
+
+// Nome comparável: sem acentos, minúsculo e sem espaços extras
+const normalizarNome = (nome: string | null) =>
+  (nome || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Nome temporário criado pela receive-message não serve para comparar
+const isNomeTemporario = (nome: string | null) => !nome || nome.startsWith('Contato ');
+
+const agruparPor = (leads: Lead[], chave: (lead: Lead) => string | null) => {
+  const grupos = new Map<string, Lead[]>();
+  leads.forEach((lead) => {
+    const valor = chave(lead);
+    if (valor) {
+      grupos.set(valor, [...(grupos.get(valor) || []), lead]);
+    }
+  });
+  return Array.from(grupos.entries()).filter(([, grupo]) => grupo.length > 1);
+};
+
+export const useLeadDuplicates = (leads: Lead[]) => {
+  const queryClient = useQueryClient();
+
+  const duplicateGroups = useMemo<DuplicateGroup[]>(() => {
+    const groups: DuplicateGroup[] = [];
+    const jaAgrupados = new Set<string>();
+
+    const adicionar = (reason: DuplicateReason, entries: [string, Lead[]][]) => {
+      entries.forEach(([key, grupo]) => {
+        // Um lead aparece apenas no primeiro grupo em que for encontrado
+        const restantes = grupo.filter((lead) => !jaAgrupados.has(lead.id));
+        if (restantes.length > 1) {
+          restantes.forEach((lead) => jaAgrupados.add(lead.id));
+          groups.push({ key: `${reason}:${key}`, reason, leads: restantes });
+        }
+      });
+    };
+
+    adicionar('telefone', agruparPor(leads, (lead) => normalizarTelefone(lead.telefone)));
+    adicionar('email', agruparPor(leads, (lead) => lead.email?.trim().toLowerCase() || null));
+
+    // Instagram sem telefone x WhatsApp com o mesmo nome
+    const porNome = agruparPor(
+      leads.filter((lead) => !isNomeTemporario(lead.nome)),
+      (lead) => normalizarNome(lead.nome) || null
+    ).filter(([, grupo]) =>
+      grupo.some((lead) => lead.id_direct && !lead.telefone) &&
+      grupo.some((lead) => lead.telefone)
+    );
+    adicionar('instagram', porNome);
+
+    return groups;
+  }, [leads]);
+
+  // Mutation para mesclar os duplicados no lead escolhido
+  const mergeMutation = useMutation({
+    mutationFn: async ({ principalId, duplicadoIds }: { principalId: string; duplicadoIds: string[] }) => {
+      console.log(`🔗 [useLeadDuplicates] Mesclando ${duplicadoIds.length} lead(s) em ${principalId}`);
+
+      for (const duplicadoId of duplicadoIds) {
+        const { error } = await supabase.rpc('mesclar_leads', {
+          p_lead_principal: principalId,
+          p_lead_duplicado: duplicadoId,
+        });
+
+        if (error) {
+          console.error('❌ [useLeadDuplicates] Erro ao mesclar leads:', error);
+          throw error;
+        }
+      }
+
+      console.log('✅ [useLeadDuplicates] Leads mesclados com sucesso');
+    },
+    onSuccess: (_, { duplicadoIds }) => {
+      queryClient.invalidateQueries({ queryKey: ['leads'] });
+      queryClient.invalidateQueries({ queryKey: ['agendamentos'] });
+
+      toast({
+        title: "Sucesso",
+        description: `${duplicadoIds.length} contato(s) mesclado(s) com sucesso!`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao mesclar contatos. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    duplicateGroups,
+    mergeLeads: mergeMutation.mutate,
+    isMerging: mergeMutation.isPending,
+  };
+};
@@ -0,0 +1,112 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+/**
+ * Hook para acompanhar a fila de envio de mensagens da clínica (CRM -> n8n)
+ *
+ * As Edge Functions send-webhook e send-instagram-webhook gravam cada envio na
+ * tabela `outbound_message_queue`. Falhas são retentadas com backoff pelo worker
+ * process-outbound-queue até virarem 'dead_letter'.
+ *
+ * Funcionalidades:
+ * - Listar os envios pendentes, em processamento e esgotados (dead letter)
+ * - Reenviar manualmente um item: volta para 'pending' com as tentativas zeradas
+ *   (RPC reenviar_item_fila) e é enviado na próxima execução do worker (CRON a cada minuto)
+ *
+ * Usado pelo componente OutboundQueuePanel, dentro de WebhookSettings.
+ */
+
+export type OutboundQueueStatus = 'pending' | 'processing' | 'sent' | 'dead_letter';
+
+export interface OutboundQueueEntry {
+  id: string;
+  canal: string;
+  status: OutboundQueueStatus;
+  tentativas: number;
+  max_tentativas: number;
+  proxima_tentativa_em: string;
+  ultimo_erro: string | null;
+  ultimo_status_code: number | null;
+  created_at: string;
+  lead: { nome: string | null } | null;
+}
+
+/**
+ * 🔁 Recoloca um item da fila como pendente (tentativas zeradas) para a próxima execução do worker.
+ * Também usado pelo reenvio do visualizador de logs de webhook.
+ */
+export const reenviarItemDaFila = async (queueId: string) => {
+  console.log(`🔁 [useOutboundQueue] Reenviando item da fila: ${queueId}`);
+
+  // A função só altera status e tentativas (o payload e a URL não podem ser mudados pelo CRM)
+  // e não recoloca item em envio neste momento, para não enviar em dobro
+  const { error } = await supabase.rpc('reenviar_item_fila', { p_queue_id: queueId });
+
+  if (error) {
+    console.error('❌ [useOutboundQueue] Erro ao recolocar item na fila:', error);
+    throw error;
+  }
+};
+
+export const useOutboundQueue = (clinicaId: string) => {
+  const queryClient = useQueryClient();
+
+  // Query para listar os envios que ainda não foram entregues
+  const queueQuery = useQuery({
+    queryKey: ['outbound-queue', clinicaId],
+    queryFn: async () => {
+      console.log(`🔍 [useOutboundQueue] Buscando fila de envio da clínica: ${clinicaId}`);
+
+      const { data, error } = await supabase
+        .from('outbound_message_queue')
+        .select('id, canal, status, tentativas, max_tentativas, proxima_tentativa_em, ultimo_erro, ultimo_status_code, created_at, lead:leads(nome)')
+        .eq('clinica_id', clinicaId)
+        .in('status', ['pending', 'processing', 'dead_letter'])
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) {
+        console.error('❌ [useOutboundQueue] Erro ao buscar fila:', error);
+        throw error;
+      }
+
+      return data as OutboundQueueEntry[];
+    },
+    enabled: !!clinicaId,
+    refetchInterval: 30000,
+  });
+
+  // Mutation para reenviar manualmente um item da fila
+  const replayMutation = useMutation({
+    mutationFn: reenviarItemDaFila,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['outbound-queue', clinicaId] });
+
+      toast({
+        title: "Reenvio solicitado",
+        description: "A mensagem foi recolocada na fila e será enviada em instantes.",
+      });
+    },
+    onError: (error: Error) => {
+      console.error('❌ [useOutboundQueue] Erro no reenvio:', error);
+      toast({
+        title: "Erro",
+        description: "Erro ao reenviar a mensagem. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const items = queueQuery.data || [];
+
+  return {
+    items,
+    pendingCount: items.filter((item) => item.status !== 'dead_letter').length,
+    deadLetterCount: items.filter((item) => item.status === 'dead_letter').length,
+    isLoading: queueQuery.isLoading,
+    refetch: queueQuery.refetch,
+    replay: replayMutation.mutate,
+    isReplaying: replayMutation.isPending,
+  };
+};
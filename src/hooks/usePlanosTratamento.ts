@@ -0,0 +1,113 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useClinica } from '@/contexts/ClinicaContext';
+
+/**
+ * Hook dos planos de tratamento (pacotes de sessões)
+ *
+ * O que faz:
+ * - Lista os planos da clínica com o progresso (sessões realizadas, agendadas e canceladas)
+ * - Permite encerrar (cancelar) ou reabrir um plano
+ * - A conclusão é automática: o trigger atualizar_status_plano_tratamento marca o plano
+ *   como concluído quando as sessões realizadas atingem o total
+ *
+ * Onde é usado:
+ * - RegistroAgendamentoModal (continuar um plano existente e ver o progresso da sessão)
+ * - CalendarPage (indicação "Sessão 3/10" nos cards)
+ */
+
+export type StatusPlanoTratamento = 'ativo' | 'concluido' | 'cancelado';
+
+export interface PlanoTratamento {
+  id: string;
+  clinica_id: string;
+  cliente_id: string;
+  servico_id: string | null;
+  nome: string;
+  total_sessoes: number;
+  status: StatusPlanoTratamento;
+  observacoes: string | null;
+  created_at: string;
+  updated_at: string;
+  // Progresso calculado a partir das sessões vinculadas
+  sessoes_realizadas: number;
+  sessoes_agendadas: number;
+  sessoes_canceladas: number;
+}
+
+const STATUS_REALIZADOS = ['realizado', 'pago'];
+const STATUS_SEM_OCUPACAO = ['cancelado', 'nao_compareceu'];
+
+export const usePlanosTratamento = () => {
+  const { clinicaId } = useClinica();
+  const queryClient = useQueryClient();
+  const queryKey = ['planos-tratamento', clinicaId];
+
+  const { data: planos = [], isLoading, error } = useQuery({
+    queryKey,
+    queryFn: async (): Promise<PlanoTratamento[]> => {
+      if (!clinicaId) return [];
+
+      const { data, error } = await supabase
+        .from('planos_tratamento')
+        .select('*, agendamentos(status)')
+        .eq('clinica_id', clinicaId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('❌ Erro ao buscar planos de tratamento:', error);
+        throw new Error('Erro ao carregar planos de tratamento');
+      }
+
+      return (data || []).map(({ agendamentos, ...plano }) => {
+        const status = (agendamentos || []).map((sessao) => sessao.status || 'agendado');
+        return {
+          ...plano,
+          status: plano.status as StatusPlanoTratamento,
+          sessoes_realizadas: status.filter((s) => STATUS_REALIZADOS.includes(s)).length,
+          sessoes_agendadas: status.filter(
+            (s) => !STATUS_REALIZADOS.includes(s) && !STATUS_SEM_OCUPACAO.includes(s)
+          ).length,
+          sessoes_canceladas: status.filter((s) => STATUS_SEM_OCUPACAO.includes(s)).length,
+        };
+      });
+    },
+    enabled: !!clinicaId,
+    staleTime: 2 * 60 * 1000, // 2 minutos
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: StatusPlanoTratamento }): Promise<void> => {
+      const { error } = await supabase
+        .from('planos_tratamento')
+        .update({ status })
+        .eq('id', id);
+
+      if (error) {
+        console.error('❌ Erro ao atualizar plano de tratamento:', error);
+        throw new Error('Erro ao atualizar plano de tratamento');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast.success('Plano de tratamento atualizado!');
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Erro ao atualizar plano de tratamento');
+    },
+  });
+
+  return {
+    planos,
+    isLoading,
+    error,
+    // Planos em andamento de um paciente, para continuar com novas sessões
+    planosAtivosDoCliente: (clienteId: string | null | undefined) =>
+      planos.filter((plano) => plano.cliente_id === clienteId && plano.status === 'ativo'),
+    getPlano: (planoId: string | null | undefined) =>
+      planos.find((plano) => plano.id === planoId) || null,
+    updateStatusPlano: updateStatusMutation.mutateAsync,
+    isUpdatingPlano: updateStatusMutation.isPending,
+  };
+};
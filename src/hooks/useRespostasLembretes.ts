@@ -0,0 +1,89 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useClinica } from '@/contexts/ClinicaContext';
+
+/**
+ * Hook que avisa a equipe quando um paciente responde ao lembrete de agendamento
+ *
+ * O que faz:
+ * - Escuta em tempo real as respostas gravadas em agendamento_lembretes pela receive-message
+ * - Mostra um aviso "Maria confirmou / cancelou o agendamento de 21/07 às 09:30"
+ *   com atalho para a agenda
+ * - Atualiza a lista de agendamentos (o status já foi alterado no banco)
+ *
+ * Onde é usado:
+ * - MainLayout, para o aviso aparecer em qualquer página do CRM
+ */
+
+interface LembreteRespondido {
+  id: string;
+  agendamento_id: string;
+  resposta: 'confirmado' | 'cancelado' | null;
+}
+
+export const useRespostasLembretes = () => {
+  const { clinicaId } = useClinica();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (!clinicaId) return;
+
+    const avisarEquipe = async (lembrete: LembreteRespondido) => {
+      queryClient.invalidateQueries({ queryKey: ['agendamentos'] });
+      queryClient.invalidateQueries({ queryKey: ['planos-tratamento'] });
+
+      const { data: agendamento } = await supabase
+        .from('agendamentos')
+        .select('titulo, data_inicio, lead:leads(nome)')
+        .eq('id', lembrete.agendamento_id)
+        .maybeSingle();
+
+      const paciente = agendamento?.lead?.nome || 'O paciente';
+      const quando = agendamento
+        ? ` de ${format(new Date(agendamento.data_inicio), "dd/MM 'às' HH:mm", { locale: ptBR })}`
+        : '';
+      const opcoes = {
+        description: agendamento?.titulo,
+        action: { label: 'Abrir agenda', onClick: () => navigate('/agenda') },
+        duration: 10000,
+      };
+
+      if (lembrete.resposta === 'confirmado') {
+        toast.success(`${paciente} confirmou o agendamento${quando}`, opcoes);
+      } else {
+        toast.warning(`${paciente} cancelou o agendamento${quando}`, opcoes);
+      }
+    };
+
+    const canal = supabase
+      .channel(`lembretes-respostas-${clinicaId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'agendamento_lembretes',
+          filter: `clinica_id=eq.${clinicaId}`,
+        },
+        (payload) => {
+          const lembrete = payload.new as LembreteRespondido;
+          // Outras atualizações (ex.: 'enviando' -> 'enviado') não têm resposta
+          if (!lembrete.resposta) return;
+
+          console.log('🔔 [useRespostasLembretes] Resposta ao lembrete:', lembrete.id, lembrete.resposta);
+          avisarEquipe(lembrete);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(canal);
+    };
+  }, [clinicaId, queryClient, navigate]);
+};
@@ -0,0 +1,45 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { precisaUrlAssinada } from '../../supabase/functions/_shared/mediaReference';
+
+/**
+ * Hook para exibir mídias privadas do chat
+ *
+ * Mensagens guardam em anexo_url uma referência em vez de uma URL pública: "minio://"
+ * para as mídias enviadas pelo CRM e "storage://" para as recebidas dos pacientes.
+ * Este hook troca a referência por uma URL assinada (Edge Function get-crm-media-url)
+ * e a renova antes de expirar. URLs comuns são devolvidas sem alteração.
+ *
+ * Usado pelo componente MessageContent.
+ */
+
+// A URL assinada vale 1 hora; renovamos com folga
+const RENOVAR_APOS_MS = 50 * 60 * 1000;
+
+export const useSignedMediaUrl = (anexoUrl: string | null | undefined) => {
+  const precisaAssinar = precisaUrlAssinada(anexoUrl);
+
+  const signedUrlQuery = useQuery({
+    queryKey: ['signed-media-url', anexoUrl],
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('get-crm-media-url', {
+        body: { refs: [anexoUrl] },
+      });
+
+      if (error) {
+        console.error('❌ [useSignedMediaUrl] Erro ao gerar URL assinada:', error);
+        throw error;
+      }
+
+      return (data?.urls?.[anexoUrl as string] as string | null) || null;
+    },
+    enabled: precisaAssinar,
+    staleTime: RENOVAR_APOS_MS,
+    refetchInterval: RENOVAR_APOS_MS,
+  });
+
+  return {
+    url: precisaAssinar ? signedUrlQuery.data || null : anexoUrl || null,
+    isLoading: precisaAssinar && signedUrlQuery.isLoading,
+  };
+};
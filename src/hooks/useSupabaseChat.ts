@@ -251,7 +251,8 @@ export const useSupabaseChat = () => {
         conteudo: conteudo.trim(),            // Remover espaços extras
         enviado_por: 'usuario',               // Identificar como enviada pelo usuário
         tipo: tipoCorrigido,
-        lida: false                           // Mensagem não lida inicialmente
+        lida: false,                          // Mensagem não lida inicialmente
+        status_entrega: 'queued'              // Atualizado pela send-webhook e pelas confirmações do WhatsApp
       };
 
       // 📎 ADICIONAR ANEXO SE FORNECIDO
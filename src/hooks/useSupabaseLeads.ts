@@ -43,11 +43,13 @@ export interface Lead {
   follow_up_pausado: boolean | null;
   data_ultimo_followup: string | null;
   ai_conversation_enabled: boolean | null;
+  data_nascimento?: string | null; // YYYY-MM-DD (campanhas de aniversário)
   // CAMPOS ADICIONAIS para compatibilidade com componentes
   etapa_id: string | null; // Alias para etapa_kanban_id
   avatar_url: string | null; // Avatar do lead
   nome_clinica: string | null; // Nome da clínica
   ad_name: string | null; // Nome do anúncio específico
+  id_direct?: string | null; // ID do contato no Instagram Direct
 }
 
 export interface CreateLeadData {
@@ -65,6 +67,7 @@ export interface CreateLeadData {
   follow_up_pausado?: boolean;
   ai_conversation_enabled?: boolean;
   ad_name?: string; // Nome do anúncio
+  data_nascimento?: string | null; // YYYY-MM-DD
 }
 
 export interface UpdateLeadData extends Partial<CreateLeadData> {
@@ -0,0 +1,62 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ContextoTemplate,
+  montarContextoTemplate,
+} from '../../supabase/functions/_shared/templateEngine';
+
+/**
+ * Hook com as variáveis de template de um lead
+ *
+ * Busca o lead, a clínica dele e o último agendamento e monta o contexto
+ * usado pelo motor de templates (_shared/templateEngine.ts), o mesmo que a
+ * send-followup-webhook usa no envio.
+ *
+ * Usado por:
+ * - FollowupButton (prévia da mensagem antes do envio manual)
+ * - ChatPage (respostas prontas inseridas já com os dados do lead)
+ */
+export const useTemplateContext = (leadId: string | null) => {
+  return useQuery({
+    queryKey: ['template-context', leadId],
+    queryFn: async (): Promise<ContextoTemplate> => {
+      if (!leadId) return {};
+
+      const { data: lead, error: leadError } = await supabase
+        .from('leads')
+        .select(`
+          nome,
+          telefone,
+          email,
+          servico_interesse,
+          origem_lead,
+          etapa_kanban:etapas_kanban(nome),
+          clinica:clinicas(nome, endereco, endereco_completo, telefone, cidade, fuso_horario)
+        `)
+        .eq('id', leadId)
+        .single();
+
+      if (leadError) {
+        console.error('❌ [useTemplateContext] Erro ao buscar lead:', leadError);
+        throw new Error(`Erro ao buscar dados do lead: ${leadError.message}`);
+      }
+
+      const { data: ultimoAgendamento } = await supabase
+        .from('agendamentos')
+        .select('data_inicio')
+        .eq('cliente_id', leadId)
+        .lte('data_inicio', new Date().toISOString())
+        .order('data_inicio', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      return montarContextoTemplate({
+        lead,
+        clinica: lead.clinica,
+        ultimoAgendamento: ultimoAgendamento?.data_inicio,
+      });
+    },
+    enabled: !!leadId,
+    staleTime: 60000,
+  });
+};
@@ -0,0 +1,157 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import type { Json } from '@/integrations/supabase/types';
+import { reenviarItemDaFila } from '@/hooks/useOutboundQueue';
+
+/**
+ * Hook para consultar os logs de entrega de webhooks da clínica (tabela `webhook_logs`)
+ *
+ * Cada tentativa de envio do CRM para o n8n gera um log com o payload enviado,
+ * o status HTTP, a resposta e o erro (gravados pela fila de envio das Edge Functions).
+ *
+ * Funcionalidades:
+ * - Listagem paginada, filtrável por lead (nome ou telefone), faixa de status e período
+ * - Reenvio de uma mensagem a partir do log (via fila outbound_message_queue)
+ *
+ * Usado pelo componente WebhookLogViewer (admin e configurações da clínica).
+ */
+
+export type WebhookLogStatusFilter = 'todos' | 'sucesso' | 'erro_cliente' | 'erro_servidor' | 'erro_rede';
+
+export interface WebhookLogFilters {
+  lead: string;
+  status: WebhookLogStatusFilter;
+  dataInicio: string; // yyyy-MM-dd
+  dataFim: string; // yyyy-MM-dd
+}
+
+export interface WebhookLog {
+  id: string;
+  lead_id: string;
+  mensagem_id: string;
+  canal: string | null;
+  webhook_url: string;
+  status_code: number | null;
+  resposta: string | null;
+  erro: string | null;
+  tentativas: number | null;
+  payload: Json | null;
+  created_at: string | null;
+  leads: { nome: string | null; telefone: string | null } | null;
+}
+
+export const WEBHOOK_LOGS_PAGE_SIZE = 20;
+
+export const useWebhookLogs = (clinicaId: string, filtros: WebhookLogFilters, pagina: number) => {
+  const queryClient = useQueryClient();
+
+  // Query paginada dos logs com os filtros aplicados no banco
+  const logsQuery = useQuery({
+    queryKey: ['webhook-logs', clinicaId, filtros, pagina],
+    queryFn: async () => {
+      console.log(`🔍 [useWebhookLogs] Buscando logs de webhook da clínica: ${clinicaId}`, filtros);
+
+      const buscaLead = filtros.lead.trim().replace(/[,()%]/g, '');
+
+      // Com busca por lead, o join precisa ser "inner" para filtrar os logs pelo lead
+      let query = supabase
+        .from('webhook_logs')
+        .select(
+          `id, lead_id, mensagem_id, canal, webhook_url, status_code, resposta, erro, tentativas, payload, created_at, leads${buscaLead ? '!inner' : ''}(nome, telefone)`,
+          { count: 'exact' }
+        )
+        .eq('clinica_id', clinicaId);
+
+      if (buscaLead) {
+        query = query.or(`nome.ilike.%${buscaLead}%,telefone.ilike.%${buscaLead}%`, { referencedTable: 'leads' });
+      }
+
+      switch (filtros.status) {
+        case 'sucesso':
+          query = query.gte('status_code', 200).lt('status_code', 300);
+          break;
+        case 'erro_cliente':
+          query = query.gte('status_code', 400).lt('status_code', 500);
+          break;
+        case 'erro_servidor':
+          query = query.gte('status_code', 500);
+          break;
+        case 'erro_rede':
+          // Timeout ou falha de conexão: nenhuma resposta HTTP
+          query = query.or('status_code.is.null,status_code.eq.0');
+          break;
+      }
+
+      if (filtros.dataInicio) {
+        query = query.gte('created_at', new Date(`${filtros.dataInicio}T00:00:00`).toISOString());
+      }
+      if (filtros.dataFim) {
+        const fim = new Date(`${filtros.dataFim}T00:00:00`);
+        fim.setDate(fim.getDate() + 1);
+        query = query.lt('created_at', fim.toISOString());
+      }
+
+      const inicio = pagina * WEBHOOK_LOGS_PAGE_SIZE;
+      const { data, error, count } = await query
+        .order('created_at', { ascending: false })
+        .range(inicio, inicio + WEBHOOK_LOGS_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error('❌ [useWebhookLogs] Erro ao buscar logs:', error);
+        throw error;
+      }
+
+      return { logs: (data || []) as unknown as WebhookLog[], total: count || 0 };
+    },
+    enabled: !!clinicaId,
+    placeholderData: keepPreviousData,
+  });
+
+  // Mutation para reenviar a mensagem de um log pela fila de envio
+  const resendMutation = useMutation({
+    mutationFn: async (log: WebhookLog) => {
+      const { data: itemFila, error } = await supabase
+        .from('outbound_message_queue')
+        .select('id')
+        .eq('mensagem_id', log.mensagem_id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      // Mensagens enviadas antes da fila de envio não guardam o payload para reenvio
+      if (!itemFila) {
+        throw new Error('Esta mensagem não está na fila de envio e não pode ser reenviada.');
+      }
+
+      await reenviarItemDaFila(itemFila.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-logs', clinicaId] });
+      queryClient.invalidateQueries({ queryKey: ['outbound-queue', clinicaId] });
+
+      toast({
+        title: "Reenvio solicitado",
+        description: "A mensagem foi recolocada na fila de envio.",
+      });
+    },
+    onError: (error: Error) => {
+      console.error('❌ [useWebhookLogs] Erro no reenvio:', error);
+      toast({
+        title: "Erro",
+        description: error.message || "Erro ao reenviar a mensagem. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    logs: logsQuery.data?.logs || [],
+    total: logsQuery.data?.total || 0,
+    isLoading: logsQuery.isLoading,
+    isFetching: logsQuery.isFetching,
+    refetch: logsQuery.refetch,
+    resend: resendMutation.mutate,
+    isResending: resendMutation.isPending,
+  };
+};
@@ -84,6 +84,162 @@ export type Database = {
         }
         Relationships: []
       }
+      agendamento_lembretes: {
+        Row: {
+          agendamento_id: string
+          clinica_id: string
+          conteudo: string | null
+          created_at: string
+          data_agendamento: string
+          erro: string | null
+          horas_antes: number
+          id: string
+          lead_id: string
+          mensagem_id: string | null
+          respondido_em: string | null
+          resposta: string | null
+          resposta_mensagem_id: string | null
+          status: string
+        }
+        Insert: {
+          agendamento_id: string
+          clinica_id: string
+          conteudo?: string | null
+          created_at?: string
+          data_agendamento: string
+          erro?: string | null
+          horas_antes: number
+          id?: string
+          lead_id: string
+          mensagem_id?: string | null
+          respondido_em?: string | null
+          resposta?: string | null
+          resposta_mensagem_id?: string | null
+          status?: string
+        }
+        Update: {
+          agendamento_id?: string
+          clinica_id?: string
+          conteudo?: string | null
+          created_at?: string
+          data_agendamento?: string
+          erro?: string | null
+          horas_antes?: number
+          id?: string
+          lead_id?: string
+          mensagem_id?: string | null
+          respondido_em?: string | null
+          resposta?: string | null
+          resposta_mensagem_id?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agendamento_lembretes_agendamento_id_fkey"
+            columns: ["agendamento_id"]
+            isOneToOne: false
+            referencedRelation: "agendamentos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agendamento_lembretes_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agendamento_lembretes_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agendamento_lembretes_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agendamento_lembretes_mensagem_id_fkey"
+            columns: ["mensagem_id"]
+            isOneToOne: false
+            referencedRelation: "chat_mensagens"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agendamento_lembretes_mensagem_id_fkey"
+            columns: ["mensagem_id"]
+            isOneToOne: false
+            referencedRelation: "chat_mensagens_detalhado"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agendamento_lembretes_resposta_mensagem_id_fkey"
+            columns: ["resposta_mensagem_id"]
+            isOneToOne: false
+            referencedRelation: "chat_mensagens"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agendamento_lembretes_resposta_mensagem_id_fkey"
+            columns: ["resposta_mensagem_id"]
+            isOneToOne: false
+            referencedRelation: "chat_mensagens_detalhado"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      agendamento_recorrencias: {
+        Row: {
+          clinica_id: string
+          created_at: string
+          criado_por: string | null
+          data_limite: string | null
+          frequencia: string
+          id: string
+          intervalo: number
+          quantidade: number | null
+        }
+        Insert: {
+          clinica_id: string
+          created_at?: string
+          criado_por?: string | null
+          data_limite?: string | null
+          frequencia: string
+          id?: string
+          intervalo?: number
+          quantidade?: number | null
+        }
+        Update: {
+          clinica_id?: string
+          created_at?: string
+          criado_por?: string | null
+          data_limite?: string | null
+          frequencia?: string
+          id?: string
+          intervalo?: number
+          quantidade?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agendamento_recorrencias_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agendamento_recorrencias_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       agendamentos: {
         Row: {
           cliente_id: string | null
@@ -93,6 +249,12 @@ export type Database = {
           data_inicio: string
           descricao: string | null
           id: string
+          plano_tratamento_id: string | null
+          profissional_id: string | null
+          recorrencia_id: string | null
+          sala_id: string | null
+          servico_id: string | null
+          sessao_numero: number | null
           status: string | null
           titulo: string
           updated_at: string | null
@@ -107,6 +269,12 @@ export type Database = {
           data_inicio?: string
           descricao?: string | null
           id?: string
+          plano_tratamento_id?: string | null
+          profissional_id?: string | null
+          recorrencia_id?: string | null
+          sala_id?: string | null
+          servico_id?: string | null
+          sessao_numero?: number | null
           status?: string | null
           titulo: string
           updated_at?: string | null
@@ -121,6 +289,12 @@ export type Database = {
           data_inicio?: string
           descricao?: string | null
           id?: string
+          plano_tratamento_id?: string | null
+          profissional_id?: string | null
+          recorrencia_id?: string | null
+          sala_id?: string | null
+          servico_id?: string | null
+          sessao_numero?: number | null
           status?: string | null
           titulo?: string
           updated_at?: string | null
@@ -149,6 +323,41 @@ export type Database = {
             referencedRelation: "clinicas_stats"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "agendamentos_plano_tratamento_id_fkey"
+            columns: ["plano_tratamento_id"]
+            isOneToOne: false
+            referencedRelation: "planos_tratamento"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agendamentos_profissional_id_fkey"
+            columns: ["profissional_id"]
+            isOneToOne: false
+            referencedRelation: "profissionais"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agendamentos_recorrencia_id_fkey"
+            columns: ["recorrencia_id"]
+            isOneToOne: false
+            referencedRelation: "agendamento_recorrencias"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agendamentos_sala_id_fkey"
+            columns: ["sala_id"]
+            isOneToOne: false
+            referencedRelation: "salas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agendamentos_servico_id_fkey"
+            columns: ["servico_id"]
+            isOneToOne: false
+            referencedRelation: "clinica_servicos"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "agendamentos_usuario_id_fkey"
             columns: ["usuario_id"]
@@ -218,38 +427,130 @@ export type Database = {
           },
         ]
       }
+      bloqueios_agenda: {
+        Row: {
+          clinica_id: string
+          created_at: string
+          criado_por: string | null
+          data_fim: string
+          data_inicio: string
+          id: string
+          motivo: string | null
+          profissional_id: string | null
+        }
+        Insert: {
+          clinica_id: string
+          created_at?: string
+          criado_por?: string | null
+          data_fim: string
+          data_inicio: string
+          id?: string
+          motivo?: string | null
+          profissional_id?: string | null
+        }
+        Update: {
+          clinica_id?: string
+          created_at?: string
+          criado_por?: string | null
+          data_fim?: string
+          data_inicio?: string
+          id?: string
+          motivo?: string | null
+          profissional_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bloqueios_agenda_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bloqueios_agenda_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bloqueios_agenda_profissional_id_fkey"
+            columns: ["profissional_id"]
+            isOneToOne: false
+            referencedRelation: "profissionais"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       buffer: {
         Row: {
+          clinica_id: string | null
           created_at: string
           id: number
           id_mensagem: string | null
+          lead_id: string | null
           Mensagem: string | null
           Mensagem_audio: string | null
           Nome: string | null
+          processado_em: string | null
           timestamp_webhook: number | null
+          tipo: string | null
+          turno_id: string | null
           Whatsapp: string | null
         }
         Insert: {
+          clinica_id?: string | null
           created_at?: string
           id?: number
           id_mensagem?: string | null
+          lead_id?: string | null
           Mensagem?: string | null
           Mensagem_audio?: string | null
           Nome?: string | null
+          processado_em?: string | null
           timestamp_webhook?: number | null
+          tipo?: string | null
+          turno_id?: string | null
           Whatsapp?: string | null
         }
         Update: {
+          clinica_id?: string | null
           created_at?: string
           id?: number
           id_mensagem?: string | null
+          lead_id?: string | null
           Mensagem?: string | null
           Mensagem_audio?: string | null
           Nome?: string | null
+          processado_em?: string | null
           timestamp_webhook?: number | null
+          tipo?: string | null
+          turno_id?: string | null
           Whatsapp?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "buffer_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "buffer_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "buffer_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       chat_mensagens: {
         Row: {
@@ -258,9 +559,14 @@ export type Database = {
           conteudo: string
           created_at: string | null
           enviado_por: string
+          erro_entrega: string | null
           id: string
           lead_id: string
           lida: boolean | null
+          metadados: Json | null
+          provider_message_id: string | null
+          status_entrega: string | null
+          status_entrega_em: string | null
           timestamp_sp: string | null
           tipo: string | null
           updated_at: string | null
@@ -271,9 +577,14 @@ export type Database = {
           conteudo: string
           created_at?: string | null
           enviado_por: string
+          erro_entrega?: string | null
           id?: string
           lead_id: string
           lida?: boolean | null
+          metadados?: Json | null
+          provider_message_id?: string | null
+          status_entrega?: string | null
+          status_entrega_em?: string | null
           timestamp_sp?: string | null
           tipo?: string | null
           updated_at?: string | null
@@ -284,9 +595,14 @@ export type Database = {
           conteudo?: string
           created_at?: string | null
           enviado_por?: string
+          erro_entrega?: string | null
           id?: string
           lead_id?: string
           lida?: boolean | null
+          metadados?: Json | null
+          provider_message_id?: string | null
+          status_entrega?: string | null
+          status_entrega_em?: string | null
           timestamp_sp?: string | null
           tipo?: string | null
           updated_at?: string | null
@@ -320,24 +636,36 @@ export type Database = {
           ativo: boolean
           clinica_id: string
           created_at: string | null
+          duracao_minutos: number
           id: string
+          instrucoes_preparo: string | null
+          intervalo_minutos: number
           nome_servico: string
+          preco: number | null
           updated_at: string | null
         }
         Insert: {
           ativo?: boolean
           clinica_id: string
           created_at?: string | null
+          duracao_minutos?: number
           id?: string
+          instrucoes_preparo?: string | null
+          intervalo_minutos?: number
           nome_servico: string
+          preco?: number | null
           updated_at?: string | null
         }
         Update: {
           ativo?: boolean
           clinica_id?: string
           created_at?: string | null
+          duracao_minutos?: number
           id?: string
+          instrucoes_preparo?: string | null
+          intervalo_minutos?: number
           nome_servico?: string
+          preco?: number | null
           updated_at?: string | null
         }
         Relationships: [
@@ -368,6 +696,8 @@ export type Database = {
           ai_business_hours_start_weekday: string | null
           ai_chat_suggestions_active: boolean | null
           ai_clinica_prompt: string | null
+          ai_message_buffer_active: boolean | null
+          ai_message_buffer_seconds: number | null
           ai_name: string | null
           ai_operating_mode: string | null
           ai_restricted_topics_prompt: string | null
@@ -379,6 +709,7 @@ export type Database = {
           cidade: string | null
           cnpj: string | null
           complemento: string | null
+          conflito_agendamento: string
           created_at: string | null
           email: string
           endereco: string | null
@@ -386,14 +717,29 @@ export type Database = {
           estado: string | null
           evolution_api_key: string | null
           evolution_instance_name: string | null
+          followup_intervalo_max_segundos: number
+          followup_intervalo_min_segundos: number
+          followup_limite_por_dia: number
+          followup_limite_por_hora: number
+          followup_limite_por_minuto: number
+          fuso_horario: string
           horario_funcionamento: Json | null
           id: string
+          inbound_webhook_secret: string | null
+          inbound_webhook_secret_previous: string | null
+          inbound_webhook_secret_previous_expires_at: string | null
+          inbound_webhook_secret_rotated_at: string | null
           instagram_api_token: string | null
           instagram_user_handle: string | null
           instagram_webhook_type: string | null
           instagram_webhook_url: string | null
           integracao_instance_id: string | null
+          lembrete_agendamento_template: string
+          lembretes_agendamento_ativos: boolean
+          lembretes_agendamento_horas: number[]
           nome: string
+          palavras_opt_in: string[]
+          palavras_opt_out: string[]
           plano_atual: string | null
           plano_contratado: string | null
           plano_expira_em: string | null
@@ -416,6 +762,8 @@ export type Database = {
           ai_business_hours_start_weekday?: string | null
           ai_chat_suggestions_active?: boolean | null
           ai_clinica_prompt?: string | null
+          ai_message_buffer_active?: boolean | null
+          ai_message_buffer_seconds?: number | null
           ai_name?: string | null
           ai_operating_mode?: string | null
           ai_restricted_topics_prompt?: string | null
@@ -427,6 +775,7 @@ export type Database = {
           cidade?: string | null
           cnpj?: string | null
           complemento?: string | null
+          conflito_agendamento?: string
           created_at?: string | null
           email: string
           endereco?: string | null
@@ -434,14 +783,29 @@ export type Database = {
           estado?: string | null
           evolution_api_key?: string | null
           evolution_instance_name?: string | null
+          followup_intervalo_max_segundos?: number
+          followup_intervalo_min_segundos?: number
+          followup_limite_por_dia?: number
+          followup_limite_por_hora?: number
+          followup_limite_por_minuto?: number
+          fuso_horario?: string
           horario_funcionamento?: Json | null
           id?: string
+          inbound_webhook_secret?: string | null
+          inbound_webhook_secret_previous?: string | null
+          inbound_webhook_secret_previous_expires_at?: string | null
+          inbound_webhook_secret_rotated_at?: string | null
           instagram_api_token?: string | null
           instagram_user_handle?: string | null
           instagram_webhook_type?: string | null
           instagram_webhook_url?: string | null
           integracao_instance_id?: string | null
+          lembrete_agendamento_template?: string
+          lembretes_agendamento_ativos?: boolean
+          lembretes_agendamento_horas?: number[]
           nome: string
+          palavras_opt_in?: string[]
+          palavras_opt_out?: string[]
           plano_atual?: string | null
           plano_contratado?: string | null
           plano_expira_em?: string | null
@@ -464,6 +828,8 @@ export type Database = {
           ai_business_hours_start_weekday?: string | null
           ai_chat_suggestions_active?: boolean | null
           ai_clinica_prompt?: string | null
+          ai_message_buffer_active?: boolean | null
+          ai_message_buffer_seconds?: number | null
           ai_name?: string | null
           ai_operating_mode?: string | null
           ai_restricted_topics_prompt?: string | null
@@ -475,6 +841,7 @@ export type Database = {
           cidade?: string | null
           cnpj?: string | null
           complemento?: string | null
+          conflito_agendamento?: string
           created_at?: string | null
           email?: string
           endereco?: string | null
@@ -482,14 +849,29 @@ export type Database = {
           estado?: string | null
           evolution_api_key?: string | null
           evolution_instance_name?: string | null
+          followup_intervalo_max_segundos?: number
+          followup_intervalo_min_segundos?: number
+          followup_limite_por_dia?: number
+          followup_limite_por_hora?: number
+          followup_limite_por_minuto?: number
+          fuso_horario?: string
           horario_funcionamento?: Json | null
           id?: string
+          inbound_webhook_secret?: string | null
+          inbound_webhook_secret_previous?: string | null
+          inbound_webhook_secret_previous_expires_at?: string | null
+          inbound_webhook_secret_rotated_at?: string | null
           instagram_api_token?: string | null
           instagram_user_handle?: string | null
           instagram_webhook_type?: string | null
           instagram_webhook_url?: string | null
           integracao_instance_id?: string | null
+          lembrete_agendamento_template?: string
+          lembretes_agendamento_ativos?: boolean
+          lembretes_agendamento_horas?: number[]
           nome?: string
+          palavras_opt_in?: string[]
+          palavras_opt_out?: string[]
           plano_atual?: string | null
           plano_contratado?: string | null
           plano_expira_em?: string | null
@@ -599,7 +981,11 @@ export type Database = {
           created_at: string
           descricao: string | null
           dias_inatividade: number
+          filtros_publico: Json
+          gatilho_dias_apos: number
+          gatilho_etapa_id: string | null
           horario_envio: string | null
+          horario_envio_fim: string | null
           id: string
           nome: string
           tipo: string
@@ -612,7 +998,11 @@ export type Database = {
           created_at?: string
           descricao?: string | null
           dias_inatividade?: number
+          filtros_publico?: Json
+          gatilho_dias_apos?: number
+          gatilho_etapa_id?: string | null
           horario_envio?: string | null
+          horario_envio_fim?: string | null
           id?: string
           nome: string
           tipo?: string
@@ -625,7 +1015,11 @@ export type Database = {
           created_at?: string
           descricao?: string | null
           dias_inatividade?: number
+          filtros_publico?: Json
+          gatilho_dias_apos?: number
+          gatilho_etapa_id?: string | null
           horario_envio?: string | null
+          horario_envio_fim?: string | null
           id?: string
           nome?: string
           tipo?: string
@@ -646,6 +1040,78 @@ export type Database = {
             referencedRelation: "clinicas_stats"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "follow_up_campaigns_gatilho_etapa_id_fkey"
+            columns: ["gatilho_etapa_id"]
+            isOneToOne: false
+            referencedRelation: "etapas_kanban"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      follow_up_envios_em_massa: {
+        Row: {
+          campaign_id: string
+          clinica_id: string
+          created_at: string
+          criado_por: string | null
+          data_agendada: string
+          id: string
+          leads_excluidos: number
+          template_id: string
+          total_leads: number
+        }
+        Insert: {
+          campaign_id: string
+          clinica_id: string
+          created_at?: string
+          criado_por?: string | null
+          data_agendada: string
+          id?: string
+          leads_excluidos?: number
+          template_id: string
+          total_leads?: number
+        }
+        Update: {
+          campaign_id?: string
+          clinica_id?: string
+          created_at?: string
+          criado_por?: string | null
+          data_agendada?: string
+          id?: string
+          leads_excluidos?: number
+          template_id?: string
+          total_leads?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follow_up_envios_em_massa_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "follow_up_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_up_envios_em_massa_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_up_envios_em_massa_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_up_envios_em_massa_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "follow_up_templates"
+            referencedColumns: ["id"]
+          },
         ]
       }
       follow_up_execucoes: {
@@ -657,12 +1123,15 @@ export type Database = {
           erro_detalhes: string | null
           id: string
           lead_id: string
+          lote_id: string | null
           mensagem_id: string | null
+          motivo_cancelamento: string | null
           status: string
           template_id: string
           tipo_execucao: string
           updated_at: string
           user_id_manual: string | null
+          variante_id: string | null
         }
         Insert: {
           campaign_id: string
@@ -672,12 +1141,15 @@ export type Database = {
           erro_detalhes?: string | null
           id?: string
           lead_id: string
+          lote_id?: string | null
           mensagem_id?: string | null
+          motivo_cancelamento?: string | null
           status?: string
           template_id: string
           tipo_execucao?: string
           updated_at?: string
           user_id_manual?: string | null
+          variante_id?: string | null
         }
         Update: {
           campaign_id?: string
@@ -687,12 +1159,15 @@ export type Database = {
           erro_detalhes?: string | null
           id?: string
           lead_id?: string
+          lote_id?: string | null
           mensagem_id?: string | null
+          motivo_cancelamento?: string | null
           status?: string
           template_id?: string
           tipo_execucao?: string
           updated_at?: string
           user_id_manual?: string | null
+          variante_id?: string | null
         }
         Relationships: [
           {
@@ -709,6 +1184,13 @@ export type Database = {
             referencedRelation: "leads"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "follow_up_execucoes_lote_id_fkey"
+            columns: ["lote_id"]
+            isOneToOne: false
+            referencedRelation: "follow_up_envios_em_massa"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "follow_up_execucoes_mensagem_id_fkey"
             columns: ["mensagem_id"]
@@ -737,6 +1219,54 @@ export type Database = {
             referencedRelation: "user_profiles"
             referencedColumns: ["user_id"]
           },
+          {
+            foreignKeyName: "follow_up_execucoes_variante_id_fkey"
+            columns: ["variante_id"]
+            isOneToOne: false
+            referencedRelation: "follow_up_template_variantes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      follow_up_template_variantes: {
+        Row: {
+          ativo: boolean
+          conteudo: string
+          created_at: string
+          id: string
+          nome: string
+          peso: number
+          template_id: string
+          updated_at: string
+        }
+        Insert: {
+          ativo?: boolean
+          conteudo: string
+          created_at?: string
+          id?: string
+          nome: string
+          peso?: number
+          template_id: string
+          updated_at?: string
+        }
+        Update: {
+          ativo?: boolean
+          conteudo?: string
+          created_at?: string
+          id?: string
+          nome?: string
+          peso?: number
+          template_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follow_up_template_variantes_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "follow_up_templates"
+            referencedColumns: ["id"]
+          },
         ]
       }
       follow_up_templates: {
@@ -786,6 +1316,203 @@ export type Database = {
           },
         ]
       }
+      inbound_webhook_rejections: {
+        Row: {
+          clinica_id: string | null
+          clinica_id_informado: string | null
+          created_at: string
+          funcao: string
+          id: string
+          instance_name: string | null
+          ip_origem: string | null
+          motivo: string
+        }
+        Insert: {
+          clinica_id?: string | null
+          clinica_id_informado?: string | null
+          created_at?: string
+          funcao: string
+          id?: string
+          instance_name?: string | null
+          ip_origem?: string | null
+          motivo: string
+        }
+        Update: {
+          clinica_id?: string | null
+          clinica_id_informado?: string | null
+          created_at?: string
+          funcao?: string
+          id?: string
+          instance_name?: string | null
+          ip_origem?: string | null
+          motivo?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inbound_webhook_rejections_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inbound_webhook_rejections_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_ad_attributions: {
+        Row: {
+          ad_name: string
+          ad_phrase: string
+          ad_source: string
+          clinica_id: string
+          created_at: string
+          custom_ad_id: string | null
+          id: string
+          lead_id: string
+          mensagem_normalizada: string
+          mensagem_original: string
+          pontuacao: number
+          tipo_correspondencia: string
+        }
+        Insert: {
+          ad_name: string
+          ad_phrase: string
+          ad_source: string
+          clinica_id: string
+          created_at?: string
+          custom_ad_id?: string | null
+          id?: string
+          lead_id: string
+          mensagem_normalizada: string
+          mensagem_original: string
+          pontuacao: number
+          tipo_correspondencia: string
+        }
+        Update: {
+          ad_name?: string
+          ad_phrase?: string
+          ad_source?: string
+          clinica_id?: string
+          created_at?: string
+          custom_ad_id?: string | null
+          id?: string
+          lead_id?: string
+          mensagem_normalizada?: string
+          mensagem_original?: string
+          pontuacao?: number
+          tipo_correspondencia?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_ad_attributions_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_ad_attributions_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_ad_attributions_custom_ad_id_fkey"
+            columns: ["custom_ad_id"]
+            isOneToOne: false
+            referencedRelation: "custom_ads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_ad_attributions_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: true
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_consentimentos: {
+        Row: {
+          canal: string
+          clinica_id: string
+          created_at: string
+          detalhes: string | null
+          id: string
+          lead_id: string
+          mensagem_id: string | null
+          origem: string
+          registrado_por: string | null
+          status: string
+        }
+        Insert: {
+          canal: string
+          clinica_id: string
+          created_at?: string
+          detalhes?: string | null
+          id?: string
+          lead_id: string
+          mensagem_id?: string | null
+          origem: string
+          registrado_por?: string | null
+          status: string
+        }
+        Update: {
+          canal?: string
+          clinica_id?: string
+          created_at?: string
+          detalhes?: string | null
+          id?: string
+          lead_id?: string
+          mensagem_id?: string | null
+          origem?: string
+          registrado_por?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_consentimentos_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_consentimentos_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_consentimentos_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_consentimentos_mensagem_id_fkey"
+            columns: ["mensagem_id"]
+            isOneToOne: false
+            referencedRelation: "chat_mensagens"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_consentimentos_mensagem_id_fkey"
+            columns: ["mensagem_id"]
+            isOneToOne: false
+            referencedRelation: "chat_mensagens_detalhado"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       leads: {
         Row: {
           ad_ink: string | null
@@ -799,6 +1526,7 @@ export type Database = {
           conversation_channel: string | null
           convertido: boolean | null
           created_at: string | null
+          data_nascimento: string | null
           data_ultimo_contato: string | null
           data_ultimo_followup: string | null
           email: string | null
@@ -819,6 +1547,7 @@ export type Database = {
           tag_id: string | null
           tag_id_alias: string | null
           telefone: string | null
+          telefone_normalizado: string | null
           timestamp_sp: string | null
           updated_at: string | null
         }
@@ -834,6 +1563,7 @@ export type Database = {
           conversation_channel?: string | null
           convertido?: boolean | null
           created_at?: string | null
+          data_nascimento?: string | null
           data_ultimo_contato?: string | null
           data_ultimo_followup?: string | null
           email?: string | null
@@ -854,6 +1584,7 @@ export type Database = {
           tag_id?: string | null
           tag_id_alias?: string | null
           telefone?: string | null
+          telefone_normalizado?: string | null
           timestamp_sp?: string | null
           updated_at?: string | null
         }
@@ -869,6 +1600,7 @@ export type Database = {
           conversation_channel?: string | null
           convertido?: boolean | null
           created_at?: string | null
+          data_nascimento?: string | null
           data_ultimo_contato?: string | null
           data_ultimo_followup?: string | null
           email?: string | null
@@ -889,6 +1621,7 @@ export type Database = {
           tag_id?: string | null
           tag_id_alias?: string | null
           telefone?: string | null
+          telefone_normalizado?: string | null
           timestamp_sp?: string | null
           updated_at?: string | null
         }
@@ -1006,6 +1739,173 @@ export type Database = {
         }
         Relationships: []
       }
+      outbound_message_queue: {
+        Row: {
+          canal: string
+          clinica_id: string
+          created_at: string
+          enviado_em: string | null
+          id: string
+          lead_id: string | null
+          max_tentativas: number
+          mensagem_id: string | null
+          payload: Json
+          proxima_tentativa_em: string
+          resposta: string | null
+          status: string
+          tentativas: number
+          ultimo_erro: string | null
+          ultimo_status_code: number | null
+          updated_at: string
+          webhook_url: string
+        }
+        Insert: {
+          canal: string
+          clinica_id: string
+          created_at?: string
+          enviado_em?: string | null
+          id?: string
+          lead_id?: string | null
+          max_tentativas?: number
+          mensagem_id?: string | null
+          payload: Json
+          proxima_tentativa_em?: string
+          resposta?: string | null
+          status?: string
+          tentativas?: number
+          ultimo_erro?: string | null
+          ultimo_status_code?: number | null
+          updated_at?: string
+          webhook_url: string
+        }
+        Update: {
+          canal?: string
+          clinica_id?: string
+          created_at?: string
+          enviado_em?: string | null
+          id?: string
+          lead_id?: string | null
+          max_tentativas?: number
+          mensagem_id?: string | null
+          payload?: Json
+          proxima_tentativa_em?: string
+          resposta?: string | null
+          status?: string
+          tentativas?: number
+          ultimo_erro?: string | null
+          ultimo_status_code?: number | null
+          updated_at?: string
+          webhook_url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outbound_message_queue_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outbound_message_queue_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outbound_message_queue_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outbound_message_queue_mensagem_id_fkey"
+            columns: ["mensagem_id"]
+            isOneToOne: false
+            referencedRelation: "chat_mensagens"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "outbound_message_queue_mensagem_id_fkey"
+            columns: ["mensagem_id"]
+            isOneToOne: false
+            referencedRelation: "chat_mensagens_detalhado"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      planos_tratamento: {
+        Row: {
+          cliente_id: string
+          clinica_id: string
+          created_at: string
+          criado_por: string | null
+          id: string
+          nome: string
+          observacoes: string | null
+          servico_id: string | null
+          status: string
+          total_sessoes: number
+          updated_at: string
+        }
+        Insert: {
+          cliente_id: string
+          clinica_id: string
+          created_at?: string
+          criado_por?: string | null
+          id?: string
+          nome: string
+          observacoes?: string | null
+          servico_id?: string | null
+          status?: string
+          total_sessoes: number
+          updated_at?: string
+        }
+        Update: {
+          cliente_id?: string
+          clinica_id?: string
+          created_at?: string
+          criado_por?: string | null
+          id?: string
+          nome?: string
+          observacoes?: string | null
+          servico_id?: string | null
+          status?: string
+          total_sessoes?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "planos_tratamento_cliente_id_fkey"
+            columns: ["cliente_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "planos_tratamento_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "planos_tratamento_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "planos_tratamento_servico_id_fkey"
+            columns: ["servico_id"]
+            isOneToOne: false
+            referencedRelation: "clinica_servicos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       plans: {
         Row: {
           active: boolean
@@ -1063,6 +1963,110 @@ export type Database = {
         }
         Relationships: []
       }
+      profissionais: {
+        Row: {
+          ativo: boolean
+          clinica_id: string
+          cor: string
+          created_at: string
+          especialidade: string | null
+          horario_trabalho: Json | null
+          id: string
+          nome: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          ativo?: boolean
+          clinica_id: string
+          cor?: string
+          created_at?: string
+          especialidade?: string | null
+          horario_trabalho?: Json | null
+          id?: string
+          nome: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          ativo?: boolean
+          clinica_id?: string
+          cor?: string
+          created_at?: string
+          especialidade?: string | null
+          horario_trabalho?: Json | null
+          id?: string
+          nome?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profissionais_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profissionais_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profissional_servicos: {
+        Row: {
+          clinica_id: string
+          created_at: string
+          profissional_id: string
+          servico_id: string
+        }
+        Insert: {
+          clinica_id: string
+          created_at?: string
+          profissional_id: string
+          servico_id: string
+        }
+        Update: {
+          clinica_id?: string
+          created_at?: string
+          profissional_id?: string
+          servico_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profissional_servicos_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profissional_servicos_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profissional_servicos_profissional_id_fkey"
+            columns: ["profissional_id"]
+            isOneToOne: false
+            referencedRelation: "profissionais"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profissional_servicos_servico_id_fkey"
+            columns: ["servico_id"]
+            isOneToOne: false
+            referencedRelation: "clinica_servicos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       respostas_prontas: {
         Row: {
           atalho: string | null
@@ -1114,6 +2118,48 @@ export type Database = {
           },
         ]
       }
+      salas: {
+        Row: {
+          ativo: boolean
+          clinica_id: string
+          created_at: string
+          id: string
+          nome: string
+          updated_at: string
+        }
+        Insert: {
+          ativo?: boolean
+          clinica_id: string
+          created_at?: string
+          id?: string
+          nome: string
+          updated_at?: string
+        }
+        Update: {
+          ativo?: boolean
+          clinica_id?: string
+          created_at?: string
+          id?: string
+          nome?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "salas_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "salas_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       stripe_subscriptions: {
         Row: {
           canceled_at: string | null
@@ -1445,6 +2491,7 @@ export type Database = {
       }
       webhook_logs: {
         Row: {
+          canal: string | null
           clinica_id: string
           created_at: string | null
           enviado_em: string | null
@@ -1452,12 +2499,14 @@ export type Database = {
           id: string
           lead_id: string
           mensagem_id: string
+          payload: Json | null
           resposta: string | null
           status_code: number | null
           tentativas: number | null
           webhook_url: string
         }
         Insert: {
+          canal?: string | null
           clinica_id: string
           created_at?: string | null
           enviado_em?: string | null
@@ -1465,12 +2514,14 @@ export type Database = {
           id?: string
           lead_id: string
           mensagem_id: string
+          payload?: Json | null
           resposta?: string | null
           status_code?: number | null
           tentativas?: number | null
           webhook_url: string
         }
         Update: {
+          canal?: string | null
           clinica_id?: string
           created_at?: string | null
           enviado_em?: string | null
@@ -1478,6 +2529,7 @@ export type Database = {
           id?: string
           lead_id?: string
           mensagem_id?: string
+          payload?: Json | null
           resposta?: string | null
           status_code?: number | null
           tentativas?: number | null
@@ -1586,16 +2638,170 @@ export type Database = {
         }
         Relationships: []
       }
+      lead_consentimento_atual: {
+        Row: {
+          canal: string | null
+          clinica_id: string | null
+          created_at: string | null
+          detalhes: string | null
+          lead_id: string | null
+          origem: string | null
+          status: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_consentimentos_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_consentimentos_clinica_id_fkey"
+            columns: ["clinica_id"]
+            isOneToOne: false
+            referencedRelation: "clinicas_stats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_consentimentos_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
       clinica_tem_acesso_premium: {
         Args: { clinica_uuid: string }
         Returns: boolean
       }
+      atualizar_serie_agendamentos: {
+        Args: {
+          p_agendamento_id: string
+          p_escopo: string
+          p_deslocamento_minutos?: number
+          p_duracao_minutos?: number | null
+          p_campos?: Json
+        }
+        Returns: number
+      }
+      conflitos_agendamento: {
+        Args: {
+          p_clinica_id: string
+          p_data_inicio: string
+          p_data_fim: string
+          p_profissional_id?: string | null
+          p_sala_id?: string | null
+          p_ignorar_id?: string | null
+          p_intervalo_minutos?: number
+        }
+        Returns: {
+          agendamento_id: string
+          titulo: string
+          cliente_id: string | null
+          data_inicio: string
+          data_fim: string
+          recurso: string
+        }[]
+      }
+      criar_agendamentos_recorrentes: {
+        Args: {
+          p_agendamento: Json
+          p_ocorrencias: Json
+          p_frequencia: string
+          p_intervalo: number
+          p_quantidade?: number | null
+          p_data_limite?: string | null
+          p_plano_tratamento_id?: string | null
+          p_novo_plano_nome?: string | null
+          p_novo_plano_total_sessoes?: number | null
+        }
+        Returns: string
+      }
+      criar_envio_em_massa_follow_up: {
+        Args: {
+          p_clinica_id: string
+          p_campaign_id: string
+          p_template_id: string
+          p_lead_ids: string[]
+          p_leads_excluidos?: number
+          p_data_agendada?: string
+        }
+        Returns: {
+          campaign_id: string
+          clinica_id: string
+          created_at: string
+          criado_por: string | null
+          data_agendada: string
+          id: string
+          leads_excluidos: number
+          template_id: string
+          total_leads: number
+        }
+      }
+      encerrar_sequencias_follow_up: {
+        Args: { p_lead_id: string; p_motivo: string }
+        Returns: number
+      }
+      follow_up_envios_recentes: {
+        Args: { p_clinica_id: string }
+        Returns: {
+          ultimo_minuto: number
+          ultima_hora: number
+          ultimo_dia: number
+          ultimo_envio_em: string | null
+        }[]
+      }
+      follow_up_metricas: {
+        Args: {
+          p_inicio: string
+          p_fim: string
+          p_dias_resposta?: number
+          p_dias_conversao?: number
+          p_clinica_id?: string
+        }
+        Returns: {
+          campaign_id: string
+          campaign_nome: string
+          template_id: string
+          sequencia: number
+          template_titulo: string
+          enviados: number
+          falhas: number
+          respondidos: number
+          convertidos: number
+        }[]
+      }
+      follow_up_metricas_variantes: {
+        Args: {
+          p_inicio: string
+          p_fim: string
+          p_dias_resposta?: number
+          p_dias_conversao?: number
+          p_clinica_id?: string
+        }
+        Returns: {
+          campaign_id: string
+          template_id: string
+          variante_id: string
+          variante_nome: string
+          variante_ativa: boolean
+          enviados: number
+          respondidos: number
+          convertidos: number
+        }[]
+      }
       get_user_clinica_id: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      iniciar_sequencia_follow_up: {
+        Args: { p_campaign_id: string; p_lead_id: string; p_data_agendada?: string }
+        Returns: boolean
+      }
       is_admin: {
         Args: Record<PropertyKey, never>
         Returns: boolean
@@ -1604,6 +2810,22 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      lead_com_opt_out: {
+        Args: { p_lead_id: string; p_canal?: string }
+        Returns: boolean
+      }
+      mesclar_leads: {
+        Args: { p_lead_principal: string; p_lead_duplicado: string }
+        Returns: string
+      }
+      normalizar_telefone: {
+        Args: { p_telefone: string }
+        Returns: string
+      }
+      reenviar_item_fila: {
+        Args: { p_queue_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       user_profile_type: "admin" | "clinica" | "usuario"
@@ -9,14 +9,14 @@
  * 
  * Se o código interage com o Supabase, explique também o que ele busca ou grava na tabela e quais campos são afetados.
  * - Busca na tabela `leads`: id, created_at, convertido, servico_interesse, anuncio, ad_name.
- * - Busca na tabela `agendamentos`: id, status, valor, data_inicio, titulo, created_at.
+ * - Busca na tabela `agendamentos`: id, status, valor, data_inicio, titulo, created_at, servico_id (com o nome do serviço).
  * - Busca na tabela `chat_mensagens`: id, lead_id, clinica_id, conteudo, enviado_por, created_at.
  * - Busca na tabela `clinicas`: horario_funcionamento, ai_business_hours_start_weekday, ai_business_hours_end_weekday, ai_active_saturday, etc.
  * - Os filtros de data (`startDate`, `endDate`) são aplicados na coluna `created_at` de `leads`, `data_inicio` de `agendamentos` e `created_at` de `chat_mensagens`.
  */
 import { supabase } from '@/integrations/supabase/client';
 import { DashboardMetrics } from '@/hooks/dashboard/types';
-import { processarLeadsParaGrafico, processarConversoesPorCategoria, processarLeadsPorAnuncio } from '@/utils/dashboardUtils';
+import { processarLeadsParaGrafico, processarConversoesPorCategoria, processarLeadsPorAnuncio, processarFaturamentoPorServico } from '@/utils/dashboardUtils';
 import { calculateResponseTime, BusinessHours, ChatMessage } from '@/utils/responseTimeUtils';
 
 export const fetchDashboardData = async (
@@ -54,7 +54,7 @@ export const fetchDashboardData = async (
     // 2. Buscar agendamentos no período
     let agendamentosQuery = supabase
       .from('agendamentos')
-      .select('id, status, valor, data_inicio, titulo, created_at')
+      .select('id, status, valor, data_inicio, titulo, created_at, servico_id, servico:clinica_servicos(nome_servico)')
       .eq('clinica_id', clinicaId);
 
     if (startDate) {
@@ -159,6 +159,8 @@ export const fetchDashboardData = async (
 
     const leadsPorAnuncio = processarLeadsPorAnuncio(leadsData || []);
 
+    const faturamentoPorServico = processarFaturamentoPorServico(agendamentosData || []);
+
     // 7. CALCULAR TEMPO MÉDIO DE RESPOSTA
     console.log('🕐 Calculando tempo médio de resposta...');
     
@@ -293,6 +295,7 @@ export const fetchDashboardData = async (
       leadsParaGrafico,
       conversoesPorCategoria,
       leadsPorAnuncio, // NOVO dados para gráfico de anúncios
+      faturamentoPorServico,
       tempoMedioResposta, // NOVA métrica de tempo médio de resposta
       variacaoContatos,
       variacaoConsultas,
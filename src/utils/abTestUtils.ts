@@ -0,0 +1,77 @@
+/**
+ * Utilitários estatísticos para testes A/B de follow-up
+ *
+ * O que faz:
+ * - Compara a taxa (resposta ou conversão) de uma variante com a da variante de controle
+ *   usando o teste z de duas proporções (bicaudal)
+ * - Classifica o resultado para exibição: significativo, sem diferença ou amostra pequena
+ *
+ * Como funciona:
+ * 1. Calcula a proporção combinada das duas variantes e o erro padrão
+ * 2. z = (p2 - p1) / erro padrão
+ * 3. p-valor = 2 * (1 - Φ(|z|)), com Φ aproximada pela função erro (Abramowitz-Stegun 7.1.26)
+ */
+
+export type ResultadoSignificancia = 'significativo' | 'sem_diferenca' | 'amostra_pequena';
+
+export interface ComparacaoProporcoes {
+  taxaControle: number; // 0..1
+  taxaVariante: number; // 0..1
+  diferenca: number; // taxaVariante - taxaControle
+  pValor: number | null;
+  resultado: ResultadoSignificancia;
+}
+
+// Mínimo de envios por variante para que o teste faça sentido
+export const AMOSTRA_MINIMA_AB = 30;
+
+// Nível de significância (confiança de 95%)
+export const ALFA_AB = 0.05;
+
+// Função erro (aproximação de Abramowitz-Stegun, erro máximo de 1.5e-7)
+const erf = (x: number): number => {
+  const sinal = x < 0 ? -1 : 1;
+  const valor = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * valor);
+  const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-valor * valor);
+  return sinal * y;
+};
+
+const distribuicaoNormal = (z: number): number => 0.5 * (1 + erf(z / Math.SQRT2));
+
+/**
+ * Compara os sucessos de uma variante com os do controle
+ */
+export const compararProporcoes = (
+  sucessosControle: number,
+  totalControle: number,
+  sucessosVariante: number,
+  totalVariante: number
+): ComparacaoProporcoes => {
+  const taxaControle = totalControle > 0 ? sucessosControle / totalControle : 0;
+  const taxaVariante = totalVariante > 0 ? sucessosVariante / totalVariante : 0;
+  const diferenca = taxaVariante - taxaControle;
+
+  if (totalControle < AMOSTRA_MINIMA_AB || totalVariante < AMOSTRA_MINIMA_AB) {
+    return { taxaControle, taxaVariante, diferenca, pValor: null, resultado: 'amostra_pequena' };
+  }
+
+  const taxaCombinada = (sucessosControle + sucessosVariante) / (totalControle + totalVariante);
+  const erroPadrao = Math.sqrt(taxaCombinada * (1 - taxaCombinada) * (1 / totalControle + 1 / totalVariante));
+
+  // Sem variação (todas as taxas 0% ou 100%): não há diferença a testar
+  if (erroPadrao === 0) {
+    return { taxaControle, taxaVariante, diferenca, pValor: 1, resultado: 'sem_diferenca' };
+  }
+
+  const z = diferenca / erroPadrao;
+  const pValor = 2 * (1 - distribuicaoNormal(Math.abs(z)));
+
+  return {
+    taxaControle,
+    taxaVariante,
+    diferenca,
+    pValor,
+    resultado: pValor < ALFA_AB ? 'significativo' : 'sem_diferenca',
+  };
+};
@@ -78,6 +78,42 @@ export const processarConversoesPorCategoria = (leads: any[], agendamentos: any[
     .slice(0, 10); // Top 10 categorias
 };
 
+/**
+ * Processa o faturamento por serviço do catálogo
+ * Soma o valor dos agendamentos realizados/pagos agrupando pelo serviço vinculado (servico_id).
+ * Agendamentos sem serviço vinculado (título digitado manualmente) ficam em "Outros".
+ */
+export const processarFaturamentoPorServico = (
+  agendamentos: Array<{
+    status: string | null;
+    valor: number | null;
+    servico_id: string | null;
+    servico: { nome_servico: string } | null;
+  }>
+) => {
+  if (!agendamentos || agendamentos.length === 0) return [];
+
+  const servicosMap = new Map<string, { servico: string; faturamento: number; atendimentos: number }>();
+
+  agendamentos
+    .filter(ag => ag.status === 'realizado' || ag.status === 'pago')
+    .forEach(ag => {
+      const chave = ag.servico_id || 'outros';
+      const atual = servicosMap.get(chave) || {
+        servico: ag.servico?.nome_servico || 'Outros',
+        faturamento: 0,
+        atendimentos: 0,
+      };
+      atual.faturamento += Number(ag.valor) || 0;
+      atual.atendimentos += 1;
+      servicosMap.set(chave, atual);
+    });
+
+  return Array.from(servicosMap.values())
+    .sort((a, b) => b.faturamento - a.faturamento)
+    .slice(0, 10); // Top 10 serviços
+};
+
 /**
  * NOVA FUNÇÃO: Processa leads por anúncio específico (ad_name)
  * Agrupa leads por nome do anúncio e calcula métricas de performance
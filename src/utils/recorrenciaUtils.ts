@@ -0,0 +1,118 @@
+/**
+ * Utilitários para agendamentos recorrentes
+ *
+ * O que faz:
+ * - Gera as datas das sessões de uma série a partir da primeira sessão e da regra
+ *   (semanal a cada N semanas ou a cada N dias; quantidade fixa ou até uma data)
+ * - Descreve a regra em texto para a interface
+ *
+ * Onde é usado:
+ * - RecorrenciaFields (prévia da série) e RegistroAgendamentoModal (criação da série)
+ *
+ * Como se conecta:
+ * - As ocorrências geradas são enviadas para a função criar_agendamentos_recorrentes,
+ *   que cria todas as sessões numa única transação
+ * - O cálculo usa o relógio local do navegador: a sessão das 09:00 continua às 09:00
+ *   em todas as semanas
+ */
+import { addDays, addWeeks, endOfDay, format, parseISO } from 'date-fns';
+
+export type FrequenciaRecorrencia = 'semanal' | 'dias';
+
+export interface RegraRecorrencia {
+  frequencia: FrequenciaRecorrencia;
+  intervalo: number;
+  // Término: quantidade de sessões ou data limite (YYYY-MM-DD, inclusive)
+  quantidade: number | null;
+  dataLimite: string | null;
+}
+
+export interface OcorrenciaAgendamento {
+  data_inicio: Date;
+  data_fim: Date;
+}
+
+// Mesmo limite da função criar_agendamentos_recorrentes (2 anos de sessões semanais)
+export const MAXIMO_OCORRENCIAS = 104;
+
+// Estado do formulário de recorrência (RecorrenciaFields).
+// Valores do <Select> de plano que não são ids (o Select não aceita valor vazio)
+export const SEM_PLANO = 'sem_plano';
+export const NOVO_PLANO = 'novo_plano';
+
+export interface RecorrenciaFormState {
+  ativa: boolean;
+  frequencia: FrequenciaRecorrencia;
+  intervalo: number;
+  termino: 'quantidade' | 'data';
+  quantidade: number;
+  dataLimite: string; // YYYY-MM-DD
+  // SEM_PLANO, NOVO_PLANO ou o id de um plano existente
+  plano: string;
+  nomePlano: string;
+}
+
+export const RECORRENCIA_INICIAL: RecorrenciaFormState = {
+  ativa: false,
+  frequencia: 'semanal',
+  intervalo: 1,
+  termino: 'quantidade',
+  quantidade: 10,
+  dataLimite: '',
+  plano: NOVO_PLANO,
+  nomePlano: '',
+};
+
+// Converte o estado do formulário na regra usada para gerar as sessões
+export const regraDoFormulario = (recorrencia: RecorrenciaFormState): RegraRecorrencia => ({
+  frequencia: recorrencia.frequencia,
+  intervalo: recorrencia.intervalo,
+  quantidade: recorrencia.termino === 'quantidade' ? recorrencia.quantidade : null,
+  dataLimite: recorrencia.termino === 'data' && recorrencia.dataLimite ? recorrencia.dataLimite : null,
+});
+
+/**
+ * Gera as sessões da série, começando pela primeira (inclusive).
+ * @param dataInicio - Início da primeira sessão.
+ * @param dataFim - Fim da primeira sessão (a duração se repete nas demais).
+ * @param regra - Regra de recorrência.
+ * @returns As sessões em ordem, limitadas a MAXIMO_OCORRENCIAS.
+ */
+export const gerarOcorrencias = (
+  dataInicio: Date,
+  dataFim: Date,
+  regra: RegraRecorrencia
+): OcorrenciaAgendamento[] => {
+  const intervalo = Math.max(1, Math.floor(regra.intervalo) || 1);
+  const duracaoMs = dataFim.getTime() - dataInicio.getTime();
+  const limite = regra.dataLimite ? endOfDay(parseISO(regra.dataLimite)) : null;
+  const quantidade = regra.quantidade ? Math.min(regra.quantidade, MAXIMO_OCORRENCIAS) : MAXIMO_OCORRENCIAS;
+
+  if (!regra.quantidade && !limite) return [];
+
+  const ocorrencias: OcorrenciaAgendamento[] = [];
+  for (let indice = 0; ocorrencias.length < quantidade; indice++) {
+    const inicio = regra.frequencia === 'semanal'
+      ? addWeeks(dataInicio, indice * intervalo)
+      : addDays(dataInicio, indice * intervalo);
+
+    if (limite && inicio > limite) break;
+
+    ocorrencias.push({ data_inicio: inicio, data_fim: new Date(inicio.getTime() + duracaoMs) });
+  }
+
+  return ocorrencias;
+};
+
+/**
+ * Descreve a regra, ex.: "Toda semana, 10 sessões" ou "A cada 3 dias, até 30/08/2025".
+ */
+export const descreverRecorrencia = (regra: RegraRecorrencia): string => {
+  const frequencia = regra.frequencia === 'semanal'
+    ? regra.intervalo > 1 ? `A cada ${regra.intervalo} semanas` : 'Toda semana'
+    : regra.intervalo > 1 ? `A cada ${regra.intervalo} dias` : 'Todo dia';
+
+  if (regra.quantidade) return `${frequencia}, ${regra.quantidade} sessões`;
+  if (regra.dataLimite) return `${frequencia}, até ${format(parseISO(regra.dataLimite), 'dd/MM/yyyy')}`;
+  return frequencia;
+};
@@ -64,3 +64,34 @@ export const calculateCardPosition = (agendamento: AgendamentoFromDatabase, star
 
   return { top, height };
 };
+
+/**
+ * Agrupa os agendamentos do dia em colunas, uma por profissional, para a timeline por profissional.
+ * Agendamentos sem profissional (ou de profissional fora da lista) vão para a coluna "Sem profissional",
+ * que só aparece quando tem algum agendamento.
+ * @param agendamentos - Os agendamentos do dia.
+ * @param profissionais - Os profissionais que viram colunas, na ordem de exibição.
+ * @returns Um array de colunas com `id` (null para "Sem profissional"), `nome`, `cor` e `agendamentos`.
+ */
+export const groupByProfessional = (
+  agendamentos: AgendamentoFromDatabase[],
+  profissionais: { id: string; nome: string; cor: string }[]
+) => {
+  const colunas = profissionais.map((profissional) => ({
+    id: profissional.id as string | null,
+    nome: profissional.nome,
+    cor: profissional.cor,
+    agendamentos: agendamentos.filter((agendamento) => agendamento.profissional_id === profissional.id),
+  }));
+
+  const idsProfissionais = new Set(profissionais.map((profissional) => profissional.id));
+  const semProfissional = agendamentos.filter(
+    (agendamento) => !agendamento.profissional_id || !idsProfissionais.has(agendamento.profissional_id)
+  );
+
+  if (semProfissional.length > 0) {
+    colunas.push({ id: null, nome: 'Sem profissional', cor: '#9CA3AF', agendamentos: semProfissional });
+  }
+
+  return colunas;
+};
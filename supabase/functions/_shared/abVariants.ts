@@ -0,0 +1,57 @@
+/**
+ * Sorteio determinístico de variantes de teste A/B (follow_up_template_variantes)
+ *
+ * O que faz:
+ * - Distribui os leads entre as variantes ativas de uma etapa conforme o peso de cada uma
+ * - O mesmo lead na mesma etapa sempre cai na mesma variante (hash FNV-1a de lead + etapa),
+ *   então reprocessamentos não trocam o texto e a distribuição não depende da ordem de envio
+ *
+ * Onde é usado:
+ * - process-followup-campaigns, ao criar a execução de cada etapa
+ *
+ * Sem dependências externas: o arquivo é importado tanto pelo Deno quanto pelo Vite.
+ */
+
+export interface VarianteSorteavel {
+  id: string
+  nome: string
+  peso: number
+  ativo: boolean
+}
+
+// Hash FNV-1a de 32 bits (sem sinal)
+const hashFnv1a = (texto: string): number => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < texto.length; i++) {
+    hash ^= texto.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Escolhe a variante do lead na etapa. Retorna null quando a etapa não tem variantes ativas
+ * (nesse caso o envio usa o conteúdo do próprio template).
+ */
+export const escolherVariante = <T extends VarianteSorteavel>(
+  leadId: string,
+  templateId: string,
+  variantes: T[] | null | undefined
+): T | null => {
+  // Ordem estável pelo nome: pesos iguais mantêm as mesmas faixas entre execuções
+  const ativas = (variantes || [])
+    .filter((variante) => variante.ativo && variante.peso > 0)
+    .sort((a, b) => a.nome.localeCompare(b.nome))
+
+  if (ativas.length === 0) return null
+
+  const pesoTotal = ativas.reduce((total, variante) => total + variante.peso, 0)
+  let posicao = hashFnv1a(`${leadId}:${templateId}`) % pesoTotal
+
+  for (const variante of ativas) {
+    if (posicao < variante.peso) return variante
+    posicao -= variante.peso
+  }
+
+  return ativas[ativas.length - 1]
+}
@@ -0,0 +1,50 @@
+/**
+ * Respostas do paciente aos lembretes de agendamento
+ *
+ * O que faz:
+ * - Define as respostas aceitas para confirmar ("1", "SIM") ou cancelar ("2", "NÃO") o agendamento
+ * - Detecta se a mensagem recebida é uma dessas respostas
+ *
+ * Como funciona:
+ * - A mensagem inteira é comparada com cada resposta, com a mesma normalização das palavras de
+ *   opt-out (sem acentos, pontuação e maiúsculas: "1/SIM" = "1 sim", "Não!" = "nao"). Frases
+ *   maiores ("sim, mas posso chegar 10 min atrasada?") ficam para a equipe responder
+ * - Só vale como resposta dentro de uma janela após o lembrete ainda sem resposta (ou poucos
+ *   minutos após a resposta, para o paciente mudar de ideia) e se a clínica não mandou outra
+ *   mensagem depois do lembrete (receive-message/appointmentConfirmation.ts)
+ * - Palavras genéricas ("s", "sim", "ok", "n", "não") também respondem a qualquer pergunta da
+ *   conversa; como os cancelamentos, têm uma janela mais curta
+ *
+ * Onde é usado:
+ * - receive-message, junto com o último lembrete enviado ao lead (agendamento_lembretes)
+ *
+ * Sem dependências externas: o arquivo é importado tanto pelo Deno quanto pelo Vite.
+ */
+
+import { normalizarMensagemConsentimento } from './consentKeywords.ts'
+
+export type RespostaLembrete = 'confirmar' | 'cancelar'
+
+export const RESPOSTAS_CONFIRMACAO = [
+  '1', '1 sim', 'sim', 's', 'confirmo', 'confirmado', 'confirmar', 'confirmada', 'sim confirmo', 'ok', 'estarei'
+]
+export const RESPOSTAS_CANCELAMENTO = [
+  '2', '2 nao', 'nao', 'n', 'cancelar', 'cancela', 'cancelo', 'desmarcar', 'nao vou', 'nao posso', 'nao poderei'
+]
+
+// Respostas que servem para qualquer pergunta, aceitas apenas logo após o lembrete
+// (appointmentConfirmation.ts)
+export const RESPOSTAS_GENERICAS = ['s', 'sim', 'ok', 'n', 'nao']
+
+export const ehRespostaGenerica = (texto: string | null | undefined): boolean =>
+  RESPOSTAS_GENERICAS.includes(normalizarMensagemConsentimento(texto || ''))
+
+export const detectarRespostaLembrete = (texto: string | null | undefined): RespostaLembrete | null => {
+  const mensagem = normalizarMensagemConsentimento(texto || '')
+  if (!mensagem) return null
+
+  if (RESPOSTAS_CONFIRMACAO.includes(mensagem)) return 'confirmar'
+  if (RESPOSTAS_CANCELAMENTO.includes(mensagem)) return 'cancelar'
+
+  return null
+}
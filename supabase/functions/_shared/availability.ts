@@ -0,0 +1,214 @@
+/**
+ * Motor de disponibilidade da agenda (horários livres para agendamento)
+ *
+ * O que faz:
+ * - Cruza o horário de funcionamento da clínica (clinicas.horario_funcionamento) com o
+ *   horário de trabalho de cada profissional (profissionais.horario_trabalho)
+ * - Gera horários candidatos com a duração do serviço, a cada passoMinutos
+ * - Descarta os que colidem com agendamentos ativos (incluindo o intervalo após o
+ *   atendimento de cada serviço) e com bloqueios de agenda (bloqueios_agenda)
+ * - Devolve os horários em ordem cronológica, no fuso da clínica
+ *
+ * Onde é usado:
+ * - get-available-slots (RegistroAgendamentoModal e fluxo de IA do n8n)
+ *
+ * Sem dependências externas além de clinicSchedule.ts. Salas não entram no cálculo:
+ * o conflito de sala continua sendo verificado ao salvar o agendamento.
+ */
+
+import {
+  DIAS_SEMANA,
+  FUSO_HORARIO_PADRAO,
+  fusoHorarioValido,
+  obterDataHoraLocal,
+  paraMinutos,
+  type HorarioDia,
+} from './clinicSchedule.ts'
+
+export interface ProfissionalAgenda {
+  id: string
+  nome: string
+  horario_trabalho?: unknown
+}
+
+export interface OcupacaoAgenda {
+  profissional_id: string | null
+  data_inicio: string
+  data_fim: string
+  // Intervalo após o atendimento em que o profissional continua ocupado
+  intervalo_minutos?: number | null
+}
+
+export interface BloqueioAgenda {
+  // Nulo: bloqueia todos os profissionais
+  profissional_id: string | null
+  data_inicio: string
+  data_fim: string
+}
+
+export interface HorarioDisponivel {
+  inicio: string // ISO (UTC)
+  fim: string // ISO (UTC)
+  data: string // YYYY-MM-DD no fuso da clínica
+  hora: string // HH:MM no fuso da clínica
+  profissional_id: string | null
+  profissional_nome: string | null
+}
+
+interface Intervalo {
+  inicio: number
+  fim: number
+}
+
+// Usado quando a clínica ainda não configurou o horário de funcionamento: dias úteis, 08:00 às 18:00
+const horarioPadrao = (diaSemana: number): Intervalo[] =>
+  diaSemana === 0 || diaSemana === 6 ? [] : [{ inicio: 8 * 60, fim: 18 * 60 }]
+
+const MINUTO_MS = 60 * 1000
+
+/**
+ * Soma dias a uma data YYYY-MM-DD
+ */
+export const somarDias = (data: string, dias: number): string => {
+  const [ano, mes, dia] = data.split('-').map(Number)
+  return new Date(Date.UTC(ano, mes - 1, dia + dias)).toISOString().slice(0, 10)
+}
+
+// Diferença (em minutos) entre o relógio do fuso e o UTC no instante
+const deslocamentoDoFuso = (instanteMs: number, fusoHorario: string): number => {
+  const local = obterDataHoraLocal(new Date(instanteMs), fusoHorario)
+  const [ano, mes, dia] = local.data.split('-').map(Number)
+  const localMs = Date.UTC(ano, mes - 1, dia) + paraMinutos(local.hora) * MINUTO_MS
+  return Math.round((localMs - Math.floor(instanteMs / MINUTO_MS) * MINUTO_MS) / MINUTO_MS)
+}
+
+/**
+ * Instante (UTC) correspondente à data e aos minutos desde a meia-noite no fuso da clínica
+ */
+export const horarioLocalParaInstante = (data: string, minutos: number, fusoHorario: string): Date => {
+  const [ano, mes, dia] = data.split('-').map(Number)
+  const comoUtc = Date.UTC(ano, mes - 1, dia) + minutos * MINUTO_MS
+
+  // A segunda leitura corrige dias com mudança de horário de verão
+  const deslocamento = deslocamentoDoFuso(comoUtc, fusoHorario)
+  const ajustado = deslocamentoDoFuso(comoUtc - deslocamento * MINUTO_MS, fusoHorario)
+  return new Date(comoUtc - ajustado * MINUTO_MS)
+}
+
+// Intervalos do dia no formato de horario_funcionamento; null quando o dia não está configurado
+const intervalosDoDia = (horario: unknown, diaSemana: number): Intervalo[] | null => {
+  if (!horario || typeof horario !== 'object') return null
+
+  const dia = (horario as Record<string, HorarioDia>)[DIAS_SEMANA[diaSemana]]
+  if (!dia) return null
+  if (dia.isClosed) return []
+
+  return (dia.slots || [])
+    .map((slot) => ({ inicio: paraMinutos(slot.start), fim: paraMinutos(slot.end) }))
+    .filter((intervalo) => intervalo.fim > intervalo.inicio)
+}
+
+const intersectarIntervalos = (a: Intervalo[], b: Intervalo[]): Intervalo[] => {
+  const resultado: Intervalo[] = []
+  for (const x of a) {
+    for (const y of b) {
+      const inicio = Math.max(x.inicio, y.inicio)
+      const fim = Math.min(x.fim, y.fim)
+      if (fim > inicio) resultado.push({ inicio, fim })
+    }
+  }
+  return resultado.sort((x, y) => x.inicio - y.inicio)
+}
+
+/**
+ * Calcula os horários livres entre dataInicial e dataFinal (inclusive, no fuso da clínica).
+ * Sem profissionais, a clínica é tratada como uma agenda única e todos os agendamentos contam.
+ */
+export const calcularHorariosDisponiveis = (params: {
+  dataInicial: string
+  dataFinal: string
+  fusoHorario?: string | null
+  horarioFuncionamento?: unknown
+  duracaoMinutos: number
+  intervaloMinutos?: number
+  profissionais: ProfissionalAgenda[]
+  agendamentos: OcupacaoAgenda[]
+  bloqueios: BloqueioAgenda[]
+  passoMinutos?: number
+  agora?: Date
+  limite?: number
+}): HorarioDisponivel[] => {
+  const fuso = fusoHorarioValido(params.fusoHorario) ? params.fusoHorario! : FUSO_HORARIO_PADRAO
+  const passo = Math.max(5, params.passoMinutos || 15)
+  const intervaloServico = Math.max(0, params.intervaloMinutos || 0)
+  const agoraMs = (params.agora || new Date()).getTime()
+  const limite = params.limite || 20
+
+  const ocupacoes = params.agendamentos.map((agendamento) => ({
+    profissionalId: agendamento.profissional_id,
+    inicio: new Date(agendamento.data_inicio).getTime(),
+    fim: new Date(agendamento.data_fim).getTime() + Math.max(0, agendamento.intervalo_minutos || 0) * MINUTO_MS,
+  }))
+  const bloqueios = params.bloqueios.map((bloqueio) => ({
+    profissionalId: bloqueio.profissional_id,
+    inicio: new Date(bloqueio.data_inicio).getTime(),
+    fim: new Date(bloqueio.data_fim).getTime(),
+  }))
+
+  const agendas: (ProfissionalAgenda | null)[] =
+    params.profissionais.length > 0 ? params.profissionais : [null]
+
+  const horarios: HorarioDisponivel[] = []
+
+  for (let data = params.dataInicial; data <= params.dataFinal; data = somarDias(data, 1)) {
+    const diaSemana = new Date(`${data}T00:00:00Z`).getUTCDay()
+    const intervalosClinica = intervalosDoDia(params.horarioFuncionamento, diaSemana) ?? horarioPadrao(diaSemana)
+    const horariosDoDia: HorarioDisponivel[] = []
+
+    for (const profissional of agendas) {
+      const intervalosProfissional = profissional
+        ? intervalosDoDia(profissional.horario_trabalho, diaSemana)
+        : null
+      const intervalos = intervalosProfissional
+        ? intersectarIntervalos(intervalosClinica, intervalosProfissional)
+        : intervalosClinica
+
+      const ocupacoesDaAgenda = ocupacoes.filter(
+        (ocupacao) => !profissional || ocupacao.profissionalId === profissional.id
+      )
+      const bloqueiosDaAgenda = bloqueios.filter(
+        (bloqueio) => !bloqueio.profissionalId || bloqueio.profissionalId === profissional?.id
+      )
+
+      for (const intervalo of intervalos) {
+        for (let minuto = intervalo.inicio; minuto + params.duracaoMinutos <= intervalo.fim; minuto += passo) {
+          const inicio = horarioLocalParaInstante(data, minuto, fuso).getTime()
+          const fim = inicio + params.duracaoMinutos * MINUTO_MS
+          const fimOcupado = fim + intervaloServico * MINUTO_MS
+
+          if (inicio < agoraMs) continue
+          if (ocupacoesDaAgenda.some((ocupacao) => ocupacao.inicio < fimOcupado && ocupacao.fim > inicio)) continue
+          if (bloqueiosDaAgenda.some((bloqueio) => bloqueio.inicio < fim && bloqueio.fim > inicio)) continue
+
+          horariosDoDia.push({
+            inicio: new Date(inicio).toISOString(),
+            fim: new Date(fim).toISOString(),
+            data,
+            hora: `${String(Math.floor(minuto / 60)).padStart(2, '0')}:${String(minuto % 60).padStart(2, '0')}`,
+            profissional_id: profissional?.id || null,
+            profissional_nome: profissional?.nome || null,
+          })
+        }
+      }
+    }
+
+    horariosDoDia.sort((a, b) =>
+      a.inicio.localeCompare(b.inicio) || (a.profissional_nome || '').localeCompare(b.profissional_nome || '')
+    )
+    horarios.push(...horariosDoDia)
+
+    if (horarios.length >= limite) break
+  }
+
+  return horarios.slice(0, limite)
+}
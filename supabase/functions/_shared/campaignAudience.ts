@@ -0,0 +1,132 @@
+/**
+ * Regras de público das campanhas automáticas de follow-up (follow_up_campaigns.filtros_publico)
+ *
+ * O que faz:
+ * - Define o formato dos filtros: incluir/excluir etapas do kanban, tags, origem do lead,
+ *   anúncio (ad_name) e serviço de interesse, além de status de conversão e agendamento futuro
+ * - Decide se um lead entra no público da campanha
+ *
+ * Como funciona:
+ * - Listas "incluir" vazias não restringem nada; com itens, o lead precisa ter um dos valores
+ * - Listas "excluir" sempre tiram o lead do público quando o valor bate
+ * - Textos (origem, anúncio, serviço) são comparados sem diferenciar maiúsculas e espaços nas pontas
+ *
+ * Onde é usado:
+ * - process-followup-campaigns, antes de iniciar a sequência de cada lead inativo
+ * - Pré-visualização do público no frontend (mesmas regras do processamento)
+ *
+ * Sem dependências externas: o arquivo é importado tanto pelo Deno quanto pelo Vite.
+ */
+
+export interface FiltroLista {
+  incluir: string[]
+  excluir: string[]
+}
+
+export interface FiltrosPublico {
+  etapas: FiltroLista // ids de etapas_kanban
+  tags: FiltroLista // ids de tags
+  origens: FiltroLista // origem_lead
+  anuncios: FiltroLista // ad_name
+  servicos: FiltroLista // servico_interesse
+  convertido: 'todos' | 'convertidos' | 'nao_convertidos'
+  agendamento_futuro: 'todos' | 'com' | 'sem'
+}
+
+export interface LeadPublico {
+  etapa_kanban_id: string | null
+  tag_id: string | null
+  origem_lead: string | null
+  ad_name: string | null
+  servico_interesse: string | null
+  convertido: boolean | null
+}
+
+// Status de agendamento que contam como "agendamento futuro"
+export const STATUS_AGENDAMENTO_FUTURO = ['agendado', 'confirmado']
+
+const listaVazia = (): FiltroLista => ({ incluir: [], excluir: [] })
+
+export const filtrosPublicoVazios = (): FiltrosPublico => ({
+  etapas: listaVazia(),
+  tags: listaVazia(),
+  origens: listaVazia(),
+  anuncios: listaVazia(),
+  servicos: listaVazia(),
+  convertido: 'todos',
+  agendamento_futuro: 'todos',
+})
+
+const normalizarLista = (valor: unknown): FiltroLista => {
+  const bruto = (valor && typeof valor === 'object' ? valor : {}) as Record<string, unknown>
+  const textos = (lista: unknown) =>
+    Array.isArray(lista) ? lista.filter((item): item is string => typeof item === 'string' && item.trim() !== '') : []
+  return { incluir: textos(bruto.incluir), excluir: textos(bruto.excluir) }
+}
+
+/**
+ * Converte o JSON gravado na campanha (pode estar vazio ou incompleto) no formato completo
+ */
+export const normalizarFiltrosPublico = (valor: unknown): FiltrosPublico => {
+  const bruto = (valor && typeof valor === 'object' ? valor : {}) as Record<string, unknown>
+  const vazios = filtrosPublicoVazios()
+
+  return {
+    etapas: normalizarLista(bruto.etapas),
+    tags: normalizarLista(bruto.tags),
+    origens: normalizarLista(bruto.origens),
+    anuncios: normalizarLista(bruto.anuncios),
+    servicos: normalizarLista(bruto.servicos),
+    convertido: ['convertidos', 'nao_convertidos'].includes(bruto.convertido as string)
+      ? (bruto.convertido as FiltrosPublico['convertido'])
+      : vazios.convertido,
+    agendamento_futuro: ['com', 'sem'].includes(bruto.agendamento_futuro as string)
+      ? (bruto.agendamento_futuro as FiltrosPublico['agendamento_futuro'])
+      : vazios.agendamento_futuro,
+  }
+}
+
+/**
+ * Indica se algum filtro está configurado (campanha sem filtros atinge todos os leads inativos)
+ */
+export const possuiFiltrosPublico = (filtros: FiltrosPublico): boolean =>
+  [filtros.etapas, filtros.tags, filtros.origens, filtros.anuncios, filtros.servicos].some(
+    (lista) => lista.incluir.length > 0 || lista.excluir.length > 0
+  ) ||
+  filtros.convertido !== 'todos' ||
+  filtros.agendamento_futuro !== 'todos'
+
+const normalizarTexto = (valor: string | null | undefined) => (valor || '').trim().toLowerCase()
+
+const atendeLista = (valor: string | null, lista: FiltroLista, comparar: (a: string, b: string) => boolean) => {
+  if (lista.incluir.length > 0 && (!valor || !lista.incluir.some((item) => comparar(item, valor)))) return false
+  if (valor && lista.excluir.some((item) => comparar(item, valor))) return false
+  return true
+}
+
+const mesmoId = (a: string, b: string) => a === b
+const mesmoTexto = (a: string, b: string) => normalizarTexto(a) === normalizarTexto(b)
+
+/**
+ * Verifica se o lead faz parte do público da campanha.
+ * temAgendamentoFuturo só é consultado quando o filtro de agendamento está configurado.
+ */
+export const leadAtendeFiltros = (
+  lead: LeadPublico,
+  filtros: FiltrosPublico,
+  temAgendamentoFuturo: boolean
+): boolean => {
+  if (!atendeLista(lead.etapa_kanban_id, filtros.etapas, mesmoId)) return false
+  if (!atendeLista(lead.tag_id, filtros.tags, mesmoId)) return false
+  if (!atendeLista(lead.origem_lead, filtros.origens, mesmoTexto)) return false
+  if (!atendeLista(lead.ad_name, filtros.anuncios, mesmoTexto)) return false
+  if (!atendeLista(lead.servico_interesse, filtros.servicos, mesmoTexto)) return false
+
+  if (filtros.convertido === 'convertidos' && !lead.convertido) return false
+  if (filtros.convertido === 'nao_convertidos' && lead.convertido) return false
+
+  if (filtros.agendamento_futuro === 'com' && !temAgendamentoFuturo) return false
+  if (filtros.agendamento_futuro === 'sem' && temAgendamentoFuturo) return false
+
+  return true
+}
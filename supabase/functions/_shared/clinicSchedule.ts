@@ -0,0 +1,209 @@
+/**
+ * Calendário da clínica para envios agendados (fuso horário, funcionamento e feriados)
+ *
+ * O que faz:
+ * - Converte o instante atual para data, hora e dia da semana no fuso IANA da clínica
+ *   (clinicas.fuso_horario), em vez do relógio UTC do runtime das Edge Functions
+ * - Lista os feriados nacionais brasileiros (fixos e móveis, a partir da Páscoa)
+ * - Verifica o horário de funcionamento salvo em clinicas.horario_funcionamento
+ * - Verifica a janela de envio (início e fim) de uma campanha
+ *
+ * Onde é usado:
+ * - process-followup-campaigns, antes de iniciar sequências e enviar etapas
+ * - availability.ts (get-available-slots), para montar os horários livres da agenda
+ *
+ * Sem dependências externas: o arquivo é importado tanto pelo Deno quanto pelo Vite.
+ */
+
+export const FUSO_HORARIO_PADRAO = 'America/Sao_Paulo'
+
+// Chaves usadas em clinicas.horario_funcionamento (BusinessHoursSettings), por getDay()
+export const DIAS_SEMANA = [
+  'Domingo',
+  'Segunda-feira',
+  'Terça-feira',
+  'Quarta-feira',
+  'Quinta-feira',
+  'Sexta-feira',
+  'Sábado',
+]
+
+export interface DataHoraLocal {
+  data: string // YYYY-MM-DD
+  hora: string // HH:MM
+  diaSemana: number // 0 = domingo, 6 = sábado
+}
+
+export interface VerificacaoJanelaEnvio {
+  permitido: boolean
+  motivo: string | null
+  local: DataHoraLocal
+}
+
+export interface HorarioDia {
+  isClosed?: boolean
+  slots?: { start: string; end: string }[]
+}
+
+const DIAS_SEMANA_INGLES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Indica se o fuso é um identificador IANA reconhecido (ex.: America/Manaus)
+ */
+export const fusoHorarioValido = (fusoHorario: string | null | undefined): boolean => {
+  if (!fusoHorario) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: fusoHorario })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Data, hora e dia da semana de um instante no fuso da clínica.
+ * Fusos inválidos ou vazios usam America/Sao_Paulo.
+ */
+export const obterDataHoraLocal = (instante: Date, fusoHorario?: string | null): DataHoraLocal => {
+  const partes = new Intl.DateTimeFormat('en-US', {
+    timeZone: fusoHorarioValido(fusoHorario) ? fusoHorario! : FUSO_HORARIO_PADRAO,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    weekday: 'short',
+  }).formatToParts(instante)
+
+  const valor = (tipo: string) => partes.find((parte) => parte.type === tipo)?.value || ''
+
+  return {
+    data: `${valor('year')}-${valor('month')}-${valor('day')}`,
+    hora: `${valor('hour')}:${valor('minute')}`,
+    diaSemana: DIAS_SEMANA_INGLES.indexOf(valor('weekday')),
+  }
+}
+
+// Domingo de Páscoa (algoritmo de Meeus/Jones/Butcher, calendário gregoriano)
+const calcularPascoa = (ano: number): Date => {
+  const a = ano % 19
+  const b = Math.floor(ano / 100)
+  const c = ano % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const mes = Math.floor((h + l - 7 * m + 114) / 31)
+  const dia = ((h + l - 7 * m + 114) % 31) + 1
+  return new Date(Date.UTC(ano, mes - 1, dia))
+}
+
+/**
+ * Feriados nacionais (Leis 662/1949, 6.802/1980 e 14.759/2023).
+ * Carnaval e Corpus Christi são pontos facultativos e não entram na lista.
+ */
+export const listarFeriadosNacionais = (ano: number): { data: string; nome: string }[] => {
+  const sextaFeiraSanta = calcularPascoa(ano)
+  sextaFeiraSanta.setUTCDate(sextaFeiraSanta.getUTCDate() - 2)
+
+  const feriados = [
+    { data: `${ano}-01-01`, nome: 'Confraternização Universal' },
+    { data: sextaFeiraSanta.toISOString().slice(0, 10), nome: 'Sexta-feira Santa' },
+    { data: `${ano}-04-21`, nome: 'Tiradentes' },
+    { data: `${ano}-05-01`, nome: 'Dia do Trabalho' },
+    { data: `${ano}-09-07`, nome: 'Independência do Brasil' },
+    { data: `${ano}-10-12`, nome: 'Nossa Senhora Aparecida' },
+    { data: `${ano}-11-02`, nome: 'Finados' },
+    { data: `${ano}-11-15`, nome: 'Proclamação da República' },
+    { data: `${ano}-12-25`, nome: 'Natal' },
+  ]
+
+  if (ano >= 2024) {
+    feriados.push({ data: `${ano}-11-20`, nome: 'Dia Nacional de Zumbi e da Consciência Negra' })
+  }
+
+  return feriados
+}
+
+/**
+ * Nome do feriado nacional na data (YYYY-MM-DD), ou null
+ */
+export const obterFeriadoNacional = (data: string): string | null => {
+  const ano = Number(data.slice(0, 4))
+  return listarFeriadosNacionais(ano).find((feriado) => feriado.data === data)?.nome || null
+}
+
+// "09:00" ou "09:00:00" (coluna TIME) em minutos desde a meia-noite
+export const paraMinutos = (hora: string): number => {
+  const [horas, minutos] = hora.split(':').map(Number)
+  return horas * 60 + (minutos || 0)
+}
+
+/**
+ * Indica se a clínica está aberta no dia/hora, segundo clinicas.horario_funcionamento.
+ * Clínicas sem horário configurado são consideradas sempre abertas.
+ */
+export const estaNoHorarioDeFuncionamento = (
+  horarioFuncionamento: unknown,
+  diaSemana: number,
+  hora: string
+): boolean => {
+  if (!horarioFuncionamento || typeof horarioFuncionamento !== 'object') return true
+
+  const dia = (horarioFuncionamento as Record<string, HorarioDia>)[DIAS_SEMANA[diaSemana]]
+  if (!dia) return true
+  if (dia.isClosed) return false
+
+  const minutos = paraMinutos(hora)
+  return (dia.slots || []).some(
+    (slot) => minutos >= paraMinutos(slot.start) && minutos < paraMinutos(slot.end)
+  )
+}
+
+/**
+ * Verifica se um envio agendado pode sair agora, no calendário da clínica:
+ * dias úteis (sem fins de semana e feriados nacionais), horário de funcionamento
+ * e janela de envio [inicio, fim) da campanha. Início ou fim nulos deixam a janela aberta.
+ */
+export const verificarJanelaDeEnvio = (params: {
+  instante: Date
+  fusoHorario?: string | null
+  horarioFuncionamento?: unknown
+  inicio?: string | null
+  fim?: string | null
+  apenasDiasUteis?: boolean | null
+}): VerificacaoJanelaEnvio => {
+  const local = obterDataHoraLocal(params.instante, params.fusoHorario)
+  const bloquear = (motivo: string) => ({ permitido: false, motivo, local })
+
+  if (params.apenasDiasUteis) {
+    if (local.diaSemana === 0 || local.diaSemana === 6) {
+      return bloquear('fim de semana')
+    }
+
+    const feriado = obterFeriadoNacional(local.data)
+    if (feriado) {
+      return bloquear(`feriado nacional (${feriado})`)
+    }
+  }
+
+  if (!estaNoHorarioDeFuncionamento(params.horarioFuncionamento, local.diaSemana, local.hora)) {
+    return bloquear('clínica fechada')
+  }
+
+  const minutos = paraMinutos(local.hora)
+  if (params.inicio && minutos < paraMinutos(params.inicio)) {
+    return bloquear('antes da janela de envio')
+  }
+  if (params.fim && minutos >= paraMinutos(params.fim)) {
+    return bloquear('depois da janela de envio')
+  }
+
+  return { permitido: true, motivo: null, local }
+}
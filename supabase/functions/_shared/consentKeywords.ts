@@ -0,0 +1,50 @@
+/**
+ * Palavras-chave de opt-out / opt-in das mensagens recebidas (LGPD)
+ *
+ * O que faz:
+ * - Define as palavras padrão de parada ("PARE", "SAIR"...) e de retorno ("VOLTAR")
+ * - Detecta se a mensagem do lead é um pedido de descadastro ou de volta
+ *
+ * Como funciona:
+ * - A mensagem inteira é comparada com cada palavra-chave, sem acentos, pontuação,
+ *   espaços extras e sem diferenciar maiúsculas ("Pare!" = "pare"). Frases que apenas
+ *   contêm a palavra ("pare de me ligar às 8h") não disparam, para evitar falsos positivos
+ *
+ * Onde é usado:
+ * - receive-message, com as palavras configuradas em clinicas.palavras_opt_out / palavras_opt_in
+ * - Configurações > Consentimento (edição das palavras no frontend)
+ *
+ * Sem dependências externas: o arquivo é importado tanto pelo Deno quanto pelo Vite.
+ */
+
+export type PedidoConsentimento = 'opt_out' | 'opt_in'
+
+export const PALAVRAS_OPT_OUT_PADRAO = ['pare', 'parar', 'sair', 'stop', 'descadastrar', 'nao quero mais receber']
+export const PALAVRAS_OPT_IN_PADRAO = ['voltar', 'start']
+
+export const normalizarMensagemConsentimento = (texto: string): string =>
+  texto
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+// Normaliza e remove vazios e repetidas (lista salva nas configurações da clínica)
+export const normalizarPalavrasConsentimento = (palavras: string[]): string[] =>
+  Array.from(new Set(palavras.map(normalizarMensagemConsentimento).filter(Boolean)))
+
+export const detectarPedidoConsentimento = (
+  texto: string | null | undefined,
+  palavrasOptOut: string[] | null | undefined,
+  palavrasOptIn: string[] | null | undefined
+): PedidoConsentimento | null => {
+  const mensagem = normalizarMensagemConsentimento(texto || '')
+  if (!mensagem) return null
+
+  if (normalizarPalavrasConsentimento(palavrasOptOut ?? PALAVRAS_OPT_OUT_PADRAO).includes(mensagem)) return 'opt_out'
+  if (normalizarPalavrasConsentimento(palavrasOptIn ?? PALAVRAS_OPT_IN_PADRAO).includes(mensagem)) return 'opt_in'
+
+  return null
+}
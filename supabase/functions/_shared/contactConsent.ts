@@ -0,0 +1,85 @@
+/**
+ * Consentimento de contato por lead e canal (tabela lead_consentimentos)
+ *
+ * O que faz:
+ * - Registra concessões e revogações de consentimento (histórico, apenas inserções)
+ * - Consulta se um ou vários leads estão com opt-out em um canal
+ *
+ * Como funciona:
+ * - O estado atual é o registro mais recente do lead no canal (view lead_consentimento_atual)
+ * - Lead sem nenhum registro é tratado como consentido
+ * - Revogações no WhatsApp encerram as sequências de follow-up pendentes por trigger no banco
+ *
+ * Onde é usado:
+ * - receive-message (palavras-chave de opt-out / opt-in)
+ * - send-webhook e send-followup-webhook (bloqueio do envio)
+ * - process-followup-campaigns (supressão dos leads com opt-out)
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type CanalConsentimento = 'whatsapp' | 'instagram'
+export type StatusConsentimento = 'concedido' | 'revogado'
+export type OrigemConsentimento = 'palavra_chave' | 'crm' | 'formulario'
+
+export interface RegistroConsentimento {
+  clinica_id: string
+  lead_id: string
+  canal: CanalConsentimento
+  status: StatusConsentimento
+  origem: OrigemConsentimento
+  detalhes?: string | null
+  mensagem_id?: string | null
+  registrado_por?: string | null
+}
+
+export const registrarConsentimento = async (
+  supabase: SupabaseClient,
+  registro: RegistroConsentimento
+): Promise<void> => {
+  const { error } = await supabase
+    .from('lead_consentimentos')
+    .insert(registro)
+
+  if (error) {
+    throw new Error(`Erro ao registrar consentimento: ${error.message}`)
+  }
+}
+
+/**
+ * Retorna os ids (dentre os informados) dos leads com opt-out no canal.
+ * Consulta em lotes para não estourar o tamanho da URL do filtro "in".
+ */
+export const buscarLeadsComOptOut = async (
+  supabase: SupabaseClient,
+  leadIds: string[],
+  canal: CanalConsentimento = 'whatsapp'
+): Promise<Set<string>> => {
+  const comOptOut = new Set<string>()
+
+  for (let i = 0; i < leadIds.length; i += 200) {
+    const { data, error } = await supabase
+      .from('lead_consentimento_atual')
+      .select('lead_id')
+      .in('lead_id', leadIds.slice(i, i + 200))
+      .eq('canal', canal)
+      .eq('status', 'revogado')
+
+    if (error) {
+      throw new Error(`Erro ao buscar consentimentos: ${error.message}`)
+    }
+
+    (data || []).forEach((consentimento: { lead_id: string }) => comOptOut.add(consentimento.lead_id))
+  }
+
+  return comOptOut
+}
+
+export const leadComOptOut = async (
+  supabase: SupabaseClient,
+  leadId: string,
+  canal: CanalConsentimento = 'whatsapp'
+): Promise<boolean> => {
+  const comOptOut = await buscarLeadsComOptOut(supabase, [leadId], canal)
+  return comOptOut.has(leadId)
+}
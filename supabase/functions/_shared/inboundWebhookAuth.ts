@@ -0,0 +1,160 @@
+/**
+ * Autenticação dos webhooks de entrada (n8n -> CRM) com segredo por clínica
+ *
+ * O que faz:
+ * - Identifica a clínica pela claim "clinica_id" do JWT ou pelo nome da instância
+ *   Evolution ("instance" no corpo ou header x-evolution-instance), nunca só pelo corpo
+ * - Valida o JWT (HS256) com o segredo da clínica (clinicas.inbound_webhook_secret)
+ *   ou com o segredo anterior enquanto a rotação estiver no período de transição
+ * - Clínicas que ainda não geraram segredo continuam aceitando o segredo global
+ *   EVOLUTION_API_KEY (modo legado) até gerarem o primeiro segredo; também nesse modo
+ *   a claim clinica_id ou a instância é obrigatória
+ * - Recusa corpo com clinica_id diferente da clínica autenticada
+ * - Registra em inbound_webhook_rejections as recusas de requisições em que a clínica foi
+ *   identificada; as demais (sem token, clínica desconhecida) ficam só no log da função,
+ *   para que chamadas anônimas não encham a tabela
+ *
+ * Onde é usado:
+ * - receive-message e receive-message-status
+ * - get-available-slots, quando chamado pelo fluxo de IA do n8n
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import * as djwt from "https://deno.land/x/djwt@v2.7/mod.ts"
+
+interface ClinicaSegredos {
+  id: string
+  evolution_instance_name: string | null
+  inbound_webhook_secret: string | null
+  inbound_webhook_secret_previous: string | null
+  inbound_webhook_secret_previous_expires_at: string | null
+}
+
+export type InboundAuthResult =
+  | { ok: true; clinicaId: string; legado: boolean }
+  | { ok: false; status: number; error: string }
+
+const COLUNAS_CLINICA = 'id, evolution_instance_name, inbound_webhook_secret, inbound_webhook_secret_previous, inbound_webhook_secret_previous_expires_at'
+
+/**
+ * Verifica o token com um segredo; retorna false em vez de lançar erro
+ */
+const tokenValido = async (token: string, secret: string): Promise<boolean> => {
+  try {
+    const key = await djwt.importKey(new TextEncoder().encode(secret), "HS256")
+    await djwt.verify(token, key)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Lê a claim clinica_id sem validar a assinatura (só para escolher o segredo)
+ */
+const clinicaIdDoToken = (token: string): string | null => {
+  try {
+    const [, payload] = djwt.decode(token)
+    const clinicaId = (payload as Record<string, unknown>)?.clinica_id
+    return typeof clinicaId === 'string' ? clinicaId : null
+  } catch {
+    return null
+  }
+}
+
+export const autenticarWebhookDeEntrada = async (
+  supabaseClient: SupabaseClient,
+  req: Request,
+  body: Record<string, unknown>,
+  funcao: string
+): Promise<InboundAuthResult> => {
+  const instanceName = (typeof body.instance === 'string' && body.instance)
+    || req.headers.get('x-evolution-instance')
+    || null
+  const clinicaIdInformado = typeof body.clinica_id === 'string' ? body.clinica_id : null
+
+  const recusar = async (status: number, motivo: string, clinicaId: string | null): Promise<InboundAuthResult> => {
+    console.error(`❌ [${funcao}] Requisição recusada:`, { motivo, clinicaId, instanceName, clinicaIdInformado })
+
+    if (!clinicaId) {
+      return { ok: false, status, error: motivo }
+    }
+
+    const { error } = await supabaseClient
+      .from('inbound_webhook_rejections')
+      .insert({
+        clinica_id: clinicaId,
+        funcao,
+        motivo,
+        instance_name: instanceName,
+        clinica_id_informado: clinicaIdInformado,
+        ip_origem: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      })
+
+    if (error) {
+      console.error(`⚠️ [${funcao}] Erro ao registrar requisição recusada:`, error)
+    }
+
+    return { ok: false, status, error: motivo }
+  }
+
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return recusar(401, 'Token de autorização obrigatório', null)
+  }
+
+  const token = authHeader.split(' ')[1]
+
+  // 1. Identificar a clínica pelo token ou pela instância Evolution
+  let clinica: ClinicaSegredos | null = null
+  const clinicaIdToken = clinicaIdDoToken(token)
+
+  if (clinicaIdToken) {
+    const { data } = await supabaseClient
+      .from('clinicas')
+      .select(COLUNAS_CLINICA)
+      .eq('id', clinicaIdToken)
+      .maybeSingle()
+    clinica = data
+  } else if (instanceName) {
+    const { data } = await supabaseClient
+      .from('clinicas')
+      .select(COLUNAS_CLINICA)
+      .eq('evolution_instance_name', instanceName)
+      .maybeSingle()
+    clinica = data
+  }
+
+  // 2. Validar a assinatura com o segredo da clínica
+  if (clinica?.inbound_webhook_secret) {
+    const anteriorValido = !!clinica.inbound_webhook_secret_previous
+      && !!clinica.inbound_webhook_secret_previous_expires_at
+      && new Date(clinica.inbound_webhook_secret_previous_expires_at) > new Date()
+
+    const assinaturaValida = await tokenValido(token, clinica.inbound_webhook_secret)
+      || (anteriorValido && await tokenValido(token, clinica.inbound_webhook_secret_previous!))
+
+    if (!assinaturaValida) {
+      return recusar(403, 'Token de autorização inválido', clinica.id)
+    }
+  } else {
+    // Modo legado: segredo global enquanto a clínica não gerar o seu
+    const secretGlobal = Deno.env.get('EVOLUTION_API_KEY')
+    if (!secretGlobal || !(await tokenValido(token, secretGlobal))) {
+      return recusar(403, 'Token de autorização inválido', clinica?.id || null)
+    }
+  }
+
+  // O segredo global é o mesmo para todas as clínicas: sem a claim ou a instância não há
+  // como saber de qual clínica é a requisição, e o clinica_id do corpo não é confiável
+  if (!clinica) {
+    return recusar(403, 'Não foi possível identificar a clínica pelo token ou pela instância', null)
+  }
+
+  // 3. O corpo não pode apontar para outra clínica
+  if (clinicaIdInformado && clinicaIdInformado !== clinica.id) {
+    return recusar(403, 'clinica_id do corpo não corresponde à clínica autenticada', clinica.id)
+  }
+
+  return { ok: true, clinicaId: clinica.id, legado: !clinica.inbound_webhook_secret }
+}
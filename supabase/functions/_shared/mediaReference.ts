@@ -0,0 +1,81 @@
+/**
+ * Referência interna para mídias privadas do chat
+ *
+ * O que faz:
+ * - chat_mensagens.anexo_url guarda uma referência em vez de uma URL pública:
+ *   "minio://{bucket}/{chave}" para as mídias enviadas pelo CRM (MinIO) e
+ *   "storage://chat-media/{caminho}" para as recebidas dos pacientes (Supabase Storage)
+ * - Quem precisa exibir ou enviar a mídia troca a referência por uma URL assinada
+ *   (get-crm-media-url no CRM; send-webhook/send-instagram-webhook para o n8n)
+ *
+ * Sem dependências externas: o arquivo é importado tanto pelo Deno quanto pelo Vite.
+ */
+
+export const PREFIXO_REFERENCIA_MIDIA = 'minio://'
+export const PREFIXO_REFERENCIA_STORAGE = 'storage://'
+
+// Bucket privado do Supabase Storage com a mídia recebida: inbound/{clinica_id}/{lead_id}/{arquivo}
+export const BUCKET_MIDIA_RECEBIDA = 'chat-media'
+
+export interface ReferenciaMidia {
+  bucket: string
+  chave: string
+}
+
+export const criarReferenciaMidia = (bucket: string, chave: string): string =>
+  `${PREFIXO_REFERENCIA_MIDIA}${bucket}/${chave}`
+
+export const criarReferenciaStorage = (bucket: string, caminho: string): string =>
+  `${PREFIXO_REFERENCIA_STORAGE}${bucket}/${caminho}`
+
+export const isReferenciaMidia = (valor: string | null | undefined): valor is string =>
+  !!valor && valor.startsWith(PREFIXO_REFERENCIA_MIDIA)
+
+export const isReferenciaStorage = (valor: string | null | undefined): valor is string =>
+  !!valor && valor.startsWith(PREFIXO_REFERENCIA_STORAGE)
+
+/**
+ * A mídia só é exibida por URL assinada (get-crm-media-url)?
+ */
+export const precisaUrlAssinada = (valor: string | null | undefined): valor is string =>
+  isReferenciaMidia(valor) || isReferenciaStorage(valor)
+
+/**
+ * A chave não pode ter segmentos vazios, "." ou "..": a URL do objeto resolveria o caminho
+ * e "clinicas/{propria}/../{outra}/..." apontaria para a mídia de outra clínica.
+ */
+export const chaveObjetoValida = (chave: string): boolean =>
+  !chave.includes('\\') &&
+  chave.split('/').every((segmento) => segmento !== '' && segmento !== '.' && segmento !== '..')
+
+const lerReferencia = (valor: string, prefixo: string): ReferenciaMidia | null => {
+  const caminho = valor.slice(prefixo.length)
+  const separador = caminho.indexOf('/')
+  if (separador <= 0 || separador === caminho.length - 1) return null
+
+  const chave = caminho.slice(separador + 1)
+  if (!chaveObjetoValida(chave)) return null
+
+  return { bucket: caminho.slice(0, separador), chave }
+}
+
+/**
+ * Lê uma referência "minio://bucket/chave". Retorna null para URLs comuns e chaves inválidas.
+ */
+export const lerReferenciaMidia = (valor: string | null | undefined): ReferenciaMidia | null =>
+  isReferenciaMidia(valor) ? lerReferencia(valor, PREFIXO_REFERENCIA_MIDIA) : null
+
+/**
+ * Lê uma referência "storage://bucket/caminho". Retorna null para URLs comuns e caminhos inválidos.
+ */
+export const lerReferenciaStorage = (valor: string | null | undefined): ReferenciaMidia | null =>
+  isReferenciaStorage(valor) ? lerReferencia(valor, PREFIXO_REFERENCIA_STORAGE) : null
+
+/**
+ * Clínica dona de uma mídia recebida ("inbound/{clinica_id}/..."), ou null se o caminho
+ * não seguir essa estrutura
+ */
+export const obterClinicaDaMidiaRecebida = (caminho: string): string | null => {
+  const [pasta, clinicaId] = caminho.split('/')
+  return pasta === 'inbound' && clinicaId ? clinicaId : null
+}
@@ -0,0 +1,219 @@
+/**
+ * Armazenamento privado de mídias do CRM no MinIO
+ *
+ * O que faz:
+ * - Lê a configuração do MinIO das variáveis de ambiente
+ * - Valida tipo (MIME declarado e assinatura do arquivo) e tamanho das mídias
+ * - Monta a chave do objeto por clínica e lead
+ * - Gera URLs de download assinadas e com validade para referências "minio://"
+ *
+ * Onde é usado:
+ * - send-crm-media-to-minio (upload das mídias enviadas pelo atendente)
+ * - get-crm-media-url (URLs assinadas para exibição no CRM)
+ * - Fila de envio (outboundQueue.ts), que troca as referências do payload por URLs assinadas
+ */
+
+import { gerarUrlDownload, type S3Config } from './s3Client.ts'
+import { chaveObjetoValida, isReferenciaMidia, lerReferenciaMidia } from './mediaReference.ts'
+
+// Validade das URLs exibidas no CRM e das enviadas ao n8n (que cobre as novas tentativas da fila)
+export const VALIDADE_URL_CRM_SEGUNDOS = 60 * 60
+export const VALIDADE_URL_WEBHOOK_SEGUNDOS = 24 * 60 * 60
+
+interface TipoMidiaPermitido {
+  extensao: string
+  tamanhoMaximoBytes: number
+  // Assinatura do arquivo ("magic bytes"): deslocamento e bytes esperados
+  assinaturas: { deslocamento: number; bytes: number[] }[]
+}
+
+const MB = 1024 * 1024
+
+// Limites alinhados aos do WhatsApp para imagens (5 MB) e áudios (16 MB)
+const TIPOS_PERMITIDOS: Record<string, TipoMidiaPermitido> = {
+  'image/jpeg': { extensao: 'jpg', tamanhoMaximoBytes: 5 * MB, assinaturas: [{ deslocamento: 0, bytes: [0xff, 0xd8, 0xff] }] },
+  'image/png': { extensao: 'png', tamanhoMaximoBytes: 5 * MB, assinaturas: [{ deslocamento: 0, bytes: [0x89, 0x50, 0x4e, 0x47] }] },
+  'image/webp': { extensao: 'webp', tamanhoMaximoBytes: 5 * MB, assinaturas: [{ deslocamento: 8, bytes: [0x57, 0x45, 0x42, 0x50] }] },
+  'image/gif': { extensao: 'gif', tamanhoMaximoBytes: 5 * MB, assinaturas: [{ deslocamento: 0, bytes: [0x47, 0x49, 0x46, 0x38] }] },
+  'audio/ogg': { extensao: 'ogg', tamanhoMaximoBytes: 16 * MB, assinaturas: [{ deslocamento: 0, bytes: [0x4f, 0x67, 0x67, 0x53] }] },
+  'audio/mpeg': {
+    extensao: 'mp3',
+    tamanhoMaximoBytes: 16 * MB,
+    assinaturas: [
+      { deslocamento: 0, bytes: [0x49, 0x44, 0x33] }, // ID3
+      { deslocamento: 0, bytes: [0xff, 0xfb] },
+      { deslocamento: 0, bytes: [0xff, 0xf3] },
+      { deslocamento: 0, bytes: [0xff, 0xf2] },
+    ],
+  },
+  'audio/wav': { extensao: 'wav', tamanhoMaximoBytes: 16 * MB, assinaturas: [{ deslocamento: 8, bytes: [0x57, 0x41, 0x56, 0x45] }] },
+  'audio/webm': { extensao: 'webm', tamanhoMaximoBytes: 16 * MB, assinaturas: [{ deslocamento: 0, bytes: [0x1a, 0x45, 0xdf, 0xa3] }] },
+  'audio/mp4': { extensao: 'm4a', tamanhoMaximoBytes: 16 * MB, assinaturas: [{ deslocamento: 4, bytes: [0x66, 0x74, 0x79, 0x70] }] },
+  'audio/aac': { extensao: 'aac', tamanhoMaximoBytes: 16 * MB, assinaturas: [{ deslocamento: 0, bytes: [0xff, 0xf1] }, { deslocamento: 0, bytes: [0xff, 0xf9] }] },
+  'audio/amr': { extensao: 'amr', tamanhoMaximoBytes: 16 * MB, assinaturas: [{ deslocamento: 0, bytes: [0x23, 0x21, 0x41, 0x4d, 0x52] }] },
+}
+
+// Variações de MIME enviadas por alguns navegadores
+const ALIASES_MIME: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'audio/mp3': 'audio/mpeg',
+  'audio/x-wav': 'audio/wav',
+  'audio/wave': 'audio/wav',
+  'audio/x-m4a': 'audio/mp4',
+}
+
+export interface MidiaValidada {
+  mimetype: string
+  extensao: string
+}
+
+/**
+ * Valida o MIME declarado, o tamanho e a assinatura do conteúdo.
+ * Lança um Error com mensagem amigável quando a mídia não é aceita.
+ */
+export const validarMidia = (bytes: Uint8Array, mimeDeclarado: string): MidiaValidada => {
+  // Remove parâmetros como "; codecs=opus"
+  const mimeBase = mimeDeclarado.split(';')[0].trim().toLowerCase()
+  const mimetype = ALIASES_MIME[mimeBase] || mimeBase
+  const tipo = TIPOS_PERMITIDOS[mimetype]
+
+  if (!tipo) {
+    throw new Error(`Tipo de arquivo não permitido: ${mimeDeclarado || 'desconhecido'}. Envie imagens (JPG, PNG, WEBP, GIF) ou áudios (OGG, MP3, WAV, WEBM, M4A, AAC, AMR).`)
+  }
+
+  if (bytes.length === 0) {
+    throw new Error('Arquivo vazio.')
+  }
+
+  if (bytes.length > tipo.tamanhoMaximoBytes) {
+    throw new Error(`Arquivo muito grande (${(bytes.length / MB).toFixed(1)} MB). O limite para ${mimetype} é ${tipo.tamanhoMaximoBytes / MB} MB.`)
+  }
+
+  const assinaturaConfere = tipo.assinaturas.some(({ deslocamento, bytes: esperado }) =>
+    esperado.every((byte, i) => bytes[deslocamento + i] === byte)
+  )
+
+  if (!assinaturaConfere) {
+    throw new Error(`O conteúdo do arquivo não corresponde ao tipo informado (${mimetype}).`)
+  }
+
+  return { mimetype, extensao: tipo.extensao }
+}
+
+/**
+ * Chave do objeto: clinicas/{clinicaId}/leads/{leadId}/{ano}/{mes}/{uuid}.{ext}
+ * O primeiro segmento após "clinicas/" identifica a clínica dona da mídia.
+ */
+export const montarChaveObjeto = (clinicaId: string, leadId: string, extensao: string): string => {
+  const agora = new Date()
+  const ano = agora.getUTCFullYear()
+  const mes = String(agora.getUTCMonth() + 1).padStart(2, '0')
+  return `clinicas/${clinicaId}/leads/${leadId}/${ano}/${mes}/${crypto.randomUUID()}.${extensao}`
+}
+
+/**
+ * Extrai o ID da clínica dona da mídia a partir da chave do objeto.
+ * Lê o caminho já normalizado (o mesmo que a URL assinada vai apontar), não a chave crua.
+ */
+export const obterClinicaDaChave = (chave: string): string | null => {
+  if (!chaveObjetoValida(chave)) return null
+
+  try {
+    const [raiz, clinicaId] = new URL(`https://midia.invalid/${chave}`).pathname
+      .split('/')
+      .slice(1)
+      .map(decodeURIComponent)
+    return raiz === 'clinicas' && clinicaId ? clinicaId : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Configuração do MinIO a partir das variáveis de ambiente. Retorna null se incompleta.
+ */
+export const obterConfigMinio = (): S3Config | null => {
+  const endpoint = Deno.env.get('MINIO_ENDPOINT')
+  const accessKey = Deno.env.get('MINIO_ACCESS_KEY')
+  const secretKey = Deno.env.get('MINIO_SECRET_KEY')
+
+  if (!endpoint || !accessKey || !secretKey) {
+    console.error('❌ [minio-storage] Variáveis de ambiente do MinIO não configuradas corretamente.')
+    console.error('- MINIO_ENDPOINT:', !!endpoint)
+    console.error('- MINIO_ACCESS_KEY:', !!accessKey)
+    console.error('- MINIO_SECRET_KEY:', !!secretKey)
+    return null
+  }
+
+  // MINIO_ENDPOINT pode vir só com o host (compatibilidade com MINIO_PORT/MINIO_USE_SSL)
+  let baseUrl = endpoint
+  if (!/^https?:\/\//.test(endpoint)) {
+    const protocolo = Deno.env.get('MINIO_USE_SSL') === 'true' ? 'https' : 'http'
+    const porta = Deno.env.get('MINIO_PORT') || '9000'
+    baseUrl = `${protocolo}://${endpoint}:${porta}`
+  }
+
+  return {
+    endpoint: baseUrl,
+    region: Deno.env.get('MINIO_REGION') || 'us-east-1',
+    accessKey,
+    secretKey,
+    bucket: Deno.env.get('MINIO_CHAT_MEDIA_BUCKET') || 'chat-media',
+  }
+}
+
+/**
+ * Endereço usado nas URLs assinadas. MINIO_PUBLIC_URL_PREFIX deve apontar para o mesmo
+ * MinIO (ex.: via proxy que preserve o header Host), pois o host faz parte da assinatura.
+ */
+const obterBaseUrlPublica = (config: S3Config): string =>
+  Deno.env.get('MINIO_PUBLIC_URL_PREFIX') || config.endpoint
+
+/**
+ * Troca uma referência "minio://" por uma URL assinada. URLs comuns são devolvidas sem alteração.
+ */
+export const resolverUrlMidia = async (
+  anexoUrl: string | null | undefined,
+  validadeSegundos: number
+): Promise<string | null> => {
+  if (!anexoUrl) return null
+
+  const referencia = lerReferenciaMidia(anexoUrl)
+  if (!referencia) return anexoUrl
+
+  const config = obterConfigMinio()
+  if (!config) {
+    throw new Error('MinIO não configurado para gerar URLs de mídia')
+  }
+
+  return gerarUrlDownload(
+    { ...config, bucket: referencia.bucket },
+    referencia.chave,
+    validadeSegundos,
+    obterBaseUrlPublica(config)
+  )
+}
+
+/**
+ * Percorre um payload (objetos, arrays e strings) trocando referências "minio://" por URLs assinadas.
+ * Usado pela fila de envio logo antes de cada tentativa, para que reenvios sempre levem URLs válidas.
+ */
+export const resolverReferenciasMidia = async <T>(valor: T, validadeSegundos: number): Promise<T> => {
+  if (typeof valor === 'string') {
+    return (isReferenciaMidia(valor) ? await resolverUrlMidia(valor, validadeSegundos) : valor) as T
+  }
+
+  if (Array.isArray(valor)) {
+    return Promise.all(valor.map((item) => resolverReferenciasMidia(item, validadeSegundos))) as Promise<T>
+  }
+
+  if (valor && typeof valor === 'object') {
+    const resolvido: Record<string, unknown> = {}
+    for (const [chave, item] of Object.entries(valor)) {
+      resolvido[chave] = await resolverReferenciasMidia(item, validadeSegundos)
+    }
+    return resolvido as T
+  }
+
+  return valor
+}
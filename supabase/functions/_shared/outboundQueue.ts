@@ -0,0 +1,323 @@
+/**
+ * Fila persistente de envio de mensagens do CRM para o n8n (tabela outbound_message_queue)
+ *
+ * O que faz:
+ * - Grava o payload já montado de cada mensagem enviada (WhatsApp ou Instagram)
+ * - Envia para o webhook da clínica com JWT (mesmo esquema usado pelo n8n)
+ * - Em caso de falha, agenda nova tentativa com backoff exponencial
+ *   (30s, 1min, 2min, 4min... limitado a 1h) até max_tentativas
+ * - Depois da última tentativa o item vai para 'dead_letter' e a mensagem fica 'failed'
+ * - Registra cada tentativa em webhook_logs e atualiza chat_mensagens.status_entrega
+ * - Troca as referências de mídia privada ("minio://") por URLs assinadas a cada tentativa
+ * - Antes de cada tentativa confere o consentimento do lead: com opt-out no canal o item vai
+ *   para 'cancelled' e a mensagem fica 'failed', sem chegar ao webhook
+ *
+ * Onde é usado:
+ * - send-webhook e send-instagram-webhook (enfileiram e fazem a primeira tentativa)
+ * - process-outbound-queue (worker agendado que processa as novas tentativas)
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import * as djwt from "https://deno.land/x/djwt@v2.7/mod.ts"
+import { resolverReferenciasMidia, VALIDADE_URL_WEBHOOK_SEGUNDOS } from './minioStorage.ts'
+import { leadComOptOut } from './contactConsent.ts'
+
+export type CanalEnvio = 'whatsapp' | 'instagram'
+
+export interface OutboundQueueItem {
+  id: string
+  clinica_id: string
+  lead_id: string | null
+  mensagem_id: string | null
+  canal: CanalEnvio
+  webhook_url: string
+  payload: Record<string, unknown>
+  status: string
+  tentativas: number
+  max_tentativas: number
+}
+
+export interface ResultadoEnvio {
+  sucesso: boolean
+  status: 'sent' | 'pending' | 'dead_letter' | 'cancelled'
+  tentativas: number
+  statusCode: number
+  erro: string | null
+  proximaTentativaEm: string | null
+}
+
+const BACKOFF_BASE_SEGUNDOS = 30
+const BACKOFF_MAXIMO_SEGUNDOS = 60 * 60
+const TIMEOUT_ENVIO_MS = 30000
+const ERRO_OPT_OUT = 'Envio cancelado: o lead pediu para não receber mensagens (opt-out)'
+
+/**
+ * Data da próxima tentativa após N tentativas com falha
+ */
+export const calcularProximaTentativa = (tentativas: number): Date => {
+  const segundos = Math.min(BACKOFF_BASE_SEGUNDOS * Math.pow(2, Math.max(tentativas - 1, 0)), BACKOFF_MAXIMO_SEGUNDOS)
+  return new Date(Date.now() + segundos * 1000)
+}
+
+/**
+ * Grava o envio na fila. Se a mensagem já tiver um item (reenvio), ele é reaproveitado
+ * e volta para 'pending' com as tentativas zeradas.
+ */
+export const enfileirarEnvio = async (
+  supabaseClient: SupabaseClient,
+  dados: {
+    clinica_id: string
+    lead_id: string | null
+    mensagem_id: string | null
+    canal: CanalEnvio
+    webhook_url: string
+    payload: Record<string, unknown>
+  }
+): Promise<OutboundQueueItem> => {
+  const novoEnvio = {
+    ...dados,
+    status: 'pending',
+    tentativas: 0,
+    proxima_tentativa_em: new Date().toISOString(),
+    ultimo_erro: null,
+  }
+
+  if (dados.mensagem_id) {
+    const { data: existente } = await supabaseClient
+      .from('outbound_message_queue')
+      .select('id')
+      .eq('mensagem_id', dados.mensagem_id)
+      .maybeSingle()
+
+    if (existente) {
+      const { data, error } = await supabaseClient
+        .from('outbound_message_queue')
+        .update(novoEnvio)
+        .eq('id', existente.id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data as OutboundQueueItem
+    }
+  }
+
+  const { data, error } = await supabaseClient
+    .from('outbound_message_queue')
+    .insert(novoEnvio)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data as OutboundQueueItem
+}
+
+/**
+ * Marca o item como 'processing' se ainda estiver pendente.
+ * Retorna null quando outra execução já reservou o item.
+ */
+export const reservarItem = async (
+  supabaseClient: SupabaseClient,
+  itemId: string
+): Promise<OutboundQueueItem | null> => {
+  const { data, error } = await supabaseClient
+    .from('outbound_message_queue')
+    .update({ status: 'processing' })
+    .eq('id', itemId)
+    .eq('status', 'pending')
+    .select()
+
+  if (error) throw error
+  return (data?.[0] as OutboundQueueItem) || null
+}
+
+/**
+ * Cancela um item reservado cujo lead revogou o consentimento depois de enfileirado
+ */
+const cancelarItemOptOut = async (
+  supabaseClient: SupabaseClient,
+  item: OutboundQueueItem
+): Promise<ResultadoEnvio> => {
+  console.log(`🚫 [outbound-queue] Item ${item.id} cancelado: lead ${item.lead_id} com opt-out no ${item.canal}`)
+
+  const { error: queueError } = await supabaseClient
+    .from('outbound_message_queue')
+    .update({ status: 'cancelled', ultimo_erro: ERRO_OPT_OUT })
+    .eq('id', item.id)
+
+  if (queueError) {
+    console.error('⚠️ [outbound-queue] Erro ao cancelar item da fila:', queueError)
+  }
+
+  if (item.mensagem_id) {
+    const { error: statusError } = await supabaseClient
+      .from('chat_mensagens')
+      .update({
+        status_entrega: 'failed',
+        status_entrega_em: new Date().toISOString(),
+        erro_entrega: ERRO_OPT_OUT,
+      })
+      .eq('id', item.mensagem_id)
+      .or('status_entrega.is.null,status_entrega.in.(queued,failed)')
+
+    if (statusError) {
+      console.error('⚠️ [outbound-queue] Erro ao atualizar status de entrega:', statusError)
+    }
+  }
+
+  return {
+    sucesso: false,
+    status: 'cancelled',
+    tentativas: item.tentativas,
+    statusCode: 0,
+    erro: ERRO_OPT_OUT,
+    proximaTentativaEm: null,
+  }
+}
+
+/**
+ * Faz uma tentativa de envio de um item reservado e registra o resultado
+ */
+export const processarItem = async (
+  supabaseClient: SupabaseClient,
+  item: OutboundQueueItem
+): Promise<ResultadoEnvio> => {
+  // O consentimento pode ter sido revogado entre o enfileiramento e esta tentativa
+  if (item.lead_id && await leadComOptOut(supabaseClient, item.lead_id, item.canal)) {
+    return cancelarItemOptOut(supabaseClient, item)
+  }
+
+  const tentativas = item.tentativas + 1
+  let statusCode = 0
+  let resposta = ''
+  let erro: string | null = null
+
+  try {
+    // Mídias privadas ficam no payload como "minio://"; cada tentativa leva uma URL assinada nova
+    const payloadEnvio = await resolverReferenciasMidia(item.payload, VALIDADE_URL_WEBHOOK_SEGUNDOS)
+
+    const secretKey = Deno.env.get('EVOLUTION_API_KEY') || 'default-secret'
+    const cryptoKey = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(secretKey),
+      { name: "HMAC", hash: "SHA-256" },
+      true,
+      ["sign", "verify"]
+    )
+    const jwt = await djwt.create(
+      { alg: "HS256", typ: "JWT" },
+      { clinica_id: item.clinica_id, exp: djwt.getNumericDate(60 * 60) },
+      cryptoKey
+    )
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), TIMEOUT_ENVIO_MS)
+
+    try {
+      const response = await fetch(item.webhook_url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${jwt}`,
+          'User-Agent': 'Supabase-Edge-Function/1.0',
+        },
+        body: JSON.stringify(payloadEnvio),
+        signal: controller.signal,
+      })
+
+      statusCode = response.status
+      resposta = await response.text()
+
+      if (!response.ok) {
+        erro = `HTTP ${statusCode}: ${resposta}`
+      }
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  } catch (envioError) {
+    erro = envioError.name === 'AbortError'
+      ? `Timeout: o webhook não respondeu em ${TIMEOUT_ENVIO_MS / 1000} segundos`
+      : `Erro de rede: ${envioError.message}`
+  }
+
+  const sucesso = !erro
+  const esgotado = !sucesso && tentativas >= item.max_tentativas
+  const status: ResultadoEnvio['status'] = sucesso ? 'sent' : esgotado ? 'dead_letter' : 'pending'
+  const proximaTentativaEm = status === 'pending' ? calcularProximaTentativa(tentativas).toISOString() : null
+
+  if (sucesso) {
+    console.log(`✅ [outbound-queue] Item ${item.id} enviado na tentativa ${tentativas}`)
+  } else {
+    console.error(`❌ [outbound-queue] Item ${item.id} falhou (tentativa ${tentativas}/${item.max_tentativas}):`, erro)
+  }
+
+  const { error: queueError } = await supabaseClient
+    .from('outbound_message_queue')
+    .update({
+      status,
+      tentativas,
+      ultimo_status_code: statusCode || null,
+      ultimo_erro: erro,
+      resposta: sucesso ? resposta : null,
+      enviado_em: sucesso ? new Date().toISOString() : null,
+      ...(proximaTentativaEm && { proxima_tentativa_em: proximaTentativaEm }),
+    })
+    .eq('id', item.id)
+
+  if (queueError) {
+    console.error('⚠️ [outbound-queue] Erro ao atualizar item da fila:', queueError)
+  }
+
+  // Registrar log do webhook para auditoria
+  if (item.lead_id && item.mensagem_id) {
+    await supabaseClient
+      .from('webhook_logs')
+      .insert({
+        clinica_id: item.clinica_id,
+        lead_id: item.lead_id,
+        mensagem_id: item.mensagem_id,
+        webhook_url: item.webhook_url,
+        canal: item.canal,
+        payload: item.payload,
+        status_code: statusCode,
+        resposta: sucesso ? resposta : null,
+        erro,
+        tentativas,
+      })
+  }
+
+  // Atualizar status de entrega da mensagem (confirmações seguintes chegam pela receive-message-status)
+  if (item.mensagem_id) {
+    // O n8n pode devolver o key.id gerado pela Evolution API, usado nas confirmações de leitura
+    let providerMessageId: string | null = null
+    if (sucesso) {
+      try {
+        const respostaJson = JSON.parse(resposta)
+        providerMessageId = respostaJson?.key?.id || respostaJson?.provider_message_id || null
+      } catch {
+        // Resposta do n8n não é JSON; confirmações usarão o ID do CRM (key.id enviado)
+      }
+    }
+
+    // Enquanto houver novas tentativas a mensagem continua 'queued'
+    const statusEntrega = sucesso ? 'sent' : esgotado ? 'failed' : 'queued'
+
+    const { error: statusError } = await supabaseClient
+      .from('chat_mensagens')
+      .update({
+        status_entrega: statusEntrega,
+        status_entrega_em: new Date().toISOString(),
+        erro_entrega: erro,
+        ...(providerMessageId && { provider_message_id: providerMessageId }),
+      })
+      .eq('id', item.mensagem_id)
+      // Não sobrescrever confirmações que já chegaram (delivered/read)
+      .or('status_entrega.is.null,status_entrega.in.(queued,failed)')
+
+    if (statusError) {
+      console.error('⚠️ [outbound-queue] Erro ao atualizar status de entrega:', statusError)
+    }
+  }
+
+  return { sucesso, status, tentativas, statusCode, erro, proximaTentativaEm }
+}
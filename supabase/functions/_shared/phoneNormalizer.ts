@@ -0,0 +1,69 @@
+/**
+ * Normalização canônica de telefones (E.164)
+ *
+ * O que faz:
+ * - Converte qualquer variação de um número para o formato E.164 (+5511999990000)
+ * - Assume o Brasil (+55) quando o número vem sem código do país
+ * - Remove prefixos de discagem (00 internacional, 0 de operadora/DDD)
+ * - Insere o nono dígito em celulares brasileiros antigos de 8 dígitos,
+ *   para que "551199990000" e "5511999990000" sejam o mesmo contato
+ *
+ * Onde é usado:
+ * - Edge Functions (receive-message) para localizar o lead do remetente
+ * - Frontend, reexportado por src/components/chat/utils/phoneFormatter.ts
+ * - A função SQL public.normalizar_telefone replica estas mesmas regras
+ *   para preencher leads.telefone_normalizado; mantenha as duas em sincronia
+ *
+ * Sem dependências externas: o arquivo é importado tanto pelo Deno quanto pelo Vite.
+ */
+
+/**
+ * Normaliza um telefone para E.164. Retorna null quando não há dígitos suficientes.
+ */
+export const normalizarTelefone = (telefone: string | null | undefined): string | null => {
+  if (!telefone) return null
+
+  let digitos = telefone.replace(/\D/g, '')
+
+  // "+" ou "00" indicam que o número já traz o código do país
+  const temCodigoPais = telefone.trim().startsWith('+') || digitos.startsWith('00')
+
+  // Prefixo internacional (00) e prefixo de operadora/DDD (0)
+  if (digitos.startsWith('00')) {
+    digitos = digitos.slice(2)
+  } else if (digitos.startsWith('0')) {
+    digitos = digitos.slice(1)
+  }
+
+  if (digitos.length < 10) return null
+
+  // Número nacional brasileiro sem código do país: DDD + 8 ou 9 dígitos
+  if (!temCodigoPais && (digitos.length === 10 || digitos.length === 11)) {
+    digitos = `55${digitos}`
+  }
+
+  if (digitos.startsWith('55') && (digitos.length === 12 || digitos.length === 13)) {
+    const ddd = digitos.slice(2, 4)
+    let assinante = digitos.slice(4)
+
+    // Celular antigo sem o nono dígito (começa com 6, 7, 8 ou 9)
+    if (assinante.length === 8 && /^[6-9]/.test(assinante)) {
+      assinante = `9${assinante}`
+    }
+
+    return `+55${ddd}${assinante}`
+  }
+
+  return `+${digitos}`
+}
+
+/**
+ * Indica se dois telefones representam o mesmo número após a normalização
+ */
+export const mesmoTelefone = (
+  a: string | null | undefined,
+  b: string | null | undefined
+): boolean => {
+  const normalizadoA = normalizarTelefone(a)
+  return !!normalizadoA && normalizadoA === normalizarTelefone(b)
+}
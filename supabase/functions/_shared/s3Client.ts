@@ -0,0 +1,181 @@
+/**
+ * Cliente S3 mínimo (AWS Signature Version 4) para MinIO e serviços compatíveis
+ *
+ * O que faz:
+ * - Upload de objetos (PUT) com assinatura SigV4 no header Authorization
+ * - Geração de URLs de download assinadas e com validade (presigned GET)
+ *
+ * Usa apenas Web Crypto e fetch, sem SDK: funciona no Deno (Edge Functions)
+ * e no Node 20, o que permite testar contra um MinIO local.
+ * As URLs usam o estilo "path" (https://host/bucket/chave), padrão do MinIO.
+ */
+
+export interface S3Config {
+  endpoint: string // ex.: https://minio.exemplo.com:9000
+  region: string
+  accessKey: string
+  secretKey: string
+  bucket: string
+}
+
+const ALGORITMO = 'AWS4-HMAC-SHA256'
+const SERVICO = 's3'
+
+// Validade máxima permitida pela SigV4 para URLs assinadas (7 dias)
+export const VALIDADE_MAXIMA_URL_SEGUNDOS = 7 * 24 * 60 * 60
+
+const encoder = new TextEncoder()
+
+const paraHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('')
+
+const sha256Hex = async (dados: string | Uint8Array): Promise<string> =>
+  paraHex(await crypto.subtle.digest('SHA-256', typeof dados === 'string' ? encoder.encode(dados) : dados))
+
+const hmac = async (chave: ArrayBuffer | Uint8Array, mensagem: string): Promise<ArrayBuffer> => {
+  const cryptoKey = await crypto.subtle.importKey('raw', chave, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(mensagem))
+}
+
+// Codificação RFC 3986 exigida pela SigV4 (encodeURIComponent não codifica !'()*)
+const codificarRfc3986 = (valor: string): string =>
+  encodeURIComponent(valor).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+
+// Cada segmento da chave é codificado, preservando as barras
+const codificarCaminho = (caminho: string): string =>
+  caminho.split('/').map(codificarRfc3986).join('/')
+
+// 20250703T120000Z e 20250703
+const formatarDataAmz = (data: Date) => {
+  const amzDate = data.toISOString().replace(/[:-]|\.\d{3}/g, '')
+  return { amzDate, dataCurta: amzDate.slice(0, 8) }
+}
+
+const calcularAssinatura = async (
+  config: Pick<S3Config, 'region' | 'secretKey'>,
+  dataCurta: string,
+  stringParaAssinar: string
+): Promise<string> => {
+  const kData = await hmac(encoder.encode(`AWS4${config.secretKey}`), dataCurta)
+  const kRegiao = await hmac(kData, config.region)
+  const kServico = await hmac(kRegiao, SERVICO)
+  const kAssinatura = await hmac(kServico, 'aws4_request')
+  return paraHex(await hmac(kAssinatura, stringParaAssinar))
+}
+
+/**
+ * Assina uma URL de acesso temporário (query string SigV4).
+ * Exportada separadamente para permitir validação com os exemplos da documentação da AWS.
+ */
+export const assinarUrl = async (params: {
+  config: Pick<S3Config, 'region' | 'accessKey' | 'secretKey'>
+  metodo: string
+  url: URL
+  validadeSegundos: number
+  data?: Date
+}): Promise<string> => {
+  const { config, metodo, url, validadeSegundos } = params
+  const { amzDate, dataCurta } = formatarDataAmz(params.data || new Date())
+  const escopo = `${dataCurta}/${config.region}/${SERVICO}/aws4_request`
+
+  const query: Record<string, string> = {
+    'X-Amz-Algorithm': ALGORITMO,
+    'X-Amz-Credential': `${config.accessKey}/${escopo}`,
+    'X-Amz-Date': amzDate,
+    'X-Amz-Expires': String(Math.min(validadeSegundos, VALIDADE_MAXIMA_URL_SEGUNDOS)),
+    'X-Amz-SignedHeaders': 'host',
+  }
+
+  const queryCanonica = Object.keys(query)
+    .sort()
+    .map((chave) => `${codificarRfc3986(chave)}=${codificarRfc3986(query[chave])}`)
+    .join('&')
+
+  const requisicaoCanonica = [
+    metodo,
+    url.pathname,
+    queryCanonica,
+    `host:${url.host}\n`,
+    'host',
+    'UNSIGNED-PAYLOAD',
+  ].join('\n')
+
+  const stringParaAssinar = [ALGORITMO, amzDate, escopo, await sha256Hex(requisicaoCanonica)].join('\n')
+  const assinatura = await calcularAssinatura(config, dataCurta, stringParaAssinar)
+
+  return `${url.origin}${url.pathname}?${queryCanonica}&X-Amz-Signature=${assinatura}`
+}
+
+const montarUrlObjeto = (baseUrl: string, bucket: string, chave: string): URL =>
+  new URL(`${baseUrl.replace(/\/+$/, '')}/${codificarRfc3986(bucket)}/${codificarCaminho(chave)}`)
+
+/**
+ * Envia um objeto para o bucket (PUT Object)
+ */
+export const putObject = async (
+  config: S3Config,
+  chave: string,
+  corpo: Uint8Array,
+  contentType: string
+): Promise<void> => {
+  const url = montarUrlObjeto(config.endpoint, config.bucket, chave)
+  const { amzDate, dataCurta } = formatarDataAmz(new Date())
+  const escopo = `${dataCurta}/${config.region}/${SERVICO}/aws4_request`
+  const hashCorpo = await sha256Hex(corpo)
+
+  const headers: Record<string, string> = {
+    'content-type': contentType,
+    host: url.host,
+    'x-amz-content-sha256': hashCorpo,
+    'x-amz-date': amzDate,
+  }
+
+  const nomesHeaders = Object.keys(headers).sort()
+  const headersCanonicos = nomesHeaders.map((nome) => `${nome}:${headers[nome].trim()}\n`).join('')
+  const headersAssinados = nomesHeaders.join(';')
+
+  const requisicaoCanonica = [
+    'PUT',
+    url.pathname,
+    '',
+    headersCanonicos,
+    headersAssinados,
+    hashCorpo,
+  ].join('\n')
+
+  const stringParaAssinar = [ALGORITMO, amzDate, escopo, await sha256Hex(requisicaoCanonica)].join('\n')
+  const assinatura = await calcularAssinatura(config, dataCurta, stringParaAssinar)
+
+  // O header host é definido pelo próprio fetch a partir da URL (url.host omite a porta padrão)
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: {
+      'content-type': headers['content-type'],
+      'x-amz-content-sha256': hashCorpo,
+      'x-amz-date': amzDate,
+      Authorization: `${ALGORITMO} Credential=${config.accessKey}/${escopo}, SignedHeaders=${headersAssinados}, Signature=${assinatura}`,
+    },
+    body: corpo,
+  })
+
+  if (!response.ok) {
+    throw new Error(`S3 PUT ${response.status}: ${await response.text()}`)
+  }
+}
+
+/**
+ * Gera uma URL de download (GET) assinada e com validade.
+ * baseUrl permite assinar com o endereço público do MinIO quando ele difere do interno.
+ */
+export const gerarUrlDownload = (
+  config: S3Config,
+  chave: string,
+  validadeSegundos: number,
+  baseUrl: string = config.endpoint
+): Promise<string> =>
+  assinarUrl({
+    config,
+    metodo: 'GET',
+    url: montarUrlObjeto(baseUrl, config.bucket, chave),
+    validadeSegundos,
+  })
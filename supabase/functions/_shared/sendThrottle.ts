@@ -0,0 +1,94 @@
+/**
+ * Limites de envio dos follow-ups por clínica (clinicas.followup_limite_* e followup_intervalo_*)
+ *
+ * O que faz:
+ * - Calcula quantas mensagens a clínica ainda pode enviar agora, a partir dos envios do
+ *   último minuto, hora e dia (janelas móveis)
+ * - Sorteia o intervalo entre duas mensagens da mesma clínica
+ * - Calcula a partir de quando a próxima mensagem pode sair, considerando o último envio
+ *
+ * Onde é usado:
+ * - process-followup-campaigns, no despacho das etapas vencidas
+ * - Modal de limites de envio do frontend (valores padrão e estimativa de vazão)
+ *
+ * Sem dependências externas: o arquivo é importado tanto pelo Deno quanto pelo Vite.
+ */
+
+export interface LimitesEnvio {
+  porMinuto: number
+  porHora: number
+  porDia: number
+  intervaloMinSegundos: number
+  intervaloMaxSegundos: number
+}
+
+export interface EnviosRecentes {
+  ultimoMinuto: number
+  ultimaHora: number
+  ultimoDia: number
+  ultimoEnvioEm: string | null
+}
+
+export const LIMITES_ENVIO_PADRAO: LimitesEnvio = {
+  porMinuto: 4,
+  porHora: 60,
+  porDia: 300,
+  intervaloMinSegundos: 10,
+  intervaloMaxSegundos: 30,
+}
+
+const inteiroPositivo = (valor: unknown, padrao: number, minimo: number) => {
+  const numero = Math.floor(Number(valor))
+  return Number.isFinite(numero) && numero >= minimo ? numero : padrao
+}
+
+// Lê as colunas de clinicas, usando o padrão para valores ausentes ou inválidos
+export const normalizarLimitesEnvio = (clinica: {
+  followup_limite_por_minuto?: number | null
+  followup_limite_por_hora?: number | null
+  followup_limite_por_dia?: number | null
+  followup_intervalo_min_segundos?: number | null
+  followup_intervalo_max_segundos?: number | null
+} | null | undefined): LimitesEnvio => {
+  const intervaloMinSegundos = inteiroPositivo(
+    clinica?.followup_intervalo_min_segundos, LIMITES_ENVIO_PADRAO.intervaloMinSegundos, 0
+  )
+
+  return {
+    porMinuto: inteiroPositivo(clinica?.followup_limite_por_minuto, LIMITES_ENVIO_PADRAO.porMinuto, 1),
+    porHora: inteiroPositivo(clinica?.followup_limite_por_hora, LIMITES_ENVIO_PADRAO.porHora, 1),
+    porDia: inteiroPositivo(clinica?.followup_limite_por_dia, LIMITES_ENVIO_PADRAO.porDia, 1),
+    intervaloMinSegundos,
+    intervaloMaxSegundos: Math.max(
+      intervaloMinSegundos,
+      inteiroPositivo(clinica?.followup_intervalo_max_segundos, LIMITES_ENVIO_PADRAO.intervaloMaxSegundos, 0)
+    ),
+  }
+}
+
+// Quantas mensagens ainda cabem nas três janelas
+export const calcularOrcamentoEnvio = (limites: LimitesEnvio, envios: EnviosRecentes): number =>
+  Math.max(0, Math.min(
+    limites.porMinuto - envios.ultimoMinuto,
+    limites.porHora - envios.ultimaHora,
+    limites.porDia - envios.ultimoDia
+  ))
+
+// Intervalo aleatório (ms) entre duas mensagens, para o envio não parecer automatizado
+export const sortearIntervaloEnvio = (limites: LimitesEnvio, aleatorio: () => number = Math.random): number => {
+  const { intervaloMinSegundos: min, intervaloMaxSegundos: max } = limites
+  return Math.round((min + aleatorio() * (max - min)) * 1000)
+}
+
+// Instante (ms) a partir do qual a próxima mensagem pode sair, respeitando o intervalo mínimo
+export const primeiroEnvioPermitido = (limites: LimitesEnvio, ultimoEnvioEm: string | null, agora = Date.now()): number => {
+  if (!ultimoEnvioEm) return agora
+  return Math.max(agora, new Date(ultimoEnvioEm).getTime() + limites.intervaloMinSegundos * 1000)
+}
+
+// Mensagens por hora que os limites permitem, na prática (o menor entre limite e intervalo médio)
+export const estimarVazaoPorHora = (limites: LimitesEnvio): number => {
+  const intervaloMedio = (limites.intervaloMinSegundos + limites.intervaloMaxSegundos) / 2
+  const porIntervalo = intervaloMedio > 0 ? Math.floor(3600 / intervaloMedio) : Infinity
+  return Math.min(limites.porHora, limites.porMinuto * 60, porIntervalo, limites.porDia)
+}
@@ -0,0 +1,282 @@
+/**
+ * Motor de templates das mensagens do CRM (follow-up e respostas prontas)
+ *
+ * Sintaxe:
+ * - Variável: {nome}
+ * - Variável com valor alternativo quando vazia: {servico_interesse|nossos serviços}
+ * - Condicional: {#se ultimo_agendamento}Sua última consulta foi em {ultimo_agendamento}.{/se}
+ * - Condicional com senão: {#se servico_interesse}...{senao}...{/se}
+ * - Condicional negada: {#se !email}...{/se}
+ *
+ * Regras:
+ * - Variáveis desconhecidas ficam no texto como foram escritas (o editor avisa antes de salvar)
+ * - Variáveis conhecidas sem valor usam o valor alternativo, o padrão do catálogo ou ficam vazias
+ *
+ * Onde é usado:
+ * - send-followup-webhook, para montar o conteúdo enviado ao n8n
+ * - process-appointment-reminders, para os lembretes de agendamento (variáveis do grupo 'agendamento')
+ * - Frontend: editor de templates (validação e prévia), FollowupButton e respostas prontas do chat
+ *
+ * Sem dependências externas: o arquivo é importado tanto pelo Deno quanto pelo Vite.
+ */
+
+import { FUSO_HORARIO_PADRAO, fusoHorarioValido } from './clinicSchedule.ts'
+
+export type GrupoVariavelTemplate = 'lead' | 'clinica' | 'followup' | 'agendamento'
+
+export interface VariavelTemplate {
+  nome: string
+  descricao: string
+  grupo: GrupoVariavelTemplate
+  exemplo: string
+  padrao?: string // Usado quando a variável não tem valor e não há alternativo no template
+}
+
+export type ContextoTemplate = Record<string, string | number | null | undefined>
+
+export interface ResultadoValidacaoTemplate {
+  valido: boolean
+  erros: string[]
+  variaveisDesconhecidas: string[]
+}
+
+// Catálogo de variáveis disponíveis nos templates
+export const VARIAVEIS_TEMPLATE: VariavelTemplate[] = [
+  { nome: 'nome', descricao: 'Nome do lead', grupo: 'lead', exemplo: 'Maria Silva', padrao: 'Cliente' },
+  { nome: 'primeiro_nome', descricao: 'Primeiro nome do lead', grupo: 'lead', exemplo: 'Maria', padrao: 'Cliente' },
+  { nome: 'telefone', descricao: 'Telefone do lead', grupo: 'lead', exemplo: '(11) 99999-0000' },
+  { nome: 'email', descricao: 'E-mail do lead', grupo: 'lead', exemplo: 'maria@email.com' },
+  { nome: 'servico_interesse', descricao: 'Serviço de interesse do lead', grupo: 'lead', exemplo: 'Limpeza de pele' },
+  { nome: 'origem_lead', descricao: 'Origem do lead', grupo: 'lead', exemplo: 'Instagram' },
+  { nome: 'etapa_lead', descricao: 'Etapa do lead no funil (coluna do kanban)', grupo: 'lead', exemplo: 'Em negociação' },
+  { nome: 'ultimo_agendamento', descricao: 'Data do último agendamento', grupo: 'lead', exemplo: '15/06/2025' },
+  { nome: 'nome_clinica', descricao: 'Nome da clínica', grupo: 'clinica', exemplo: 'Clínica Bem Estar', padrao: 'Clínica' },
+  { nome: 'endereco_clinica', descricao: 'Endereço da clínica', grupo: 'clinica', exemplo: 'Rua das Flores, 123' },
+  { nome: 'telefone_clinica', descricao: 'Telefone da clínica', grupo: 'clinica', exemplo: '(11) 3333-0000' },
+  { nome: 'cidade_clinica', descricao: 'Cidade da clínica', grupo: 'clinica', exemplo: 'São Paulo' },
+  { nome: 'campanha', descricao: 'Nome da campanha de follow-up', grupo: 'followup', exemplo: 'Reativação' },
+  { nome: 'etapa', descricao: 'Número da etapa do follow-up sendo enviada (1, 2, 3...); para a etapa do funil use {etapa_lead}', grupo: 'followup', exemplo: '2' },
+  { nome: 'total_etapas', descricao: 'Total de etapas da sequência', grupo: 'followup', exemplo: '3' },
+  { nome: 'sequencia', descricao: 'Número de sequência do template', grupo: 'followup', exemplo: '2' },
+  { nome: 'procedimento', descricao: 'Título do agendamento', grupo: 'agendamento', exemplo: 'Limpeza de pele', padrao: 'consulta' },
+  { nome: 'data_agendamento', descricao: 'Data do agendamento', grupo: 'agendamento', exemplo: '21/07/2025' },
+  { nome: 'hora_agendamento', descricao: 'Horário do agendamento', grupo: 'agendamento', exemplo: '09:30' },
+  { nome: 'dia_semana_agendamento', descricao: 'Dia da semana do agendamento', grupo: 'agendamento', exemplo: 'segunda-feira' },
+  { nome: 'profissional', descricao: 'Profissional do agendamento', grupo: 'agendamento', exemplo: 'Dra. Ana' },
+  { nome: 'agendamento_confirmado', descricao: 'Preenchida quando o paciente já confirmou (use em {#se})', grupo: 'agendamento', exemplo: '' },
+]
+
+// Valores de exemplo para a prévia do editor
+export const CONTEXTO_EXEMPLO: ContextoTemplate = Object.fromEntries(
+  VARIAVEIS_TEMPLATE.map((variavel) => [variavel.nome, variavel.exemplo])
+)
+
+type NoTemplate =
+  | { tipo: 'texto'; valor: string }
+  | { tipo: 'variavel'; nome: string; alternativo: string | null; original: string }
+  | { tipo: 'condicao'; nome: string; negada: boolean; entao: NoTemplate[]; senao: NoTemplate[] }
+
+type NoCondicao = Extract<NoTemplate, { tipo: 'condicao' }>
+
+// {#se nome}, {#se !nome}, {senao}, {/se}, {nome} e {nome|alternativo}
+const REGEX_MARCADOR = /\{\s*(#se\s+!?\s*[a-zA-Z_]\w*|senao|\/se|[a-zA-Z_]\w*(?:\s*\|[^{}]*)?)\s*\}/g
+
+const analisarTemplate = (template: string): { nos: NoTemplate[]; erros: string[] } => {
+  const raiz: NoTemplate[] = []
+  const pilha: { no: NoCondicao; ramo: 'entao' | 'senao' }[] = []
+  const erros: string[] = []
+
+  const destino = (): NoTemplate[] => {
+    const topo = pilha[pilha.length - 1]
+    return topo ? topo.no[topo.ramo] : raiz
+  }
+
+  const regex = new RegExp(REGEX_MARCADOR.source, 'g')
+  let ultimoIndice = 0
+  let marcador: RegExpExecArray | null
+
+  while ((marcador = regex.exec(template)) !== null) {
+    if (marcador.index > ultimoIndice) {
+      destino().push({ tipo: 'texto', valor: template.slice(ultimoIndice, marcador.index) })
+    }
+    ultimoIndice = marcador.index + marcador[0].length
+
+    const conteudo = marcador[1].trim()
+
+    if (conteudo.startsWith('#se')) {
+      const expressao = conteudo.slice(3).trim()
+      const no: NoCondicao = {
+        tipo: 'condicao',
+        nome: expressao.replace(/^!\s*/, ''),
+        negada: expressao.startsWith('!'),
+        entao: [],
+        senao: [],
+      }
+      destino().push(no)
+      pilha.push({ no, ramo: 'entao' })
+    } else if (conteudo === 'senao') {
+      const topo = pilha[pilha.length - 1]
+      if (!topo || topo.ramo === 'senao') {
+        erros.push('{senao} fora de um bloco {#se}')
+        destino().push({ tipo: 'texto', valor: marcador[0] })
+      } else {
+        topo.ramo = 'senao'
+      }
+    } else if (conteudo === '/se') {
+      if (pilha.length === 0) {
+        erros.push('{/se} sem {#se} correspondente')
+        destino().push({ tipo: 'texto', valor: marcador[0] })
+      } else {
+        pilha.pop()
+      }
+    } else {
+      const [nome, ...alternativo] = conteudo.split('|')
+      destino().push({
+        tipo: 'variavel',
+        nome: nome.trim(),
+        alternativo: alternativo.length > 0 ? alternativo.join('|').trim() : null,
+        original: marcador[0],
+      })
+    }
+  }
+
+  if (ultimoIndice < template.length) {
+    destino().push({ tipo: 'texto', valor: template.slice(ultimoIndice) })
+  }
+
+  pilha.forEach(({ no }) => erros.push(`Bloco {#se ${no.negada ? '!' : ''}${no.nome}} sem {/se} de fechamento`))
+
+  return { nos: raiz, erros }
+}
+
+const VARIAVEIS_POR_NOME = new Map(VARIAVEIS_TEMPLATE.map((variavel) => [variavel.nome, variavel]))
+
+const valorPreenchido = (contexto: ContextoTemplate, nome: string): string => {
+  const valor = contexto[nome]
+  return valor === null || valor === undefined ? '' : String(valor).trim()
+}
+
+const renderizarNos = (nos: NoTemplate[], contexto: ContextoTemplate): string =>
+  nos
+    .map((no) => {
+      if (no.tipo === 'texto') return no.valor
+
+      if (no.tipo === 'condicao') {
+        const verdadeira = (valorPreenchido(contexto, no.nome) !== '') !== no.negada
+        return renderizarNos(verdadeira ? no.entao : no.senao, contexto)
+      }
+
+      const conhecida = VARIAVEIS_POR_NOME.get(no.nome)
+      if (!conhecida && !(no.nome in contexto)) return no.original
+
+      return valorPreenchido(contexto, no.nome) || no.alternativo || conhecida?.padrao || ''
+    })
+    .join('')
+
+/**
+ * Substitui variáveis e resolve condicionais do template
+ */
+export const renderizarTemplate = (template: string, contexto: ContextoTemplate): string =>
+  renderizarNos(analisarTemplate(template || '').nos, contexto)
+
+/**
+ * Valida a estrutura dos blocos e aponta variáveis fora do catálogo
+ */
+export const validarTemplate = (template: string): ResultadoValidacaoTemplate => {
+  const { nos, erros } = analisarTemplate(template || '')
+  const desconhecidas = new Set<string>()
+
+  const percorrer = (lista: NoTemplate[]) => {
+    lista.forEach((no) => {
+      if (no.tipo === 'texto') return
+      if (!VARIAVEIS_POR_NOME.has(no.nome)) desconhecidas.add(no.nome)
+      if (no.tipo === 'condicao') {
+        percorrer(no.entao)
+        percorrer(no.senao)
+      }
+    })
+  }
+  percorrer(nos)
+
+  const variaveisDesconhecidas = Array.from(desconhecidas)
+  variaveisDesconhecidas.forEach((nome) => erros.push(`Variável desconhecida: {${nome}}`))
+
+  return { valido: erros.length === 0, erros, variaveisDesconhecidas }
+}
+
+/**
+ * Monta o contexto das variáveis a partir dos dados do lead, da clínica, do follow-up e do agendamento.
+ * Datas são formatadas no fuso horário da clínica.
+ */
+export const montarContextoTemplate = (dados: {
+  lead?: {
+    nome?: string | null
+    telefone?: string | null
+    email?: string | null
+    servico_interesse?: string | null
+    origem_lead?: string | null
+    etapa_kanban?: { nome?: string | null } | null // Embed etapas_kanban(nome)
+  } | null
+  clinica?: {
+    nome?: string | null
+    endereco?: string | null
+    endereco_completo?: string | null
+    telefone?: string | null
+    cidade?: string | null
+    fuso_horario?: string | null
+  } | null
+  ultimoAgendamento?: string | null // data_inicio do último agendamento
+  campanha?: string | null
+  etapa?: number | null
+  totalEtapas?: number | null
+  sequencia?: number | null
+  agendamento?: {
+    titulo?: string | null
+    data_inicio: string
+    status?: string | null
+    profissional?: string | null
+  } | null
+}): ContextoTemplate => {
+  const { lead, clinica } = dados
+  const fusoHorario = fusoHorarioValido(clinica?.fuso_horario) ? clinica!.fuso_horario! : FUSO_HORARIO_PADRAO
+
+  const ultimoAgendamento = dados.ultimoAgendamento
+    ? new Intl.DateTimeFormat('pt-BR', {
+        timeZone: fusoHorario,
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+      }).format(new Date(dados.ultimoAgendamento))
+    : null
+
+  const agendamento = dados.agendamento
+  const formatarAgendamento = (opcoes: Intl.DateTimeFormatOptions) =>
+    agendamento
+      ? new Intl.DateTimeFormat('pt-BR', { timeZone: fusoHorario, ...opcoes }).format(new Date(agendamento.data_inicio))
+      : null
+
+  return {
+    nome: lead?.nome,
+    primeiro_nome: lead?.nome?.trim().split(/\s+/)[0],
+    telefone: lead?.telefone,
+    email: lead?.email,
+    servico_interesse: lead?.servico_interesse,
+    origem_lead: lead?.origem_lead,
+    etapa_lead: lead?.etapa_kanban?.nome,
+    ultimo_agendamento: ultimoAgendamento,
+    nome_clinica: clinica?.nome,
+    endereco_clinica: clinica?.endereco_completo || clinica?.endereco,
+    telefone_clinica: clinica?.telefone,
+    cidade_clinica: clinica?.cidade,
+    campanha: dados.campanha,
+    etapa: dados.etapa,
+    total_etapas: dados.totalEtapas,
+    sequencia: dados.sequencia,
+    procedimento: agendamento?.titulo,
+    data_agendamento: formatarAgendamento({ day: '2-digit', month: '2-digit', year: 'numeric' }),
+    hora_agendamento: formatarAgendamento({ hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }),
+    dia_semana_agendamento: formatarAgendamento({ weekday: 'long' }),
+    profissional: agendamento?.profissional,
+    agendamento_confirmado: agendamento?.status === 'confirmado' ? 'Sim' : null,
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Verificação de acesso de usuários do CRM às Edge Functions
+ *
+ * O que faz:
+ * - Valida o JWT do Supabase enviado pelo frontend (header Authorization)
+ * - Confere se o usuário pertence à clínica informada ou é admin
+ *
+ * Onde é usado:
+ * - send-crm-media-to-minio, get-crm-media-url e get-available-slots
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export interface UsuarioAutenticado {
+  userId: string
+  clinicaId: string | null
+  isAdmin: boolean
+}
+
+export type UserAccessResult =
+  | { ok: true; usuario: UsuarioAutenticado }
+  | { ok: false; status: number; error: string }
+
+/**
+ * Autentica o usuário pelo token. O cliente deve usar a Service Role Key.
+ */
+export const autenticarUsuario = async (
+  supabaseClient: SupabaseClient,
+  req: Request
+): Promise<UserAccessResult> => {
+  const authHeader = req.headers.get('Authorization')
+  if (!authHeader) {
+    return { ok: false, status: 401, error: 'Token de autorização não fornecido' }
+  }
+
+  const token = authHeader.replace('Bearer ', '')
+  const { data: userData, error: userError } = await supabaseClient.auth.getUser(token)
+
+  if (userError || !userData.user) {
+    return { ok: false, status: 401, error: 'Usuário não autenticado' }
+  }
+
+  const { data: perfil } = await supabaseClient
+    .from('user_profiles')
+    .select('clinica_id, profile_type')
+    .eq('user_id', userData.user.id)
+    .maybeSingle()
+
+  return {
+    ok: true,
+    usuario: {
+      userId: userData.user.id,
+      clinicaId: perfil?.clinica_id || null,
+      isAdmin: perfil?.profile_type === 'admin',
+    },
+  }
+}
+
+/**
+ * Indica se o usuário pode acessar os dados da clínica
+ */
+export const podeAcessarClinica = (usuario: UsuarioAutenticado, clinicaId: string): boolean =>
+  usuario.isAdmin || usuario.clinicaId === clinicaId
@@ -0,0 +1,36 @@
+/**
+ * Autorização das chamadas aos workers agendados (CRON e n8n)
+ *
+ * O que faz:
+ * - Aceita a Service Role Key no header Authorization ("Bearer ...") ou o segredo
+ *   CRON_SECRET no header x-cron-secret
+ * - Recusa qualquer outro chamador: a anon key (pública, embutida no frontend) passa pela
+ *   verificação de JWT do Supabase, mas não pode disparar os workers
+ *
+ * Onde é usado:
+ * - flush-message-buffer, process-outbound-queue e process-appointment-reminders
+ */
+
+/**
+ * Compara sem interromper no primeiro caractere diferente (evita ataque de tempo)
+ */
+const segredosIguais = (recebido: string, esperado: string): boolean => {
+  if (recebido.length !== esperado.length) return false
+
+  let diferenca = 0
+  for (let i = 0; i < esperado.length; i++) {
+    diferenca |= recebido.charCodeAt(i) ^ esperado.charCodeAt(i)
+  }
+  return diferenca === 0
+}
+
+export const chamadaInternaAutorizada = (req: Request): boolean => {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  const cronSecret = Deno.env.get('CRON_SECRET')
+
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '') || ''
+  const cronHeader = req.headers.get('x-cron-secret') || ''
+
+  return (!!serviceRoleKey && segredosIguais(token, serviceRoleKey))
+    || (!!cronSecret && segredosIguais(cronHeader, cronSecret))
+}
@@ -0,0 +1,303 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import * as djwt from "https://deno.land/x/djwt@v2.7/mod.ts"
+import { chamadaInternaAutorizada } from '../_shared/workerAuth.ts'
+import { BUCKET_MIDIA_RECEBIDA, lerReferenciaStorage } from '../_shared/mediaReference.ts'
+
+/**
+ * Edge Function para liberar turnos agregados do buffer de mensagens
+ *
+ * O que faz:
+ * - Busca os fragmentos pendentes da tabela "buffer" (gravados pela receive-message)
+ * - Agrupa por clínica e número de WhatsApp
+ * - Quando o paciente fica em silêncio pela janela configurada na clínica
+ *   (clinicas.ai_message_buffer_seconds), junta os fragmentos em um único turno
+ * - Envia o turno agregado para o webhook da clínica (evento "crm.inbound.turn"),
+ *   onde o n8n aciona a resposta da IA uma única vez
+ * - Troca as referências "storage://" dos áudios (bucket privado chat-media) por URLs
+ *   assinadas de curta duração, que o n8n consegue baixar
+ *
+ * Como usar:
+ * - CRON a cada minuto para liberar todos os turnos vencidos
+ * - Chamada do n8n após aguardar a janela, com { clinica_id, whatsapp }, para
+ *   liberar uma conversa específica sem esperar o CRON
+ * - Exige a Service Role Key ou o header x-cron-secret (_shared/workerAuth.ts)
+ *
+ * Concorrência:
+ * - Os fragmentos são "reservados" com UPDATE ... WHERE processado_em IS NULL,
+ *   então chamadas simultâneas (CRON + n8n) nunca enviam o mesmo turno duas vezes
+ * - Se o envio falhar, a reserva é desfeita e o turno volta a ficar pendente
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+interface BufferFragment {
+  id: number
+  clinica_id: string
+  lead_id: string | null
+  id_mensagem: string | null
+  Mensagem: string | null
+  Mensagem_audio: string | null
+  Nome: string | null
+  tipo: string | null
+  timestamp_webhook: number | null
+  Whatsapp: string | null
+}
+
+// Tempo para o n8n baixar e transcrever os áudios do turno
+const VALIDADE_URL_AUDIO_SEGUNDOS = 60 * 60
+
+interface FlushResult {
+  turnos_enviados: number
+  turnos_aguardando: number
+  erros: string[]
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (!chamadaInternaAutorizada(req)) {
+    console.error('❌ [flush-message-buffer] Chamada sem Service Role Key ou CRON_SECRET')
+    return new Response(
+      JSON.stringify({ error: 'Não autorizado' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  console.log('🚀 [flush-message-buffer] Verificando turnos pendentes no buffer')
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    )
+
+    // Filtros opcionais para liberar uma conversa específica (chamada do n8n)
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const { clinica_id: clinicaFiltro, whatsapp: whatsappFiltro } = body as { clinica_id?: string; whatsapp?: string }
+
+    const result: FlushResult = {
+      turnos_enviados: 0,
+      turnos_aguardando: 0,
+      erros: [],
+    }
+
+    // Buscar clínicas com buffer ativo
+    let clinicasQuery = supabaseClient
+      .from('clinicas')
+      .select('id, evolution_instance_name, webhook_type, webhook_url, ai_message_buffer_seconds')
+      .eq('ai_message_buffer_active', true)
+
+    if (clinicaFiltro) {
+      clinicasQuery = clinicasQuery.eq('id', clinicaFiltro)
+    }
+
+    const { data: clinicas, error: clinicasError } = await clinicasQuery
+
+    if (clinicasError) {
+      throw new Error(`Erro ao buscar clínicas: ${clinicasError.message}`)
+    }
+
+    // JWT para autenticar no n8n (mesmo esquema da send-webhook)
+    const secretKey = Deno.env.get('EVOLUTION_API_KEY') || 'default-secret'
+    const cryptoKey = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(secretKey),
+      { name: "HMAC", hash: "SHA-256" },
+      true,
+      ["sign", "verify"]
+    )
+
+    for (const clinica of clinicas || []) {
+      const janelaMs = (clinica.ai_message_buffer_seconds || 15) * 1000
+
+      let fragmentosQuery = supabaseClient
+        .from('buffer')
+        .select('id, clinica_id, lead_id, id_mensagem, Mensagem, Mensagem_audio, Nome, tipo, timestamp_webhook, Whatsapp')
+        .eq('clinica_id', clinica.id)
+        .is('processado_em', null)
+        .order('timestamp_webhook', { ascending: true })
+
+      if (whatsappFiltro) {
+        fragmentosQuery = fragmentosQuery.eq('Whatsapp', whatsappFiltro.replace(/\D/g, ''))
+      }
+
+      const { data: fragmentos, error: fragmentosError } = await fragmentosQuery
+
+      if (fragmentosError) {
+        result.erros.push(`Clínica ${clinica.id}: ${fragmentosError.message}`)
+        continue
+      }
+
+      // Agrupar fragmentos por número de WhatsApp
+      const grupos = new Map<string, BufferFragment[]>()
+      for (const fragmento of (fragmentos || []) as BufferFragment[]) {
+        const chave = fragmento.Whatsapp || ''
+        grupos.set(chave, [...(grupos.get(chave) || []), fragmento])
+      }
+
+      for (const [whatsapp, grupo] of grupos) {
+        const ultimoFragmento = grupo[grupo.length - 1]
+
+        // Paciente ainda digitando: aguardar a janela de silêncio
+        if (Date.now() - (ultimoFragmento.timestamp_webhook || 0) < janelaMs) {
+          result.turnos_aguardando++
+          continue
+        }
+
+        // Reservar os fragmentos deste turno
+        const turnoId = crypto.randomUUID()
+        const { data: reservados, error: reservaError } = await supabaseClient
+          .from('buffer')
+          .update({ processado_em: new Date().toISOString(), turno_id: turnoId })
+          .eq('clinica_id', clinica.id)
+          .eq('Whatsapp', whatsapp)
+          .is('processado_em', null)
+          .lte('id', Math.max(...grupo.map(f => f.id)))
+          .select('id, clinica_id, lead_id, id_mensagem, Mensagem, Mensagem_audio, Nome, tipo, timestamp_webhook, Whatsapp')
+
+        if (reservaError) {
+          result.erros.push(`Turno ${whatsapp}: ${reservaError.message}`)
+          continue
+        }
+
+        if (!reservados || reservados.length === 0) {
+          // Outra execução já liberou este turno
+          continue
+        }
+
+        const turno = (reservados as BufferFragment[])
+          .sort((a, b) => (a.timestamp_webhook || 0) - (b.timestamp_webhook || 0))
+        const leadId = turno.find(f => f.lead_id)?.lead_id || null
+
+        const { data: lead } = leadId
+          ? await supabaseClient
+              .from('leads')
+              .select('nome, ai_conversation_enabled')
+              .eq('id', leadId)
+              .single()
+          : { data: null }
+
+        // Áudios recebidos ficam no bucket privado: o n8n recebe URLs assinadas
+        const urlsAudio = new Map<string, string | null>()
+        for (const { Mensagem_audio: audio } of turno) {
+          if (!audio || urlsAudio.has(audio)) continue
+
+          const referencia = lerReferenciaStorage(audio)
+          if (!referencia) {
+            // URL comum (mensagens anteriores ao bucket privado)
+            urlsAudio.set(audio, audio)
+            continue
+          }
+          if (referencia.bucket !== BUCKET_MIDIA_RECEBIDA) {
+            urlsAudio.set(audio, null)
+            continue
+          }
+
+          const { data: assinada, error: assinaturaError } = await supabaseClient.storage
+            .from(BUCKET_MIDIA_RECEBIDA)
+            .createSignedUrl(referencia.chave, VALIDADE_URL_AUDIO_SEGUNDOS)
+
+          if (assinaturaError) {
+            console.error('⚠️ [flush-message-buffer] Erro ao assinar áudio:', audio, assinaturaError)
+          }
+          urlsAudio.set(audio, assinada?.signedUrl || null)
+        }
+        const urlAudio = (audio: string | null) => (audio ? urlsAudio.get(audio) ?? null : null)
+
+        // Mesma regra de URL da send-webhook: personalizada da clínica ou padrão do sistema
+        const webhookUrl = clinica.webhook_type === 'personalizado' && clinica.webhook_url
+          ? clinica.webhook_url
+          : 'https://webhooks.marcolinofernades.site/webhook/crm'
+
+        const payload = {
+          event: 'crm.inbound.turn',
+          instance: clinica.evolution_instance_name,
+          data: {
+            turno_id: turnoId,
+            remoteJid: `${whatsapp}@s.whatsapp.net`,
+            pushName: lead?.nome || turno.find(f => f.Nome)?.Nome || null,
+            // Texto agregado na ordem em que as mensagens chegaram
+            text: turno.map(f => f.Mensagem).filter(Boolean).join('\n'),
+            audios: turno.map(f => urlAudio(f.Mensagem_audio)).filter(Boolean),
+            mensagem_ids: turno.map(f => f.id_mensagem).filter(Boolean),
+            fragmentos: turno.map(f => ({
+              mensagem_id: f.id_mensagem,
+              tipo: f.tipo,
+              texto: f.Mensagem,
+              audio_url: urlAudio(f.Mensagem_audio),
+              timestamp: f.timestamp_webhook,
+            })),
+          },
+          origin: {
+            clinica_id: clinica.id,
+            lead_id: leadId,
+            ai_enabled: lead?.ai_conversation_enabled ?? false,
+          },
+        }
+
+        try {
+          const jwt = await djwt.create(
+            { alg: "HS256", typ: "JWT" },
+            { clinica_id: clinica.id, exp: djwt.getNumericDate(60 * 60) },
+            cryptoKey
+          )
+
+          const response = await fetch(webhookUrl, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${jwt}`,
+            },
+            body: JSON.stringify(payload),
+          })
+
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}: ${await response.text()}`)
+          }
+
+          console.log(`✅ [flush-message-buffer] Turno ${turnoId} enviado (${turno.length} fragmentos)`)
+          result.turnos_enviados++
+        } catch (envioError) {
+          // Desfazer a reserva para tentar novamente na próxima execução
+          console.error(`❌ [flush-message-buffer] Erro ao enviar turno ${turnoId}:`, envioError)
+          result.erros.push(`Turno ${turnoId}: ${envioError.message}`)
+
+          await supabaseClient
+            .from('buffer')
+            .update({ processado_em: null, turno_id: null })
+            .eq('turno_id', turnoId)
+        }
+      }
+    }
+
+    console.log('✅ [flush-message-buffer] Processamento concluído:', result)
+
+    return new Response(
+      JSON.stringify({ success: true, result }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('❌ [flush-message-buffer] Erro geral na função:', error)
+    return new Response(
+      JSON.stringify({
+        error: 'Erro interno do servidor',
+        message: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,229 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  calcularHorariosDisponiveis,
+  horarioLocalParaInstante,
+  somarDias,
+} from '../_shared/availability.ts'
+import { FUSO_HORARIO_PADRAO, fusoHorarioValido, obterDataHoraLocal } from '../_shared/clinicSchedule.ts'
+import { autenticarWebhookDeEntrada } from '../_shared/inboundWebhookAuth.ts'
+import { autenticarUsuario, podeAcessarClinica } from '../_shared/userAccess.ts'
+
+/**
+ * Edge Function para buscar horários livres na agenda da clínica
+ *
+ * O que faz:
+ * - Monta os horários em que o serviço pode ser agendado entre data_inicial e data_final,
+ *   considerando funcionamento da clínica, horário de trabalho dos profissionais que
+ *   realizam o serviço, agendamentos ativos (com intervalo após o atendimento) e bloqueios
+ *
+ * Autenticação:
+ * - Usuário do CRM (JWT do Supabase): clínica do perfil ou clinica_id do corpo (admin)
+ * - Fluxo de IA do n8n: mesmo JWT por clínica usado em receive-message; a clínica vem da
+ *   claim clinica_id ou do header x-evolution-instance (o clinica_id do corpo só é conferido)
+ *
+ * Body: { clinica_id?, servico_id?, duracao_minutos?, profissional_id?, data_inicial?, data_final?, limite? }
+ * Datas em YYYY-MM-DD no fuso da clínica; sem data_inicial, busca a partir de hoje.
+ * duracao_minutos, se informado, é inteiro de 1 a 480 (senão, 400).
+ * Resposta: { slots: HorarioDisponivel[], fuso_horario, duracao_minutos, servico }
+ *
+ * Usado pelo hook useHorariosDisponiveis (RegistroAgendamentoModal) e pelo n8n.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-evolution-instance',
+}
+
+const DIAS_BUSCA_PADRAO = 7
+const DIAS_BUSCA_MAXIMO = 31
+const LIMITE_PADRAO = 20
+const LIMITE_MAXIMO = 100
+const DURACAO_PADRAO_MINUTOS = 30
+const DURACAO_MAXIMA_MINUTOS = 8 * 60
+
+const DATA_REGEX = /^\d{4}-\d{2}-\d{2}$/
+
+const responder = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    )
+
+    const body = await req.json().catch(() => ({})) as Record<string, unknown>
+
+    // 1. Autenticar: primeiro como usuário do CRM, depois como fluxo do n8n
+    let clinicaId: string | null = null
+    const authUsuario = await autenticarUsuario(supabaseClient, req)
+
+    if (authUsuario.ok) {
+      clinicaId = typeof body.clinica_id === 'string' ? body.clinica_id : authUsuario.usuario.clinicaId
+      if (!clinicaId || !podeAcessarClinica(authUsuario.usuario, clinicaId)) {
+        return responder({ error: 'Sem acesso à clínica informada' }, 403)
+      }
+    } else {
+      const authN8n = await autenticarWebhookDeEntrada(supabaseClient, req, body, 'get-available-slots')
+      if (!authN8n.ok) {
+        return responder({ error: authN8n.error }, authN8n.status)
+      }
+      clinicaId = authN8n.clinicaId
+    }
+
+    // 2. Clínica (funcionamento e fuso)
+    const { data: clinica, error: clinicaError } = await supabaseClient
+      .from('clinicas')
+      .select('horario_funcionamento, fuso_horario')
+      .eq('id', clinicaId)
+      .single()
+
+    if (clinicaError || !clinica) {
+      return responder({ error: 'Clínica não encontrada' }, 404)
+    }
+
+    const fusoHorario = fusoHorarioValido(clinica.fuso_horario) ? clinica.fuso_horario : FUSO_HORARIO_PADRAO
+
+    // 3. Período da busca
+    const hoje = obterDataHoraLocal(new Date(), fusoHorario).data
+    const dataInicialInformada = typeof body.data_inicial === 'string' ? body.data_inicial : null
+    const dataInicial = dataInicialInformada && dataInicialInformada > hoje ? dataInicialInformada : hoje
+    const dataFinal = typeof body.data_final === 'string'
+      ? body.data_final
+      : somarDias(dataInicial, DIAS_BUSCA_PADRAO - 1)
+
+    if (!DATA_REGEX.test(dataInicial) || !DATA_REGEX.test(dataFinal) || dataFinal < dataInicial) {
+      return responder({ error: 'Informe data_inicial e data_final no formato YYYY-MM-DD' }, 400)
+    }
+    if (dataFinal > somarDias(dataInicial, DIAS_BUSCA_MAXIMO - 1)) {
+      return responder({ error: `O período de busca é de no máximo ${DIAS_BUSCA_MAXIMO} dias` }, 400)
+    }
+
+    const limite = Math.min(Math.max(Number(body.limite) || LIMITE_PADRAO, 1), LIMITE_MAXIMO)
+
+    // Duração informada: minutos inteiros entre 1 e DURACAO_MAXIMA_MINUTOS
+    const duracaoInformada = body.duracao_minutos === undefined || body.duracao_minutos === null || body.duracao_minutos === ''
+      ? null
+      : Number(body.duracao_minutos)
+    if (duracaoInformada !== null
+      && (!Number.isInteger(duracaoInformada) || duracaoInformada <= 0 || duracaoInformada > DURACAO_MAXIMA_MINUTOS)) {
+      return responder({ error: `duracao_minutos deve ser um número inteiro entre 1 e ${DURACAO_MAXIMA_MINUTOS}` }, 400)
+    }
+
+    // 4. Serviço (duração, intervalo e profissionais que realizam)
+    let servico: { id: string; nome: string } | null = null
+    let duracaoMinutos = duracaoInformada ?? DURACAO_PADRAO_MINUTOS
+    let intervaloMinutos = 0
+    let profissionaisDoServico: string[] = []
+
+    if (typeof body.servico_id === 'string') {
+      const { data: servicoData } = await supabaseClient
+        .from('clinica_servicos')
+        .select('id, nome_servico, duracao_minutos, intervalo_minutos, profissional_servicos(profissional_id)')
+        .eq('id', body.servico_id)
+        .eq('clinica_id', clinicaId)
+        .eq('ativo', true)
+        .maybeSingle()
+
+      if (!servicoData) {
+        return responder({ error: 'Serviço não encontrado' }, 404)
+      }
+
+      servico = { id: servicoData.id, nome: servicoData.nome_servico }
+      duracaoMinutos = duracaoInformada ?? servicoData.duracao_minutos
+      intervaloMinutos = servicoData.intervalo_minutos || 0
+      profissionaisDoServico = (servicoData.profissional_servicos || [])
+        .map((vinculo: { profissional_id: string }) => vinculo.profissional_id)
+    }
+
+    // 5. Profissionais ativos que podem atender
+    const { data: profissionaisData, error: profissionaisError } = await supabaseClient
+      .from('profissionais')
+      .select('id, nome, horario_trabalho')
+      .eq('clinica_id', clinicaId)
+      .eq('ativo', true)
+      .order('nome')
+
+    if (profissionaisError) {
+      console.error('❌ [get-available-slots] Erro ao buscar profissionais:', profissionaisError)
+      return responder({ error: 'Erro ao buscar profissionais' }, 500)
+    }
+
+    let profissionais = (profissionaisData || []).filter((profissional) =>
+      profissionaisDoServico.length === 0 || profissionaisDoServico.includes(profissional.id)
+    )
+
+    if (typeof body.profissional_id === 'string') {
+      profissionais = profissionais.filter((profissional) => profissional.id === body.profissional_id)
+      if (profissionais.length === 0) {
+        return responder({ error: 'Profissional inativo ou não realiza o serviço' }, 400)
+      }
+    } else if ((profissionaisData || []).length > 0 && profissionais.length === 0) {
+      // Serviço vinculado apenas a profissionais inativos
+      return responder({ slots: [], fuso_horario: fusoHorario, duracao_minutos: duracaoMinutos, servico })
+    }
+
+    // 6. Ocupação no período (agendamentos ativos e bloqueios)
+    const inicioBusca = horarioLocalParaInstante(dataInicial, 0, fusoHorario)
+    const fimBusca = horarioLocalParaInstante(somarDias(dataFinal, 1), 0, fusoHorario)
+    // Margem para agendamentos do dia anterior cujo intervalo invade o período
+    const inicioComMargem = new Date(inicioBusca.getTime() - 24 * 60 * 60 * 1000)
+
+    const [agendamentosResult, bloqueiosResult] = await Promise.all([
+      supabaseClient
+        .from('agendamentos')
+        .select('profissional_id, data_inicio, data_fim, servico:clinica_servicos(intervalo_minutos)')
+        .eq('clinica_id', clinicaId)
+        .or('status.is.null,status.not.in.(cancelado,nao_compareceu)')
+        .lt('data_inicio', fimBusca.toISOString())
+        .gt('data_fim', inicioComMargem.toISOString()),
+      supabaseClient
+        .from('bloqueios_agenda')
+        .select('profissional_id, data_inicio, data_fim')
+        .eq('clinica_id', clinicaId)
+        .lt('data_inicio', fimBusca.toISOString())
+        .gt('data_fim', inicioBusca.toISOString()),
+    ])
+
+    if (agendamentosResult.error || bloqueiosResult.error) {
+      console.error('❌ [get-available-slots] Erro ao buscar ocupação da agenda:', agendamentosResult.error || bloqueiosResult.error)
+      return responder({ error: 'Erro ao buscar agenda' }, 500)
+    }
+
+    // 7. Calcular horários livres
+    const slots = calcularHorariosDisponiveis({
+      dataInicial,
+      dataFinal,
+      fusoHorario,
+      horarioFuncionamento: clinica.horario_funcionamento,
+      duracaoMinutos,
+      intervaloMinutos,
+      profissionais,
+      agendamentos: (agendamentosResult.data || []).map((agendamento) => ({
+        profissional_id: agendamento.profissional_id,
+        data_inicio: agendamento.data_inicio,
+        data_fim: agendamento.data_fim,
+        intervalo_minutos: (agendamento.servico as { intervalo_minutos: number } | null)?.intervalo_minutos,
+      })),
+      bloqueios: bloqueiosResult.data || [],
+      limite,
+    })
+
+    console.log(`✅ [get-available-slots] ${slots.length} horário(s) livre(s) de ${dataInicial} a ${dataFinal} (clínica ${clinicaId})`)
+
+    return responder({ slots, fuso_horario: fusoHorario, duracao_minutos: duracaoMinutos, servico })
+  } catch (error) {
+    console.error('❌ [get-available-slots] Erro inesperado:', error)
+    return responder({ error: 'Erro interno do servidor' }, 500)
+  }
+})
@@ -0,0 +1,128 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  BUCKET_MIDIA_RECEBIDA,
+  lerReferenciaMidia,
+  lerReferenciaStorage,
+  obterClinicaDaMidiaRecebida,
+} from '../_shared/mediaReference.ts'
+import {
+  obterClinicaDaChave,
+  obterConfigMinio,
+  resolverUrlMidia,
+  VALIDADE_URL_CRM_SEGUNDOS,
+} from '../_shared/minioStorage.ts'
+import { autenticarUsuario, podeAcessarClinica } from '../_shared/userAccess.ts'
+
+/**
+ * Edge Function para gerar URLs assinadas das mídias privadas do CRM
+ *
+ * O que faz:
+ * - Recebe referências gravadas em chat_mensagens.anexo_url: "minio://{bucket}/{chave}"
+ *   (mídias enviadas pelo CRM) e "storage://chat-media/{caminho}" (mídias recebidas)
+ * - Confere se o usuário pertence à clínica dona de cada mídia (ou é admin)
+ * - Devolve URLs de download assinadas, válidas por VALIDADE_URL_CRM_SEGUNDOS
+ *
+ * Body: { refs: string[] }
+ * Resposta: { urls: { [ref]: string | null }, expiresIn }
+ * Referências sem permissão ou inválidas retornam null.
+ *
+ * Usado pelo hook useSignedMediaUrl (MessageContent no chat).
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Evita requisições muito grandes (uma conversa raramente exibe tantas mídias de uma vez)
+const MAXIMO_REFERENCIAS = 50
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Só é obrigatório para as referências "minio://"
+    const minioConfig = obterConfigMinio()
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    )
+
+    const auth = await autenticarUsuario(supabaseClient, req)
+    if (!auth.ok) {
+      return new Response(
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { refs } = await req.json().catch(() => ({})) as { refs?: unknown }
+
+    if (!Array.isArray(refs) || refs.length === 0 || refs.length > MAXIMO_REFERENCIAS) {
+      return new Response(
+        JSON.stringify({ error: `Informe entre 1 e ${MAXIMO_REFERENCIAS} referências em "refs"` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const urls: Record<string, string | null> = {}
+
+    for (const ref of refs) {
+      if (typeof ref !== 'string') continue
+
+      // Mídia recebida do paciente, no bucket privado do Supabase Storage
+      const referenciaStorage = lerReferenciaStorage(ref)
+      if (referenciaStorage) {
+        const clinicaDona = obterClinicaDaMidiaRecebida(referenciaStorage.chave)
+
+        if (referenciaStorage.bucket !== BUCKET_MIDIA_RECEBIDA || !clinicaDona || !podeAcessarClinica(auth.usuario, clinicaDona)) {
+          console.warn('⚠️ [get-crm-media-url] Referência negada:', ref)
+          urls[ref] = null
+          continue
+        }
+
+        const { data, error } = await supabaseClient.storage
+          .from(BUCKET_MIDIA_RECEBIDA)
+          .createSignedUrl(referenciaStorage.chave, VALIDADE_URL_CRM_SEGUNDOS)
+
+        if (error) {
+          console.error('⚠️ [get-crm-media-url] Erro ao assinar mídia recebida:', ref, error)
+        }
+        urls[ref] = data?.signedUrl || null
+        continue
+      }
+
+      const referencia = lerReferenciaMidia(ref)
+      const clinicaDona = referencia ? obterClinicaDaChave(referencia.chave) : null
+
+      // Só assina objetos do bucket de mídia do CRM e de clínicas que o usuário pode acessar
+      if (!minioConfig || !referencia || referencia.bucket !== minioConfig.bucket || !clinicaDona || !podeAcessarClinica(auth.usuario, clinicaDona)) {
+        console.warn('⚠️ [get-crm-media-url] Referência negada:', ref)
+        urls[ref] = null
+        continue
+      }
+
+      urls[ref] = await resolverUrlMidia(ref, VALIDADE_URL_CRM_SEGUNDOS)
+    }
+
+    return new Response(
+      JSON.stringify({ urls, expiresIn: VALIDADE_URL_CRM_SEGUNDOS }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('❌ [get-crm-media-url] Erro geral na função:', error)
+    return new Response(
+      JSON.stringify({
+        error: 'Erro interno do servidor',
+        message: error.message
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
@@ -0,0 +1,347 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { buscarLeadsComOptOut } from '../_shared/contactConsent.ts'
+import { montarContextoTemplate, renderizarTemplate } from '../_shared/templateEngine.ts'
+import { chamadaInternaAutorizada } from '../_shared/workerAuth.ts'
+
+/**
+ * Edge Function de lembretes automáticos de agendamento
+ *
+ * O que faz:
+ * - Roda via CRON (a cada 5 minutos) para as clínicas com lembretes ativos
+ * - Para cada agendamento 'agendado' ou 'confirmado' que começa dentro da maior antecedência
+ *   configurada (padrão 24h e 2h), envia o lembrete que já venceu
+ * - O texto vem do template da clínica (clinicas.lembrete_agendamento_template), com as
+ *   variáveis do lead, da clínica e do agendamento
+ * - A mensagem é gravada no chat (chat_mensagens) e enviada pela send-webhook, que cuida da
+ *   fila de tentativas e do bloqueio de opt-out
+ * - Cada envio fica em agendamento_lembretes; a resposta do paciente é tratada na receive-message
+ *
+ * Regras:
+ * - Agendamento marcado depois do horário do lembrete não recebe esse lembrete
+ *   (quem marcou há 3 horas para daqui a 20 horas não recebe o de 24h)
+ * - Com mais de um lembrete vencido (ex.: CRON parado), só o mais próximo é enviado
+ * - O registro em agendamento_lembretes é único por agendamento, antecedência e horário:
+ *   rodadas simultâneas não enviam duas vezes e remarcações geram novos lembretes
+ * - Lembretes não respeitam a janela de envio da clínica: o horário depende da consulta
+ *
+ * Como usar:
+ * - CRON no Supabase chamando a função com a service role key (ou o header x-cron-secret);
+ *   qualquer outro chamador recebe 401 (_shared/workerAuth.ts)
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+const LIMITE_POR_EXECUCAO = 100
+const ENVIANDO_EXPIRA_MINUTOS = 5
+const STATUS_LEMBRETE = ['agendado', 'confirmado']
+const HORA_MS = 60 * 60 * 1000
+
+interface ProcessResult {
+  clinicas_processadas: number
+  agendamentos_verificados: number
+  lembretes_enviados: number
+  lembretes_ignorados: number
+  erros: string[]
+}
+
+interface AgendamentoLembrete {
+  id: string
+  clinica_id: string
+  cliente_id: string
+  titulo: string
+  data_inicio: string
+  status: string | null
+  created_at: string | null
+  profissional: { nome: string } | null
+  lead: { nome: string | null; telefone: string | null; email: string | null; servico_interesse: string | null; origem_lead: string | null; etapa_kanban: { nome: string } | null } | null
+}
+
+interface LembreteRegistrado {
+  agendamento_id: string
+  horas_antes: number
+  data_agendamento: string
+}
+
+// Antecedências válidas, sem repetições e da maior para a menor
+const normalizarHoras = (horas: number[] | null): number[] =>
+  Array.from(new Set((horas || []).map((h) => Math.floor(Number(h))).filter((h) => h > 0))).sort((a, b) => b - a)
+
+/**
+ * Escolhe a antecedência do lembrete a enviar agora para o agendamento, ou null.
+ */
+const escolherLembrete = (
+  agendamento: AgendamentoLembrete,
+  horas: number[],
+  registrados: LembreteRegistrado[],
+  agora: number
+): number | null => {
+  const inicio = new Date(agendamento.data_inicio).getTime()
+  const marcadoEm = agendamento.created_at ? new Date(agendamento.created_at).getTime() : 0
+
+  const vencidas = horas.filter((h) => agora >= inicio - h * HORA_MS && marcadoEm < inicio - h * HORA_MS)
+  if (vencidas.length === 0) return null
+
+  const maisProxima = Math.min(...vencidas)
+
+  // Já enviado este lembrete (ou um mais próximo) para o horário atual do agendamento
+  const jaEnviado = registrados.some((registro) =>
+    registro.agendamento_id === agendamento.id &&
+    new Date(registro.data_agendamento).getTime() === inicio &&
+    registro.horas_antes <= maisProxima
+  )
+
+  return jaEnviado ? null : maisProxima
+}
+
+/**
+ * Grava o lembrete no chat e envia pela send-webhook. Retorna o erro, se houver.
+ */
+const enviarLembrete = async (
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  agendamento: AgendamentoLembrete,
+  lembreteId: string,
+  conteudo: string
+): Promise<{ mensagemId: string | null; erro: string | null }> => {
+  const { data: mensagem, error: mensagemError } = await supabase
+    .from('chat_mensagens')
+    .insert({
+      lead_id: agendamento.cliente_id,
+      clinica_id: agendamento.clinica_id,
+      conteudo,
+      enviado_por: 'usuario',
+      tipo: 'texto',
+      lida: false,
+      status_entrega: 'queued',
+      metadados: { origem: 'lembrete_agendamento', agendamento_id: agendamento.id, lembrete_id: lembreteId }
+    })
+    .select('id, created_at')
+    .single()
+
+  if (mensagemError) {
+    return { mensagemId: null, erro: `Erro ao gravar mensagem: ${mensagemError.message}` }
+  }
+
+  const resposta = await fetch(`${supabaseUrl}/functions/v1/send-webhook`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${supabaseServiceKey}`,
+    },
+    body: JSON.stringify({
+      mensagem_id: mensagem.id,
+      lead_id: agendamento.cliente_id,
+      clinica_id: agendamento.clinica_id,
+      conteudo,
+      tipo: 'texto',
+      created_at: mensagem.created_at,
+      evento_boolean: false
+    }),
+  })
+
+  // 202: a send-webhook não conseguiu na primeira tentativa, mas a mensagem segue na fila
+  if (resposta.status === 200 || resposta.status === 202) {
+    return { mensagemId: mensagem.id, erro: null }
+  }
+
+  return { mensagemId: mensagem.id, erro: `send-webhook respondeu ${resposta.status}: ${await resposta.text()}` }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (!chamadaInternaAutorizada(req)) {
+    console.error('❌ [process-appointment-reminders] Chamada sem Service Role Key ou CRON_SECRET')
+    return new Response(
+      JSON.stringify({ error: 'Não autorizado' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  console.log('🚀 [process-appointment-reminders] Verificando lembretes de agendamento')
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, { auth: { persistSession: false } })
+
+    const result: ProcessResult = {
+      clinicas_processadas: 0,
+      agendamentos_verificados: 0,
+      lembretes_enviados: 0,
+      lembretes_ignorados: 0,
+      erros: [],
+    }
+
+    // Lembretes presos em 'enviando' (rodada interrompida) ficam como erro, sem reenvio
+    const limiteEnviando = new Date(Date.now() - ENVIANDO_EXPIRA_MINUTOS * 60 * 1000).toISOString()
+    const { error: recuperarError } = await supabaseClient
+      .from('agendamento_lembretes')
+      .update({ status: 'erro', erro: 'Envio interrompido' })
+      .eq('status', 'enviando')
+      .lt('created_at', limiteEnviando)
+
+    if (recuperarError) {
+      console.error('⚠️ [process-appointment-reminders] Erro ao recuperar lembretes presos:', recuperarError)
+    }
+
+    const { data: clinicas, error: clinicasError } = await supabaseClient
+      .from('clinicas')
+      .select('id, nome, endereco, endereco_completo, telefone, cidade, fuso_horario, lembretes_agendamento_horas, lembrete_agendamento_template')
+      .eq('lembretes_agendamento_ativos', true)
+
+    if (clinicasError) throw clinicasError
+
+    console.log(`📋 [process-appointment-reminders] ${clinicas?.length || 0} clínicas com lembretes ativos`)
+
+    let enviosRestantes = LIMITE_POR_EXECUCAO
+
+    for (const clinica of clinicas || []) {
+      if (enviosRestantes <= 0) break
+
+      try {
+        const horas = normalizarHoras(clinica.lembretes_agendamento_horas)
+        if (horas.length === 0) continue
+        result.clinicas_processadas++
+
+        const agora = Date.now()
+        const { data: agendamentos, error: agendamentosError } = await supabaseClient
+          .from('agendamentos')
+          .select(`
+            id, clinica_id, cliente_id, titulo, data_inicio, status, created_at,
+            profissional:profissionais(nome),
+            lead:leads(nome, telefone, email, servico_interesse, origem_lead, etapa_kanban:etapas_kanban(nome))
+          `)
+          .eq('clinica_id', clinica.id)
+          .in('status', STATUS_LEMBRETE)
+          .gt('data_inicio', new Date(agora).toISOString())
+          .lte('data_inicio', new Date(agora + horas[0] * HORA_MS).toISOString())
+          .order('data_inicio', { ascending: true })
+
+        if (agendamentosError) throw agendamentosError
+        if (!agendamentos || agendamentos.length === 0) continue
+
+        result.agendamentos_verificados += agendamentos.length
+
+        const { data: registrados, error: registradosError } = await supabaseClient
+          .from('agendamento_lembretes')
+          .select('agendamento_id, horas_antes, data_agendamento')
+          .in('agendamento_id', agendamentos.map((agendamento) => agendamento.id))
+
+        if (registradosError) throw registradosError
+
+        const pendentes = (agendamentos as unknown as AgendamentoLembrete[])
+          .map((agendamento) => ({ agendamento, horasAntes: escolherLembrete(agendamento, horas, registrados || [], agora) }))
+          .filter((item): item is { agendamento: AgendamentoLembrete; horasAntes: number } => item.horasAntes !== null)
+          .slice(0, enviosRestantes)
+
+        if (pendentes.length === 0) continue
+
+        const comOptOut = await buscarLeadsComOptOut(
+          supabaseClient,
+          Array.from(new Set(pendentes.map(({ agendamento }) => agendamento.cliente_id)))
+        )
+
+        for (const { agendamento, horasAntes } of pendentes) {
+          const motivoIgnorado = comOptOut.has(agendamento.cliente_id)
+            ? 'Lead pediu para não receber mensagens (opt-out)'
+            : !agendamento.lead?.telefone
+              ? 'Lead sem telefone'
+              : null
+
+          const conteudo = renderizarTemplate(
+            clinica.lembrete_agendamento_template,
+            montarContextoTemplate({
+              lead: agendamento.lead,
+              clinica,
+              agendamento: {
+                titulo: agendamento.titulo,
+                data_inicio: agendamento.data_inicio,
+                status: agendamento.status,
+                profissional: agendamento.profissional?.nome,
+              },
+            })
+          )
+
+          // Reservar o lembrete: o índice único impede o envio duplicado
+          const { data: lembrete, error: reservaError } = await supabaseClient
+            .from('agendamento_lembretes')
+            .insert({
+              clinica_id: clinica.id,
+              agendamento_id: agendamento.id,
+              lead_id: agendamento.cliente_id,
+              horas_antes: horasAntes,
+              data_agendamento: agendamento.data_inicio,
+              status: motivoIgnorado ? 'ignorado' : 'enviando',
+              erro: motivoIgnorado,
+              conteudo
+            })
+            .select('id')
+            .single()
+
+          if (reservaError) {
+            if (reservaError.code !== '23505') {
+              result.erros.push(`Agendamento ${agendamento.id}: ${reservaError.message}`)
+            }
+            continue
+          }
+
+          if (motivoIgnorado) {
+            console.log(`⏭️ [process-appointment-reminders] Lembrete ignorado (${motivoIgnorado}):`, agendamento.id)
+            result.lembretes_ignorados++
+            continue
+          }
+
+          enviosRestantes--
+          const envio = await enviarLembrete(supabaseClient, supabaseUrl, supabaseServiceKey, agendamento, lembrete.id, conteudo)
+
+          await supabaseClient
+            .from('agendamento_lembretes')
+            .update({ status: envio.erro ? 'erro' : 'enviado', mensagem_id: envio.mensagemId, erro: envio.erro })
+            .eq('id', lembrete.id)
+
+          if (envio.erro) {
+            console.error(`❌ [process-appointment-reminders] Erro no lembrete do agendamento ${agendamento.id}:`, envio.erro)
+            result.erros.push(`Agendamento ${agendamento.id}: ${envio.erro}`)
+          } else {
+            console.log(`📤 [process-appointment-reminders] Lembrete de ${horasAntes}h enviado:`, agendamento.id)
+            result.lembretes_enviados++
+          }
+        }
+      } catch (clinicaError) {
+        console.error(`❌ [process-appointment-reminders] Erro na clínica ${clinica.id}:`, clinicaError)
+        result.erros.push(`Clínica ${clinica.id}: ${clinicaError.message}`)
+      }
+    }
+
+    console.log('✅ [process-appointment-reminders] Processamento concluído:', result)
+
+    return new Response(
+      JSON.stringify({ success: true, result }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('❌ [process-appointment-reminders] Erro geral na função:', error)
+    return new Response(
+      JSON.stringify({
+        error: 'Erro interno do servidor',
+        message: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -1,6 +1,22 @@
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verificarJanelaDeEnvio } from "../_shared/clinicSchedule.ts";
+import { escolherVariante, type VarianteSorteavel } from "../_shared/abVariants.ts";
+import {
+  leadAtendeFiltros,
+  normalizarFiltrosPublico,
+  possuiFiltrosPublico,
+  STATUS_AGENDAMENTO_FUTURO,
+} from "../_shared/campaignAudience.ts";
+import { buscarLeadsComOptOut } from "../_shared/contactConsent.ts";
+import {
+  calcularOrcamentoEnvio,
+  normalizarLimitesEnvio,
+  primeiroEnvioPermitido,
+  sortearIntervaloEnvio,
+  type LimitesEnvio,
+} from "../_shared/sendThrottle.ts";
 
 /**
  * Edge Function para Processamento Automático de Campanhas de Follow-up
@@ -8,14 +24,30 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
  * O que faz:
  * - Roda via CRON para detectar leads inativos
  * - Cria execuções automáticas baseado nas campanhas ativas
- * - Processa sequências de templates de follow-up
- * - Respeita horários de funcionamento e dias úteis
+ * - Processa sequências de templates de follow-up: depois que a etapa N é enviada,
+ *   a etapa N+1 é agendada para intervalo_dias depois
+ * - Sorteia a variante de teste A/B de cada etapa (determinística por lead)
+ * - Aplica as regras de público da campanha (filtros_publico) sobre os leads inativos
+ * - Suprime leads com opt-out no WhatsApp (LGPD): não inicia sequências e cancela as
+ *   etapas pendentes com motivo 'opt_out'
+ * - Campanhas por evento: as sequências de mudança de etapa, não comparecimento e
+ *   pós-atendimento são iniciadas por triggers do banco; as de aniversário, aqui,
+ *   no dia do aniversário do lead (fuso da clínica). Todas são enviadas por este processador
+ * - Respeita, no fuso horário da clínica, a janela de envio da campanha,
+ *   o horário de funcionamento, dias úteis e feriados nacionais
+ * - Limita o envio por clínica (mensagens por minuto, hora e dia) com intervalo aleatório
+ *   entre mensagens: as etapas vencidas formam uma fila que é esvaziada aos poucos, em
+ *   várias rodadas do CRON, em vez de disparar tudo de uma vez
+ * - Envia os follow-ups manuais em massa (lotes de follow_up_envios_em_massa) quando
+ *   chega a data agendada, na mesma fila e dentro dos mesmos limites
  * 
  * Lógica de detecção:
  * - Identifica leads sem atividade recente baseado em dias_inatividade
  * - Verifica se lead não está com follow-up pausado
  * - Considera horários de envio configurados
  * - Evita duplicação de execuções pendentes
+ * - Não reinicia a sequência no mesmo período de inatividade
+ * - A sequência é encerrada quando o lead responde ou ganha um agendamento
  * 
  * Como usar:
  * - Configurar CRON no Supabase para executar a cada X minutos
@@ -26,11 +58,543 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 interface ProcessingResult {
   campanhas_processadas: number;
   leads_detectados: number;
+  leads_fora_do_publico: number;
+  leads_com_opt_out: number;
   execucoes_criadas: number;
   execucoes_enviadas: number;
+  execucoes_adiadas: number; // Vencidas que ficaram para a próxima rodada (limite de envio)
+  envios_em_massa_cancelados: number; // Execuções de lotes canceladas (opt-out ou follow-up pausado)
+  etapas_agendadas: number;
+  sequencias_encerradas: number;
   erros: string[];
 }
 
+// Tempo máximo de envio por rodada: o CRON roda a cada minuto e as rodadas não devem se sobrepor
+const TEMPO_MAXIMO_DESPACHO_MS = 45 * 1000;
+
+// Execuções presas em 'processando' (rodada interrompida) voltam para a fila depois deste tempo
+const PROCESSANDO_EXPIRA_MINUTOS = 5;
+
+interface EtapaSequencia {
+  id: string;
+  sequencia: number;
+  intervalo_dias: number;
+  ativo: boolean;
+  variantes?: VarianteSorteavel[]; // Teste A/B da etapa
+}
+
+/**
+ * Retorna os ids (dentre os informados) dos leads com agendamento futuro ainda ativo.
+ * Consulta em lotes para não estourar o tamanho da URL do filtro "in".
+ */
+const buscarLeadsComAgendamentoFuturo = async (
+  supabase: SupabaseClient,
+  leadIds: string[]
+): Promise<Set<string>> => {
+  const comAgendamento = new Set<string>();
+  const agora = new Date().toISOString();
+
+  for (let i = 0; i < leadIds.length; i += 200) {
+    const { data, error } = await supabase
+      .from('agendamentos')
+      .select('cliente_id')
+      .in('cliente_id', leadIds.slice(i, i + 200))
+      .in('status', STATUS_AGENDAMENTO_FUTURO)
+      .gt('data_inicio', agora);
+
+    if (error) {
+      throw new Error(`Erro ao buscar agendamentos futuros: ${error.message}`);
+    }
+
+    (data || []).forEach((agendamento: { cliente_id: string }) => comAgendamento.add(agendamento.cliente_id));
+  }
+
+  return comAgendamento;
+};
+
+/**
+ * Inicia a sequência das campanhas de aniversário para os leads que fazem aniversário
+ * hoje (data local da clínica). Nascidos em 29/02 recebem em 28/02 nos anos não bissextos.
+ * Cada lead recebe a campanha no máximo uma vez por ano.
+ */
+const iniciarSequenciasDeAniversario = async (
+  supabase: SupabaseClient,
+  campanha: { id: string; nome: string; clinica_id: string },
+  dataLocal: string, // YYYY-MM-DD
+  result: ProcessingResult
+) => {
+  const [ano, mes, dia] = dataLocal.split('-').map(Number);
+  const anoBissexto = (ano % 4 === 0 && ano % 100 !== 0) || ano % 400 === 0;
+  const diasDoAniversario = [dataLocal.slice(5)];
+  if (!anoBissexto && mes === 2 && dia === 28) diasDoAniversario.push('02-29');
+
+  const { data: leads, error: leadsError } = await supabase
+    .from('leads')
+    .select('id, data_nascimento')
+    .eq('clinica_id', campanha.clinica_id)
+    .eq('follow_up_pausado', false)
+    .not('telefone', 'is', null)
+    .not('data_nascimento', 'is', null);
+
+  if (leadsError) {
+    console.error(`❌ Erro ao buscar aniversariantes da campanha ${campanha.nome}:`, leadsError);
+    result.erros.push(`Erro ao buscar aniversariantes: ${leadsError.message}`);
+    return;
+  }
+
+  const aniversariantes = (leads || []).filter((lead: { data_nascimento: string }) =>
+    diasDoAniversario.includes(lead.data_nascimento.slice(5, 10))
+  );
+
+  if (aniversariantes.length === 0) return;
+
+  console.log(`🎂 ${aniversariantes.length} aniversariantes hoje para campanha ${campanha.nome}`);
+  result.leads_detectados += aniversariantes.length;
+
+  // Quem já recebeu a campanha neste ano
+  const { data: execucoesDoAno, error: execucoesError } = await supabase
+    .from('follow_up_execucoes')
+    .select('lead_id')
+    .eq('campaign_id', campanha.id)
+    .in('lead_id', aniversariantes.map((lead: { id: string }) => lead.id))
+    .gte('created_at', `${ano}-01-01T00:00:00Z`);
+
+  if (execucoesError) {
+    console.error(`❌ Erro ao verificar execuções de aniversário:`, execucoesError);
+    result.erros.push(`Erro ao verificar execuções de aniversário: ${execucoesError.message}`);
+    return;
+  }
+
+  const jaReceberam = new Set((execucoesDoAno || []).map((execucao: { lead_id: string }) => execucao.lead_id));
+  const comOptOut = await buscarLeadsComOptOut(supabase, aniversariantes.map((lead: { id: string }) => lead.id));
+  result.leads_com_opt_out += comOptOut.size;
+
+  for (const lead of aniversariantes) {
+    if (jaReceberam.has(lead.id) || comOptOut.has(lead.id)) continue;
+
+    const { data: iniciada, error: inicioError } = await supabase.rpc('iniciar_sequencia_follow_up', {
+      p_campaign_id: campanha.id,
+      p_lead_id: lead.id,
+    });
+
+    if (inicioError) {
+      console.error(`❌ Erro ao iniciar sequência de aniversário:`, inicioError);
+      result.erros.push(`Erro ao iniciar sequência de aniversário: ${inicioError.message}`);
+      continue;
+    }
+
+    if (iniciada) {
+      console.log(`✅ Sequência de aniversário iniciada para lead ${lead.id}`);
+      result.execucoes_criadas++;
+    }
+  }
+};
+
+/**
+ * Fila de envio de uma clínica nesta rodada: etapas vencidas de todas as campanhas da
+ * clínica (mais antigas primeiro) e envios em massa agendados, limitados ao que cabe
+ * nos limites de envio.
+ */
+interface ItemEnvio {
+  execucao: {
+    id: string;
+    lead_id: string;
+    template_id: string;
+    variante_id: string | null;
+    data_agendada: string;
+    tipo_execucao: 'automatico' | 'manual';
+    template: { sequencia: number } | null;
+  };
+  campanha: { id: string; nome: string };
+  etapas: EtapaSequencia[];
+}
+
+interface FilaClinica {
+  clinicaId: string;
+  limites: LimitesEnvio;
+  orcamento: number; // Mensagens que ainda cabem nos limites
+  proximoEnvioEm: number; // Instante (ms) a partir do qual a próxima mensagem pode sair
+  itens: ItemEnvio[];
+}
+
+/**
+ * Retorna a fila da clínica, criando-a na primeira campanha da clínica com os envios
+ * recentes (último minuto, hora e dia) já descontados do orçamento.
+ */
+const obterFilaDaClinica = async (
+  supabase: SupabaseClient,
+  filas: Map<string, FilaClinica>,
+  clinicaId: string,
+  clinica: Parameters<typeof normalizarLimitesEnvio>[0]
+): Promise<FilaClinica> => {
+  const existente = filas.get(clinicaId);
+  if (existente) return existente;
+
+  const { data, error } = await supabase.rpc('follow_up_envios_recentes', { p_clinica_id: clinicaId });
+  if (error) {
+    throw new Error(`Erro ao contar envios recentes da clínica: ${error.message}`);
+  }
+
+  const recentes = data?.[0];
+  const limites = normalizarLimitesEnvio(clinica);
+  const fila: FilaClinica = {
+    clinicaId,
+    limites,
+    orcamento: calcularOrcamentoEnvio(limites, {
+      ultimoMinuto: Number(recentes?.ultimo_minuto || 0),
+      ultimaHora: Number(recentes?.ultima_hora || 0),
+      ultimoDia: Number(recentes?.ultimo_dia || 0),
+      ultimoEnvioEm: recentes?.ultimo_envio_em || null,
+    }),
+    proximoEnvioEm: primeiroEnvioPermitido(limites, recentes?.ultimo_envio_em || null),
+    itens: [],
+  };
+
+  filas.set(clinicaId, fila);
+  return fila;
+};
+
+/**
+ * Coloca na fila da clínica as etapas pendentes já vencidas de uma campanha, até o
+ * orçamento de envio da clínica. As que não couberem continuam pendentes e são enviadas
+ * nas próximas rodadas do CRON.
+ * Leads com opt-out ou follow-up pausado têm a sequência encerrada, sem envio.
+ * Quando o lead responde ou ganha um agendamento, as etapas pendentes já foram
+ * canceladas pelos triggers do banco (encerrar_sequencias_follow_up).
+ */
+const enfileirarEtapasVencidas = async (
+  supabase: SupabaseClient,
+  campanha: { id: string; nome: string },
+  etapas: EtapaSequencia[],
+  fila: FilaClinica,
+  result: ProcessingResult
+) => {
+  const vagas = fila.orcamento - fila.itens.length;
+  if (vagas <= 0) {
+    console.log(`🚦 Limite de envio da clínica atingido - etapas da campanha ${campanha.nome} ficam para a próxima rodada`);
+    return;
+  }
+
+  const { data: vencidas, error: vencidasError } = await supabase
+    .from('follow_up_execucoes')
+    .select(`
+      id,
+      lead_id,
+      template_id,
+      variante_id,
+      data_agendada,
+      tipo_execucao,
+      lead:leads(follow_up_pausado),
+      template:follow_up_templates(sequencia)
+    `)
+    .eq('campaign_id', campanha.id)
+    .eq('tipo_execucao', 'automatico')
+    .eq('status', 'pendente')
+    .lte('data_agendada', new Date().toISOString())
+    .order('data_agendada', { ascending: true })
+    .limit(vagas);
+
+  if (vencidasError) {
+    console.error(`❌ Erro ao buscar etapas vencidas da campanha ${campanha.nome}:`, vencidasError);
+    result.erros.push(`Erro ao buscar etapas vencidas: ${vencidasError.message}`);
+    return;
+  }
+
+  let comOptOut = new Set<string>();
+  try {
+    comOptOut = await buscarLeadsComOptOut(supabase, (vencidas || []).map((execucao: { lead_id: string }) => execucao.lead_id));
+  } catch (consentError) {
+    // Sem saber o consentimento, não envia nada nesta rodada
+    console.error(`❌ Erro ao verificar opt-out da campanha ${campanha.nome}:`, consentError);
+    result.erros.push(consentError.message);
+    return;
+  }
+
+  for (const execucao of vencidas || []) {
+    // Lead pediu para não receber mensagens: encerra a sequência sem enviar
+    if (comOptOut.has(execucao.lead_id)) {
+      await supabase.rpc('encerrar_sequencias_follow_up', {
+        p_lead_id: execucao.lead_id,
+        p_motivo: 'opt_out',
+      });
+      console.log(`🚫 Sequência encerrada para lead ${execucao.lead_id} - opt-out`);
+      result.sequencias_encerradas++;
+      continue;
+    }
+
+    // Follow-up pausado no lead depois do agendamento: encerra a sequência
+    if (execucao.lead?.follow_up_pausado) {
+      await supabase.rpc('encerrar_sequencias_follow_up', {
+        p_lead_id: execucao.lead_id,
+        p_motivo: 'follow_up_pausado',
+      });
+      console.log(`⏹️ Sequência encerrada para lead ${execucao.lead_id} - follow-up pausado`);
+      result.sequencias_encerradas++;
+      continue;
+    }
+
+    if (fila.itens.length >= fila.orcamento) break;
+    fila.itens.push({ execucao, campanha, etapas });
+  }
+};
+
+/**
+ * Coloca nas filas das clínicas as execuções dos envios em massa com data agendada vencida,
+ * até o orçamento de envio de cada clínica, respeitando a janela de envio da campanha.
+ * Leads que pediram opt-out ou tiveram o follow-up pausado depois do agendamento têm a
+ * execução cancelada (encerrar_sequencias_follow_up só cancela as automáticas).
+ */
+const enfileirarEnviosEmMassa = async (
+  supabase: SupabaseClient,
+  filas: Map<string, FilaClinica>,
+  result: ProcessingResult
+) => {
+  const { data: vencidas, error: vencidasError } = await supabase
+    .from('follow_up_execucoes')
+    .select(`
+      id,
+      lead_id,
+      template_id,
+      variante_id,
+      data_agendada,
+      tipo_execucao,
+      lead:leads(follow_up_pausado),
+      template:follow_up_templates(sequencia),
+      campanha:follow_up_campaigns(
+        id,
+        nome,
+        clinica_id,
+        horario_envio,
+        horario_envio_fim,
+        apenas_dias_uteis,
+        clinica:clinicas(
+          fuso_horario,
+          horario_funcionamento,
+          followup_limite_por_minuto,
+          followup_limite_por_hora,
+          followup_limite_por_dia,
+          followup_intervalo_min_segundos,
+          followup_intervalo_max_segundos
+        )
+      )
+    `)
+    .eq('tipo_execucao', 'manual')
+    .eq('status', 'pendente')
+    .not('lote_id', 'is', null)
+    .lte('data_agendada', new Date().toISOString())
+    .order('data_agendada', { ascending: true })
+    .limit(1000);
+
+  if (vencidasError) {
+    console.error('❌ Erro ao buscar envios em massa agendados:', vencidasError);
+    result.erros.push(`Erro ao buscar envios em massa: ${vencidasError.message}`);
+    return;
+  }
+
+  if (!vencidas || vencidas.length === 0) return;
+
+  console.log(`📨 ${vencidas.length} envios em massa agendados vencidos`);
+
+  let comOptOut = new Set<string>();
+  try {
+    comOptOut = await buscarLeadsComOptOut(supabase, vencidas.map((execucao: { lead_id: string }) => execucao.lead_id));
+  } catch (consentError) {
+    // Sem saber o consentimento, não envia nada nesta rodada
+    console.error('❌ Erro ao verificar opt-out dos envios em massa:', consentError);
+    result.erros.push(consentError.message);
+    return;
+  }
+
+  const janelaPorCampanha = new Map<string, boolean>();
+
+  for (const execucao of vencidas) {
+    const motivo = comOptOut.has(execucao.lead_id)
+      ? 'opt_out'
+      : execucao.lead?.follow_up_pausado ? 'follow_up_pausado' : null;
+
+    if (motivo) {
+      await supabase
+        .from('follow_up_execucoes')
+        .update({ status: 'cancelado', motivo_cancelamento: motivo })
+        .eq('id', execucao.id)
+        .eq('status', 'pendente');
+      console.log(`🚫 Envio em massa cancelado para lead ${execucao.lead_id} - ${motivo}`);
+      result.envios_em_massa_cancelados++;
+      continue;
+    }
+
+    const campanha = execucao.campanha;
+    if (!campanha) continue;
+
+    // Janela de envio da campanha no fuso da clínica (fora dela, o envio fica para depois)
+    if (!janelaPorCampanha.has(campanha.id)) {
+      const janela = verificarJanelaDeEnvio({
+        instante: new Date(),
+        fusoHorario: campanha.clinica?.fuso_horario,
+        horarioFuncionamento: campanha.clinica?.horario_funcionamento,
+        inicio: campanha.horario_envio,
+        fim: campanha.horario_envio_fim,
+        apenasDiasUteis: campanha.apenas_dias_uteis,
+      });
+      if (!janela.permitido) {
+        console.log(`⏸️ Envios em massa da campanha ${campanha.nome} aguardando - ${janela.motivo}`);
+      }
+      janelaPorCampanha.set(campanha.id, janela.permitido);
+    }
+    if (!janelaPorCampanha.get(campanha.id)) continue;
+
+    const fila = await obterFilaDaClinica(supabase, filas, campanha.clinica_id, campanha.clinica);
+    if (fila.itens.length >= fila.orcamento) continue;
+
+    fila.itens.push({ execucao, campanha: { id: campanha.id, nome: campanha.nome }, etapas: [] });
+  }
+};
+
+/**
+ * Envia uma etapa da fila: reserva a execução, sorteia a variante (etapas criadas pelos
+ * triggers de evento chegam sem variante), chama a send-followup-webhook e agenda a etapa
+ * seguinte (intervalo_dias depois) quando o envio dá certo. Envios em massa (execuções
+ * manuais) são mensagens avulsas: sem variante e sem etapa seguinte.
+ */
+const enviarEtapa = async (
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  item: ItemEnvio,
+  result: ProcessingResult
+) => {
+  const { execucao, campanha, etapas } = item;
+
+  try {
+    // Reservar: outra rodada simultânea do processador não envia a mesma execução
+    const { data: reservada, error: reservaError } = await supabase
+      .from('follow_up_execucoes')
+      .update({ status: 'processando' })
+      .eq('id', execucao.id)
+      .eq('status', 'pendente')
+      .select('id');
+
+    if (reservaError) {
+      throw new Error(`Erro ao reservar execução: ${reservaError.message}`);
+    }
+
+    if (!reservada || reservada.length === 0) {
+      console.log(`⏭️ Execução ${execucao.id} já foi enviada ou encerrada`);
+      return;
+    }
+
+    // Sortear a variante de teste A/B da etapa, se ainda não tiver
+    if (!execucao.variante_id && execucao.tipo_execucao === 'automatico') {
+      const etapa = etapas.find((e) => e.id === execucao.template_id);
+      const variante = escolherVariante(execucao.lead_id, execucao.template_id, etapa?.variantes);
+      if (variante) {
+        await supabase
+          .from('follow_up_execucoes')
+          .update({ variante_id: variante.id })
+          .eq('id', execucao.id);
+      }
+    }
+
+    const webhookResponse = await fetch(`${supabaseUrl}/functions/v1/send-followup-webhook`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+      },
+      body: JSON.stringify({ execution_id: execucao.id }),
+    });
+
+    if (!webhookResponse.ok) {
+      // A execução fica com status 'erro' (ou 'cancelado', em caso de opt-out) e a sequência para nesta etapa
+      const errorText = await webhookResponse.text();
+      console.error(`❌ Erro no webhook para execução ${execucao.id}:`, errorText);
+      result.erros.push(`Webhook falhou para execução ${execucao.id}: ${errorText}`);
+      return;
+    }
+
+    console.log(`📤 Webhook enviado para execução ${execucao.id}`);
+    result.execucoes_enviadas++;
+
+    if (execucao.tipo_execucao === 'manual') return;
+
+    // Agendar a próxima etapa ativa da sequência
+    const sequenciaAtual = execucao.template?.sequencia ?? 0;
+    const proximaEtapa = etapas.find((etapa) => etapa.sequencia > sequenciaAtual);
+
+    if (!proximaEtapa) {
+      console.log(`🏁 Sequência concluída para lead ${execucao.lead_id}`);
+      return;
+    }
+
+    const dataAgendada = new Date();
+    dataAgendada.setDate(dataAgendada.getDate() + proximaEtapa.intervalo_dias);
+
+    const { error: agendamentoError } = await supabase
+      .from('follow_up_execucoes')
+      .insert({
+        lead_id: execucao.lead_id,
+        campaign_id: campanha.id,
+        template_id: proximaEtapa.id,
+        variante_id: escolherVariante(execucao.lead_id, proximaEtapa.id, proximaEtapa.variantes)?.id ?? null,
+        tipo_execucao: 'automatico',
+        status: 'pendente',
+        data_agendada: dataAgendada.toISOString(),
+      });
+
+    if (agendamentoError) {
+      console.error(`❌ Erro ao agendar próxima etapa:`, agendamentoError);
+      result.erros.push(`Erro ao agendar etapa ${proximaEtapa.sequencia}: ${agendamentoError.message}`);
+      return;
+    }
+
+    console.log(`📅 Etapa ${proximaEtapa.sequencia} agendada para ${dataAgendada.toISOString()} (lead ${execucao.lead_id})`);
+    result.etapas_agendadas++;
+
+  } catch (envioError) {
+    console.error(`❌ Erro ao enviar execução ${execucao.id}:`, envioError);
+    result.erros.push(`Erro de webhook: ${envioError.message}`);
+  }
+};
+
+/**
+ * Esvazia as filas das clínicas respeitando o intervalo sorteado entre mensagens da mesma
+ * clínica. As clínicas são intercaladas: enquanto uma aguarda o intervalo, outra envia.
+ * Para ao fim do tempo da rodada; o que sobrar continua pendente para a próxima.
+ */
+const despacharFilas = async (
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  filas: Map<string, FilaClinica>,
+  result: ProcessingResult
+) => {
+  const limiteRodada = Date.now() + TEMPO_MAXIMO_DESPACHO_MS;
+
+  while (true) {
+    const comItens = Array.from(filas.values()).filter((fila) => fila.itens.length > 0);
+    if (comItens.length === 0) break;
+
+    const proxima = comItens.reduce((a, b) => (b.proximoEnvioEm < a.proximoEnvioEm ? b : a));
+    if (proxima.proximoEnvioEm > limiteRodada) break;
+
+    const espera = proxima.proximoEnvioEm - Date.now();
+    if (espera > 0) {
+      await new Promise((resolve) => setTimeout(resolve, espera));
+    }
+
+    const item = proxima.itens.shift()!;
+    await enviarEtapa(supabase, supabaseUrl, supabaseServiceKey, item, result);
+    proxima.proximoEnvioEm = Date.now() + sortearIntervaloEnvio(proxima.limites);
+  }
+
+  filas.forEach((fila) => {
+    if (fila.itens.length > 0) {
+      console.log(`⏳ ${fila.itens.length} envios da clínica ${fila.clinicaId} ficam para a próxima rodada`);
+      result.execucoes_adiadas += fila.itens.length;
+    }
+  });
+};
+
 serve(async (req) => {
   console.log('🚀 Iniciando processamento de campanhas de follow-up');
 
@@ -43,19 +607,49 @@ serve(async (req) => {
     const result: ProcessingResult = {
       campanhas_processadas: 0,
       leads_detectados: 0,
+      leads_fora_do_publico: 0,
+      leads_com_opt_out: 0,
       execucoes_criadas: 0,
       execucoes_enviadas: 0,
+      execucoes_adiadas: 0,
+      envios_em_massa_cancelados: 0,
+      etapas_agendadas: 0,
+      sequencias_encerradas: 0,
       erros: [],
     };
 
-    // Buscar campanhas automáticas ativas
+    // Devolver à fila as execuções presas em 'processando' (rodada interrompida no meio do envio)
+    const limiteProcessando = new Date(Date.now() - PROCESSANDO_EXPIRA_MINUTOS * 60 * 1000).toISOString();
+    const { error: recuperarError } = await supabase
+      .from('follow_up_execucoes')
+      .update({ status: 'pendente' })
+      .eq('status', 'processando')
+      .lt('updated_at', limiteProcessando);
+
+    if (recuperarError) {
+      console.error('⚠️ Erro ao recuperar execuções presas:', recuperarError);
+    }
+
+    // Filas de envio por clínica, esvaziadas depois de processar todas as campanhas
+    const filas = new Map<string, FilaClinica>();
+
+    // Buscar campanhas ativas (inatividade e por evento; as manuais não passam por aqui)
     const { data: campanhas, error: campanhasError } = await supabase
       .from('follow_up_campaigns')
       .select(`
         *,
-        templates:follow_up_templates(*)
+        templates:follow_up_templates(*, variantes:follow_up_template_variantes(*)),
+        clinica:clinicas(
+          fuso_horario,
+          horario_funcionamento,
+          followup_limite_por_minuto,
+          followup_limite_por_hora,
+          followup_limite_por_dia,
+          followup_intervalo_min_segundos,
+          followup_intervalo_max_segundos
+        )
       `)
-      .eq('tipo', 'automatico')
+      .neq('tipo', 'manual')
       .eq('ativo', true);
 
     if (campanhasError) {
@@ -64,39 +658,50 @@ serve(async (req) => {
     }
 
     if (!campanhas || campanhas.length === 0) {
+      // Os envios em massa agendados continuam sendo processados abaixo
       console.log('ℹ️ Nenhuma campanha automática ativa encontrada');
-      return new Response(JSON.stringify({
-        success: true,
-        message: 'Nenhuma campanha ativa para processar',
-        result,
-      }), {
-        status: 200,
-        headers: { 'Content-Type': 'application/json' },
-      });
+    } else {
+      console.log(`📋 Processando ${campanhas.length} campanhas ativas`);
     }
 
-    console.log(`📋 Processando ${campanhas.length} campanhas ativas`);
-
     // Processar cada campanha
-    for (const campanha of campanhas) {
+    for (const campanha of campanhas || []) {
       try {
         console.log(`🔄 Processando campanha: ${campanha.nome}`);
         result.campanhas_processadas++;
 
-        // Verificar se está no horário de envio
-        const agora = new Date();
-        const horarioAtual = agora.toTimeString().slice(0, 5); // HH:MM
-        const diaSemana = agora.getDay(); // 0 = domingo, 6 = sábado
+        // Verificar janela de envio no fuso da clínica (dias úteis, feriados e funcionamento)
+        const janela = verificarJanelaDeEnvio({
+          instante: new Date(),
+          fusoHorario: campanha.clinica?.fuso_horario,
+          horarioFuncionamento: campanha.clinica?.horario_funcionamento,
+          inicio: campanha.horario_envio,
+          fim: campanha.horario_envio_fim,
+          apenasDiasUteis: campanha.apenas_dias_uteis,
+        });
+
+        if (!janela.permitido) {
+          console.log(`⏸️ Pulando campanha ${campanha.nome} - ${janela.motivo} (${janela.local.data} ${janela.local.hora})`);
+          continue;
+        }
+
+        // Etapas da sequência: templates ativos em ordem de sequência
+        const etapas: EtapaSequencia[] = (campanha.templates || [])
+          .filter((t: EtapaSequencia) => t.ativo)
+          .sort((a: EtapaSequencia, b: EtapaSequencia) => a.sequencia - b.sequencia);
+        const primeiraEtapa = etapas[0];
 
-        // Verificar dias úteis
-        if (campanha.apenas_dias_uteis && (diaSemana === 0 || diaSemana === 6)) {
-          console.log(`⏸️ Pulando campanha ${campanha.nome} - fim de semana`);
+        if (!primeiraEtapa) {
+          console.log(`⚠️ Campanha ${campanha.nome} não possui templates ativos`);
           continue;
         }
 
-        // Verificar horário de envio
-        if (campanha.horario_envio && horarioAtual < campanha.horario_envio) {
-          console.log(`⏸️ Pulando campanha ${campanha.nome} - fora do horário`);
+        // Campanhas por evento: só os aniversários são iniciados aqui (os demais, pelos triggers)
+        if (campanha.tipo !== 'automatico') {
+          if (campanha.tipo === 'aniversario') {
+            await iniciarSequenciasDeAniversario(supabase, campanha, janela.local.data, result);
+          }
+          await enfileirarEtapasVencidas(supabase, campanha, etapas, await obterFilaDaClinica(supabase, filas, campanha.clinica_id, campanha.clinica), result);
           continue;
         }
 
@@ -116,63 +721,87 @@ serve(async (req) => {
         if (leadsError) {
           console.error(`❌ Erro ao buscar leads da campanha ${campanha.nome}:`, leadsError);
           result.erros.push(`Erro ao buscar leads: ${leadsError.message}`);
-          continue;
         }
 
-        if (!leads || leads.length === 0) {
-          console.log(`ℹ️ Nenhum lead inativo encontrado para campanha ${campanha.nome}`);
-          continue;
+        let leadsInativos = leads || [];
+
+        // Aplicar as regras de público da campanha
+        const filtros = normalizarFiltrosPublico(campanha.filtros_publico);
+        if (leadsInativos.length > 0 && possuiFiltrosPublico(filtros)) {
+          const comAgendamentoFuturo = filtros.agendamento_futuro === 'todos'
+            ? new Set<string>()
+            : await buscarLeadsComAgendamentoFuturo(supabase, leadsInativos.map((lead) => lead.id));
+
+          const noPublico = leadsInativos.filter((lead) =>
+            leadAtendeFiltros(lead, filtros, comAgendamentoFuturo.has(lead.id))
+          );
+
+          console.log(`🎯 Público da campanha ${campanha.nome}: ${noPublico.length} de ${leadsInativos.length} leads inativos`);
+          result.leads_fora_do_publico += leadsInativos.length - noPublico.length;
+          leadsInativos = noPublico;
         }
 
-        console.log(`📍 ${leads.length} leads inativos encontrados para campanha ${campanha.nome}`);
-        result.leads_detectados += leads.length;
+        // Leads com opt-out no WhatsApp não entram em nenhuma campanha
+        if (leadsInativos.length > 0) {
+          const comOptOut = await buscarLeadsComOptOut(supabase, leadsInativos.map((lead) => lead.id));
+          if (comOptOut.size > 0) {
+            console.log(`🚫 ${comOptOut.size} leads com opt-out ignorados na campanha ${campanha.nome}`);
+            result.leads_com_opt_out += comOptOut.size;
+            leadsInativos = leadsInativos.filter((lead) => !comOptOut.has(lead.id));
+          }
+        }
 
-        // Processar cada lead
-        for (const lead of leads) {
+        if (leadsInativos.length === 0) {
+          console.log(`ℹ️ Nenhum lead inativo encontrado para campanha ${campanha.nome}`);
+        } else {
+          console.log(`📍 ${leadsInativos.length} leads inativos encontrados para campanha ${campanha.nome}`);
+          result.leads_detectados += leadsInativos.length;
+        }
+
+        // Processar cada lead: iniciar a sequência (primeira etapa) para quem ainda não está nela
+        for (const lead of leadsInativos) {
           try {
-            // Verificar se já existe execução pendente para este lead nesta campanha
-            const { data: execucoesPendentes, error: execucoesError } = await supabase
+            // Última execução automática deste lead nesta campanha
+            const { data: ultimaExecucao, error: execucoesError } = await supabase
               .from('follow_up_execucoes')
-              .select('id')
+              .select('id, status, created_at')
               .eq('lead_id', lead.id)
               .eq('campaign_id', campanha.id)
-              .eq('status', 'pendente');
+              .eq('tipo_execucao', 'automatico')
+              .order('created_at', { ascending: false })
+              .limit(1)
+              .maybeSingle();
 
             if (execucoesError) {
-              console.error(`❌ Erro ao verificar execuções pendentes:`, execucoesError);
+              console.error(`❌ Erro ao verificar execuções do lead:`, execucoesError);
               continue;
             }
 
-            if (execucoesPendentes && execucoesPendentes.length > 0) {
-              console.log(`⏸️ Lead ${lead.id} já possui execução pendente`);
+            if (ultimaExecucao?.status === 'pendente' || ultimaExecucao?.status === 'processando') {
+              console.log(`⏸️ Lead ${lead.id} já está na sequência (etapa pendente)`);
               continue;
             }
 
-            // Verificar qual sequência aplicar
-            // Por enquanto, começar sempre com sequência 1
-            // TODO: Implementar lógica para sequências subsequentes
-            const templateSequencia1 = campanha.templates?.find(t => t.sequencia === 1 && t.ativo);
-
-            if (!templateSequencia1) {
-              console.log(`⚠️ Campanha ${campanha.nome} não possui template ativo para sequência 1`);
+            // A sequência roda uma vez por período de inatividade: só recomeça
+            // depois que o lead voltar a ter contato e ficar inativo de novo
+            if (
+              ultimaExecucao &&
+              (!lead.data_ultimo_contato || ultimaExecucao.created_at > lead.data_ultimo_contato)
+            ) {
               continue;
             }
 
-            // Criar execução
-            const dataAgendada = new Date();
-            
-            const { data: execucao, error: execucaoError } = await supabase
+            const { error: execucaoError } = await supabase
               .from('follow_up_execucoes')
               .insert({
                 lead_id: lead.id,
                 campaign_id: campanha.id,
-                template_id: templateSequencia1.id,
+                template_id: primeiraEtapa.id,
+                variante_id: escolherVariante(lead.id, primeiraEtapa.id, primeiraEtapa.variantes)?.id ?? null,
                 tipo_execucao: 'automatico',
                 status: 'pendente',
-                data_agendada: dataAgendada.toISOString(),
-              })
-              .select()
-              .single();
+                data_agendada: new Date().toISOString(),
+              });
 
             if (execucaoError) {
               console.error(`❌ Erro ao criar execução:`, execucaoError);
@@ -180,45 +809,30 @@ serve(async (req) => {
               continue;
             }
 
-            console.log(`✅ Execução criada: ${execucao.id} para lead ${lead.id}`);
+            console.log(`✅ Sequência iniciada para lead ${lead.id} (etapa ${primeiraEtapa.sequencia})`);
             result.execucoes_criadas++;
 
-            // Enviar webhook imediatamente
-            try {
-              const webhookResponse = await fetch(`${supabaseUrl}/functions/v1/send-followup-webhook`, {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'Authorization': `Bearer ${supabaseServiceKey}`,
-                },
-                body: JSON.stringify({ execution_id: execucao.id }),
-              });
-
-              if (webhookResponse.ok) {
-                console.log(`📤 Webhook enviado para execução ${execucao.id}`);
-                result.execucoes_enviadas++;
-              } else {
-                const errorText = await webhookResponse.text();
-                console.error(`❌ Erro no webhook para execução ${execucao.id}:`, errorText);
-                result.erros.push(`Webhook falhou para execução ${execucao.id}: ${errorText}`);
-              }
-            } catch (webhookError) {
-              console.error(`❌ Erro ao enviar webhook:`, webhookError);
-              result.erros.push(`Erro de webhook: ${webhookError.message}`);
-            }
-
           } catch (leadError) {
             console.error(`❌ Erro ao processar lead ${lead.id}:`, leadError);
             result.erros.push(`Erro no lead ${lead.id}: ${leadError.message}`);
           }
         }
 
+        // Colocar na fila de envio as etapas vencidas (novas etapas 1 e etapas seguintes agendadas)
+        await enfileirarEtapasVencidas(supabase, campanha, etapas, await obterFilaDaClinica(supabase, filas, campanha.clinica_id, campanha.clinica), result);
+
       } catch (campanhaError) {
         console.error(`❌ Erro ao processar campanha ${campanha.nome}:`, campanhaError);
         result.erros.push(`Erro na campanha ${campanha.nome}: ${campanhaError.message}`);
       }
     }
 
+    // Envios em massa agendados entram nas mesmas filas, com o orçamento que sobrou
+    await enfileirarEnviosEmMassa(supabase, filas, result);
+
+    // Enviar as filas das clínicas dentro dos limites de envio
+    await despacharFilas(supabase, supabaseUrl, supabaseServiceKey, filas, result);
+
     console.log('✅ Processamento de campanhas concluído:', result);
 
     return new Response(JSON.stringify({
@@ -0,0 +1,159 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { processarItem, reservarItem } from '../_shared/outboundQueue.ts'
+import { chamadaInternaAutorizada } from '../_shared/workerAuth.ts'
+
+/**
+ * Edge Function worker da fila de envio (outbound_message_queue)
+ *
+ * O que faz:
+ * - Busca os itens 'pending' cuja proxima_tentativa_em já venceu
+ * - Reserva cada item ('processing') e faz uma nova tentativa de envio para o n8n
+ * - Em caso de falha, o item volta para 'pending' com backoff exponencial
+ *   ou vai para 'dead_letter' ao atingir max_tentativas
+ * - Leads que pediram opt-out depois do enfileiramento têm o item cancelado ('cancelled')
+ * - Itens presos em 'processing' (execução interrompida) voltam a ficar pendentes
+ *
+ * Como usar:
+ * - CRON a cada minuto para processar todas as tentativas vencidas
+ * - Com { queue_id }, tenta um item específico na hora (uso interno)
+ * - Exige a Service Role Key ou o header x-cron-secret (_shared/workerAuth.ts). O reenvio
+ *   manual do painel de Webhook usa a RPC reenviar_item_fila e espera o CRON
+ *
+ * Concorrência:
+ * - A reserva é feita com UPDATE ... WHERE status = 'pending', então execuções
+ *   simultâneas (CRON + reenvio manual) nunca enviam o mesmo item duas vezes
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-cron-secret',
+}
+
+const LIMITE_POR_EXECUCAO = 50
+const PROCESSING_EXPIRA_MINUTOS = 5
+
+interface ProcessResult {
+  processados: number
+  enviados: number
+  reagendados: number
+  dead_letter: number
+  cancelados: number
+  recuperados: number
+  erros: string[]
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (!chamadaInternaAutorizada(req)) {
+    console.error('❌ [process-outbound-queue] Chamada sem Service Role Key ou CRON_SECRET')
+    return new Response(
+      JSON.stringify({ error: 'Não autorizado' }),
+      { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  console.log('🚀 [process-outbound-queue] Verificando envios pendentes na fila')
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    )
+
+    // Filtro opcional para tentar um item específico na hora
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {}
+    const { queue_id: queueFiltro } = body as { queue_id?: string }
+
+    const result: ProcessResult = {
+      processados: 0,
+      enviados: 0,
+      reagendados: 0,
+      dead_letter: 0,
+      cancelados: 0,
+      recuperados: 0,
+      erros: [],
+    }
+
+    // Recuperar itens que ficaram presos em 'processing' (ex.: timeout da função)
+    const limiteProcessing = new Date(Date.now() - PROCESSING_EXPIRA_MINUTOS * 60 * 1000).toISOString()
+    const { data: recuperados, error: recuperarError } = await supabaseClient
+      .from('outbound_message_queue')
+      .update({ status: 'pending' })
+      .eq('status', 'processing')
+      .lt('updated_at', limiteProcessing)
+      .select('id')
+
+    if (recuperarError) {
+      console.error('⚠️ [process-outbound-queue] Erro ao recuperar itens presos:', recuperarError)
+    } else {
+      result.recuperados = recuperados?.length || 0
+    }
+
+    // Buscar itens vencidos
+    let itensQuery = supabaseClient
+      .from('outbound_message_queue')
+      .select('id')
+      .eq('status', 'pending')
+
+    if (queueFiltro) {
+      itensQuery = itensQuery.eq('id', queueFiltro)
+    } else {
+      itensQuery = itensQuery
+        .lte('proxima_tentativa_em', new Date().toISOString())
+        .order('proxima_tentativa_em', { ascending: true })
+        .limit(LIMITE_POR_EXECUCAO)
+    }
+
+    const { data: itens, error: itensError } = await itensQuery
+
+    if (itensError) throw itensError
+
+    console.log(`📋 [process-outbound-queue] ${itens?.length || 0} itens para processar`)
+
+    for (const { id } of itens || []) {
+      try {
+        const item = await reservarItem(supabaseClient, id)
+        if (!item) continue // Reservado por outra execução
+
+        const resultado = await processarItem(supabaseClient, item)
+        result.processados++
+
+        if (resultado.status === 'sent') result.enviados++
+        else if (resultado.status === 'dead_letter') result.dead_letter++
+        else if (resultado.status === 'cancelled') result.cancelados++
+        else result.reagendados++
+      } catch (itemError) {
+        console.error(`❌ [process-outbound-queue] Erro ao processar item ${id}:`, itemError)
+        result.erros.push(`Item ${id}: ${itemError.message}`)
+      }
+    }
+
+    console.log('✅ [process-outbound-queue] Processamento concluído:', result)
+
+    return new Response(
+      JSON.stringify({ success: true, result }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('❌ [process-outbound-queue] Erro geral na função:', error)
+    return new Response(
+      JSON.stringify({
+        error: 'Erro interno do servidor',
+        message: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
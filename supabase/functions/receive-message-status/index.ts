@@ -0,0 +1,207 @@
+/**
+ * Edge Function para receber confirmações de entrega/leitura do WhatsApp via n8n
+ *
+ * Esta função:
+ * - Recebe do n8n os eventos de status da Evolution API (messages.update)
+ * - Valida JWT com o segredo da clínica (mesma autenticação da receive-message)
+ * - Localiza a mensagem pelo ID do CRM (message_id) ou pelo ID do provedor (provider_message_id)
+ * - Atualiza chat_mensagens.status_entrega sem regredir o status (ex.: read não volta para delivered)
+ * - Aceita um único evento ou uma lista em "statuses"
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { autenticarWebhookDeEntrada } from "../_shared/inboundWebhookAuth.ts"
+
+// Headers CORS para permitir chamadas do n8n
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+type StatusEntrega = 'queued' | 'sent' | 'delivered' | 'read' | 'failed'
+
+interface StatusUpdate {
+  message_id?: string // ID da mensagem no CRM (enviado como key.id pela send-webhook)
+  provider_message_id?: string // key.id da Evolution API
+  status: string
+  error?: string
+  timestamp?: string
+}
+
+// Ordem do ciclo de vida: um status só é aplicado se for posterior ao atual
+const ORDEM_STATUS: Record<StatusEntrega, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  failed: 4,
+}
+
+// Status da Evolution API (messages.update) convertidos para o status do CRM
+const STATUS_EVOLUTION: Record<string, StatusEntrega> = {
+  PENDING: 'queued',
+  SERVER_ACK: 'sent',
+  DELIVERY_ACK: 'delivered',
+  READ: 'read',
+  PLAYED: 'read',
+  ERROR: 'failed',
+}
+
+const normalizarStatus = (status: string): StatusEntrega | null => {
+  if (!status) return null
+  if (status in ORDEM_STATUS) return status as StatusEntrega
+  return STATUS_EVOLUTION[status.toUpperCase()] || null
+}
+
+/**
+ * Aplica uma atualização de status e retorna o resultado para a resposta do webhook
+ */
+const aplicarStatus = async (supabaseClient: SupabaseClient, clinicaId: string, update: StatusUpdate) => {
+  const status = normalizarStatus(update.status)
+  const referencia = update.message_id || update.provider_message_id
+
+  if (!status || !referencia) {
+    return { referencia, updated: false, reason: 'status ou identificador da mensagem inválido' }
+  }
+
+  let query = supabaseClient
+    .from('chat_mensagens')
+    .select('id, status_entrega')
+    .eq('clinica_id', clinicaId)
+    .eq('enviado_por', 'usuario')
+
+  query = update.message_id
+    ? query.eq('id', update.message_id)
+    : query.eq('provider_message_id', update.provider_message_id)
+
+  const { data: mensagem, error: selectError } = await query.maybeSingle()
+
+  if (selectError) {
+    console.error('❌ Erro ao buscar mensagem:', selectError)
+    return { referencia, updated: false, reason: selectError.message }
+  }
+
+  if (!mensagem) {
+    return { referencia, updated: false, reason: 'mensagem não encontrada' }
+  }
+
+  // Não regredir o status (eventos podem chegar fora de ordem). Falha só é aplicada
+  // enquanto a mensagem ainda não foi entregue.
+  const statusAtual = (mensagem.status_entrega || 'queued') as StatusEntrega
+  const podeAtualizar = status === 'failed'
+    ? ORDEM_STATUS[statusAtual] < ORDEM_STATUS.delivered
+    : statusAtual === 'failed' || ORDEM_STATUS[status] > ORDEM_STATUS[statusAtual]
+
+  if (!podeAtualizar) {
+    return { referencia, message_id: mensagem.id, updated: false, status: statusAtual }
+  }
+
+  const { error: updateError } = await supabaseClient
+    .from('chat_mensagens')
+    .update({
+      status_entrega: status,
+      status_entrega_em: update.timestamp || new Date().toISOString(),
+      erro_entrega: status === 'failed' ? (update.error || 'Falha na entrega informada pelo WhatsApp') : null,
+      ...(status === 'read' && { lida: true }),
+    })
+    .eq('id', mensagem.id)
+
+  if (updateError) {
+    console.error('❌ Erro ao atualizar status da mensagem:', updateError)
+    return { referencia, message_id: mensagem.id, updated: false, reason: updateError.message }
+  }
+
+  console.log(`✅ Mensagem ${mensagem.id}: ${statusAtual} -> ${status}`)
+  return { referencia, message_id: mensagem.id, updated: true, status }
+}
+
+serve(async (req) => {
+  // Tratar requisições OPTIONS (CORS preflight)
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  // Aceitar apenas POST
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ error: 'Método não permitido' }),
+      {
+        status: 405,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+
+  try {
+    console.log('🔄 Recebendo status de mensagens do n8n...')
+
+    // Criar cliente Supabase
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Parsear payload do n8n: um evento único ou uma lista em "statuses"
+    const webhookData = await req.json()
+    console.log('📨 Status recebidos do n8n:', webhookData)
+
+    // Validar JWT com o segredo da clínica e identificar a clínica pelo token ou pela instância
+    const auth = await autenticarWebhookDeEntrada(supabaseClient, req, webhookData, 'receive-message-status')
+    if (!auth.ok) {
+      return new Response(
+        JSON.stringify({ error: auth.error }),
+        {
+          status: auth.status,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const clinica_id = auth.clinicaId
+    const updates: StatusUpdate[] = Array.isArray(webhookData.statuses) ? webhookData.statuses : [webhookData]
+
+    if (updates.length === 0) {
+      console.error('❌ Nenhum status informado')
+      return new Response(
+        JSON.stringify({
+          error: 'Campos obrigatórios: status e message_id ou provider_message_id'
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const resultados = []
+    for (const update of updates) {
+      resultados.push(await aplicarStatus(supabaseClient, clinica_id, update))
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        results: resultados
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('❌ Erro interno do servidor:', error)
+
+    return new Response(
+      JSON.stringify({
+        error: 'Erro interno do servidor',
+        details: error.message
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -0,0 +1,141 @@
+/**
+ * Identificação automática de anúncios pela primeira mensagem do lead
+ *
+ * O que faz:
+ * - Normaliza textos (minúsculas, sem acentos, sem pontuação, espaços únicos)
+ * - Compara a mensagem com as frases de ativação (custom_ads.ad_phrase) da clínica
+ * - Aceita pequenas diferenças de digitação (comparação aproximada por palavras)
+ * - Retorna o anúncio com maior pontuação, desde que acima do limite mínimo
+ *
+ * Onde é usado:
+ * - receive-message, ao criar um lead novo, para preencher ad_name, ad_platform e origem_lead
+ */
+
+export interface CustomAdRule {
+  id: string
+  ad_name: string
+  ad_phrase: string
+  ad_source: string
+}
+
+export interface AdMatch {
+  ad: CustomAdRule
+  tipo: 'exata' | 'aproximada'
+  pontuacao: number
+  mensagemNormalizada: string
+}
+
+// Pontuação mínima para considerar que a mensagem veio do anúncio
+export const LIMITE_CORRESPONDENCIA = 0.8
+
+// Similaridade mínima para considerar duas palavras equivalentes ("anuncio" x "anucio")
+const LIMITE_PALAVRA = 0.75
+
+/**
+ * Normaliza um texto para comparação: remove acentos, pontuação e espaços extras
+ */
+export const normalizarTexto = (texto: string): string =>
+  texto
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+/**
+ * Distância de Levenshtein entre duas palavras (número mínimo de edições)
+ */
+const distanciaLevenshtein = (a: string, b: string): number => {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let anterior = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const atual = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const custo = a[i - 1] === b[j - 1] ? 0 : 1
+      atual[j] = Math.min(atual[j - 1] + 1, anterior[j] + 1, anterior[j - 1] + custo)
+    }
+    anterior = atual
+  }
+
+  return anterior[b.length]
+}
+
+/**
+ * Similaridade entre 0 e 1 de duas palavras, baseada na distância de edição
+ */
+const similaridadePalavra = (a: string, b: string): number => {
+  const maior = Math.max(a.length, b.length)
+  if (maior === 0) return 1
+  return 1 - distanciaLevenshtein(a, b) / maior
+}
+
+/**
+ * Calcula a pontuação aproximada da frase dentro da mensagem.
+ *
+ * Percorre janelas da mensagem com o mesmo número de palavras da frase e,
+ * para cada janela, soma a similaridade palavra a palavra. Palavras abaixo
+ * de LIMITE_PALAVRA contam como zero. Retorna a melhor janela encontrada.
+ */
+const pontuacaoAproximada = (palavrasMensagem: string[], palavrasFrase: string[]): number => {
+  if (palavrasFrase.length === 0 || palavrasMensagem.length < palavrasFrase.length) {
+    return 0
+  }
+
+  let melhor = 0
+
+  for (let inicio = 0; inicio <= palavrasMensagem.length - palavrasFrase.length; inicio++) {
+    let soma = 0
+    for (let k = 0; k < palavrasFrase.length; k++) {
+      const similaridade = similaridadePalavra(palavrasMensagem[inicio + k], palavrasFrase[k])
+      soma += similaridade >= LIMITE_PALAVRA ? similaridade : 0
+    }
+    melhor = Math.max(melhor, soma / palavrasFrase.length)
+    if (melhor === 1) break
+  }
+
+  return melhor
+}
+
+/**
+ * Encontra o anúncio cuja frase de ativação melhor corresponde à mensagem.
+ * Retorna null se nenhuma frase atingir LIMITE_CORRESPONDENCIA.
+ */
+export const encontrarAnuncio = (mensagem: string, anuncios: CustomAdRule[]): AdMatch | null => {
+  const mensagemNormalizada = normalizarTexto(mensagem || '')
+  if (!mensagemNormalizada) return null
+
+  const palavrasMensagem = mensagemNormalizada.split(' ')
+  let melhor: AdMatch | null = null
+
+  for (const ad of anuncios) {
+    const fraseNormalizada = normalizarTexto(ad.ad_phrase || '')
+    if (!fraseNormalizada) continue
+
+    // Correspondência exata tem prioridade e pontuação máxima
+    const exata = ` ${mensagemNormalizada} `.includes(` ${fraseNormalizada} `)
+    const pontuacao = exata ? 1 : pontuacaoAproximada(palavrasMensagem, fraseNormalizada.split(' '))
+
+    if (pontuacao < LIMITE_CORRESPONDENCIA) continue
+
+    // Em caso de empate, a frase mais longa (mais específica) vence
+    const maisEspecifica = melhor
+      && pontuacao === melhor.pontuacao
+      && fraseNormalizada.length > normalizarTexto(melhor.ad.ad_phrase).length
+
+    if (!melhor || pontuacao > melhor.pontuacao || maisEspecifica) {
+      melhor = {
+        ad,
+        tipo: exata ? 'exata' : 'aproximada',
+        pontuacao: Math.round(pontuacao * 1000) / 1000,
+        mensagemNormalizada,
+      }
+    }
+  }
+
+  return melhor
+}
@@ -0,0 +1,130 @@
+/**
+ * Confirmação / cancelamento de agendamento pela resposta ao lembrete
+ *
+ * O que faz:
+ * - Busca o último lembrete enviado ao lead (agendamento_lembretes)
+ * - Se o agendamento ainda está por vir, no mesmo horário do lembrete e 'agendado' ou
+ *   'confirmado', muda o status para confirmado ou cancelado
+ * - Grava a resposta no lembrete; a atualização chega ao CRM em tempo real e avisa a equipe
+ *
+ * Regras:
+ * - Lembrete já respondido só aceita mudança de ideia ("SIM" e depois "NÃO") por
+ *   JANELA_MUDANCA_MINUTOS após a resposta; depois disso "sim"/"não" são conversa normal
+ * - Repetir a mesma resposta não altera nada nem avisa a equipe de novo
+ * - Lembrete sem resposta só aceita confirmação até JANELA_RESPOSTA_MINUTOS após o envio;
+ *   cancelamentos e palavras genéricas ("sim", "ok", "não"...) até JANELA_RESPOSTA_CURTA_MINUTOS
+ * - Se a clínica (equipe ou IA) mandou outra mensagem depois do lembrete, a resposta é para
+ *   essa mensagem, não para o lembrete
+ * - Agendamentos remarcados depois do lembrete, realizados ou já cancelados não são alterados
+ *
+ * Onde é usado:
+ * - receive-message/index.ts, para mensagens de texto reconhecidas por detectarRespostaLembrete
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { RespostaLembrete } from '../_shared/appointmentReply.ts'
+
+const STATUS_ALTERAVEIS = ['agendado', 'confirmado']
+const JANELA_MUDANCA_MINUTOS = 30
+const JANELA_RESPOSTA_MINUTOS = 4 * 60
+const JANELA_RESPOSTA_CURTA_MINUTOS = 60
+
+const minutosDesde = (data: string) => (Date.now() - new Date(data).getTime()) / 60000
+
+export interface ConfirmacaoAgendamento {
+  agendamento_id: string
+  lembrete_id: string
+  status: 'confirmado' | 'cancelado'
+}
+
+export const registrarRespostaLembrete = async (
+  supabaseClient: SupabaseClient,
+  dados: {
+    clinica_id: string
+    lead_id: string
+    resposta: RespostaLembrete
+    // "sim", "ok", "não"... (ehRespostaGenerica)
+    generica: boolean
+    mensagem_id: string
+  }
+): Promise<ConfirmacaoAgendamento | null> => {
+  const { data: lembrete, error: lembreteError } = await supabaseClient
+    .from('agendamento_lembretes')
+    .select('id, agendamento_id, mensagem_id, data_agendamento, created_at, resposta, respondido_em, agendamento:agendamentos(status, data_inicio)')
+    .eq('clinica_id', dados.clinica_id)
+    .eq('lead_id', dados.lead_id)
+    .eq('status', 'enviado')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (lembreteError) {
+    throw new Error(`Erro ao buscar lembrete: ${lembreteError.message}`)
+  }
+
+  const agendamento = lembrete?.agendamento as { status: string | null; data_inicio: string } | null
+  if (!lembrete || !agendamento) return null
+
+  const status = dados.resposta === 'confirmar' ? 'confirmado' : 'cancelado'
+
+  if (lembrete.resposta) {
+    const dentroDaJanela = lembrete.respondido_em && minutosDesde(lembrete.respondido_em) <= JANELA_MUDANCA_MINUTOS
+    if (!dentroDaJanela || lembrete.resposta === status) return null
+  } else {
+    const janela = dados.generica || status === 'cancelado' ? JANELA_RESPOSTA_CURTA_MINUTOS : JANELA_RESPOSTA_MINUTOS
+    if (minutosDesde(lembrete.created_at) > janela) return null
+  }
+
+  // Mensagem da clínica depois do lembrete: "não" pode ser a resposta a uma pergunta da equipe
+  let mensagensClinicaQuery = supabaseClient
+    .from('chat_mensagens')
+    .select('id', { count: 'exact', head: true })
+    .eq('lead_id', dados.lead_id)
+    .neq('enviado_por', 'lead')
+    .gt('created_at', lembrete.created_at)
+
+  if (lembrete.mensagem_id) {
+    mensagensClinicaQuery = mensagensClinicaQuery.neq('id', lembrete.mensagem_id)
+  }
+
+  const { count: mensagensClinica, error: mensagensError } = await mensagensClinicaQuery
+
+  if (mensagensError) {
+    throw new Error(`Erro ao buscar mensagens da conversa: ${mensagensError.message}`)
+  }
+  if (mensagensClinica) return null
+
+  const inicio = new Date(agendamento.data_inicio).getTime()
+  if (
+    inicio <= Date.now() ||
+    inicio !== new Date(lembrete.data_agendamento).getTime() ||
+    !STATUS_ALTERAVEIS.includes(agendamento.status || 'agendado')
+  ) {
+    return null
+  }
+
+  const { error: agendamentoError } = await supabaseClient
+    .from('agendamentos')
+    .update({ status })
+    .eq('id', lembrete.agendamento_id)
+    .in('status', STATUS_ALTERAVEIS)
+
+  if (agendamentoError) {
+    throw new Error(`Erro ao atualizar agendamento: ${agendamentoError.message}`)
+  }
+
+  const { error: respostaError } = await supabaseClient
+    .from('agendamento_lembretes')
+    .update({
+      resposta: status,
+      resposta_mensagem_id: dados.mensagem_id,
+      respondido_em: new Date().toISOString()
+    })
+    .eq('id', lembrete.id)
+
+  if (respostaError) {
+    throw new Error(`Erro ao registrar resposta do lembrete: ${respostaError.message}`)
+  }
+
+  return { agendamento_id: lembrete.agendamento_id, lembrete_id: lembrete.id, status }
+}
@@ -0,0 +1,162 @@
+/**
+ * Tipos e validação do payload de mensagens recebidas (n8n / Evolution API)
+ *
+ * O que faz:
+ * - Define o formato aceito para cada tipo de mensagem do paciente
+ *   (texto, imagem, áudio, vídeo, documento, localização e contato)
+ * - Valida os campos obrigatórios de cada tipo
+ * - Converte o payload para o formato salvo em chat_mensagens (tipo, conteudo, metadados)
+ *
+ * Onde é usado:
+ * - receive-message/index.ts, antes de buscar/criar o lead e salvar a mensagem
+ */
+
+export type InboundMessageType =
+  | 'text'
+  | 'image'
+  | 'audio'
+  | 'video'
+  | 'document'
+  | 'location'
+  | 'contact'
+
+// Mídia pode chegar como URL pública (baixada pela função) ou em base64
+export interface InboundMedia {
+  url?: string
+  base64?: string
+  mimetype?: string
+  file_name?: string
+}
+
+export interface InboundLocation {
+  latitude: number
+  longitude: number
+  name?: string
+  address?: string
+}
+
+export interface InboundContact {
+  name: string
+  phones: string[]
+}
+
+export interface InboundMessagePayload {
+  sender: string
+  instance?: string // Nome da instância Evolution, usado para identificar a clínica
+  clinica_id?: string // Opcional: se enviado, precisa ser a clínica autenticada
+  provider_message_id?: string // key.id da Evolution API, usado para ignorar reenvios
+  message_type?: InboundMessageType
+  content?: string // Texto da mensagem ou legenda da mídia
+  media?: InboundMedia
+  location?: InboundLocation
+  contacts?: InboundContact[]
+  timestamp?: string
+}
+
+// Tipo gravado na coluna chat_mensagens.tipo (mesmos valores usados pelo CRM)
+export type ChatMessageTipo = 'texto' | 'imagem' | 'audio' | 'video' | 'arquivo' | 'localizacao' | 'contato'
+
+export interface ParsedInboundMessage {
+  tipo: ChatMessageTipo
+  conteudo: string
+  media: InboundMedia | null
+  metadados: Record<string, unknown> | null
+}
+
+const TIPO_POR_MESSAGE_TYPE: Record<InboundMessageType, ChatMessageTipo> = {
+  text: 'texto',
+  image: 'imagem',
+  audio: 'audio',
+  video: 'video',
+  document: 'arquivo',
+  location: 'localizacao',
+  contact: 'contato',
+}
+
+// Texto padrão exibido na lista de conversas quando a mídia não tem legenda
+const CONTEUDO_PADRAO: Partial<Record<InboundMessageType, string>> = {
+  image: 'Imagem recebida',
+  audio: 'Áudio recebido',
+  video: 'Vídeo recebido',
+  document: 'Documento recebido',
+}
+
+const TIPOS_DE_MIDIA: InboundMessageType[] = ['image', 'audio', 'video', 'document']
+
+/**
+ * Valida o payload e converte para o formato de chat_mensagens.
+ * Retorna uma string com o erro quando o payload é inválido.
+ */
+export const parseInboundMessage = (payload: InboundMessagePayload): ParsedInboundMessage | string => {
+  const messageType = payload.message_type || 'text'
+  const tipo = TIPO_POR_MESSAGE_TYPE[messageType]
+
+  if (!tipo) {
+    return `message_type inválido: ${messageType}. Valores aceitos: ${Object.keys(TIPO_POR_MESSAGE_TYPE).join(', ')}`
+  }
+
+  const content = (payload.content || '').trim()
+
+  if (messageType === 'text') {
+    if (!content) return 'content é obrigatório para mensagens de texto'
+    return { tipo, conteudo: content, media: null, metadados: null }
+  }
+
+  if (TIPOS_DE_MIDIA.includes(messageType)) {
+    const media = payload.media
+    if (!media || (!media.url && !media.base64)) {
+      return `media.url ou media.base64 é obrigatório para mensagens do tipo ${messageType}`
+    }
+
+    const conteudo = content
+      || (messageType === 'document' && media.file_name)
+      || CONTEUDO_PADRAO[messageType]!
+
+    return {
+      tipo,
+      conteudo,
+      media,
+      metadados: {
+        mimetype: media.mimetype || null,
+        file_name: media.file_name || null,
+      },
+    }
+  }
+
+  if (messageType === 'location') {
+    const location = payload.location
+    if (!location || !Number.isFinite(Number(location.latitude)) || !Number.isFinite(Number(location.longitude))) {
+      return 'location.latitude e location.longitude são obrigatórios para mensagens de localização'
+    }
+
+    return {
+      tipo,
+      conteudo: location.name || location.address || content || 'Localização compartilhada',
+      media: null,
+      metadados: {
+        latitude: Number(location.latitude),
+        longitude: Number(location.longitude),
+        name: location.name || null,
+        address: location.address || null,
+      },
+    }
+  }
+
+  // contact
+  const contacts = (payload.contacts || []).filter(contact => contact?.name)
+  if (contacts.length === 0) {
+    return 'contacts deve conter ao menos um contato com name para mensagens de contato'
+  }
+
+  return {
+    tipo,
+    conteudo: contacts.map(contact => contact.name).join(', '),
+    media: null,
+    metadados: {
+      contacts: contacts.map(contact => ({
+        name: contact.name,
+        phones: (contact.phones || []).map(phone => String(phone)),
+      })),
+    },
+  }
+}
@@ -4,15 +4,31 @@
  * 
  * Esta função:
  * - Recebe webhooks do n8n com mensagens do WhatsApp
- * - Valida JWT para segurança
- * - Busca ou cria leads automaticamente
+ * - Valida JWT com o segredo da clínica (identificada pelo token ou pela instância Evolution)
+ * - Busca ou cria leads automaticamente (telefone normalizado em E.164)
+ * - Identifica o anúncio de origem pela primeira mensagem de leads novos (custom_ads)
+ * - Aceita texto, imagem, áudio, vídeo, documento, localização e contato
+ * - Salva a mídia recebida no Storage privado e grava a referência em chat_mensagens.anexo_url
+ * - Ignora reenvios do n8n usando o ID da mensagem no provedor (provider_message_id)
  * - Salva mensagens na tabela chat_mensagens
+ * - Detecta palavras de opt-out / opt-in da clínica ("PARE", "VOLTAR"...) e registra o
+ *   consentimento de WhatsApp do lead (LGPD)
+ * - Interpreta a resposta ao lembrete de agendamento ("1"/"SIM" ou "2"/"NÃO") e confirma ou
+ *   cancela o agendamento; essas respostas não vão para o buffer da IA
  * - Retorna confirmação para o n8n
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import * as djwt from "https://deno.land/x/djwt@v2.7/mod.ts"
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { autenticarWebhookDeEntrada } from "../_shared/inboundWebhookAuth.ts"
+import { normalizarTelefone } from "../_shared/phoneNormalizer.ts"
+import { detectarPedidoConsentimento } from "../_shared/consentKeywords.ts"
+import { registrarConsentimento } from "../_shared/contactConsent.ts"
+import { detectarRespostaLembrete, ehRespostaGenerica } from "../_shared/appointmentReply.ts"
+import { registrarRespostaLembrete, type ConfirmacaoAgendamento } from "./appointmentConfirmation.ts"
+import { encontrarAnuncio, type AdMatch } from "./adMatcher.ts"
+import { parseInboundMessage, type InboundMessagePayload } from "./inboundMessage.ts"
+import { salvarMidiaRecebida } from "./mediaStorage.ts"
 
 // Headers CORS para permitir chamadas do n8n
 const corsHeaders = {
@@ -21,6 +37,46 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 }
 
+/**
+ * Busca a mensagem já salva para o ID do provedor nesta clínica
+ */
+const buscarMensagemPorProviderId = async (
+  supabaseClient: SupabaseClient,
+  clinicaId: string,
+  providerMessageId: string
+): Promise<{ id: string; lead_id: string } | null> => {
+  const { data, error } = await supabaseClient
+    .from('chat_mensagens')
+    .select('id, lead_id')
+    .eq('clinica_id', clinicaId)
+    .eq('provider_message_id', providerMessageId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('❌ Erro ao verificar mensagem duplicada:', error)
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Resposta para reenvios: devolve a mensagem existente sem criar outra
+ */
+const respostaDuplicada = (mensagem: { id: string; lead_id: string }) =>
+  new Response(
+    JSON.stringify({ 
+      success: true, 
+      message_id: mensagem.id,
+      lead_id: mensagem.lead_id,
+      duplicate: true
+    }), 
+    { 
+      status: 200, 
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    }
+  )
+
 serve(async (req) => {
   // Tratar requisições OPTIONS (CORS preflight)
   if (req.method === 'OPTIONS') {
@@ -46,68 +102,79 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
     const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
 
-    // Validar JWT do Authorization header
-    const authHeader = req.headers.get('Authorization')
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      console.error('❌ Token de autorização ausente ou inválido')
+    // Parsear payload do n8n
+    const webhookData: InboundMessagePayload = await req.json()
+    console.log('📨 Dados recebidos do n8n:', { ...webhookData, media: webhookData.media && { ...webhookData.media, base64: webhookData.media.base64 ? '[base64]' : undefined } })
+
+    // Validar JWT com o segredo da clínica e identificar a clínica pelo token ou pela instância
+    const auth = await autenticarWebhookDeEntrada(supabaseClient, req, { ...webhookData }, 'receive-message')
+    if (!auth.ok) {
       return new Response(
-        JSON.stringify({ error: 'Token de autorização obrigatório' }), 
+        JSON.stringify({ error: auth.error }), 
         { 
-          status: 401, 
+          status: auth.status, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       )
     }
 
-    const token = authHeader.split(' ')[1]
-    const secret = Deno.env.get('EVOLUTION_API_KEY')
-    
-    if (!secret) {
-      console.error('❌ EVOLUTION_API_KEY não configurada')
+    if (auth.legado) {
+      console.warn('⚠️ Clínica autenticada com o segredo global (modo legado):', auth.clinicaId)
+    }
+
+    const clinica_id = auth.clinicaId
+    const { 
+      sender, 
+      content, 
+      provider_message_id,
+      timestamp 
+    } = webhookData
+
+    // Validar campos obrigatórios
+    if (!sender) {
+      console.error('❌ Campos obrigatórios ausentes:', { sender })
       return new Response(
-        JSON.stringify({ error: 'Configuração do servidor incompleta' }), 
+        JSON.stringify({ 
+          error: 'Campo obrigatório: sender' 
+        }), 
         { 
-          status: 500, 
+          status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       )
     }
 
-    try {
-      // Verificar JWT usando HS256
-      const key = await djwt.importKey(new TextEncoder().encode(secret), "HS256")
-      const payload = await djwt.verify(token, key)
-      console.log('✅ JWT válido:', payload)
-    } catch (jwtError) {
-      console.error('❌ JWT inválido:', jwtError)
+    // Validar o conteúdo de acordo com o tipo da mensagem
+    const mensagem = parseInboundMessage(webhookData)
+    if (typeof mensagem === 'string') {
+      console.error('❌ Payload de mensagem inválido:', mensagem)
       return new Response(
-        JSON.stringify({ error: 'Token de autorização inválido' }), 
+        JSON.stringify({ error: mensagem }), 
         { 
-          status: 403, 
+          status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       )
     }
 
-    // Parsear payload do n8n
-    const webhookData = await req.json()
-    console.log('📨 Dados recebidos do n8n:', webhookData)
+    // Verificar se esta mensagem do provedor já foi salva (reenvio do webhook)
+    if (provider_message_id) {
+      const mensagemExistente = await buscarMensagemPorProviderId(supabaseClient, clinica_id, provider_message_id)
+      if (mensagemExistente) {
+        console.log('♻️ Mensagem já recebida anteriormente:', provider_message_id, mensagemExistente.id)
+        return respostaDuplicada(mensagemExistente)
+      }
+    }
 
-    const { 
-      sender, 
-      content, 
-      message_type = 'text', 
-      clinica_id, 
-      timestamp 
-    } = webhookData
+    // Limpar número do telefone (remover caracteres especiais) e normalizar para E.164
+    const telefoneFormatado = sender.replace(/\D/g, '')
+    const telefoneNormalizado = normalizarTelefone(sender)
+    console.log('📞 Telefone formatado:', telefoneFormatado, telefoneNormalizado)
 
-    // Validar campos obrigatórios
-    if (!sender || !content || !clinica_id) {
-      console.error('❌ Campos obrigatórios ausentes:', { sender, content, clinica_id })
+    if (!telefoneNormalizado) {
+      console.error('❌ Telefone do remetente inválido:', sender)
       return new Response(
-        JSON.stringify({ 
-          error: 'Campos obrigatórios: sender, content, clinica_id' 
-        }), 
+        JSON.stringify({ error: 'sender não é um telefone válido' }), 
         { 
           status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
@@ -115,19 +182,17 @@ serve(async (req) => {
       )
     }
 
-    // Limpar número do telefone (remover caracteres especiais)
-    const telefoneFormatado = sender.replace(/\D/g, '')
-    console.log('📞 Telefone formatado:', telefoneFormatado)
-
-    // Buscar lead existente pelo telefone e clínica
-    let { data: leadExistente, error: leadSearchError } = await supabaseClient
+    // Buscar lead existente pelo telefone normalizado e clínica (o mais antigo, se houver duplicados)
+    const { data: leadExistente, error: leadSearchError } = await supabaseClient
       .from('leads')
       .select('id, nome')
-      .eq('telefone', telefoneFormatado)
+      .eq('telefone_normalizado', telefoneNormalizado)
       .eq('clinica_id', clinica_id)
-      .single()
+      .order('created_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
 
-    if (leadSearchError && leadSearchError.code !== 'PGRST116') {
+    if (leadSearchError) {
       console.error('❌ Erro ao buscar lead:', leadSearchError)
       throw leadSearchError
     }
@@ -141,6 +206,24 @@ serve(async (req) => {
     } else {
       // Criar novo lead
       console.log('🆕 Criando novo lead...')
+
+      // Comparar a primeira mensagem com as frases dos anúncios ativos da clínica
+      let anuncioIdentificado: AdMatch | null = null
+      const { data: anunciosAtivos, error: anunciosError } = await supabaseClient
+        .from('custom_ads')
+        .select('id, ad_name, ad_phrase, ad_source')
+        .eq('clinica_id', clinica_id)
+        .eq('active', true)
+
+      if (anunciosError) {
+        // Falha na atribuição não deve impedir o recebimento da mensagem
+        console.error('⚠️ Erro ao buscar anúncios personalizados:', anunciosError)
+      } else {
+        anuncioIdentificado = encontrarAnuncio(content || '', anunciosAtivos || [])
+        if (anuncioIdentificado) {
+          console.log('📣 Anúncio identificado:', anuncioIdentificado.ad.ad_name, anuncioIdentificado.pontuacao)
+        }
+      }
       
       const { data: novoLead, error: createLeadError } = await supabaseClient
         .from('leads')
@@ -148,6 +231,11 @@ serve(async (req) => {
           nome: `Contato ${telefoneFormatado}`, // Nome temporário
           telefone: telefoneFormatado,
           clinica_id: clinica_id,
+          ...(anuncioIdentificado && {
+            ad_name: anuncioIdentificado.ad.ad_name,
+            ad_platform: anuncioIdentificado.ad.ad_source,
+            origem_lead: anuncioIdentificado.ad.ad_source,
+          }),
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         })
@@ -161,6 +249,50 @@ serve(async (req) => {
 
       leadId = novoLead.id
       console.log('✅ Novo lead criado:', leadId)
+
+      // Registrar a atribuição para auditoria
+      if (anuncioIdentificado) {
+        const { error: attributionError } = await supabaseClient
+          .from('lead_ad_attributions')
+          .insert({
+            clinica_id: clinica_id,
+            lead_id: leadId,
+            custom_ad_id: anuncioIdentificado.ad.id,
+            ad_name: anuncioIdentificado.ad.ad_name,
+            ad_phrase: anuncioIdentificado.ad.ad_phrase,
+            ad_source: anuncioIdentificado.ad.ad_source,
+            mensagem_original: content || '',
+            mensagem_normalizada: anuncioIdentificado.mensagemNormalizada,
+            tipo_correspondencia: anuncioIdentificado.tipo,
+            pontuacao: anuncioIdentificado.pontuacao
+          })
+
+        if (attributionError) {
+          console.error('⚠️ Erro ao registrar atribuição de anúncio:', attributionError)
+        }
+      }
+    }
+
+    // Salvar mídia recebida no Storage (imagem, áudio, vídeo ou documento)
+    let anexoUrl: string | null = null
+    let metadados = mensagem.metadados
+
+    if (mensagem.media) {
+      try {
+        const midiaSalva = await salvarMidiaRecebida(supabaseClient, clinica_id, leadId, mensagem.media)
+        anexoUrl = midiaSalva.referencia
+        metadados = {
+          ...metadados,
+          mimetype: midiaSalva.mimetype,
+          file_size: midiaSalva.fileSize,
+          storage_path: midiaSalva.storagePath
+        }
+        console.log('📎 Mídia salva:', midiaSalva.storagePath)
+      } catch (mediaError) {
+        // A mensagem é salva mesmo sem o anexo para não perder o contato do paciente
+        console.error('⚠️ Erro ao salvar mídia recebida:', mediaError)
+        metadados = { ...metadados, erro_midia: mediaError.message }
+      }
     }
 
     // Inserir mensagem na tabela chat_mensagens
@@ -169,8 +301,11 @@ serve(async (req) => {
       .insert({
         lead_id: leadId,
         clinica_id: clinica_id,
-        conteudo: content,
-        tipo: message_type,
+        conteudo: mensagem.conteudo,
+        tipo: mensagem.tipo,
+        anexo_url: anexoUrl,
+        metadados: metadados,
+        provider_message_id: provider_message_id || null,
         enviado_por: 'lead', // Mensagem recebida do paciente
         lida: false,
         created_at: timestamp || new Date().toISOString()
@@ -179,6 +314,15 @@ serve(async (req) => {
       .single()
 
     if (insertError) {
+      // Violação do índice único: outra requisição simultânea salvou a mesma mensagem
+      if (insertError.code === '23505' && provider_message_id) {
+        const mensagemExistente = await buscarMensagemPorProviderId(supabaseClient, clinica_id, provider_message_id)
+        if (mensagemExistente) {
+          console.log('♻️ Mensagem salva por requisição concorrente:', provider_message_id, mensagemExistente.id)
+          return respostaDuplicada(mensagemExistente)
+        }
+      }
+
       console.error('❌ Erro ao inserir mensagem:', insertError)
       throw insertError
     }
@@ -194,13 +338,105 @@ serve(async (req) => {
       })
       .eq('id', leadId)
 
+    const { data: configClinica } = await supabaseClient
+      .from('clinicas')
+      .select('ai_message_buffer_active, ai_message_buffer_seconds, palavras_opt_out, palavras_opt_in')
+      .eq('id', clinica_id)
+      .single()
+
+    // Opt-out / opt-in por palavra-chave: registra o consentimento de WhatsApp do lead.
+    // A falha no registro não impede o recebimento da mensagem.
+    let consentimento: 'revogado' | 'concedido' | null = null
+    const pedidoConsentimento = mensagem.tipo === 'texto'
+      ? detectarPedidoConsentimento(mensagem.conteudo, configClinica?.palavras_opt_out, configClinica?.palavras_opt_in)
+      : null
+
+    if (pedidoConsentimento) {
+      consentimento = pedidoConsentimento === 'opt_out' ? 'revogado' : 'concedido'
+      try {
+        await registrarConsentimento(supabaseClient, {
+          clinica_id,
+          lead_id: leadId,
+          canal: 'whatsapp',
+          status: consentimento,
+          origem: 'palavra_chave',
+          detalhes: mensagem.conteudo,
+          mensagem_id: novaMensagem.id
+        })
+        console.log(pedidoConsentimento === 'opt_out' ? '🚫 Opt-out registrado para o lead:' : '✅ Opt-in registrado para o lead:', leadId)
+      } catch (consentError) {
+        console.error('⚠️ Erro ao registrar consentimento:', consentError)
+        consentimento = null
+      }
+    }
+
+    // Resposta ao lembrete de agendamento: confirma ou cancela a consulta.
+    // A falha no registro não impede o recebimento da mensagem.
+    let agendamento: ConfirmacaoAgendamento | null = null
+    const respostaLembrete = mensagem.tipo === 'texto' && !pedidoConsentimento
+      ? detectarRespostaLembrete(mensagem.conteudo)
+      : null
+
+    if (respostaLembrete) {
+      try {
+        agendamento = await registrarRespostaLembrete(supabaseClient, {
+          clinica_id,
+          lead_id: leadId,
+          resposta: respostaLembrete,
+          generica: ehRespostaGenerica(mensagem.conteudo),
+          mensagem_id: novaMensagem.id
+        })
+        if (agendamento) {
+          console.log(agendamento.status === 'confirmado' ? '✅ Agendamento confirmado pelo paciente:' : '❌ Agendamento cancelado pelo paciente:', agendamento.agendamento_id)
+        }
+      } catch (confirmacaoError) {
+        console.error('⚠️ Erro ao registrar resposta ao lembrete:', confirmacaoError)
+      }
+    }
+
+    // Buffer de mensagens: guardar o fragmento para a IA responder uma única vez
+    // quando o paciente parar de digitar (liberado pela flush-message-buffer)
+    let buffer: { turno_pendente: boolean; flush_at: string } | null = null
+
+    if (configClinica?.ai_message_buffer_active && !agendamento) {
+      const recebidoEm = Date.now()
+      const { error: bufferError } = await supabaseClient
+        .from('buffer')
+        .insert({
+          clinica_id: clinica_id,
+          lead_id: leadId,
+          id_mensagem: novaMensagem.id,
+          tipo: mensagem.tipo,
+          Whatsapp: telefoneFormatado,
+          Nome: leadExistente?.nome || null,
+          Mensagem: mensagem.tipo === 'audio' ? null : mensagem.conteudo,
+          Mensagem_audio: mensagem.tipo === 'audio' ? anexoUrl : null,
+          timestamp_webhook: recebidoEm
+        })
+
+      if (bufferError) {
+        // Sem o buffer o n8n ainda recebe a mensagem avulsa, como antes
+        console.error('⚠️ Erro ao registrar mensagem no buffer:', bufferError)
+      } else {
+        buffer = {
+          turno_pendente: true,
+          flush_at: new Date(recebidoEm + (configClinica.ai_message_buffer_seconds || 15) * 1000).toISOString()
+        }
+        console.log('⏳ Mensagem adicionada ao buffer, liberação prevista para', buffer.flush_at)
+      }
+    }
+
     // Resposta de sucesso para o n8n
     return new Response(
-      JSON.stringify({ 
-        success: true, 
+      JSON.stringify({
+        success: true,
         message_id: novaMensagem.id,
-        lead_id: leadId 
-      }), 
+        lead_id: leadId,
+        duplicate: false,
+        buffer,
+        consentimento,
+        agendamento
+      }),
       { 
         status: 200, 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
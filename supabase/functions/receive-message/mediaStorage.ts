@@ -0,0 +1,102 @@
+/**
+ * Armazenamento da mídia recebida dos pacientes
+ *
+ * O que faz:
+ * - Obtém o arquivo enviado pelo n8n (download da URL ou decodificação do base64)
+ * - Valida tamanho máximo do arquivo
+ * - Salva no bucket privado "chat-media" do Supabase Storage, organizado por clínica e lead
+ * - Retorna a referência "storage://" usada em chat_mensagens.anexo_url; o CRM exibe a mídia
+ *   por URL assinada (get-crm-media-url)
+ *
+ * Onde é usado:
+ * - receive-message/index.ts, para mensagens de imagem, áudio, vídeo e documento
+ */
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { InboundMedia } from './inboundMessage.ts'
+import { BUCKET_MIDIA_RECEBIDA, criarReferenciaStorage } from '../_shared/mediaReference.ts'
+
+// Mesmo limite configurado no bucket (25 MB)
+const TAMANHO_MAXIMO_BYTES = 25 * 1024 * 1024
+
+// Extensões usadas quando o nome original do arquivo não está disponível
+const EXTENSAO_POR_MIMETYPE: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'video/mp4': 'mp4',
+  'application/pdf': 'pdf',
+}
+
+export interface StoredMedia {
+  referencia: string
+  storagePath: string
+  mimetype: string
+  fileSize: number
+}
+
+/**
+ * Obtém o conteúdo binário da mídia a partir da URL ou do base64
+ */
+const obterConteudoMidia = async (media: InboundMedia): Promise<{ bytes: Uint8Array; mimetype: string }> => {
+  if (media.base64) {
+    // Aceita tanto base64 puro quanto data URL (data:image/png;base64,...)
+    const [, dataUrlMimetype, dataUrlBase64] = media.base64.match(/^data:([^;]+);base64,(.*)$/s) || []
+    const base64 = dataUrlBase64 || media.base64
+    const binario = atob(base64)
+    const bytes = Uint8Array.from(binario, char => char.charCodeAt(0))
+    return { bytes, mimetype: media.mimetype || dataUrlMimetype || 'application/octet-stream' }
+  }
+
+  const resposta = await fetch(media.url!)
+  if (!resposta.ok) {
+    throw new Error(`Falha ao baixar mídia (HTTP ${resposta.status})`)
+  }
+
+  const bytes = new Uint8Array(await resposta.arrayBuffer())
+  const mimetype = media.mimetype
+    || resposta.headers.get('content-type')?.split(';')[0]
+    || 'application/octet-stream'
+
+  return { bytes, mimetype }
+}
+
+/**
+ * Salva a mídia recebida no Storage e retorna a referência privada
+ */
+export const salvarMidiaRecebida = async (
+  supabaseClient: SupabaseClient,
+  clinicaId: string,
+  leadId: string,
+  media: InboundMedia
+): Promise<StoredMedia> => {
+  const { bytes, mimetype } = await obterConteudoMidia(media)
+
+  if (bytes.byteLength > TAMANHO_MAXIMO_BYTES) {
+    throw new Error(`Arquivo excede o tamanho máximo de ${TAMANHO_MAXIMO_BYTES / (1024 * 1024)} MB`)
+  }
+
+  const extensao = media.file_name?.includes('.')
+    ? media.file_name.split('.').pop()!.toLowerCase()
+    : EXTENSAO_POR_MIMETYPE[mimetype] || 'dat'
+  const randomString = Math.random().toString(36).substring(2, 9)
+  const storagePath = `inbound/${clinicaId}/${leadId}/${Date.now()}_${randomString}.${extensao}`
+
+  const { error: uploadError } = await supabaseClient.storage
+    .from(BUCKET_MIDIA_RECEBIDA)
+    .upload(storagePath, bytes, { contentType: mimetype, upsert: false })
+
+  if (uploadError) {
+    throw new Error(`Falha ao salvar mídia no Storage: ${uploadError.message}`)
+  }
+
+  return {
+    referencia: criarReferenciaStorage(BUCKET_MIDIA_RECEBIDA, storagePath),
+    storagePath,
+    mimetype,
+    fileSize: bytes.byteLength,
+  }
+}
@@ -1,63 +1,38 @@
-
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { putObject } from '../_shared/s3Client.ts'
+import { criarReferenciaMidia } from '../_shared/mediaReference.ts'
+import {
+  montarChaveObjeto,
+  obterConfigMinio,
+  resolverUrlMidia,
+  validarMidia,
+  VALIDADE_URL_CRM_SEGUNDOS,
+} from '../_shared/minioStorage.ts'
+import { autenticarUsuario, podeAcessarClinica } from '../_shared/userAccess.ts'
 
 /**
  * Edge Function para upload de mídia do CRM para MinIO
- * 
+ *
  * Funcionalidades:
  * - Recebe arquivos (imagens/áudios) enviados pelo frontend do CRM
- * - Faz upload dos arquivos para o MinIO
- * - Retorna a URL pública do arquivo no MinIO
+ * - Valida autenticação do usuário e se ele pertence à clínica do lead
+ * - Valida tipo (MIME e assinatura do arquivo) e tamanho da mídia
+ * - Faz upload dos arquivos para o MinIO (S3 SigV4, bucket privado)
  * - Organiza arquivos por clínica e lead
- * - Valida autenticação do usuário
- * 
+ * - Retorna a referência interna "minio://" (gravada em chat_mensagens.anexo_url)
+ *   e uma URL assinada temporária para pré-visualização
+ *
  * Usado quando:
  * - Atendente do CRM envia mídia para um lead
  * - ChatPage.tsx chama esta função via supabase.functions.invoke
- * 
+ *
  * Conecta com:
  * - MinIO para armazenamento de arquivos
  * - Sistema de autenticação do Supabase
+ * - get-crm-media-url, que gera novas URLs assinadas para exibir a mídia
  */
 
-// Configuração do MinIO a partir das variáveis de ambiente
-const MINIO_ENDPOINT = Deno.env.get('MINIO_ENDPOINT');
-const MINIO_PORT_STRING = Deno.env.get('MINIO_PORT');
-const MINIO_ACCESS_KEY = Deno.env.get('MINIO_ACCESS_KEY');
-const MINIO_SECRET_KEY = Deno.env.get('MINIO_SECRET_KEY');
-const MINIO_BUCKET_NAME = Deno.env.get('MINIO_CHAT_MEDIA_BUCKET') || 'chat-media';
-const MINIO_USE_SSL_STRING = Deno.env.get('MINIO_USE_SSL');
-const MINIO_PUBLIC_URL_PREFIX = Deno.env.get('MINIO_PUBLIC_URL_PREFIX');
-
-// Validação das variáveis de ambiente necessárias para o MinIO
-if (!MINIO_ENDPOINT || !MINIO_ACCESS_KEY || !MINIO_SECRET_KEY || !MINIO_PUBLIC_URL_PREFIX) {
-  console.error('❌ [send-crm-media-to-minio] Erro Crítico: Variáveis de ambiente do MinIO não configuradas corretamente.');
-  console.error('- MINIO_ENDPOINT:', !!MINIO_ENDPOINT);
-  console.error('- MINIO_ACCESS_KEY:', !!MINIO_ACCESS_KEY);
-  console.error('- MINIO_SECRET_KEY:', !!MINIO_SECRET_KEY);
-  console.error('- MINIO_PUBLIC_URL_PREFIX:', !!MINIO_PUBLIC_URL_PREFIX);
-}
-
-const MINIO_PORT = MINIO_PORT_STRING ? parseInt(MINIO_PORT_STRING) : 9000;
-const MINIO_USE_SSL = MINIO_USE_SSL_STRING === 'true';
-
-// IMPORTANTE: Esta seção precisa ser implementada com um SDK S3/MinIO real para Deno
-// O código abaixo é um PSEUDOCÓDIGO para demonstrar a estrutura
-// Um desenvolvedor precisará:
-// 1. Instalar um SDK S3 compatível com Deno
-// 2. Implementar a conexão real com o MinIO
-// 3. Substituir o console.log por minioClient.putObject real
-//
-// Exemplo de inicialização (pseudocódigo):
-// import * as Minio from 'CAMINHO_PARA_SDK_MINIO_DENO';
-// const minioClient = new Minio.Client({
-//   endPoint: MINIO_ENDPOINT!,
-//   port: MINIO_PORT,
-//   useSSL: MINIO_USE_SSL,
-//   accessKey: MINIO_ACCESS_KEY!,
-//   secretKey: MINIO_SECRET_KEY!,
-// });
-
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*', // Em produção, restrinja ao domínio do CRM
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-edge-version',
@@ -87,16 +62,33 @@ serve(async (req) => {
   try {
     console.log('📤 [send-crm-media-to-minio] Processando upload de mídia do CRM');
 
+    const minioConfig = obterConfigMinio();
+    if (!minioConfig) {
+      return new Response(
+        JSON.stringify({ error: 'Armazenamento de mídia não configurado.' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+      { auth: { persistSession: false } }
+    )
+
     // SEGURANÇA CRÍTICA: Validar autenticação do usuário
-    // TODO: Implementar validação de JWT do Supabase
-    // const authHeader = req.headers.get('authorization');
-    // if (!authHeader) {
-    //   return new Response(
-    //     JSON.stringify({ error: 'Token de autorização não fornecido' }),
-    //     { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    //   );
-    // }
-    
+    const auth = await autenticarUsuario(supabaseClient, req);
+    if (!auth.ok) {
+      console.error('❌ [send-crm-media-to-minio]', auth.error);
+      return new Response(
+        JSON.stringify({ error: auth.error }),
+        { status: auth.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Extrair dados do FormData
     const formData = await req.formData();
     const file = formData.get('file') as File | null;
@@ -121,15 +113,34 @@ serve(async (req) => {
       );
     }
 
-    // Validar tipo de arquivo (apenas imagens e áudios)
-    const allowedTypes = ['image/', 'audio/'];
-    const isValidType = allowedTypes.some(type => file.type.startsWith(type));
-    
-    if (!isValidType) {
-      const errorMsg = `Tipo de arquivo não permitido: ${file.type}. Apenas imagens e áudios são aceitos.`;
-      console.error('❌ [send-crm-media-to-minio]', errorMsg);
+    // O usuário precisa pertencer à clínica, e o lead à mesma clínica
+    const { data: lead } = await supabaseClient
+      .from('leads')
+      .select('id')
+      .eq('id', leadId)
+      .eq('clinica_id', clinicaId)
+      .maybeSingle();
+
+    if (!podeAcessarClinica(auth.usuario, clinicaId) || !lead) {
+      console.error('❌ [send-crm-media-to-minio] Acesso negado ao lead/clínica:', { userId: auth.usuario.userId, clinicaId, leadId });
       return new Response(
-        JSON.stringify({ error: errorMsg }),
+        JSON.stringify({ error: 'Acesso negado a este contato.' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Validar tipo e tamanho (apenas imagens e áudios)
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    let midia;
+    try {
+      midia = validarMidia(bytes, file.type);
+    } catch (validacaoError) {
+      console.error('❌ [send-crm-media-to-minio]', validacaoError.message);
+      return new Response(
+        JSON.stringify({ error: validacaoError.message }),
         {
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -137,59 +148,37 @@ serve(async (req) => {
       );
     }
 
-    // Gerar nome único para o objeto no MinIO
-    // Estrutura: crm_uploads/{clinicaId}/{leadId}/{timestamp}_{random}.{ext}
-    const fileExtension = file.name.split('.').pop()?.toLowerCase() || 'dat';
-    const timestamp = Date.now();
-    const randomString = Math.random().toString(36).substring(2, 9);
-    const objectName = `crm_uploads/${clinicaId}/${leadId}/${timestamp}_${randomString}.${fileExtension}`;
+    // Estrutura: clinicas/{clinicaId}/leads/{leadId}/{ano}/{mes}/{uuid}.{ext}
+    const objectName = montarChaveObjeto(clinicaId, leadId, midia.extensao);
 
     console.log('📁 [send-crm-media-to-minio] Preparando upload:');
-    console.log('- Bucket:', MINIO_BUCKET_NAME);
+    console.log('- Bucket:', minioConfig.bucket);
     console.log('- Object name:', objectName);
-    console.log('- File type:', file.type);
-    console.log('- File size:', file.size, 'bytes');
-
-    // PSEUDOCÓDIGO: Upload real para MinIO
-    // Esta seção precisa ser implementada com um SDK S3/MinIO real
-    console.log('🔄 [send-crm-media-to-minio] Simulando upload para MinIO...');
-    
-    // try {
-    //   // Converter File para ArrayBuffer para o MinIO
-    //   const fileBuffer = await file.arrayBuffer();
-    //   
-    //   // Upload real para MinIO (PSEUDOCÓDIGO)
-    //   await minioClient.putObject(
-    //     MINIO_BUCKET_NAME!,
-    //     objectName,
-    //     fileBuffer,
-    //     file.size,
-    //     { 'Content-Type': file.type }
-    //   );
-    //   
-    //   console.log('✅ [send-crm-media-to-minio] Upload realizado com sucesso');
-    // } catch (minioError) {
-    //   console.error('❌ [send-crm-media-to-minio] Erro no MinIO:', minioError);
-    //   throw new Error(`Falha no upload para MinIO: ${minioError.message}`);
-    // }
-
-    // Simular sucesso do upload (REMOVER quando implementar SDK real)
-    console.log('✅ [send-crm-media-to-minio] Upload simulado com sucesso');
-
-    // Construir URL pública do arquivo
-    const publicUrl = `${MINIO_PUBLIC_URL_PREFIX}/${MINIO_BUCKET_NAME}/${objectName}`;
-    
-    console.log('🔗 [send-crm-media-to-minio] URL pública gerada:', publicUrl);
-
-    // Retornar resposta de sucesso com a URL pública
+    console.log('- File type:', midia.mimetype);
+    console.log('- File size:', bytes.length, 'bytes');
+
+    try {
+      await putObject(minioConfig, objectName, bytes, midia.mimetype);
+      console.log('✅ [send-crm-media-to-minio] Upload realizado com sucesso');
+    } catch (minioError) {
+      console.error('❌ [send-crm-media-to-minio] Erro no MinIO:', minioError);
+      throw new Error(`Falha no upload para MinIO: ${minioError.message}`);
+    }
+
+    // O bucket é privado: a mensagem guarda a referência e a exibição usa URLs assinadas
+    const mediaRef = criarReferenciaMidia(minioConfig.bucket, objectName);
+    const signedUrl = await resolverUrlMidia(mediaRef, VALIDADE_URL_CRM_SEGUNDOS);
+
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         success: true,
-        publicUrl: publicUrl,
+        mediaRef,
+        signedUrl,
+        expiresIn: VALIDADE_URL_CRM_SEGUNDOS,
         objectName: objectName,
-        bucket: MINIO_BUCKET_NAME,
-        fileType: file.type,
-        fileSize: file.size
+        bucket: minioConfig.bucket,
+        fileType: midia.mimetype,
+        fileSize: bytes.length
       }),
       {
         status: 200,
@@ -200,9 +189,9 @@ serve(async (req) => {
   } catch (error) {
     console.error('❌ [send-crm-media-to-minio] Erro geral na função:', error);
     console.error('- Stack:', error.stack);
-    
+
     return new Response(
-      JSON.stringify({ 
+      JSON.stringify({
         error: 'Erro interno do servidor durante o upload de mídia.',
         details: error.message
       }),
@@ -1,6 +1,8 @@
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { montarContextoTemplate, renderizarTemplate } from "../_shared/templateEngine.ts";
+import { leadComOptOut } from "../_shared/contactConsent.ts";
 
 /**
  * Edge Function para Webhook de Follow-up
@@ -8,8 +10,10 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
  * O que faz:
  * - Envia webhooks específicos para follow-up automático e manual
  * - Integra com n8n usando endpoint /webhook/followup
- * - Processa templates de follow-up com variáveis personalizadas
+ * - Processa templates de follow-up com variáveis personalizadas e condicionais
+ *   (motor em _shared/templateEngine.ts)
  * - Mantém logs separados dos webhooks principais
+ * - Não envia para leads com opt-out no WhatsApp: a execução é cancelada com motivo 'opt_out'
  * 
  * Payload específico:
  * - event: "crm.followup.send"
@@ -39,6 +43,8 @@ interface FollowupWebhookPayload {
     titulo: string;
     conteudo: string;
     sequencia: number;
+    variante_id: string | null;
+    variante_nome: string | null;
   };
   lead_info: {
     id: string;
@@ -81,9 +87,10 @@ serve(async (req) => {
       .from('follow_up_execucoes')
       .select(`
         *,
-        campaign:follow_up_campaigns(*),
+        campaign:follow_up_campaigns(*, templates:follow_up_templates(id, sequencia, ativo)),
         template:follow_up_templates(*),
-        lead:leads(*),
+        variante:follow_up_template_variantes(*),
+        lead:leads(*, etapa_kanban:etapas_kanban(nome)),
         clinica:leads(clinica:clinicas(*))
       `)
       .eq('id', execution_id)
@@ -98,7 +105,7 @@ serve(async (req) => {
     const campaign = execution.campaign;
     const template = execution.template;
     const lead = execution.lead;
-    const clinica = lead.clinica;
+    const clinica = execution.clinica?.clinica;
 
     // Validar dados essenciais
     if (!campaign || !template || !lead || !clinica) {
@@ -106,21 +113,62 @@ serve(async (req) => {
       return new Response('Dados incompletos', { status: 400 });
     }
 
-    // Processar conteúdo do template com variáveis
-    let conteudoProcessado = template.conteudo;
-    
-    // Substituir variáveis comuns do follow-up
-    const variaveis = {
-      '{nome}': lead.nome || 'Cliente',
-      '{nome_clinica}': clinica.nome || 'Clínica',
-      '{campanha}': campaign.nome,
-      '{sequencia}': template.sequencia.toString(),
-    };
+    // Lead pediu para não receber mensagens: cancelar a execução sem enviar
+    if (await leadComOptOut(supabase, lead.id, 'whatsapp')) {
+      console.warn('🚫 Follow-up bloqueado: lead com opt-out no WhatsApp:', lead.id);
 
-    // Aplicar substituições
-    Object.entries(variaveis).forEach(([variavel, valor]) => {
-      conteudoProcessado = conteudoProcessado.replace(new RegExp(variavel, 'g'), valor);
-    });
+      await supabase
+        .from('follow_up_execucoes')
+        .update({
+          status: 'cancelado',
+          motivo_cancelamento: 'opt_out',
+        })
+        .eq('id', execution_id);
+
+      return new Response(JSON.stringify({
+        success: false,
+        execution_id,
+        status: 'cancelado',
+        opt_out: true,
+        message: 'Lead pediu para não receber mensagens (opt-out)',
+      }), {
+        status: 409,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Último agendamento do lead (variável {ultimo_agendamento})
+    const { data: ultimoAgendamento } = await supabase
+      .from('agendamentos')
+      .select('data_inicio')
+      .eq('cliente_id', lead.id)
+      .lte('data_inicio', new Date().toISOString())
+      .order('data_inicio', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    // Posição do template entre as etapas ativas da campanha (variáveis {etapa} e {total_etapas})
+    const etapasAtivas = (campaign.templates || [])
+      .filter((t: { ativo: boolean }) => t.ativo)
+      .sort((a: { sequencia: number }, b: { sequencia: number }) => a.sequencia - b.sequencia);
+    const posicaoEtapa = etapasAtivas.findIndex((t: { id: string }) => t.id === template.id);
+
+    // Execuções de teste A/B enviam o texto da variante sorteada
+    const variante = execution.variante;
+
+    // Processar conteúdo do template com variáveis e condicionais
+    const conteudoProcessado = renderizarTemplate(
+      variante?.conteudo || template.conteudo,
+      montarContextoTemplate({
+        lead,
+        clinica,
+        ultimoAgendamento: ultimoAgendamento?.data_inicio,
+        campanha: campaign.nome,
+        etapa: posicaoEtapa >= 0 ? posicaoEtapa + 1 : template.sequencia,
+        totalEtapas: etapasAtivas.length || null,
+        sequencia: template.sequencia,
+      })
+    );
 
     // Montar payload específico do follow-up
     const payload: FollowupWebhookPayload = {
@@ -137,6 +185,8 @@ serve(async (req) => {
         titulo: template.titulo,
         conteudo: conteudoProcessado,
         sequencia: template.sequencia,
+        variante_id: variante?.id || null,
+        variante_nome: variante?.nome || null,
       },
       lead_info: {
         id: lead.id,
@@ -11,11 +11,14 @@
  * 3.  Busca os dados do lead, incluindo `id_direct` (destinatário) e `meu_id_direct` (remetente).
  * 4.  Constrói a URL do webhook de destino com base no tipo selecionado.
  * 5.  Monta um payload específico para o Instagram, incluindo `meu_id_direct` e `instagram_api_token` nos metadados.
- * 6.  Envia o payload para o n8n de forma segura, usando um token JWT.
+ * 6.  Grava o envio na fila outbound_message_queue e faz a primeira tentativa (JWT + timeout de 30s).
+ * 7.  Se falhar, o worker process-outbound-queue tenta novamente com backoff até esgotar as tentativas.
+ * 8.  Leads com opt-out no Instagram não recebem a mensagem (409, mensagem marcada como 'failed').
  */
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import * as djwt from "https://deno.land/x/djwt@v2.7/mod.ts"
+import { enfileirarEnvio, reservarItem, processarItem } from '../_shared/outboundQueue.ts'
+import { leadComOptOut } from '../_shared/contactConsent.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -119,6 +122,22 @@ serve(async (req) => {
       return new Response(JSON.stringify({ error: 'Configuração do webhook do Instagram incompleta para esta clínica' }), { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
     }
 
+    // Lead pediu para não receber mensagens no Instagram: bloquear o envio
+    if (lead_id && await leadComOptOut(supabaseClient, lead_id, 'instagram')) {
+      console.warn('🚫 [send-instagram-webhook] Envio bloqueado: lead com opt-out no Instagram:', lead_id);
+      if (mensagem_id) {
+        await supabaseClient
+          .from('chat_mensagens')
+          .update({
+            status_entrega: 'failed',
+            status_entrega_em: new Date().toISOString(),
+            erro_entrega: 'Lead pediu para não receber mensagens (opt-out)'
+          })
+          .eq('id', mensagem_id);
+      }
+      return new Response(JSON.stringify({ error: 'Lead pediu para não receber mensagens no Instagram (opt-out)', opt_out: true, lead_id }), { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+    }
+
     // Busca dados do lead (incluindo o id_direct e meu_id_direct para o Instagram)
     const { data: lead } = await supabaseClient
       .from('leads')
@@ -130,7 +149,7 @@ serve(async (req) => {
     const timestampSP = dataUTC.toLocaleString('sv-SE', { timeZone: 'America/Sao_Paulo' });
 
     let messagePayload: WebhookMessageContent;
-    if ((tipo === 'image' || tipo === 'photo') && anexo_url) {
+    if ((tipo === 'image' || tipo === 'imagem' || tipo === 'photo') && anexo_url) {
         messagePayload = { image: { url: anexo_url, caption: conteudo } };
     } else if (tipo === 'audio' && anexo_url) {
         messagePayload = { audio: { url: anexo_url, ptt: true } };
@@ -146,6 +165,7 @@ serve(async (req) => {
         messageTypeForWebhook = 'conversation';
         break;
       case 'image':
+      case 'imagem':
       case 'photo':
         messageTypeForWebhook = 'imageMessage';
         break;
@@ -185,95 +205,42 @@ serve(async (req) => {
 
     console.log('📤 [send-instagram-webhook] Payload final montado para envio.');
 
-    // CRIAÇÃO DO JWT
-    console.log('🔐 [send-instagram-webhook] Iniciando criação do token JWT...');
-    const secretKey = Deno.env.get('EVOLUTION_API_KEY') || 'default-secret';
-    
-    const cryptoKey = await crypto.subtle.importKey("raw", new TextEncoder().encode(secretKey), { name: "HMAC", hash: "SHA-256" }, true, ["sign", "verify"]);
-    
-    const jwt = await djwt.create({ alg: "HS256", typ: "JWT" }, { clinica_id, exp: djwt.getNumericDate(60 * 60) }, cryptoKey);
-    console.log('🔐 [send-instagram-webhook] JWT criado com sucesso.');
+    // ENVIO VIA FILA: grava o item e faz a primeira tentativa; falhas são retentadas pelo process-outbound-queue
+    console.log(`🚀 [send-instagram-webhook] Enfileirando envio para: ${webhookUrl}`);
 
-    // ENVIO DO WEBHOOK COM TIMEOUT
-    console.log(`🚀 [send-instagram-webhook] Iniciando envio para: ${webhookUrl}`);
+    const itemFila = await enfileirarEnvio(supabaseClient, {
+      clinica_id,
+      lead_id: lead_id || null,
+      mensagem_id: mensagem_id || null,
+      canal: 'instagram',
+      webhook_url: webhookUrl,
+      payload: webhookPayload as unknown as Record<string, unknown>
+    });
 
-    // Criando um AbortController para timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 segundos de timeout
+    const itemReservado = await reservarItem(supabaseClient, itemFila.id);
+    const resultado = itemReservado ? await processarItem(supabaseClient, itemReservado) : null;
 
-    try {
-      const webhookResponse = await fetch(webhookUrl, {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json', 
-          'Authorization': `Bearer ${jwt}`,
-          'User-Agent': 'Supabase-Edge-Function/1.0'
-        },
-        body: JSON.stringify(webhookPayload),
-        signal: controller.signal
+    if (resultado?.sucesso) {
+      console.log('✅ [send-instagram-webhook] Webhook enviado com sucesso.');
+      return new Response(JSON.stringify({ success: true, message: "Webhook sent successfully", queue_id: itemFila.id }), { 
+        status: 200, 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       });
-
-      clearTimeout(timeoutId);
-
-      const responseText = await webhookResponse.text();
-      console.log('📡 [send-instagram-webhook] Resposta recebida do webhook. Status:', webhookResponse.status);
-
-      if (webhookResponse.ok) {
-        console.log('✅ [send-instagram-webhook] Webhook enviado com sucesso.');
-        return new Response(JSON.stringify({ success: true, message: "Webhook sent successfully" }), { 
-          status: 200, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        });
-      } else {
-        console.error('❌ [send-instagram-webhook] Erro no webhook - Status:', webhookResponse.status);
-        console.error('❌ [send-instagram-webhook] Detalhes do erro:', responseText);
-        return new Response(JSON.stringify({ 
-          error: 'Falha ao enviar webhook', 
-          status: webhookResponse.status,
-          statusText: webhookResponse.statusText,
-          details: responseText 
-        }), { 
-          status: webhookResponse.status, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        });
-      }
-
-    } catch (fetchError) {
-      clearTimeout(timeoutId);
-      console.error('❌ [send-instagram-webhook] Erro durante o fetch:', fetchError);
-      console.error('❌ [send-instagram-webhook] Tipo do erro:', fetchError.constructor.name);
-      console.error('❌ [send-instagram-webhook] Mensagem do erro:', fetchError.message);
-      
-      // Verificar se é erro de timeout
-      if (fetchError.name === 'AbortError') {
-        console.error('❌ [send-instagram-webhook] Erro de timeout - O servidor webhook não respondeu em 30 segundos');
-        return new Response(JSON.stringify({ 
-          error: 'Timeout na requisição do webhook', 
-          message: 'O servidor webhook não respondeu em 30 segundos',
-          webhookUrl: webhookUrl
-        }), { 
-          status: 408, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        });
-      }
-
-      // Verificar se é erro de DNS/conectividade
-      if (fetchError.message.includes('error sending request')) {
-        console.error('❌ [send-instagram-webhook] Erro de conectividade - Não foi possível conectar ao webhook');
-        return new Response(JSON.stringify({ 
-          error: 'Erro de conectividade com o webhook', 
-          message: 'Não foi possível conectar ao servidor webhook. Verifique se a URL está correta e o servidor está online.',
-          webhookUrl: webhookUrl,
-          originalError: fetchError.message
-        }), { 
-          status: 503, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        });
-      }
-
-      throw fetchError; // Re-throw se não for um erro conhecido
     }
 
+    console.error('❌ [send-instagram-webhook] Primeira tentativa falhou; item mantido na fila:', resultado?.erro);
+    return new Response(JSON.stringify({ 
+      success: false,
+      queued: !resultado || resultado.status === 'pending',
+      queue_id: itemFila.id,
+      status: resultado?.status || 'processing',
+      ultimo_erro: resultado?.erro || null,
+      proxima_tentativa_em: resultado?.proximaTentativaEm || null
+    }), { 
+      status: 202, 
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    });
+
   } catch (error) {
     console.error('❌ [send-instagram-webhook] Erro geral na função:', error);
     console.error('❌ [send-instagram-webhook] Stack trace:', error.stack);
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import * as djwt from "https://deno.land/x/djwt@v2.7/mod.ts"
+import { enfileirarEnvio, reservarItem, processarItem } from '../_shared/outboundQueue.ts'
+import { leadComOptOut } from '../_shared/contactConsent.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -15,6 +16,10 @@ const corsHeaders = {
  * - Busca configurações webhook_type e webhook_url da clínica
  * - Mantém compatibilidade total com clínicas existentes
  * - Fallback automático para webhook padrão se configuração não encontrada
+ * - Grava o envio na fila outbound_message_queue e faz a primeira tentativa na hora
+ * - Falhas são retentadas com backoff pelo worker process-outbound-queue
+ * - Atualiza chat_mensagens.status_entrega para 'sent' ou, esgotadas as tentativas, 'failed'
+ * - Não envia para leads com opt-out no WhatsApp (LGPD): responde 409 e marca a mensagem como 'failed'
  */
 
 // Interface atualizada para suportar diferentes tipos de mensagem
@@ -221,6 +226,34 @@ serve(async (req) => {
     console.log('- Webhook Type:', clinica.webhook_type || 'padrao');
     console.log('- Webhook URL:', clinica.webhook_url || 'padrão');
 
+    // Lead pediu para não receber mensagens no WhatsApp: bloquear o envio
+    if (lead_id && await leadComOptOut(supabaseClient, lead_id, 'whatsapp')) {
+      console.warn('🚫 [send-webhook] Envio bloqueado: lead com opt-out no WhatsApp:', lead_id);
+
+      if (mensagem_id) {
+        await supabaseClient
+          .from('chat_mensagens')
+          .update({
+            status_entrega: 'failed',
+            status_entrega_em: new Date().toISOString(),
+            erro_entrega: 'Lead pediu para não receber mensagens (opt-out)'
+          })
+          .eq('id', mensagem_id)
+      }
+
+      return new Response(
+        JSON.stringify({ 
+          error: 'Lead pediu para não receber mensagens no WhatsApp (opt-out)',
+          opt_out: true,
+          lead_id: lead_id
+        }),
+        { 
+          status: 409, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
     // 🆕 LÓGICA DE WEBHOOK PERSONALIZADO: Determinar URL do webhook baseado na configuração da clínica
     let webhookUrl: string;
     
@@ -256,7 +289,8 @@ serve(async (req) => {
     // NOVA LÓGICA: Construção condicional do messagePayload baseado no tipo
     let messagePayload: WebhookMessageContent;
 
-    if (tipo === 'image' && anexo_url) {
+    // O chat do CRM grava imagens como 'imagem'
+    if ((tipo === 'image' || tipo === 'imagem') && anexo_url) {
       console.log('[send-webhook] Preparando payload para IMAGEM');
       messagePayload = {
         image: { url: anexo_url }, // Evolution API espera 'url' para a imagem
@@ -301,35 +335,7 @@ serve(async (req) => {
     // Log do payload final que será enviado para o n8n/Evolution API
     console.log('📤 [send-webhook] Payload final para n8n/Evolution API:', JSON.stringify(webhookPayload, null, 2));
 
-    // Gerar JWT seguro usando djwt
-    const secretKey = Deno.env.get('EVOLUTION_API_KEY') || 'default-secret'
-    
-    // Importar chave criptográfica para HMAC
-    const cryptoKey = await crypto.subtle.importKey(
-      "raw", 
-      new TextEncoder().encode(secretKey), 
-      { name: "HMAC", hash: "SHA-256" },
-      true, 
-      ["sign", "verify"]
-    )
-
-    // Criar JWT com payload seguro
-    const jwt = await djwt.create(
-      { alg: "HS256", typ: "JWT" }, 
-      { 
-        clinica_id,
-        exp: djwt.getNumericDate(60 * 60) // Expira em 1 hora
-      }, 
-      cryptoKey
-    )
-
-    let tentativas = 1
-    let sucesso = false
-    let ultimoErro = ''
-    let statusCode = 0
-    let resposta = ''
-
-    console.log('🚀 [send-webhook] Enviando webhook:');
+    console.log('🚀 [send-webhook] Enfileirando webhook:');
     console.log('- URL:', webhookUrl);
     console.log('- Tipo:', clinica.webhook_type || 'padrao');
     console.log('- Instância Evolution:', clinica.evolution_instance_name);
@@ -337,79 +343,47 @@ serve(async (req) => {
     console.log('- Tipo de mensagem:', tipo);
     console.log('- Anexo URL:', anexo_url);
 
-    // Tentar enviar webhook (máximo 3 tentativas com backoff exponencial)
-    while (tentativas <= 3 && !sucesso) {
-      try {
-        const webhookResponse = await fetch(webhookUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${jwt}` // JWT seguro para autenticação
-          },
-          body: JSON.stringify(webhookPayload)
-        })
-
-        statusCode = webhookResponse.status
-        resposta = await webhookResponse.text()
-
-        if (webhookResponse.ok) {
-          sucesso = true
-          console.log('✅ [send-webhook] Webhook enviado com sucesso:', resposta)
-        } else {
-          ultimoErro = `HTTP ${statusCode}: ${resposta}`
-          console.error('❌ [send-webhook] Erro no webhook:', ultimoErro)
-        }
-      } catch (error) {
-        ultimoErro = `Erro de rede: ${error.message}`
-        statusCode = 0
-        console.error('❌ [send-webhook] Erro de rede no webhook:', error)
-      }
-
-      if (!sucesso) {
-        tentativas++
-        // Aguardar antes de tentar novamente (backoff exponencial)
-        if (tentativas <= 3) {
-          await new Promise(resolve => setTimeout(resolve, Math.pow(2, tentativas) * 1000))
-        }
-      }
-    }
-
-    // Registrar log do webhook para auditoria
-    await supabaseClient
-      .from('webhook_logs')
-      .insert({
-        clinica_id,
-        lead_id,
-        mensagem_id,
-        webhook_url: webhookUrl,
-        status_code: statusCode,
-        resposta: sucesso ? resposta : null,
-        erro: sucesso ? null : ultimoErro,
-        tentativas: tentativas - 1
-      })
-
-    if (sucesso) {
+    // Gravar na fila persistente; falhas são retentadas pelo worker process-outbound-queue
+    const itemFila = await enfileirarEnvio(supabaseClient, {
+      clinica_id,
+      lead_id: lead_id || null,
+      mensagem_id: mensagem_id || null,
+      canal: 'whatsapp',
+      webhook_url: webhookUrl,
+      payload: webhookPayload as unknown as Record<string, unknown>
+    })
+
+    // Primeira tentativa imediata
+    const itemReservado = await reservarItem(supabaseClient, itemFila.id)
+    const resultado = itemReservado ? await processarItem(supabaseClient, itemReservado) : null
+
+    if (resultado?.sucesso) {
       return new Response(
-        JSON.stringify({ success: true, tentativas: tentativas - 1 }),
+        JSON.stringify({ success: true, tentativas: resultado.tentativas, queue_id: itemFila.id }),
         { 
           status: 200, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       )
-    } else {
-      return new Response(
-        JSON.stringify({ 
-          error: 'Falha ao enviar webhook após múltiplas tentativas',
-          ultimo_erro: ultimoErro,
-          tentativas: tentativas - 1
-        }),
-        { 
-          status: 500, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      )
     }
 
+    // Falhou (ou já está em processamento): a mensagem segue na fila para nova tentativa
+    return new Response(
+      JSON.stringify({ 
+        success: false,
+        queued: !resultado || resultado.status === 'pending',
+        queue_id: itemFila.id,
+        status: resultado?.status || 'processing',
+        ultimo_erro: resultado?.erro || null,
+        proxima_tentativa_em: resultado?.proximaTentativaEm || null,
+        tentativas: resultado?.tentativas || itemFila.tentativas
+      }),
+      { 
+        status: 202, 
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+      }
+    )
+
   } catch (error) {
     console.error('❌ [send-webhook] Erro geral na função:', error);
     console.error('- Stack:', error.stack);
@@ -0,0 +1,42 @@
+
+-- Registra a atribuição automática de leads a anúncios personalizados (custom_ads).
+-- O que faz: cada vez que a primeira mensagem de um lead novo corresponde à frase de
+-- ativação de um anúncio, a Edge Function receive-message grava aqui qual anúncio foi
+-- escolhido, o texto normalizado que foi comparado e a pontuação da correspondência.
+-- Onde é usado: auditoria de por que um lead recebeu determinado ad_name / origem_lead.
+CREATE TABLE public.lead_ad_attributions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinica_id UUID NOT NULL REFERENCES public.clinicas(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  custom_ad_id UUID REFERENCES public.custom_ads(id) ON DELETE SET NULL,
+  ad_name TEXT NOT NULL,
+  ad_phrase TEXT NOT NULL,
+  ad_source TEXT NOT NULL,
+  mensagem_original TEXT NOT NULL,
+  mensagem_normalizada TEXT NOT NULL,
+  -- 'exata' quando a frase aparece literalmente (após normalização) ou 'aproximada' quando fuzzy
+  tipo_correspondencia TEXT NOT NULL CHECK (tipo_correspondencia IN ('exata', 'aproximada')),
+  pontuacao NUMERIC(4, 3) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Um lead é atribuído a no máximo um anúncio
+CREATE UNIQUE INDEX lead_ad_attributions_lead_unique ON public.lead_ad_attributions (lead_id);
+CREATE INDEX idx_lead_ad_attributions_clinica ON public.lead_ad_attributions (clinica_id, created_at);
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE public.lead_ad_attributions ENABLE ROW LEVEL SECURITY;
+
+-- Clínicas apenas consultam suas atribuições; a escrita é feita pela Edge Function (service role)
+CREATE POLICY "Clínicas podem ver suas atribuições de anúncios"
+  ON public.lead_ad_attributions
+  FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Admins podem ver todas as atribuições de anúncios"
+  ON public.lead_ad_attributions
+  FOR SELECT
+  USING (public.is_current_user_admin());
+
+-- Índice para a busca de anúncios ativos feita a cada lead novo
+CREATE INDEX IF NOT EXISTS idx_custom_ads_clinica_active ON public.custom_ads (clinica_id, active);
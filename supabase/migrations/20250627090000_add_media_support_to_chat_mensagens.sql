@@ -0,0 +1,31 @@
+
+-- Suporte a mensagens de mídia recebidas dos pacientes (imagens, áudios, documentos,
+-- vídeos, localizações e contatos) na tabela chat_mensagens.
+
+-- Metadados específicos de cada tipo de mensagem:
+-- - mídia: { mimetype, file_name, file_size, storage_path }
+-- - localização: { latitude, longitude, name, address }
+-- - contato: { contacts: [{ name, phones }] }
+ALTER TABLE public.chat_mensagens ADD COLUMN metadados JSONB;
+
+COMMENT ON COLUMN public.chat_mensagens.metadados IS 'Metadados do tipo de mensagem (mimetype e nome do arquivo, coordenadas da localização, cartões de contato).';
+
+-- Atualiza os tipos permitidos de mensagem, mantendo os valores já utilizados pelo CRM.
+-- NOT VALID: vale para as novas mensagens sem falhar a migração por linhas antigas com
+-- outros tipos.
+ALTER TABLE public.chat_mensagens DROP CONSTRAINT IF EXISTS chat_mensagens_tipo_check;
+ALTER TABLE public.chat_mensagens
+ADD CONSTRAINT chat_mensagens_tipo_check CHECK (
+  tipo IS NULL OR tipo IN (
+    'texto', 'text', 'imagem', 'image', 'audio', 'arquivo', 'video', 'localizacao', 'contato'
+  )
+) NOT VALID;
+
+-- Bucket privado do Supabase Storage onde a mídia recebida é armazenada.
+-- Estrutura dos objetos: inbound/{clinica_id}/{lead_id}/{timestamp}_{random}.{ext}
+-- Sem políticas em storage.objects: só a service role grava e lê. chat_mensagens.anexo_url
+-- guarda a referência "storage://chat-media/{caminho}" e o CRM exibe a mídia por URL
+-- assinada (get-crm-media-url), conferindo a clínica do usuário.
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('chat-media', 'chat-media', false, 26214400)
+ON CONFLICT (id) DO UPDATE SET public = false;
@@ -0,0 +1,13 @@
+
+-- Identificador da mensagem no provedor (key.id da Evolution API / WhatsApp).
+-- O que faz: permite que a Edge Function receive-message reconheça reenvios do mesmo
+-- webhook pelo n8n e devolva a mensagem já salva em vez de criar uma duplicada.
+ALTER TABLE public.chat_mensagens ADD COLUMN provider_message_id TEXT;
+
+COMMENT ON COLUMN public.chat_mensagens.provider_message_id IS 'ID da mensagem no provedor (key.id da Evolution API). Único por clínica.';
+
+-- Garante no banco que o mesmo ID do provedor não seja salvo duas vezes na mesma clínica.
+-- Mensagens sem ID do provedor (ex.: enviadas pelo CRM) não são afetadas.
+CREATE UNIQUE INDEX chat_mensagens_clinica_provider_message_id_unique
+ON public.chat_mensagens (clinica_id, provider_message_id)
+WHERE provider_message_id IS NOT NULL;
@@ -0,0 +1,17 @@
+
+-- Ciclo de vida de entrega das mensagens enviadas pelo CRM ao WhatsApp.
+-- O que faz:
+-- - status_entrega: queued (salva no CRM) -> sent (aceita pelo n8n/Evolution)
+--   -> delivered (entregue no aparelho) -> read (lida pelo paciente), ou failed.
+-- - status_entrega_em: momento da última mudança de status.
+-- - erro_entrega: motivo da falha, exibido no chat junto com a opção de reenviar.
+-- Onde é usado: send-webhook (sent/failed), receive-message-status (delivered/read/failed)
+-- e ChatWindow (ícones de confirmação em cada balão).
+-- Mensagens recebidas do paciente não utilizam estes campos (permanecem NULL).
+ALTER TABLE public.chat_mensagens
+ADD COLUMN status_entrega TEXT CHECK (status_entrega IN ('queued', 'sent', 'delivered', 'read', 'failed')),
+ADD COLUMN status_entrega_em TIMESTAMP WITH TIME ZONE,
+ADD COLUMN erro_entrega TEXT;
+
+COMMENT ON COLUMN public.chat_mensagens.status_entrega IS 'Status de entrega de mensagens enviadas pelo CRM: queued, sent, delivered, read ou failed.';
+
@@ -0,0 +1,29 @@
+
+-- Agrupamento (debounce) de mensagens recebidas antes da resposta da IA.
+-- Pacientes costumam enviar várias mensagens curtas seguidas; com o buffer ativo, a
+-- receive-message acumula os fragmentos na tabela "buffer" e a Edge Function
+-- flush-message-buffer envia um único turno agregado após a janela de silêncio.
+
+-- Configuração por clínica (tela de Configurações da IA)
+ALTER TABLE public.clinicas
+ADD COLUMN ai_message_buffer_active BOOLEAN DEFAULT false,
+ADD COLUMN ai_message_buffer_seconds INTEGER DEFAULT 15
+  CHECK (ai_message_buffer_seconds BETWEEN 3 AND 300);
+
+COMMENT ON COLUMN public.clinicas.ai_message_buffer_active IS 'Agrupa mensagens seguidas do mesmo paciente antes de acionar a resposta da IA.';
+COMMENT ON COLUMN public.clinicas.ai_message_buffer_seconds IS 'Janela de silêncio (segundos) sem novas mensagens para liberar o turno agregado.';
+
+-- Vincula os fragmentos do buffer à clínica, ao lead e à mensagem salva em chat_mensagens
+ALTER TABLE public.buffer
+ADD COLUMN clinica_id UUID REFERENCES public.clinicas(id) ON DELETE CASCADE,
+ADD COLUMN lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+ADD COLUMN tipo TEXT,
+-- Preenchido quando o fragmento é incluído em um turno (evita envio duplicado)
+ADD COLUMN processado_em TIMESTAMP WITH TIME ZONE,
+-- Identificador do turno agregado ao qual o fragmento pertence
+ADD COLUMN turno_id UUID;
+
+-- Índice para localizar fragmentos pendentes por clínica e número
+CREATE INDEX idx_buffer_pendentes
+ON public.buffer (clinica_id, "Whatsapp", timestamp_webhook)
+WHERE processado_em IS NULL;
@@ -0,0 +1,46 @@
+
+-- Segredo de assinatura próprio de cada clínica para os webhooks de entrada
+-- (receive-message e receive-message-status).
+-- O que faz: o n8n assina o JWT (HS256) com o segredo da clínica e inclui a claim
+-- "clinica_id"; a Edge Function escolhe o segredo pela claim ou pelo nome da instância
+-- Evolution, em vez de confiar no clinica_id enviado no corpo.
+-- Rotação: ao gerar um novo segredo, o anterior continua válido até
+-- inbound_webhook_secret_previous_expires_at para dar tempo de atualizar o n8n.
+ALTER TABLE public.clinicas
+  ADD COLUMN IF NOT EXISTS inbound_webhook_secret TEXT,
+  ADD COLUMN IF NOT EXISTS inbound_webhook_secret_previous TEXT,
+  ADD COLUMN IF NOT EXISTS inbound_webhook_secret_previous_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS inbound_webhook_secret_rotated_at TIMESTAMP WITH TIME ZONE;
+
+-- Resolução da clínica pelo nome da instância Evolution a cada webhook recebido
+CREATE INDEX IF NOT EXISTS idx_clinicas_evolution_instance_name ON public.clinicas (evolution_instance_name);
+
+-- Requisições recusadas pelos webhooks de entrada, por clínica.
+-- Só são gravadas as recusas em que a clínica foi identificada (token ou instância);
+-- as anônimas ficam apenas no log da Edge Function.
+CREATE TABLE public.inbound_webhook_rejections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinica_id UUID REFERENCES public.clinicas(id) ON DELETE CASCADE,
+  funcao TEXT NOT NULL, -- Edge Function que recusou (receive-message, receive-message-status)
+  motivo TEXT NOT NULL,
+  instance_name TEXT,
+  clinica_id_informado TEXT, -- clinica_id enviado no corpo, para investigar tentativas cruzadas
+  ip_origem TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_inbound_webhook_rejections_clinica ON public.inbound_webhook_rejections (clinica_id, created_at DESC);
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE public.inbound_webhook_rejections ENABLE ROW LEVEL SECURITY;
+
+-- Apenas leitura pelo CRM; a escrita é feita pelas Edge Functions (service role)
+CREATE POLICY "Clínicas podem ver requisições recusadas dos seus webhooks"
+  ON public.inbound_webhook_rejections
+  FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Admins podem ver todas as requisições recusadas"
+  ON public.inbound_webhook_rejections
+  FOR SELECT
+  USING (public.is_current_user_admin());
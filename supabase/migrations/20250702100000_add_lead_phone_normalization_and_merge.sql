@@ -0,0 +1,161 @@
+
+-- Normalização de telefones dos leads e mesclagem de leads duplicados.
+-- O que faz:
+-- - leads.telefone_normalizado guarda o telefone em E.164 (+5511999990000), preenchido por trigger
+-- - receive-message localiza o lead do remetente por este campo, então "5511999990000",
+--   "11999990000" e a variante sem o nono dígito passam a ser o mesmo contato
+-- - mesclar_leads(principal, duplicado) move o histórico do duplicado para o principal
+--   e remove o duplicado (usado pela ferramenta de duplicados da página de Contatos)
+
+-- Mesmas regras de supabase/functions/_shared/phoneNormalizer.ts; mantenha as duas em sincronia
+CREATE OR REPLACE FUNCTION public.normalizar_telefone(p_telefone TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_digitos TEXT;
+  v_tem_codigo_pais BOOLEAN;
+  v_assinante TEXT;
+BEGIN
+  IF p_telefone IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_digitos := regexp_replace(p_telefone, '\D', '', 'g');
+
+  -- "+" ou "00" indicam que o número já traz o código do país
+  v_tem_codigo_pais := left(btrim(p_telefone), 1) = '+' OR v_digitos LIKE '00%';
+
+  -- Prefixo internacional (00) e prefixo de operadora/DDD (0)
+  IF v_digitos LIKE '00%' THEN
+    v_digitos := substr(v_digitos, 3);
+  ELSIF v_digitos LIKE '0%' THEN
+    v_digitos := substr(v_digitos, 2);
+  END IF;
+
+  IF length(v_digitos) < 10 THEN
+    RETURN NULL;
+  END IF;
+
+  -- Número nacional brasileiro sem código do país: DDD + 8 ou 9 dígitos
+  IF NOT v_tem_codigo_pais AND length(v_digitos) IN (10, 11) THEN
+    v_digitos := '55' || v_digitos;
+  END IF;
+
+  IF v_digitos LIKE '55%' AND length(v_digitos) IN (12, 13) THEN
+    v_assinante := substr(v_digitos, 5);
+
+    -- Celular antigo sem o nono dígito (começa com 6, 7, 8 ou 9)
+    IF length(v_assinante) = 8 AND v_assinante ~ '^[6-9]' THEN
+      v_assinante := '9' || v_assinante;
+    END IF;
+
+    RETURN '+55' || substr(v_digitos, 3, 2) || v_assinante;
+  END IF;
+
+  RETURN '+' || v_digitos;
+END;
+$$;
+
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS telefone_normalizado TEXT;
+
+-- Trigger para manter telefone_normalizado em qualquer inserção/edição (CRM, n8n ou Edge Functions)
+CREATE OR REPLACE FUNCTION public.update_leads_telefone_normalizado()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.telefone_normalizado = public.normalizar_telefone(NEW.telefone);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_leads_telefone_normalizado
+  BEFORE INSERT OR UPDATE OF telefone ON public.leads
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_leads_telefone_normalizado();
+
+-- Preencher os leads existentes
+UPDATE public.leads
+SET telefone_normalizado = public.normalizar_telefone(telefone)
+WHERE telefone IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_leads_clinica_telefone_normalizado
+  ON public.leads (clinica_id, telefone_normalizado);
+
+-- Mescla o lead duplicado no principal, em uma única transação:
+-- mensagens, agendamentos, execuções de follow-up, buffer e logs passam para o principal;
+-- campos vazios do principal são completados com os do duplicado; o duplicado é removido.
+CREATE OR REPLACE FUNCTION public.mesclar_leads(p_lead_principal UUID, p_lead_duplicado UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_principal public.leads%ROWTYPE;
+  v_duplicado public.leads%ROWTYPE;
+BEGIN
+  IF p_lead_principal = p_lead_duplicado THEN
+    RAISE EXCEPTION 'O lead principal e o duplicado devem ser diferentes';
+  END IF;
+
+  SELECT * INTO v_principal FROM public.leads WHERE id = p_lead_principal FOR UPDATE;
+  SELECT * INTO v_duplicado FROM public.leads WHERE id = p_lead_duplicado FOR UPDATE;
+
+  IF v_principal.id IS NULL OR v_duplicado.id IS NULL THEN
+    RAISE EXCEPTION 'Lead não encontrado';
+  END IF;
+
+  IF v_principal.clinica_id IS DISTINCT FROM v_duplicado.clinica_id THEN
+    RAISE EXCEPTION 'Não é possível mesclar leads de clínicas diferentes';
+  END IF;
+
+  IF NOT (public.is_current_user_admin() OR v_principal.clinica_id = public.get_user_clinica_id()) THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  -- Histórico do duplicado passa para o principal
+  UPDATE public.chat_mensagens SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.mensagens SET cliente_id = p_lead_principal WHERE cliente_id = p_lead_duplicado;
+  UPDATE public.agendamentos SET cliente_id = p_lead_principal WHERE cliente_id = p_lead_duplicado;
+  UPDATE public.follow_up_execucoes SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.buffer SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.webhook_logs SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+
+  -- Atribuição de anúncio: mantém a do principal; herda a do duplicado se o principal não tiver
+  UPDATE public.lead_ad_attributions
+  SET lead_id = p_lead_principal
+  WHERE lead_id = p_lead_duplicado
+    AND NOT EXISTS (SELECT 1 FROM public.lead_ad_attributions WHERE lead_id = p_lead_principal);
+
+  -- Completar os dados do principal (tag, canais, origem) com os do duplicado
+  UPDATE public.leads
+  SET
+    nome = CASE
+      WHEN nome IS NULL OR nome LIKE 'Contato %' THEN COALESCE(v_duplicado.nome, nome)
+      ELSE nome
+    END,
+    telefone = COALESCE(telefone, v_duplicado.telefone),
+    email = COALESCE(email, v_duplicado.email),
+    id_direct = COALESCE(id_direct, v_duplicado.id_direct),
+    meu_id_direct = COALESCE(meu_id_direct, v_duplicado.meu_id_direct),
+    tag_id = COALESCE(tag_id, v_duplicado.tag_id),
+    origem_lead = COALESCE(origem_lead, v_duplicado.origem_lead),
+    servico_interesse = COALESCE(servico_interesse, v_duplicado.servico_interesse),
+    ad_name = COALESCE(ad_name, v_duplicado.ad_name),
+    ad_platform = COALESCE(ad_platform, v_duplicado.ad_platform),
+    avatar_url = COALESCE(avatar_url, v_duplicado.avatar_url),
+    anotacoes = NULLIF(concat_ws(E'\n\n', NULLIF(anotacoes, ''), NULLIF(v_duplicado.anotacoes, '')), ''),
+    ltv = COALESCE(ltv, 0) + COALESCE(v_duplicado.ltv, 0),
+    convertido = COALESCE(convertido, false) OR COALESCE(v_duplicado.convertido, false),
+    data_ultimo_contato = GREATEST(data_ultimo_contato, v_duplicado.data_ultimo_contato),
+    created_at = LEAST(created_at, v_duplicado.created_at),
+    updated_at = now()
+  WHERE id = p_lead_principal;
+
+  DELETE FROM public.leads WHERE id = p_lead_duplicado;
+
+  RETURN p_lead_principal;
+END;
+$$;
@@ -0,0 +1,173 @@
+
+-- Fila persistente de envio de mensagens do CRM para o n8n (WhatsApp e Instagram).
+-- O que faz: send-webhook e send-instagram-webhook gravam aqui o payload montado e fazem
+-- a primeira tentativa na hora. Se falhar, o worker process-outbound-queue tenta de novo com
+-- backoff exponencial até max_tentativas; depois disso o item vai para 'dead_letter' e só
+-- volta a ser enviado por reenvio manual (painel de Webhook do admin).
+CREATE TABLE public.outbound_message_queue (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinica_id UUID NOT NULL REFERENCES public.clinicas(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+  mensagem_id UUID REFERENCES public.chat_mensagens(id) ON DELETE CASCADE,
+  canal TEXT NOT NULL CHECK (canal IN ('whatsapp', 'instagram')),
+  webhook_url TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  -- pending: aguardando tentativa | processing: em envio | sent: entregue ao n8n
+  -- dead_letter: esgotou as tentativas
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'sent', 'dead_letter')),
+  tentativas INTEGER NOT NULL DEFAULT 0,
+  max_tentativas INTEGER NOT NULL DEFAULT 6,
+  proxima_tentativa_em TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ultimo_erro TEXT,
+  ultimo_status_code INTEGER,
+  resposta TEXT,
+  enviado_em TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Uma mensagem do chat tem no máximo um item na fila (reenvios reutilizam o item)
+CREATE UNIQUE INDEX outbound_message_queue_mensagem_unique
+  ON public.outbound_message_queue (mensagem_id)
+  WHERE mensagem_id IS NOT NULL;
+
+-- Busca do worker por itens vencidos
+CREATE INDEX idx_outbound_message_queue_pendentes
+  ON public.outbound_message_queue (status, proxima_tentativa_em);
+
+CREATE INDEX idx_outbound_message_queue_clinica
+  ON public.outbound_message_queue (clinica_id, created_at DESC);
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE public.outbound_message_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clínicas podem ver sua fila de envio"
+  ON public.outbound_message_queue
+  FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Admins podem ver todas as filas de envio"
+  ON public.outbound_message_queue
+  FOR SELECT
+  USING (public.is_current_user_admin());
+
+-- Sem política de UPDATE: webhook_url e payload são enviados pelo worker com o JWT do sistema
+-- e não podem ser alterados pelo CRM. O reenvio manual passa pela função reenviar_item_fila.
+
+-- Reenvio manual: só recoloca o item como pendente; o envio é feito pelas Edge Functions.
+-- Item em envio neste momento não é recolocado, para não enviar em dobro.
+CREATE OR REPLACE FUNCTION public.reenviar_item_fila(p_queue_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_atualizados INTEGER;
+BEGIN
+  UPDATE public.outbound_message_queue
+  SET status = 'pending',
+      tentativas = 0,
+      proxima_tentativa_em = now(),
+      ultimo_erro = NULL
+  WHERE id = p_queue_id
+    AND status <> 'processing'
+    AND (clinica_id = get_user_clinica_id() OR public.is_current_user_admin());
+
+  GET DIAGNOSTICS v_atualizados = ROW_COUNT;
+  RETURN v_atualizados > 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reenviar_item_fila(UUID) FROM PUBLIC, anon;
+
+-- Trigger para atualizar updated_at automaticamente
+CREATE OR REPLACE FUNCTION public.update_outbound_message_queue_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_outbound_message_queue_updated_at
+  BEFORE UPDATE ON public.outbound_message_queue
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_outbound_message_queue_updated_at();
+
+-- Mesclagem de leads: os envios na fila do duplicado passam para o principal
+-- (sem isso o ON DELETE CASCADE apagaria os itens pendentes e o histórico de envio)
+CREATE OR REPLACE FUNCTION public.mesclar_leads(p_lead_principal UUID, p_lead_duplicado UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_principal public.leads%ROWTYPE;
+  v_duplicado public.leads%ROWTYPE;
+BEGIN
+  IF p_lead_principal = p_lead_duplicado THEN
+    RAISE EXCEPTION 'O lead principal e o duplicado devem ser diferentes';
+  END IF;
+
+  SELECT * INTO v_principal FROM public.leads WHERE id = p_lead_principal FOR UPDATE;
+  SELECT * INTO v_duplicado FROM public.leads WHERE id = p_lead_duplicado FOR UPDATE;
+
+  IF v_principal.id IS NULL OR v_duplicado.id IS NULL THEN
+    RAISE EXCEPTION 'Lead não encontrado';
+  END IF;
+
+  IF v_principal.clinica_id IS DISTINCT FROM v_duplicado.clinica_id THEN
+    RAISE EXCEPTION 'Não é possível mesclar leads de clínicas diferentes';
+  END IF;
+
+  IF NOT (public.is_current_user_admin() OR v_principal.clinica_id = public.get_user_clinica_id()) THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  -- Histórico do duplicado passa para o principal
+  UPDATE public.chat_mensagens SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.mensagens SET cliente_id = p_lead_principal WHERE cliente_id = p_lead_duplicado;
+  UPDATE public.agendamentos SET cliente_id = p_lead_principal WHERE cliente_id = p_lead_duplicado;
+  UPDATE public.follow_up_execucoes SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.buffer SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.webhook_logs SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.outbound_message_queue SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+
+  -- Atribuição de anúncio: mantém a do principal; herda a do duplicado se o principal não tiver
+  UPDATE public.lead_ad_attributions
+  SET lead_id = p_lead_principal
+  WHERE lead_id = p_lead_duplicado
+    AND NOT EXISTS (SELECT 1 FROM public.lead_ad_attributions WHERE lead_id = p_lead_principal);
+
+  -- Completar os dados do principal (tag, canais, origem) com os do duplicado
+  UPDATE public.leads
+  SET
+    nome = CASE
+      WHEN nome IS NULL OR nome LIKE 'Contato %' THEN COALESCE(v_duplicado.nome, nome)
+      ELSE nome
+    END,
+    telefone = COALESCE(telefone, v_duplicado.telefone),
+    email = COALESCE(email, v_duplicado.email),
+    id_direct = COALESCE(id_direct, v_duplicado.id_direct),
+    meu_id_direct = COALESCE(meu_id_direct, v_duplicado.meu_id_direct),
+    tag_id = COALESCE(tag_id, v_duplicado.tag_id),
+    origem_lead = COALESCE(origem_lead, v_duplicado.origem_lead),
+    servico_interesse = COALESCE(servico_interesse, v_duplicado.servico_interesse),
+    ad_name = COALESCE(ad_name, v_duplicado.ad_name),
+    ad_platform = COALESCE(ad_platform, v_duplicado.ad_platform),
+    avatar_url = COALESCE(avatar_url, v_duplicado.avatar_url),
+    anotacoes = NULLIF(concat_ws(E'\n\n', NULLIF(anotacoes, ''), NULLIF(v_duplicado.anotacoes, '')), ''),
+    ltv = COALESCE(ltv, 0) + COALESCE(v_duplicado.ltv, 0),
+    convertido = COALESCE(convertido, false) OR COALESCE(v_duplicado.convertido, false),
+    data_ultimo_contato = GREATEST(data_ultimo_contato, v_duplicado.data_ultimo_contato),
+    created_at = LEAST(created_at, v_duplicado.created_at),
+    updated_at = now()
+  WHERE id = p_lead_principal;
+
+  DELETE FROM public.leads WHERE id = p_lead_duplicado;
+
+  RETURN p_lead_principal;
+END;
+$$;
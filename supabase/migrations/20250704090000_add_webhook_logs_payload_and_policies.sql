@@ -0,0 +1,29 @@
+
+-- Visualizador de logs de entrega de webhooks (CRM -> n8n).
+-- O que faz:
+-- - Guarda o payload enviado e o canal em cada log, para exibir requisição e resposta completas
+-- - Permite que a clínica (somente leitura) e os admins consultem os logs pelo CRM
+-- - Índice para a listagem paginada por clínica e data
+
+ALTER TABLE public.webhook_logs
+ADD COLUMN IF NOT EXISTS payload JSONB,
+ADD COLUMN IF NOT EXISTS canal TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_logs_clinica_created_at
+  ON public.webhook_logs (clinica_id, created_at DESC);
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE public.webhook_logs ENABLE ROW LEVEL SECURITY;
+
+-- Os logs são gravados apenas pelas Edge Functions (service role)
+DROP POLICY IF EXISTS "Clínicas podem ver seus logs de webhook" ON public.webhook_logs;
+CREATE POLICY "Clínicas podem ver seus logs de webhook"
+  ON public.webhook_logs
+  FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+DROP POLICY IF EXISTS "Admins podem ver todos os logs de webhook" ON public.webhook_logs;
+CREATE POLICY "Admins podem ver todos os logs de webhook"
+  ON public.webhook_logs
+  FOR SELECT
+  USING (public.is_current_user_admin());
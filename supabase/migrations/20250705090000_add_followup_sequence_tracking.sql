@@ -0,0 +1,80 @@
+
+-- Sequências de follow-up em várias etapas (drip).
+-- O que faz: process-followup-campaigns envia a etapa 1 para leads inativos e, a cada envio
+-- com sucesso, agenda a etapa seguinte (follow_up_templates.sequencia + 1) para
+-- intervalo_dias depois, como uma execução 'pendente'. A sequência é encerrada
+-- automaticamente (execuções pendentes viram 'cancelado') quando o lead responde no chat
+-- ou ganha um agendamento; o motivo fica registrado em motivo_cancelamento.
+
+-- Motivo do encerramento de uma execução cancelada:
+-- lead_respondeu | agendamento | follow_up_pausado
+ALTER TABLE public.follow_up_execucoes
+  ADD COLUMN motivo_cancelamento TEXT;
+
+-- Busca das etapas vencidas de cada campanha
+CREATE INDEX idx_follow_up_execucoes_campaign_status
+  ON public.follow_up_execucoes (campaign_id, status, data_agendada);
+
+-- Cancela as etapas automáticas pendentes de um lead (todas as campanhas)
+CREATE OR REPLACE FUNCTION public.encerrar_sequencias_follow_up(p_lead_id UUID, p_motivo TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_encerradas INTEGER;
+BEGIN
+  UPDATE public.follow_up_execucoes
+  SET status = 'cancelado',
+      motivo_cancelamento = p_motivo
+  WHERE lead_id = p_lead_id
+    AND status = 'pendente'
+    AND tipo_execucao = 'automatico';
+
+  GET DIAGNOSTICS v_encerradas = ROW_COUNT;
+  RETURN v_encerradas;
+END;
+$$;
+
+-- Lead respondeu no chat: encerra a sequência
+CREATE OR REPLACE FUNCTION public.encerrar_follow_up_ao_responder()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  PERFORM public.encerrar_sequencias_follow_up(NEW.lead_id, 'lead_respondeu');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER encerrar_follow_up_ao_responder
+  AFTER INSERT ON public.chat_mensagens
+  FOR EACH ROW
+  WHEN (NEW.enviado_por = 'lead')
+  EXECUTE FUNCTION public.encerrar_follow_up_ao_responder();
+
+-- Lead ganhou um agendamento: encerra a sequência
+CREATE OR REPLACE FUNCTION public.encerrar_follow_up_ao_agendar()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  PERFORM public.encerrar_sequencias_follow_up(NEW.cliente_id, 'agendamento');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER encerrar_follow_up_ao_agendar
+  AFTER INSERT ON public.agendamentos
+  FOR EACH ROW
+  WHEN (NEW.cliente_id IS NOT NULL)
+  EXECUTE FUNCTION public.encerrar_follow_up_ao_agendar();
+
+-- Apenas triggers e Edge Functions (service role) encerram sequências diretamente;
+-- o CRM cancela as etapas pelas políticas de UPDATE de follow_up_execucoes
+REVOKE EXECUTE ON FUNCTION public.encerrar_sequencias_follow_up(UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,22 @@
+
+-- Agendamento de follow-up no calendário de cada clínica.
+-- O que faz: process-followup-campaigns passa a avaliar horários no fuso IANA da clínica
+-- (antes usava o relógio UTC do runtime) e a respeitar horario_funcionamento e os
+-- feriados nacionais. A campanha ganha uma janela de envio: horario_envio é o início
+-- e horario_envio_fim o fim (exclusivo).
+
+-- Fuso horário IANA da clínica (ex.: America/Sao_Paulo, America/Manaus)
+ALTER TABLE public.clinicas
+  ADD COLUMN fuso_horario TEXT NOT NULL DEFAULT 'America/Sao_Paulo';
+
+-- Campanhas existentes ficam com o fim nulo (janela aberta até o fim do dia, como antes);
+-- novas campanhas recebem 18:00 por padrão
+ALTER TABLE public.follow_up_campaigns
+  ADD COLUMN horario_envio_fim TIME WITHOUT TIME ZONE;
+
+ALTER TABLE public.follow_up_campaigns
+  ALTER COLUMN horario_envio_fim SET DEFAULT '18:00:00';
+
+ALTER TABLE public.follow_up_campaigns
+  ADD CONSTRAINT follow_up_campaigns_janela_envio_check
+  CHECK (horario_envio IS NULL OR horario_envio_fim IS NULL OR horario_envio_fim > horario_envio);
@@ -0,0 +1,76 @@
+
+-- Métricas das campanhas de follow-up, por campanha e por etapa (template).
+-- O que faz: para as execuções enviadas ou com erro no período [p_inicio, p_fim), conta
+-- enviados, falhas, leads que responderam no chat em até p_dias_resposta dias depois do
+-- envio e leads que ganharam um agendamento em até p_dias_conversao dias.
+-- "Respondidos" conta qualquer mensagem do lead na janela, inclusive pedidos de opt-out
+-- ("PARE") e respostas a lembretes de agendamento: mede engajamento, não interesse.
+-- "Convertidos" ignora agendamentos cancelados ou com falta (nao_compareceu).
+-- Roda com as permissões de quem chama (RLS): cada clínica só enxerga os próprios dados.
+CREATE OR REPLACE FUNCTION public.follow_up_metricas(
+  p_inicio TIMESTAMP WITH TIME ZONE,
+  p_fim TIMESTAMP WITH TIME ZONE,
+  p_dias_resposta INTEGER DEFAULT 3,
+  p_dias_conversao INTEGER DEFAULT 30,
+  p_clinica_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  campaign_id UUID,
+  campaign_nome TEXT,
+  template_id UUID,
+  sequencia INTEGER,
+  template_titulo TEXT,
+  enviados BIGINT,
+  falhas BIGINT,
+  respondidos BIGINT,
+  convertidos BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT
+    c.id,
+    c.nome::TEXT,
+    t.id,
+    t.sequencia,
+    t.titulo::TEXT,
+    COUNT(*) FILTER (WHERE e.status = 'enviado'),
+    COUNT(*) FILTER (WHERE e.status = 'erro'),
+    COUNT(*) FILTER (
+      WHERE e.status = 'enviado'
+        AND EXISTS (
+          SELECT 1 FROM public.chat_mensagens m
+          WHERE m.lead_id = e.lead_id
+            AND m.enviado_por = 'lead'
+            AND m.created_at > e.data_enviado
+            AND m.created_at <= e.data_enviado + make_interval(days => p_dias_resposta)
+        )
+    ),
+    COUNT(*) FILTER (
+      WHERE e.status = 'enviado'
+        AND EXISTS (
+          SELECT 1 FROM public.agendamentos a
+          WHERE a.cliente_id = e.lead_id
+            AND COALESCE(a.status, 'agendado') NOT IN ('cancelado', 'nao_compareceu')
+            AND a.created_at > e.data_enviado
+            AND a.created_at <= e.data_enviado + make_interval(days => p_dias_conversao)
+        )
+    )
+  FROM public.follow_up_execucoes e
+  JOIN public.follow_up_campaigns c ON c.id = e.campaign_id
+  JOIN public.follow_up_templates t ON t.id = e.template_id
+  WHERE e.status IN ('enviado', 'erro')
+    AND COALESCE(e.data_enviado, e.data_agendada) >= p_inicio
+    AND COALESCE(e.data_enviado, e.data_agendada) < p_fim
+    AND (p_clinica_id IS NULL OR c.clinica_id = p_clinica_id)
+  GROUP BY c.id, c.nome, t.id, t.sequencia, t.titulo
+  ORDER BY c.nome, t.sequencia;
+$$;
+
+-- Índices usados nas janelas de resposta e conversão
+CREATE INDEX IF NOT EXISTS idx_chat_mensagens_lead_remetente_data
+  ON public.chat_mensagens (lead_id, enviado_por, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_agendamentos_cliente_created
+  ON public.agendamentos (cliente_id, created_at);
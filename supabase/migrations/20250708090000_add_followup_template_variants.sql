@@ -0,0 +1,110 @@
+
+-- Teste A/B de templates de follow-up.
+-- O que faz: uma etapa (follow_up_templates) pode ter várias variantes de texto com pesos.
+-- O processador sorteia a variante de cada lead de forma determinística (hash do lead e
+-- da etapa), grava em follow_up_execucoes.variante_id e a send-followup-webhook envia o
+-- texto da variante. Etapas sem variantes ativas continuam usando o conteudo do template.
+CREATE TABLE public.follow_up_template_variantes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES public.follow_up_templates(id) ON DELETE CASCADE,
+  nome VARCHAR(50) NOT NULL,
+  conteudo TEXT NOT NULL,
+  -- Proporção relativa de leads que recebem a variante (ex.: 1 e 1 = 50%/50%)
+  peso INTEGER NOT NULL DEFAULT 1 CHECK (peso > 0),
+  ativo BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (template_id, nome)
+);
+
+CREATE INDEX idx_follow_up_template_variantes_template
+  ON public.follow_up_template_variantes (template_id);
+
+-- Variante enviada em cada execução (nula quando a etapa não tem teste A/B)
+ALTER TABLE public.follow_up_execucoes
+  ADD COLUMN variante_id UUID REFERENCES public.follow_up_template_variantes(id) ON DELETE SET NULL;
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE public.follow_up_template_variantes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage variants of their clinic templates"
+  ON public.follow_up_template_variantes
+  FOR ALL
+  USING (template_id IN (
+    SELECT t.id FROM public.follow_up_templates t
+    JOIN public.follow_up_campaigns c ON c.id = t.campaign_id
+    WHERE c.clinica_id = public.get_user_clinica_id()
+  ))
+  WITH CHECK (template_id IN (
+    SELECT t.id FROM public.follow_up_templates t
+    JOIN public.follow_up_campaigns c ON c.id = t.campaign_id
+    WHERE c.clinica_id = public.get_user_clinica_id()
+  ));
+
+CREATE POLICY "Admins can manage all variants"
+  ON public.follow_up_template_variantes
+  FOR ALL
+  USING (public.is_admin());
+
+CREATE TRIGGER update_follow_up_template_variantes_updated_at
+  BEFORE UPDATE ON public.follow_up_template_variantes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_follow_up_updated_at();
+
+-- Métricas por variante, com as mesmas janelas de follow_up_metricas
+CREATE OR REPLACE FUNCTION public.follow_up_metricas_variantes(
+  p_inicio TIMESTAMP WITH TIME ZONE,
+  p_fim TIMESTAMP WITH TIME ZONE,
+  p_dias_resposta INTEGER DEFAULT 3,
+  p_dias_conversao INTEGER DEFAULT 30,
+  p_clinica_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  campaign_id UUID,
+  template_id UUID,
+  variante_id UUID,
+  variante_nome TEXT,
+  variante_ativa BOOLEAN,
+  enviados BIGINT,
+  respondidos BIGINT,
+  convertidos BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT
+    e.campaign_id,
+    e.template_id,
+    v.id,
+    v.nome::TEXT,
+    v.ativo,
+    COUNT(*),
+    COUNT(*) FILTER (
+      WHERE EXISTS (
+        SELECT 1 FROM public.chat_mensagens m
+        WHERE m.lead_id = e.lead_id
+          AND m.enviado_por = 'lead'
+          AND m.created_at > e.data_enviado
+          AND m.created_at <= e.data_enviado + make_interval(days => p_dias_resposta)
+      )
+    ),
+    COUNT(*) FILTER (
+      WHERE EXISTS (
+        SELECT 1 FROM public.agendamentos a
+        WHERE a.cliente_id = e.lead_id
+          AND COALESCE(a.status, 'agendado') NOT IN ('cancelado', 'nao_compareceu')
+          AND a.created_at > e.data_enviado
+          AND a.created_at <= e.data_enviado + make_interval(days => p_dias_conversao)
+      )
+    )
+  FROM public.follow_up_execucoes e
+  JOIN public.follow_up_template_variantes v ON v.id = e.variante_id
+  JOIN public.follow_up_campaigns c ON c.id = e.campaign_id
+  WHERE e.status = 'enviado'
+    AND e.data_enviado >= p_inicio
+    AND e.data_enviado < p_fim
+    AND (p_clinica_id IS NULL OR c.clinica_id = p_clinica_id)
+  GROUP BY e.campaign_id, e.template_id, v.id, v.nome, v.ativo
+  ORDER BY v.nome;
+$$;
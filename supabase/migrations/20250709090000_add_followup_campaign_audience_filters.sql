@@ -0,0 +1,25 @@
+-- Público das campanhas automáticas de follow-up.
+-- O que faz: a campanha ganha regras de público (filtros_publico) avaliadas pelo
+-- process-followup-campaigns depois do critério de inatividade. O formato é definido em
+-- supabase/functions/_shared/campaignAudience.ts:
+-- {
+--   "etapas":   { "incluir": [uuid], "excluir": [uuid] },
+--   "tags":     { "incluir": [uuid], "excluir": [uuid] },
+--   "origens":  { "incluir": [texto], "excluir": [texto] },
+--   "anuncios": { "incluir": [texto], "excluir": [texto] },
+--   "servicos": { "incluir": [texto], "excluir": [texto] },
+--   "convertido": "todos" | "convertidos" | "nao_convertidos",
+--   "agendamento_futuro": "todos" | "com" | "sem"
+-- }
+-- Objeto vazio = sem filtros (comportamento anterior: todos os leads inativos).
+
+ALTER TABLE public.follow_up_campaigns
+  ADD COLUMN filtros_publico JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.follow_up_campaigns
+  ADD CONSTRAINT follow_up_campaigns_filtros_publico_check
+  CHECK (jsonb_typeof(filtros_publico) = 'object');
+
+-- Consulta de agendamentos futuros por lead (filtro "tem agendamento futuro")
+CREATE INDEX IF NOT EXISTS idx_agendamentos_cliente_data_inicio
+  ON public.agendamentos (cliente_id, data_inicio);
@@ -0,0 +1,196 @@
+-- Campanhas de follow-up disparadas por eventos.
+-- O que faz: além de 'automatico' (inatividade) e 'manual', a campanha pode ser iniciada por:
+--   mudanca_etapa   - lead entrou na etapa do kanban gatilho_etapa_id
+--   nao_compareceu  - agendamento do lead marcado como 'nao_compareceu'
+--   pos_atendimento - agendamento do lead marcado como 'realizado' (satisfação/retorno)
+--   aniversario     - dia do aniversário do lead (leads.data_nascimento), no fuso da clínica
+-- Os três primeiros são iniciados aqui, por triggers; o aniversário é verificado pelo
+-- process-followup-campaigns. Em todos os casos a sequência entra no pipeline de
+-- follow_up_execucoes como uma etapa 1 'pendente', enviada pelo processador dentro da
+-- janela de envio da campanha e seguida pelas próximas etapas.
+-- gatilho_dias_apos atrasa o início da sequência (ex.: 7 dias depois do atendimento).
+
+ALTER TABLE public.follow_up_campaigns
+  DROP CONSTRAINT IF EXISTS follow_up_campaigns_tipo_check;
+
+ALTER TABLE public.follow_up_campaigns
+  ADD CONSTRAINT follow_up_campaigns_tipo_check
+  CHECK (tipo IN ('automatico', 'manual', 'mudanca_etapa', 'nao_compareceu', 'pos_atendimento', 'aniversario'));
+
+ALTER TABLE public.follow_up_campaigns
+  ADD COLUMN gatilho_etapa_id UUID REFERENCES public.etapas_kanban(id) ON DELETE SET NULL,
+  ADD COLUMN gatilho_dias_apos INTEGER NOT NULL DEFAULT 0 CHECK (gatilho_dias_apos >= 0);
+
+CREATE INDEX idx_follow_up_campaigns_gatilho
+  ON public.follow_up_campaigns (clinica_id, tipo)
+  WHERE ativo = true;
+
+-- Data de nascimento do lead (campanhas de aniversário)
+ALTER TABLE public.leads
+  ADD COLUMN data_nascimento DATE;
+
+-- Inicia a sequência de uma campanha para um lead: cria a etapa 1 (primeiro template ativo)
+-- como execução pendente. Não faz nada se o lead estiver com follow-up pausado, não tiver
+-- telefone ou já tiver uma etapa pendente nesta campanha.
+CREATE OR REPLACE FUNCTION public.iniciar_sequencia_follow_up(
+  p_campaign_id UUID,
+  p_lead_id UUID,
+  p_data_agendada TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_template_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leads
+    WHERE id = p_lead_id
+      AND COALESCE(follow_up_pausado, false) = false
+      AND telefone IS NOT NULL
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.follow_up_execucoes
+    WHERE lead_id = p_lead_id
+      AND campaign_id = p_campaign_id
+      AND status = 'pendente'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  SELECT id INTO v_template_id
+  FROM public.follow_up_templates
+  WHERE campaign_id = p_campaign_id
+    AND ativo = true
+  ORDER BY sequencia
+  LIMIT 1;
+
+  IF v_template_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.follow_up_execucoes (lead_id, campaign_id, template_id, tipo_execucao, status, data_agendada)
+  VALUES (p_lead_id, p_campaign_id, v_template_id, 'automatico', 'pendente', p_data_agendada);
+
+  RETURN true;
+END;
+$$;
+
+-- Lead entrou em uma etapa do kanban
+CREATE OR REPLACE FUNCTION public.iniciar_follow_up_mudanca_etapa()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_campanha RECORD;
+BEGIN
+  FOR v_campanha IN
+    SELECT id, gatilho_dias_apos FROM public.follow_up_campaigns
+    WHERE ativo = true
+      AND tipo = 'mudanca_etapa'
+      AND clinica_id = NEW.clinica_id
+      AND gatilho_etapa_id = NEW.etapa_kanban_id
+  LOOP
+    PERFORM public.iniciar_sequencia_follow_up(
+      v_campanha.id, NEW.id, now() + make_interval(days => v_campanha.gatilho_dias_apos)
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER iniciar_follow_up_mudanca_etapa
+  AFTER UPDATE OF etapa_kanban_id ON public.leads
+  FOR EACH ROW
+  WHEN (NEW.etapa_kanban_id IS NOT NULL AND NEW.etapa_kanban_id IS DISTINCT FROM OLD.etapa_kanban_id)
+  EXECUTE FUNCTION public.iniciar_follow_up_mudanca_etapa();
+
+-- Agendamento marcado como não compareceu / realizado
+CREATE OR REPLACE FUNCTION public.iniciar_follow_up_status_agendamento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_campanha RECORD;
+BEGIN
+  FOR v_campanha IN
+    SELECT id, gatilho_dias_apos FROM public.follow_up_campaigns
+    WHERE ativo = true
+      AND clinica_id = NEW.clinica_id
+      AND tipo = CASE NEW.status
+        WHEN 'nao_compareceu' THEN 'nao_compareceu'
+        WHEN 'realizado' THEN 'pos_atendimento'
+      END
+  LOOP
+    PERFORM public.iniciar_sequencia_follow_up(
+      v_campanha.id, NEW.cliente_id, now() + make_interval(days => v_campanha.gatilho_dias_apos)
+    );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER iniciar_follow_up_status_agendamento
+  AFTER UPDATE OF status ON public.agendamentos
+  FOR EACH ROW
+  WHEN (
+    NEW.cliente_id IS NOT NULL
+    AND NEW.status IN ('nao_compareceu', 'realizado')
+    AND NEW.status IS DISTINCT FROM OLD.status
+  )
+  EXECUTE FUNCTION public.iniciar_follow_up_status_agendamento();
+
+-- Nas campanhas por evento, a resposta do lead só encerra sequências já iniciadas: a etapa 1
+-- ainda pendente (ex.: mensagem pós-atendimento agendada para daqui a N dias) não é cancelada
+-- porque o lead mandou mensagem. Campanhas de inatividade ('automatico') param na resposta em
+-- qualquer etapa. Um novo agendamento continua encerrando tudo.
+CREATE OR REPLACE FUNCTION public.encerrar_sequencias_follow_up(p_lead_id UUID, p_motivo TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_encerradas INTEGER;
+BEGIN
+  UPDATE public.follow_up_execucoes e
+  SET status = 'cancelado',
+      motivo_cancelamento = p_motivo
+  WHERE e.lead_id = p_lead_id
+    AND e.status = 'pendente'
+    AND e.tipo_execucao = 'automatico'
+    AND (
+      p_motivo <> 'lead_respondeu'
+      OR NOT EXISTS (
+        SELECT 1 FROM public.follow_up_campaigns c
+        WHERE c.id = e.campaign_id
+          AND c.tipo IN ('pos_atendimento', 'nao_compareceu', 'mudanca_etapa', 'aniversario')
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM public.follow_up_templates atual
+        JOIN public.follow_up_templates anterior
+          ON anterior.campaign_id = atual.campaign_id
+         AND anterior.ativo = true
+         AND anterior.sequencia < atual.sequencia
+        WHERE atual.id = e.template_id
+      )
+    );
+
+  GET DIAGNOSTICS v_encerradas = ROW_COUNT;
+  RETURN v_encerradas;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.iniciar_sequencia_follow_up(UUID, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,249 @@
+-- Consentimento de contato e opt-out (LGPD).
+-- O que faz: registra, por lead e canal, cada concessão ou revogação do consentimento para
+-- receber mensagens, com data, origem e (quando veio de uma mensagem) a mensagem que a originou.
+-- A tabela é um histórico (apenas inserções); o estado atual é o registro mais recente de cada
+-- lead/canal (view lead_consentimento_atual). Lead sem registro é tratado como consentido.
+-- Onde é usado:
+--   receive-message            - palavras de parada ("PARE", "SAIR"...) e de retorno da clínica
+--   process-followup-campaigns - não inicia nem envia sequências para leads com opt-out
+--   send-webhook               - bloqueia mensagens do CRM para leads com opt-out no WhatsApp
+--   _shared/outboundQueue      - cancela novas tentativas da fila de envio após o opt-out
+--   LeadInfoSidebar            - selo de consentimento e registro manual pela equipe
+CREATE TABLE public.lead_consentimentos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinica_id UUID NOT NULL REFERENCES public.clinicas(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  canal TEXT NOT NULL CHECK (canal IN ('whatsapp', 'instagram')),
+  status TEXT NOT NULL CHECK (status IN ('concedido', 'revogado')),
+  -- 'palavra_chave' (mensagem do lead), 'crm' (registro manual da equipe) ou 'formulario'
+  origem TEXT NOT NULL CHECK (origem IN ('palavra_chave', 'crm', 'formulario')),
+  detalhes TEXT,
+  mensagem_id UUID REFERENCES public.chat_mensagens(id) ON DELETE SET NULL,
+  registrado_por UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_consentimentos_lead_canal
+  ON public.lead_consentimentos (lead_id, canal, created_at DESC);
+CREATE INDEX idx_lead_consentimentos_clinica
+  ON public.lead_consentimentos (clinica_id, created_at);
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE public.lead_consentimentos ENABLE ROW LEVEL SECURITY;
+
+-- Histórico de auditoria: clínicas consultam e registram, mas não alteram nem apagam
+CREATE POLICY "Clínicas podem ver consentimentos dos seus leads"
+  ON public.lead_consentimentos
+  FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Clínicas podem registrar consentimentos dos seus leads"
+  ON public.lead_consentimentos
+  FOR INSERT
+  WITH CHECK (
+    clinica_id = get_user_clinica_id()
+    AND lead_id IN (SELECT id FROM public.leads WHERE clinica_id = get_user_clinica_id())
+  );
+
+CREATE POLICY "Admins podem ver todos os consentimentos"
+  ON public.lead_consentimentos
+  FOR SELECT
+  USING (public.is_current_user_admin());
+
+-- Estado atual do consentimento de cada lead por canal
+CREATE VIEW public.lead_consentimento_atual
+WITH (security_invoker = true)
+AS
+  SELECT DISTINCT ON (lead_id, canal)
+    lead_id,
+    clinica_id,
+    canal,
+    status,
+    origem,
+    detalhes,
+    created_at
+  FROM public.lead_consentimentos
+  ORDER BY lead_id, canal, created_at DESC;
+
+-- Palavras-chave configuráveis por clínica (comparadas com a mensagem inteira, sem acentos
+-- e sem diferenciar maiúsculas). "cancelar" fica de fora: é usado para cancelar consultas.
+ALTER TABLE public.clinicas
+  ADD COLUMN palavras_opt_out TEXT[] NOT NULL DEFAULT ARRAY['pare', 'parar', 'sair', 'stop', 'descadastrar', 'nao quero mais receber'],
+  ADD COLUMN palavras_opt_in TEXT[] NOT NULL DEFAULT ARRAY['voltar', 'start'];
+
+-- O lead revogou o consentimento no canal?
+CREATE OR REPLACE FUNCTION public.lead_com_opt_out(p_lead_id UUID, p_canal TEXT DEFAULT 'whatsapp')
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT COALESCE((
+    SELECT status = 'revogado'
+    FROM public.lead_consentimentos
+    WHERE lead_id = p_lead_id
+      AND canal = p_canal
+    ORDER BY created_at DESC
+    LIMIT 1
+  ), false);
+$$;
+
+-- Opt-out no WhatsApp encerra na hora as sequências de follow-up pendentes
+CREATE OR REPLACE FUNCTION public.encerrar_follow_up_opt_out()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  PERFORM public.encerrar_sequencias_follow_up(NEW.lead_id, 'opt_out');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER encerrar_follow_up_opt_out
+  AFTER INSERT ON public.lead_consentimentos
+  FOR EACH ROW
+  WHEN (NEW.status = 'revogado' AND NEW.canal = 'whatsapp')
+  EXECUTE FUNCTION public.encerrar_follow_up_opt_out();
+
+-- Campanhas por evento não iniciam sequência para leads com opt-out
+CREATE OR REPLACE FUNCTION public.iniciar_sequencia_follow_up(
+  p_campaign_id UUID,
+  p_lead_id UUID,
+  p_data_agendada TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_template_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.leads
+    WHERE id = p_lead_id
+      AND COALESCE(follow_up_pausado, false) = false
+      AND telefone IS NOT NULL
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF public.lead_com_opt_out(p_lead_id, 'whatsapp') THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.follow_up_execucoes
+    WHERE lead_id = p_lead_id
+      AND campaign_id = p_campaign_id
+      AND status = 'pendente'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  SELECT id INTO v_template_id
+  FROM public.follow_up_templates
+  WHERE campaign_id = p_campaign_id
+    AND ativo = true
+  ORDER BY sequencia
+  LIMIT 1;
+
+  IF v_template_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.follow_up_execucoes (lead_id, campaign_id, template_id, tipo_execucao, status, data_agendada)
+  VALUES (p_lead_id, p_campaign_id, v_template_id, 'automatico', 'pendente', p_data_agendada);
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.iniciar_sequencia_follow_up(UUID, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+
+-- Itens da fila de envio cujo lead pediu opt-out antes da nova tentativa são cancelados
+-- (_shared/outboundQueue.ts), sem chegar ao webhook
+ALTER TABLE public.outbound_message_queue
+  DROP CONSTRAINT outbound_message_queue_status_check,
+  ADD CONSTRAINT outbound_message_queue_status_check
+    CHECK (status IN ('pending', 'processing', 'sent', 'dead_letter', 'cancelled'));
+
+-- Mesclagem de leads: o histórico de consentimento do duplicado passa para o principal
+-- (sem isso o ON DELETE CASCADE apagaria um opt-out registrado no duplicado)
+CREATE OR REPLACE FUNCTION public.mesclar_leads(p_lead_principal UUID, p_lead_duplicado UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_principal public.leads%ROWTYPE;
+  v_duplicado public.leads%ROWTYPE;
+BEGIN
+  IF p_lead_principal = p_lead_duplicado THEN
+    RAISE EXCEPTION 'O lead principal e o duplicado devem ser diferentes';
+  END IF;
+
+  SELECT * INTO v_principal FROM public.leads WHERE id = p_lead_principal FOR UPDATE;
+  SELECT * INTO v_duplicado FROM public.leads WHERE id = p_lead_duplicado FOR UPDATE;
+
+  IF v_principal.id IS NULL OR v_duplicado.id IS NULL THEN
+    RAISE EXCEPTION 'Lead não encontrado';
+  END IF;
+
+  IF v_principal.clinica_id IS DISTINCT FROM v_duplicado.clinica_id THEN
+    RAISE EXCEPTION 'Não é possível mesclar leads de clínicas diferentes';
+  END IF;
+
+  IF NOT (public.is_current_user_admin() OR v_principal.clinica_id = public.get_user_clinica_id()) THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  -- Histórico do duplicado passa para o principal
+  UPDATE public.chat_mensagens SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.mensagens SET cliente_id = p_lead_principal WHERE cliente_id = p_lead_duplicado;
+  UPDATE public.agendamentos SET cliente_id = p_lead_principal WHERE cliente_id = p_lead_duplicado;
+  UPDATE public.follow_up_execucoes SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.buffer SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.webhook_logs SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.outbound_message_queue SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.lead_consentimentos SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+
+  -- Atribuição de anúncio: mantém a do principal; herda a do duplicado se o principal não tiver
+  UPDATE public.lead_ad_attributions
+  SET lead_id = p_lead_principal
+  WHERE lead_id = p_lead_duplicado
+    AND NOT EXISTS (SELECT 1 FROM public.lead_ad_attributions WHERE lead_id = p_lead_principal);
+
+  -- Completar os dados do principal (tag, canais, origem) com os do duplicado
+  UPDATE public.leads
+  SET
+    nome = CASE
+      WHEN nome IS NULL OR nome LIKE 'Contato %' THEN COALESCE(v_duplicado.nome, nome)
+      ELSE nome
+    END,
+    telefone = COALESCE(telefone, v_duplicado.telefone),
+    email = COALESCE(email, v_duplicado.email),
+    id_direct = COALESCE(id_direct, v_duplicado.id_direct),
+    meu_id_direct = COALESCE(meu_id_direct, v_duplicado.meu_id_direct),
+    tag_id = COALESCE(tag_id, v_duplicado.tag_id),
+    origem_lead = COALESCE(origem_lead, v_duplicado.origem_lead),
+    servico_interesse = COALESCE(servico_interesse, v_duplicado.servico_interesse),
+    ad_name = COALESCE(ad_name, v_duplicado.ad_name),
+    ad_platform = COALESCE(ad_platform, v_duplicado.ad_platform),
+    avatar_url = COALESCE(avatar_url, v_duplicado.avatar_url),
+    anotacoes = NULLIF(concat_ws(E'\n\n', NULLIF(anotacoes, ''), NULLIF(v_duplicado.anotacoes, '')), ''),
+    ltv = COALESCE(ltv, 0) + COALESCE(v_duplicado.ltv, 0),
+    convertido = COALESCE(convertido, false) OR COALESCE(v_duplicado.convertido, false),
+    data_ultimo_contato = GREATEST(data_ultimo_contato, v_duplicado.data_ultimo_contato),
+    created_at = LEAST(created_at, v_duplicado.created_at),
+    updated_at = now()
+  WHERE id = p_lead_principal;
+
+  DELETE FROM public.leads WHERE id = p_lead_duplicado;
+
+  RETURN p_lead_principal;
+END;
+$$;
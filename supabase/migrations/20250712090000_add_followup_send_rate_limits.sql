@@ -0,0 +1,56 @@
+-- Limite de envio dos follow-ups automáticos por clínica.
+-- O que faz: process-followup-campaigns deixa de disparar todas as etapas vencidas de uma vez.
+-- As execuções 'pendente' com data_agendada vencida formam a fila de envio; a cada rodada do
+-- CRON o processador envia, por clínica, só o que cabe nos limites por minuto, hora e dia
+-- (janelas móveis) com um intervalo aleatório entre uma mensagem e outra. O restante fica
+-- pendente para as próximas rodadas. Envio em massa pelo mesmo número pode levar o WhatsApp
+-- a bloquear a clínica.
+
+ALTER TABLE public.clinicas
+  ADD COLUMN followup_limite_por_minuto INTEGER NOT NULL DEFAULT 4 CHECK (followup_limite_por_minuto > 0),
+  ADD COLUMN followup_limite_por_hora INTEGER NOT NULL DEFAULT 60 CHECK (followup_limite_por_hora > 0),
+  ADD COLUMN followup_limite_por_dia INTEGER NOT NULL DEFAULT 300 CHECK (followup_limite_por_dia > 0),
+  -- Intervalo sorteado entre duas mensagens da mesma clínica
+  ADD COLUMN followup_intervalo_min_segundos INTEGER NOT NULL DEFAULT 10 CHECK (followup_intervalo_min_segundos >= 0),
+  ADD COLUMN followup_intervalo_max_segundos INTEGER NOT NULL DEFAULT 30,
+  ADD CONSTRAINT clinicas_followup_intervalo_check
+    CHECK (followup_intervalo_max_segundos >= followup_intervalo_min_segundos);
+
+-- 'processando': execução reservada por uma rodada do processador e em envio. Rodadas
+-- simultâneas só enviam execuções que conseguiram reservar (UPDATE ... WHERE status = 'pendente').
+ALTER TABLE public.follow_up_execucoes
+  DROP CONSTRAINT IF EXISTS follow_up_execucoes_status_check;
+
+ALTER TABLE public.follow_up_execucoes
+  ADD CONSTRAINT follow_up_execucoes_status_check
+  CHECK (status IN ('pendente', 'processando', 'enviado', 'erro', 'cancelado'));
+
+-- Contagem dos envios recentes de cada clínica
+CREATE INDEX idx_follow_up_execucoes_enviado
+  ON public.follow_up_execucoes (data_enviado)
+  WHERE status = 'enviado';
+
+-- Envios de follow-up (automáticos e manuais) da clínica no último minuto, hora e dia.
+-- Com RLS, usuários só enxergam os envios da própria clínica.
+CREATE OR REPLACE FUNCTION public.follow_up_envios_recentes(p_clinica_id UUID)
+RETURNS TABLE (
+  ultimo_minuto BIGINT,
+  ultima_hora BIGINT,
+  ultimo_dia BIGINT,
+  ultimo_envio_em TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT
+    COUNT(*) FILTER (WHERE e.data_enviado > now() - INTERVAL '1 minute'),
+    COUNT(*) FILTER (WHERE e.data_enviado > now() - INTERVAL '1 hour'),
+    COUNT(*),
+    MAX(e.data_enviado)
+  FROM public.follow_up_execucoes e
+  JOIN public.follow_up_campaigns c ON c.id = e.campaign_id
+  WHERE c.clinica_id = p_clinica_id
+    AND e.status = 'enviado'
+    AND e.data_enviado > now() - INTERVAL '1 day';
+$$;
@@ -0,0 +1,94 @@
+-- Follow-up manual em massa.
+-- O que faz: a equipe seleciona vários leads (tabela de contatos ou coluna do kanban) e dispara
+-- um template de uma campanha para todos, agora ou em data futura. Cada disparo é um lote
+-- (follow_up_envios_em_massa) e gera uma execução manual 'pendente' por lead, ligada ao lote
+-- por follow_up_execucoes.lote_id. process-followup-campaigns envia as execuções vencidas
+-- dos lotes na mesma fila das etapas automáticas, dentro dos limites de envio da clínica.
+-- Leads com opt-out ou follow-up pausado ficam fora do lote (e são cancelados no envio, se
+-- mudarem de situação depois do agendamento).
+CREATE TABLE public.follow_up_envios_em_massa (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinica_id UUID NOT NULL REFERENCES public.clinicas(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES public.follow_up_campaigns(id) ON DELETE CASCADE,
+  template_id UUID NOT NULL REFERENCES public.follow_up_templates(id) ON DELETE CASCADE,
+  criado_por UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  data_agendada TIMESTAMP WITH TIME ZONE NOT NULL,
+  total_leads INTEGER NOT NULL DEFAULT 0,
+  -- Selecionados que ficaram fora do lote (opt-out, follow-up pausado, sem telefone)
+  leads_excluidos INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_follow_up_envios_em_massa_clinica
+  ON public.follow_up_envios_em_massa (clinica_id, created_at DESC);
+
+ALTER TABLE public.follow_up_execucoes
+  ADD COLUMN lote_id UUID REFERENCES public.follow_up_envios_em_massa(id) ON DELETE SET NULL;
+
+-- Progresso do lote e busca das execuções manuais vencidas pelo processador
+CREATE INDEX idx_follow_up_execucoes_lote
+  ON public.follow_up_execucoes (lote_id, status)
+  WHERE lote_id IS NOT NULL;
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE public.follow_up_envios_em_massa ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clínicas podem ver seus envios em massa"
+  ON public.follow_up_envios_em_massa
+  FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Clínicas podem criar envios em massa"
+  ON public.follow_up_envios_em_massa
+  FOR INSERT
+  WITH CHECK (
+    clinica_id = get_user_clinica_id()
+    AND campaign_id IN (SELECT id FROM public.follow_up_campaigns WHERE clinica_id = get_user_clinica_id())
+  );
+
+CREATE POLICY "Admins podem ver todos os envios em massa"
+  ON public.follow_up_envios_em_massa
+  FOR SELECT
+  USING (public.is_current_user_admin());
+
+-- Cria o lote e as execuções numa única transação: uma falha no meio não deixa um lote com
+-- parte dos leads. SECURITY INVOKER: valem as políticas de RLS de follow_up_envios_em_massa e
+-- follow_up_execucoes (campanha e leads da clínica do usuário). A seleção dos leads elegíveis
+-- (sem opt-out, follow-up pausado ou telefone) é feita no frontend, na prévia do envio.
+CREATE OR REPLACE FUNCTION public.criar_envio_em_massa_follow_up(
+  p_clinica_id UUID,
+  p_campaign_id UUID,
+  p_template_id UUID,
+  p_lead_ids UUID[],
+  p_leads_excluidos INTEGER DEFAULT 0,
+  p_data_agendada TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS public.follow_up_envios_em_massa
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_lote public.follow_up_envios_em_massa%ROWTYPE;
+BEGIN
+  IF COALESCE(cardinality(p_lead_ids), 0) = 0 THEN
+    RAISE EXCEPTION 'Selecione pelo menos um lead para o envio em massa';
+  END IF;
+
+  INSERT INTO public.follow_up_envios_em_massa (
+    clinica_id, campaign_id, template_id, criado_por, data_agendada, total_leads, leads_excluidos
+  )
+  VALUES (
+    p_clinica_id, p_campaign_id, p_template_id, auth.uid(), p_data_agendada,
+    cardinality(p_lead_ids), COALESCE(p_leads_excluidos, 0)
+  )
+  RETURNING * INTO v_lote;
+
+  INSERT INTO public.follow_up_execucoes (
+    lead_id, campaign_id, template_id, tipo_execucao, status, data_agendada, user_id_manual, lote_id
+  )
+  SELECT lead_id, p_campaign_id, p_template_id, 'manual', 'pendente', p_data_agendada, auth.uid(), v_lote.id
+  FROM unnest(p_lead_ids) AS lead_id;
+
+  RETURN v_lote;
+END;
+$$;
@@ -0,0 +1,223 @@
+-- Profissionais, salas e conflitos de horário na agenda.
+-- O que faz: cada agendamento passa a ter o profissional que realiza o procedimento e,
+-- opcionalmente, a sala. O banco detecta sobreposição de horário (mesmo profissional ou mesma
+-- sala) entre agendamentos ativos; conforme clinicas.conflito_agendamento, o trigger bloqueia
+-- o agendamento ('bloquear', padrão) ou deixa passar para a tela apenas avisar ('avisar').
+-- agendamentos.usuario_id continua sendo quem criou o agendamento.
+-- Onde é usado:
+--   RegistroAgendamentoModal - seleção de profissional/sala e aviso de conflito
+--   CalendarPage             - colunas por profissional na timeline do dia
+--   SettingsPage (aba Agenda) - cadastro de profissionais e salas e modo de conflito
+
+CREATE TABLE public.profissionais (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinica_id UUID NOT NULL REFERENCES public.clinicas(id) ON DELETE CASCADE,
+  nome TEXT NOT NULL,
+  especialidade TEXT,
+  -- Conta de acesso do profissional, quando ele também usa o sistema
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  cor TEXT NOT NULL DEFAULT '#3B82F6',
+  ativo BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.salas (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinica_id UUID NOT NULL REFERENCES public.clinicas(id) ON DELETE CASCADE,
+  nome TEXT NOT NULL,
+  ativo BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_profissionais_clinica ON public.profissionais (clinica_id);
+CREATE INDEX idx_salas_clinica ON public.salas (clinica_id);
+
+ALTER TABLE public.agendamentos
+  ADD COLUMN profissional_id UUID REFERENCES public.profissionais(id) ON DELETE SET NULL,
+  ADD COLUMN sala_id UUID REFERENCES public.salas(id) ON DELETE SET NULL;
+
+-- Busca de sobreposição por profissional e por sala
+CREATE INDEX idx_agendamentos_profissional_periodo
+  ON public.agendamentos (profissional_id, data_inicio, data_fim)
+  WHERE profissional_id IS NOT NULL;
+CREATE INDEX idx_agendamentos_sala_periodo
+  ON public.agendamentos (sala_id, data_inicio, data_fim)
+  WHERE sala_id IS NOT NULL;
+
+ALTER TABLE public.clinicas
+  ADD COLUMN conflito_agendamento TEXT NOT NULL DEFAULT 'bloquear'
+    CHECK (conflito_agendamento IN ('bloquear', 'avisar'));
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE public.profissionais ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.salas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clínicas podem ver seus profissionais"
+  ON public.profissionais FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Clínicas podem cadastrar seus profissionais"
+  ON public.profissionais FOR INSERT
+  WITH CHECK (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Clínicas podem atualizar seus profissionais"
+  ON public.profissionais FOR UPDATE
+  USING (clinica_id = get_user_clinica_id())
+  WITH CHECK (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Admins podem ver todos os profissionais"
+  ON public.profissionais FOR SELECT
+  USING (public.is_current_user_admin());
+
+CREATE POLICY "Clínicas podem ver suas salas"
+  ON public.salas FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Clínicas podem cadastrar suas salas"
+  ON public.salas FOR INSERT
+  WITH CHECK (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Clínicas podem atualizar suas salas"
+  ON public.salas FOR UPDATE
+  USING (clinica_id = get_user_clinica_id())
+  WITH CHECK (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Admins podem ver todas as salas"
+  ON public.salas FOR SELECT
+  USING (public.is_current_user_admin());
+
+CREATE TRIGGER update_profissionais_updated_at
+  BEFORE UPDATE ON public.profissionais
+  FOR EACH ROW EXECUTE FUNCTION public.update_follow_up_updated_at();
+
+CREATE TRIGGER update_salas_updated_at
+  BEFORE UPDATE ON public.salas
+  FOR EACH ROW EXECUTE FUNCTION public.update_follow_up_updated_at();
+
+-- Agendamentos ativos da clínica que se sobrepõem ao período no mesmo profissional ou sala.
+-- Cancelados e faltas não ocupam horário. Intervalos semiabertos: terminar às 10:00 e
+-- começar às 10:00 não é conflito. Com RLS, só enxerga agendamentos da própria clínica.
+CREATE OR REPLACE FUNCTION public.conflitos_agendamento(
+  p_clinica_id UUID,
+  p_data_inicio TIMESTAMP WITH TIME ZONE,
+  p_data_fim TIMESTAMP WITH TIME ZONE,
+  p_profissional_id UUID DEFAULT NULL,
+  p_sala_id UUID DEFAULT NULL,
+  p_ignorar_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  agendamento_id UUID,
+  titulo TEXT,
+  cliente_id UUID,
+  data_inicio TIMESTAMP WITH TIME ZONE,
+  data_fim TIMESTAMP WITH TIME ZONE,
+  recurso TEXT -- 'profissional' ou 'sala'
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT
+    a.id,
+    a.titulo::TEXT,
+    a.cliente_id,
+    a.data_inicio,
+    a.data_fim,
+    CASE WHEN p_profissional_id IS NOT NULL AND a.profissional_id = p_profissional_id
+      THEN 'profissional' ELSE 'sala' END
+  FROM public.agendamentos a
+  WHERE a.clinica_id = p_clinica_id
+    AND (p_ignorar_id IS NULL OR a.id <> p_ignorar_id)
+    AND COALESCE(a.status, 'agendado') NOT IN ('cancelado', 'nao_compareceu')
+    AND a.data_inicio < p_data_fim
+    AND a.data_fim > p_data_inicio
+    AND (
+      (p_profissional_id IS NOT NULL AND a.profissional_id = p_profissional_id)
+      OR (p_sala_id IS NOT NULL AND a.sala_id = p_sala_id)
+    )
+  ORDER BY a.data_inicio;
+$$;
+
+-- Valida profissional/sala da clínica e bloqueia sobreposição quando a clínica usa 'bloquear'.
+-- SECURITY DEFINER: o conflito vale também contra agendamentos que o usuário não enxerga.
+CREATE OR REPLACE FUNCTION public.validar_conflito_agendamento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_modo TEXT;
+  v_fuso TEXT;
+  v_conflito RECORD;
+BEGIN
+  IF NEW.profissional_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profissionais WHERE id = NEW.profissional_id AND clinica_id = NEW.clinica_id
+  ) THEN
+    RAISE EXCEPTION 'Profissional não pertence à clínica do agendamento';
+  END IF;
+
+  IF NEW.sala_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.salas WHERE id = NEW.sala_id AND clinica_id = NEW.clinica_id
+  ) THEN
+    RAISE EXCEPTION 'Sala não pertence à clínica do agendamento';
+  END IF;
+
+  IF COALESCE(NEW.status, 'agendado') IN ('cancelado', 'nao_compareceu')
+    OR (NEW.profissional_id IS NULL AND NEW.sala_id IS NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Mudança só de status entre status ativos (ex.: agendado -> confirmado) não revalida o horário
+  IF TG_OP = 'UPDATE'
+    AND NEW.data_inicio = OLD.data_inicio
+    AND NEW.data_fim = OLD.data_fim
+    AND NEW.profissional_id IS NOT DISTINCT FROM OLD.profissional_id
+    AND NEW.sala_id IS NOT DISTINCT FROM OLD.sala_id
+    AND COALESCE(OLD.status, 'agendado') NOT IN ('cancelado', 'nao_compareceu') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT conflito_agendamento, COALESCE(fuso_horario, 'America/Sao_Paulo')
+  INTO v_modo, v_fuso
+  FROM public.clinicas
+  WHERE id = NEW.clinica_id;
+  IF COALESCE(v_modo, 'bloquear') <> 'bloquear' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serializa a verificação por profissional e por sala até o fim da transação: sem isso duas
+  -- gravações simultâneas no mesmo horário passariam ambas (nenhuma enxerga a outra).
+  -- Ordem fixa (profissional, depois sala) para não haver deadlock entre transações.
+  IF NEW.profissional_id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.profissional_id::text));
+  END IF;
+  IF NEW.sala_id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.sala_id::text));
+  END IF;
+
+  SELECT * INTO v_conflito
+  FROM public.conflitos_agendamento(
+    NEW.clinica_id, NEW.data_inicio, NEW.data_fim, NEW.profissional_id, NEW.sala_id, NEW.id
+  )
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Conflito de horário: % já ocupado(a) por "%" de % a %',
+      CASE WHEN v_conflito.recurso = 'profissional' THEN 'profissional' ELSE 'sala' END,
+      v_conflito.titulo,
+      to_char(v_conflito.data_inicio AT TIME ZONE v_fuso, 'DD/MM HH24:MI'),
+      to_char(v_conflito.data_fim AT TIME ZONE v_fuso, 'HH24:MI')
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validar_conflito_agendamento
+  BEFORE INSERT OR UPDATE OF data_inicio, data_fim, profissional_id, sala_id, status
+  ON public.agendamentos
+  FOR EACH ROW EXECUTE FUNCTION public.validar_conflito_agendamento();
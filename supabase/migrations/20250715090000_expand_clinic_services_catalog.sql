@@ -0,0 +1,219 @@
+-- Catálogo de serviços com duração, preço e regras de agendamento.
+-- O que faz: clinica_servicos passa a ter duração padrão, preço, instruções de preparo e
+-- intervalo após o atendimento (tempo em que profissional e sala continuam ocupados, ex.:
+-- limpeza da sala). profissional_servicos diz quais profissionais realizam cada serviço.
+-- agendamentos.servico_id referencia o serviço pelo id (antes o vínculo era pelo título),
+-- o que permite preencher data_fim/valor no agendamento e relatar faturamento por serviço.
+-- Onde é usado:
+--   ClinicServicesManager   - cadastro do catálogo (aba Serviços das configurações)
+--   RegistroAgendamentoModal - seleção do serviço preenche duração, valor e profissionais
+--   dashboardService        - faturamento por serviço
+
+ALTER TABLE public.clinica_servicos
+  ADD COLUMN duracao_minutos INTEGER NOT NULL DEFAULT 30 CHECK (duracao_minutos > 0),
+  ADD COLUMN preco NUMERIC(10, 2) CHECK (preco IS NULL OR preco >= 0),
+  ADD COLUMN instrucoes_preparo TEXT,
+  ADD COLUMN intervalo_minutos INTEGER NOT NULL DEFAULT 0 CHECK (intervalo_minutos >= 0);
+
+-- Profissionais que realizam cada serviço. Serviço sem profissionais vinculados pode ser
+-- realizado por qualquer profissional.
+CREATE TABLE public.profissional_servicos (
+  profissional_id UUID NOT NULL REFERENCES public.profissionais(id) ON DELETE CASCADE,
+  servico_id UUID NOT NULL REFERENCES public.clinica_servicos(id) ON DELETE CASCADE,
+  clinica_id UUID NOT NULL REFERENCES public.clinicas(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (profissional_id, servico_id)
+);
+
+CREATE INDEX idx_profissional_servicos_servico ON public.profissional_servicos (servico_id);
+
+ALTER TABLE public.agendamentos
+  ADD COLUMN servico_id UUID REFERENCES public.clinica_servicos(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_agendamentos_servico
+  ON public.agendamentos (servico_id)
+  WHERE servico_id IS NOT NULL;
+
+-- Vincula os agendamentos existentes ao serviço de mesmo nome da clínica
+UPDATE public.agendamentos a
+SET servico_id = s.id
+FROM (
+  SELECT DISTINCT ON (clinica_id, nome_servico) id, clinica_id, nome_servico
+  FROM public.clinica_servicos
+  ORDER BY clinica_id, nome_servico, ativo DESC, created_at
+) s
+WHERE a.servico_id IS NULL
+  AND a.clinica_id = s.clinica_id
+  AND a.titulo = s.nome_servico;
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE public.profissional_servicos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clínicas podem ver os serviços de seus profissionais"
+  ON public.profissional_servicos FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Clínicas podem vincular serviços a seus profissionais"
+  ON public.profissional_servicos FOR INSERT
+  WITH CHECK (
+    clinica_id = get_user_clinica_id()
+    AND EXISTS (
+      SELECT 1 FROM public.profissionais p
+      WHERE p.id = profissional_id AND p.clinica_id = get_user_clinica_id()
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.clinica_servicos s
+      WHERE s.id = servico_id AND s.clinica_id = get_user_clinica_id()
+    )
+  );
+
+CREATE POLICY "Clínicas podem desvincular serviços de seus profissionais"
+  ON public.profissional_servicos FOR DELETE
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Admins podem ver todos os serviços dos profissionais"
+  ON public.profissional_servicos FOR SELECT
+  USING (public.is_current_user_admin());
+
+-- Conflitos passam a considerar o intervalo após o atendimento: cada agendamento ocupa o
+-- profissional/sala até data_fim + intervalo do seu serviço. p_intervalo_minutos é o
+-- intervalo do agendamento que está sendo verificado.
+DROP FUNCTION IF EXISTS public.conflitos_agendamento(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION public.conflitos_agendamento(
+  p_clinica_id UUID,
+  p_data_inicio TIMESTAMP WITH TIME ZONE,
+  p_data_fim TIMESTAMP WITH TIME ZONE,
+  p_profissional_id UUID DEFAULT NULL,
+  p_sala_id UUID DEFAULT NULL,
+  p_ignorar_id UUID DEFAULT NULL,
+  p_intervalo_minutos INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  agendamento_id UUID,
+  titulo TEXT,
+  cliente_id UUID,
+  data_inicio TIMESTAMP WITH TIME ZONE,
+  data_fim TIMESTAMP WITH TIME ZONE,
+  recurso TEXT -- 'profissional' ou 'sala'
+)
+LANGUAGE sql
+STABLE
+SET search_path = 'public'
+AS $$
+  SELECT
+    a.id,
+    a.titulo::TEXT,
+    a.cliente_id,
+    a.data_inicio,
+    a.data_fim,
+    CASE WHEN p_profissional_id IS NOT NULL AND a.profissional_id = p_profissional_id
+      THEN 'profissional' ELSE 'sala' END
+  FROM public.agendamentos a
+  LEFT JOIN public.clinica_servicos s ON s.id = a.servico_id
+  WHERE a.clinica_id = p_clinica_id
+    AND (p_ignorar_id IS NULL OR a.id <> p_ignorar_id)
+    AND COALESCE(a.status, 'agendado') NOT IN ('cancelado', 'nao_compareceu')
+    AND a.data_inicio < p_data_fim + make_interval(mins => COALESCE(p_intervalo_minutos, 0))
+    AND a.data_fim + make_interval(mins => COALESCE(s.intervalo_minutos, 0)) > p_data_inicio
+    AND (
+      (p_profissional_id IS NOT NULL AND a.profissional_id = p_profissional_id)
+      OR (p_sala_id IS NOT NULL AND a.sala_id = p_sala_id)
+    )
+  ORDER BY a.data_inicio;
+$$;
+
+CREATE OR REPLACE FUNCTION public.validar_conflito_agendamento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_modo TEXT;
+  v_fuso TEXT;
+  v_intervalo INTEGER := 0;
+  v_conflito RECORD;
+BEGIN
+  IF NEW.profissional_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profissionais WHERE id = NEW.profissional_id AND clinica_id = NEW.clinica_id
+  ) THEN
+    RAISE EXCEPTION 'Profissional não pertence à clínica do agendamento';
+  END IF;
+
+  IF NEW.sala_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.salas WHERE id = NEW.sala_id AND clinica_id = NEW.clinica_id
+  ) THEN
+    RAISE EXCEPTION 'Sala não pertence à clínica do agendamento';
+  END IF;
+
+  IF NEW.servico_id IS NOT NULL THEN
+    SELECT intervalo_minutos INTO v_intervalo
+    FROM public.clinica_servicos
+    WHERE id = NEW.servico_id AND clinica_id = NEW.clinica_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Serviço não pertence à clínica do agendamento';
+    END IF;
+  END IF;
+
+  IF COALESCE(NEW.status, 'agendado') IN ('cancelado', 'nao_compareceu')
+    OR (NEW.profissional_id IS NULL AND NEW.sala_id IS NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Mudança só de status entre status ativos (ex.: agendado -> confirmado) não revalida o horário
+  IF TG_OP = 'UPDATE'
+    AND NEW.data_inicio = OLD.data_inicio
+    AND NEW.data_fim = OLD.data_fim
+    AND NEW.profissional_id IS NOT DISTINCT FROM OLD.profissional_id
+    AND NEW.sala_id IS NOT DISTINCT FROM OLD.sala_id
+    AND NEW.servico_id IS NOT DISTINCT FROM OLD.servico_id
+    AND COALESCE(OLD.status, 'agendado') NOT IN ('cancelado', 'nao_compareceu') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT conflito_agendamento, COALESCE(fuso_horario, 'America/Sao_Paulo')
+  INTO v_modo, v_fuso
+  FROM public.clinicas
+  WHERE id = NEW.clinica_id;
+  IF COALESCE(v_modo, 'bloquear') <> 'bloquear' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serializa a verificação por profissional e por sala até o fim da transação: sem isso duas
+  -- gravações simultâneas no mesmo horário passariam ambas (nenhuma enxerga a outra).
+  -- Ordem fixa (profissional, depois sala) para não haver deadlock entre transações.
+  IF NEW.profissional_id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.profissional_id::text));
+  END IF;
+  IF NEW.sala_id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.sala_id::text));
+  END IF;
+
+  SELECT * INTO v_conflito
+  FROM public.conflitos_agendamento(
+    NEW.clinica_id, NEW.data_inicio, NEW.data_fim, NEW.profissional_id, NEW.sala_id, NEW.id,
+    COALESCE(v_intervalo, 0)
+  )
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Conflito de horário: % já ocupado(a) por "%" de % a %',
+      CASE WHEN v_conflito.recurso = 'profissional' THEN 'profissional' ELSE 'sala' END,
+      v_conflito.titulo,
+      to_char(v_conflito.data_inicio AT TIME ZONE v_fuso, 'DD/MM HH24:MI'),
+      to_char(v_conflito.data_fim AT TIME ZONE v_fuso, 'HH24:MI')
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validar_conflito_agendamento ON public.agendamentos;
+
+CREATE TRIGGER validar_conflito_agendamento
+  BEFORE INSERT OR UPDATE OF data_inicio, data_fim, profissional_id, sala_id, servico_id, status
+  ON public.agendamentos
+  FOR EACH ROW EXECUTE FUNCTION public.validar_conflito_agendamento();
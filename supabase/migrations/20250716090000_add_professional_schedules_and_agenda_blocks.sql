@@ -0,0 +1,55 @@
+-- Horário de trabalho dos profissionais e bloqueios de agenda, para o cálculo de disponibilidade.
+-- O que faz: profissionais.horario_trabalho guarda os dias/horários em que o profissional atende,
+-- no mesmo formato de clinicas.horario_funcionamento (nulo = segue o horário da clínica).
+-- bloqueios_agenda registra períodos sem atendimento (férias, congresso, feriado local), da
+-- clínica inteira (profissional_id nulo) ou de um profissional.
+-- Onde é usado:
+--   get-available-slots (_shared/availability.ts) - horários livres para a recepção e a IA/n8n
+--   AgendaResourcesSettings                       - cadastro de horários e bloqueios
+
+ALTER TABLE public.profissionais
+  ADD COLUMN horario_trabalho JSONB;
+
+CREATE TABLE public.bloqueios_agenda (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinica_id UUID NOT NULL REFERENCES public.clinicas(id) ON DELETE CASCADE,
+  -- Nulo: bloqueia a agenda de todos os profissionais
+  profissional_id UUID REFERENCES public.profissionais(id) ON DELETE CASCADE,
+  data_inicio TIMESTAMP WITH TIME ZONE NOT NULL,
+  data_fim TIMESTAMP WITH TIME ZONE NOT NULL,
+  motivo TEXT,
+  criado_por UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (data_fim > data_inicio)
+);
+
+CREATE INDEX idx_bloqueios_agenda_clinica_periodo
+  ON public.bloqueios_agenda (clinica_id, data_inicio, data_fim);
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE public.bloqueios_agenda ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clínicas podem ver seus bloqueios de agenda"
+  ON public.bloqueios_agenda FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Clínicas podem criar bloqueios de agenda"
+  ON public.bloqueios_agenda FOR INSERT
+  WITH CHECK (
+    clinica_id = get_user_clinica_id()
+    AND (
+      profissional_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.profissionais p
+        WHERE p.id = profissional_id AND p.clinica_id = get_user_clinica_id()
+      )
+    )
+  );
+
+CREATE POLICY "Clínicas podem remover seus bloqueios de agenda"
+  ON public.bloqueios_agenda FOR DELETE
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Admins podem ver todos os bloqueios de agenda"
+  ON public.bloqueios_agenda FOR SELECT
+  USING (public.is_current_user_admin());
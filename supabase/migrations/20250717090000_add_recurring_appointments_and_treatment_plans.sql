@@ -0,0 +1,381 @@
+-- Agendamentos recorrentes e planos de tratamento.
+-- O que faz: agendamento_recorrencias guarda a regra de uma série (semanal a cada N semanas
+-- ou a cada N dias, com quantidade fixa ou até uma data); as sessões continuam sendo linhas
+-- comuns de agendamentos, ligadas pela recorrencia_id. planos_tratamento agrupa as sessões
+-- de um paciente (ex.: 10 sessões de fisioterapia) e é concluído automaticamente quando as
+-- sessões realizadas atingem o total.
+-- Onde é usado:
+--   RegistroAgendamentoModal - criação da série/plano e edição "só este / seguintes / todos"
+--   CalendarPage             - cancelamento com escopo e progresso da sessão nos cards
+
+CREATE TABLE public.planos_tratamento (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinica_id UUID NOT NULL REFERENCES public.clinicas(id) ON DELETE CASCADE,
+  cliente_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  servico_id UUID REFERENCES public.clinica_servicos(id) ON DELETE SET NULL,
+  nome TEXT NOT NULL,
+  total_sessoes INTEGER NOT NULL CHECK (total_sessoes > 0),
+  status TEXT NOT NULL DEFAULT 'ativo' CHECK (status IN ('ativo', 'concluido', 'cancelado')),
+  observacoes TEXT,
+  criado_por UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.agendamento_recorrencias (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinica_id UUID NOT NULL REFERENCES public.clinicas(id) ON DELETE CASCADE,
+  -- 'semanal': a cada N semanas no mesmo dia da semana; 'dias': a cada N dias
+  frequencia TEXT NOT NULL CHECK (frequencia IN ('semanal', 'dias')),
+  intervalo INTEGER NOT NULL DEFAULT 1 CHECK (intervalo > 0),
+  -- Término: quantidade fixa de sessões ou data limite (inclusive)
+  quantidade INTEGER CHECK (quantidade IS NULL OR quantidade > 0),
+  data_limite DATE,
+  criado_por UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (quantidade IS NOT NULL OR data_limite IS NOT NULL)
+);
+
+CREATE INDEX idx_planos_tratamento_cliente ON public.planos_tratamento (clinica_id, cliente_id);
+
+ALTER TABLE public.agendamentos
+  ADD COLUMN recorrencia_id UUID REFERENCES public.agendamento_recorrencias(id) ON DELETE SET NULL,
+  ADD COLUMN plano_tratamento_id UUID REFERENCES public.planos_tratamento(id) ON DELETE SET NULL,
+  -- Número da sessão dentro do plano (1, 2, 3...)
+  ADD COLUMN sessao_numero INTEGER CHECK (sessao_numero IS NULL OR sessao_numero > 0);
+
+CREATE INDEX idx_agendamentos_recorrencia
+  ON public.agendamentos (recorrencia_id, data_inicio)
+  WHERE recorrencia_id IS NOT NULL;
+CREATE INDEX idx_agendamentos_plano_tratamento
+  ON public.agendamentos (plano_tratamento_id)
+  WHERE plano_tratamento_id IS NOT NULL;
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE public.planos_tratamento ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.agendamento_recorrencias ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clínicas podem ver seus planos de tratamento"
+  ON public.planos_tratamento FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Clínicas podem criar planos de tratamento"
+  ON public.planos_tratamento FOR INSERT
+  WITH CHECK (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Clínicas podem atualizar seus planos de tratamento"
+  ON public.planos_tratamento FOR UPDATE
+  USING (clinica_id = get_user_clinica_id())
+  WITH CHECK (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Admins podem ver todos os planos de tratamento"
+  ON public.planos_tratamento FOR SELECT
+  USING (public.is_current_user_admin());
+
+CREATE POLICY "Clínicas podem ver suas recorrências de agendamento"
+  ON public.agendamento_recorrencias FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Clínicas podem criar recorrências de agendamento"
+  ON public.agendamento_recorrencias FOR INSERT
+  WITH CHECK (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Admins podem ver todas as recorrências de agendamento"
+  ON public.agendamento_recorrencias FOR SELECT
+  USING (public.is_current_user_admin());
+
+CREATE TRIGGER update_planos_tratamento_updated_at
+  BEFORE UPDATE ON public.planos_tratamento
+  FOR EACH ROW EXECUTE FUNCTION public.update_follow_up_updated_at();
+
+-- Série e plano do agendamento precisam ser da mesma clínica (e o plano, do mesmo paciente)
+CREATE OR REPLACE FUNCTION public.validar_serie_agendamento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+BEGIN
+  IF NEW.recorrencia_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.agendamento_recorrencias WHERE id = NEW.recorrencia_id AND clinica_id = NEW.clinica_id
+  ) THEN
+    RAISE EXCEPTION 'Recorrência não pertence à clínica do agendamento';
+  END IF;
+
+  IF NEW.plano_tratamento_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.planos_tratamento
+    WHERE id = NEW.plano_tratamento_id AND clinica_id = NEW.clinica_id AND cliente_id = NEW.cliente_id
+  ) THEN
+    RAISE EXCEPTION 'Plano de tratamento não pertence ao paciente do agendamento';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validar_serie_agendamento
+  BEFORE INSERT OR UPDATE OF recorrencia_id, plano_tratamento_id, cliente_id
+  ON public.agendamentos
+  FOR EACH ROW EXECUTE FUNCTION public.validar_serie_agendamento();
+
+-- Conclui o plano quando as sessões realizadas (realizado ou pago) atingem o total e o
+-- reabre se uma sessão deixar de contar (ex.: status corrigido). Planos cancelados não mudam.
+CREATE OR REPLACE FUNCTION public.atualizar_status_plano_tratamento()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_plano_id UUID;
+BEGIN
+  FOREACH v_plano_id IN ARRAY ARRAY[NEW.plano_tratamento_id, CASE WHEN TG_OP = 'UPDATE' THEN OLD.plano_tratamento_id END]
+  LOOP
+    CONTINUE WHEN v_plano_id IS NULL;
+
+    UPDATE public.planos_tratamento p
+    SET status = CASE WHEN realizadas.total >= p.total_sessoes THEN 'concluido' ELSE 'ativo' END
+    FROM (
+      SELECT COUNT(*) AS total
+      FROM public.agendamentos
+      WHERE plano_tratamento_id = v_plano_id AND status IN ('realizado', 'pago')
+    ) realizadas
+    WHERE p.id = v_plano_id
+      AND p.status <> 'cancelado'
+      AND p.status <> CASE WHEN realizadas.total >= p.total_sessoes THEN 'concluido' ELSE 'ativo' END;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER atualizar_status_plano_tratamento
+  AFTER INSERT OR UPDATE OF status, plano_tratamento_id
+  ON public.agendamentos
+  FOR EACH ROW EXECUTE FUNCTION public.atualizar_status_plano_tratamento();
+
+-- Cria a série inteira numa única transação: se qualquer sessão esbarrar no bloqueio de
+-- conflito de horário, nenhuma é criada. As datas das sessões são calculadas no frontend
+-- (no fuso do navegador) a partir da regra, que fica registrada para consulta.
+-- p_agendamento: campos comuns (cliente_id, clinica_id, usuario_id, titulo, descricao, status,
+-- valor, profissional_id, sala_id, servico_id). p_ocorrencias: [{ data_inicio, data_fim }].
+-- Com p_novo_plano_nome, cria o plano de tratamento; com p_plano_tratamento_id, continua a
+-- numeração das sessões de um plano existente.
+CREATE OR REPLACE FUNCTION public.criar_agendamentos_recorrentes(
+  p_agendamento JSONB,
+  p_ocorrencias JSONB,
+  p_frequencia TEXT,
+  p_intervalo INTEGER,
+  p_quantidade INTEGER DEFAULT NULL,
+  p_data_limite DATE DEFAULT NULL,
+  p_plano_tratamento_id UUID DEFAULT NULL,
+  p_novo_plano_nome TEXT DEFAULT NULL,
+  p_novo_plano_total_sessoes INTEGER DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_clinica_id UUID := (p_agendamento->>'clinica_id')::UUID;
+  v_cliente_id UUID := (p_agendamento->>'cliente_id')::UUID;
+  v_recorrencia_id UUID;
+  v_plano_id UUID := p_plano_tratamento_id;
+  v_ultima_sessao INTEGER := 0;
+BEGIN
+  IF jsonb_typeof(p_ocorrencias) <> 'array' OR jsonb_array_length(p_ocorrencias) = 0 THEN
+    RAISE EXCEPTION 'A série precisa de pelo menos uma sessão';
+  END IF;
+
+  IF jsonb_array_length(p_ocorrencias) > 104 THEN
+    RAISE EXCEPTION 'A série pode ter no máximo 104 sessões';
+  END IF;
+
+  IF p_novo_plano_nome IS NOT NULL THEN
+    INSERT INTO public.planos_tratamento (clinica_id, cliente_id, servico_id, nome, total_sessoes, criado_por)
+    VALUES (
+      v_clinica_id,
+      v_cliente_id,
+      NULLIF(p_agendamento->>'servico_id', '')::UUID,
+      p_novo_plano_nome,
+      COALESCE(p_novo_plano_total_sessoes, jsonb_array_length(p_ocorrencias)),
+      auth.uid()
+    )
+    RETURNING id INTO v_plano_id;
+  ELSIF v_plano_id IS NOT NULL THEN
+    SELECT COALESCE(MAX(sessao_numero), 0) INTO v_ultima_sessao
+    FROM public.agendamentos
+    WHERE plano_tratamento_id = v_plano_id;
+  END IF;
+
+  INSERT INTO public.agendamento_recorrencias (clinica_id, frequencia, intervalo, quantidade, data_limite, criado_por)
+  VALUES (v_clinica_id, p_frequencia, p_intervalo, p_quantidade, p_data_limite, auth.uid())
+  RETURNING id INTO v_recorrencia_id;
+
+  INSERT INTO public.agendamentos (
+    cliente_id, clinica_id, usuario_id, titulo, descricao, status, valor,
+    profissional_id, sala_id, servico_id, data_inicio, data_fim,
+    recorrencia_id, plano_tratamento_id, sessao_numero
+  )
+  SELECT
+    v_cliente_id,
+    v_clinica_id,
+    (p_agendamento->>'usuario_id')::UUID,
+    p_agendamento->>'titulo',
+    p_agendamento->>'descricao',
+    COALESCE(p_agendamento->>'status', 'agendado'),
+    COALESCE((p_agendamento->>'valor')::NUMERIC, 0),
+    NULLIF(p_agendamento->>'profissional_id', '')::UUID,
+    NULLIF(p_agendamento->>'sala_id', '')::UUID,
+    NULLIF(p_agendamento->>'servico_id', '')::UUID,
+    (ocorrencia.valor->>'data_inicio')::TIMESTAMP WITH TIME ZONE,
+    (ocorrencia.valor->>'data_fim')::TIMESTAMP WITH TIME ZONE,
+    v_recorrencia_id,
+    v_plano_id,
+    CASE WHEN v_plano_id IS NOT NULL THEN v_ultima_sessao + ocorrencia.posicao::INTEGER END
+  FROM jsonb_array_elements(p_ocorrencias) WITH ORDINALITY AS ocorrencia(valor, posicao)
+  ORDER BY ocorrencia.posicao;
+
+  RETURN v_recorrencia_id;
+END;
+$$;
+
+-- Edita ou cancela várias sessões de uma série a partir de uma delas.
+-- p_escopo: 'seguintes' (esta e as posteriores) ou 'todos' (a série inteira).
+-- Sessões já realizadas, pagas, canceladas ou com falta não são alteradas, exceto a de referência.
+-- p_deslocamento_minutos move todas as sessões (ex.: de 09:00 para 10:00 = 60);
+-- p_duracao_minutos redefine a duração. p_campos só altera as chaves presentes
+-- (titulo, descricao, valor, status, profissional_id, sala_id, servico_id).
+CREATE OR REPLACE FUNCTION public.atualizar_serie_agendamentos(
+  p_agendamento_id UUID,
+  p_escopo TEXT,
+  p_deslocamento_minutos INTEGER DEFAULT 0,
+  p_duracao_minutos INTEGER DEFAULT NULL,
+  p_campos JSONB DEFAULT '{}'::JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_referencia RECORD;
+  v_total INTEGER;
+BEGIN
+  IF p_escopo NOT IN ('seguintes', 'todos') THEN
+    RAISE EXCEPTION 'Escopo inválido: %', p_escopo;
+  END IF;
+
+  SELECT id, recorrencia_id, data_inicio INTO v_referencia
+  FROM public.agendamentos
+  WHERE id = p_agendamento_id;
+
+  IF NOT FOUND OR v_referencia.recorrencia_id IS NULL THEN
+    RAISE EXCEPTION 'Agendamento não pertence a uma série recorrente';
+  END IF;
+
+  UPDATE public.agendamentos a
+  SET
+    data_inicio = a.data_inicio + make_interval(mins => COALESCE(p_deslocamento_minutos, 0)),
+    data_fim = CASE
+      WHEN p_duracao_minutos IS NULL
+        THEN a.data_fim + make_interval(mins => COALESCE(p_deslocamento_minutos, 0))
+      ELSE a.data_inicio + make_interval(mins => COALESCE(p_deslocamento_minutos, 0) + p_duracao_minutos)
+    END,
+    titulo = COALESCE(p_campos->>'titulo', a.titulo),
+    descricao = CASE WHEN p_campos ? 'descricao' THEN p_campos->>'descricao' ELSE a.descricao END,
+    valor = CASE WHEN p_campos ? 'valor' THEN (p_campos->>'valor')::NUMERIC ELSE a.valor END,
+    status = COALESCE(p_campos->>'status', a.status),
+    profissional_id = CASE WHEN p_campos ? 'profissional_id' THEN NULLIF(p_campos->>'profissional_id', '')::UUID ELSE a.profissional_id END,
+    sala_id = CASE WHEN p_campos ? 'sala_id' THEN NULLIF(p_campos->>'sala_id', '')::UUID ELSE a.sala_id END,
+    servico_id = CASE WHEN p_campos ? 'servico_id' THEN NULLIF(p_campos->>'servico_id', '')::UUID ELSE a.servico_id END,
+    updated_at = now()
+  WHERE a.recorrencia_id = v_referencia.recorrencia_id
+    AND (
+      a.id = v_referencia.id
+      OR COALESCE(a.status, 'agendado') NOT IN ('realizado', 'pago', 'cancelado', 'nao_compareceu')
+    )
+    AND (p_escopo = 'todos' OR a.data_inicio >= v_referencia.data_inicio);
+
+  GET DIAGNOSTICS v_total = ROW_COUNT;
+  RETURN v_total;
+END;
+$$;
+
+-- Mesclagem de leads: os planos de tratamento do duplicado passam para o principal
+-- (sem isso o ON DELETE CASCADE apagaria os planos e desvincularia as sessões)
+CREATE OR REPLACE FUNCTION public.mesclar_leads(p_lead_principal UUID, p_lead_duplicado UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_principal public.leads%ROWTYPE;
+  v_duplicado public.leads%ROWTYPE;
+BEGIN
+  IF p_lead_principal = p_lead_duplicado THEN
+    RAISE EXCEPTION 'O lead principal e o duplicado devem ser diferentes';
+  END IF;
+
+  SELECT * INTO v_principal FROM public.leads WHERE id = p_lead_principal FOR UPDATE;
+  SELECT * INTO v_duplicado FROM public.leads WHERE id = p_lead_duplicado FOR UPDATE;
+
+  IF v_principal.id IS NULL OR v_duplicado.id IS NULL THEN
+    RAISE EXCEPTION 'Lead não encontrado';
+  END IF;
+
+  IF v_principal.clinica_id IS DISTINCT FROM v_duplicado.clinica_id THEN
+    RAISE EXCEPTION 'Não é possível mesclar leads de clínicas diferentes';
+  END IF;
+
+  IF NOT (public.is_current_user_admin() OR v_principal.clinica_id = public.get_user_clinica_id()) THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  -- Histórico do duplicado passa para o principal
+  UPDATE public.chat_mensagens SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.mensagens SET cliente_id = p_lead_principal WHERE cliente_id = p_lead_duplicado;
+  UPDATE public.agendamentos SET cliente_id = p_lead_principal WHERE cliente_id = p_lead_duplicado;
+  UPDATE public.follow_up_execucoes SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.buffer SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.webhook_logs SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.outbound_message_queue SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.lead_consentimentos SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.planos_tratamento SET cliente_id = p_lead_principal WHERE cliente_id = p_lead_duplicado;
+
+  -- Atribuição de anúncio: mantém a do principal; herda a do duplicado se o principal não tiver
+  UPDATE public.lead_ad_attributions
+  SET lead_id = p_lead_principal
+  WHERE lead_id = p_lead_duplicado
+    AND NOT EXISTS (SELECT 1 FROM public.lead_ad_attributions WHERE lead_id = p_lead_principal);
+
+  -- Completar os dados do principal (tag, canais, origem) com os do duplicado
+  UPDATE public.leads
+  SET
+    nome = CASE
+      WHEN nome IS NULL OR nome LIKE 'Contato %' THEN COALESCE(v_duplicado.nome, nome)
+      ELSE nome
+    END,
+    telefone = COALESCE(telefone, v_duplicado.telefone),
+    email = COALESCE(email, v_duplicado.email),
+    id_direct = COALESCE(id_direct, v_duplicado.id_direct),
+    meu_id_direct = COALESCE(meu_id_direct, v_duplicado.meu_id_direct),
+    tag_id = COALESCE(tag_id, v_duplicado.tag_id),
+    origem_lead = COALESCE(origem_lead, v_duplicado.origem_lead),
+    servico_interesse = COALESCE(servico_interesse, v_duplicado.servico_interesse),
+    ad_name = COALESCE(ad_name, v_duplicado.ad_name),
+    ad_platform = COALESCE(ad_platform, v_duplicado.ad_platform),
+    avatar_url = COALESCE(avatar_url, v_duplicado.avatar_url),
+    anotacoes = NULLIF(concat_ws(E'\n\n', NULLIF(anotacoes, ''), NULLIF(v_duplicado.anotacoes, '')), ''),
+    ltv = COALESCE(ltv, 0) + COALESCE(v_duplicado.ltv, 0),
+    convertido = COALESCE(convertido, false) OR COALESCE(v_duplicado.convertido, false),
+    data_ultimo_contato = GREATEST(data_ultimo_contato, v_duplicado.data_ultimo_contato),
+    created_at = LEAST(created_at, v_duplicado.created_at),
+    updated_at = now()
+  WHERE id = p_lead_principal;
+
+  DELETE FROM public.leads WHERE id = p_lead_duplicado;
+
+  RETURN p_lead_principal;
+END;
+$$;
@@ -0,0 +1,141 @@
+-- Lembretes automáticos de agendamento e confirmação pelo WhatsApp.
+-- O que faz: a clínica define com quantas horas de antecedência os pacientes são lembrados
+-- (padrão: 24h e 2h antes) e o texto do lembrete. Cada envio fica registrado em
+-- agendamento_lembretes; a resposta do paciente ("1"/"SIM" ou "2"/"NÃO") ao lembrete move o
+-- agendamento para confirmado ou cancelado e é gravada no próprio lembrete.
+-- Onde é usado:
+--   process-appointment-reminders - envia os lembretes vencidos (CRON, pela send-webhook)
+--   receive-message                - interpreta a resposta do paciente ao último lembrete
+--   AppointmentReminderSettings    - configuração (Configurações > Lembretes)
+--   useRespostasLembretes          - avisa a equipe quando o paciente confirma ou cancela
+
+ALTER TABLE public.clinicas
+  ADD COLUMN lembretes_agendamento_ativos BOOLEAN NOT NULL DEFAULT false,
+  -- Antecedências em horas, ex.: {24,2}
+  ADD COLUMN lembretes_agendamento_horas INTEGER[] NOT NULL DEFAULT ARRAY[24, 2],
+  -- Mesma sintaxe dos templates de follow-up (_shared/templateEngine.ts)
+  ADD COLUMN lembrete_agendamento_template TEXT NOT NULL DEFAULT
+    'Olá {primeiro_nome}! Lembrete do seu agendamento de {procedimento} em {data_agendamento} às {hora_agendamento}{#se profissional} com {profissional}{/se} na {nome_clinica}.{#se !agendamento_confirmado} Responda 1 (SIM) para confirmar ou 2 (NÃO) para cancelar.{/se}';
+
+CREATE TABLE public.agendamento_lembretes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  clinica_id UUID NOT NULL REFERENCES public.clinicas(id) ON DELETE CASCADE,
+  agendamento_id UUID NOT NULL REFERENCES public.agendamentos(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  horas_antes INTEGER NOT NULL CHECK (horas_antes > 0),
+  -- Início do agendamento no momento do envio: remarcações geram novos lembretes
+  data_agendamento TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- 'enviando' (reservado pela rodada atual), 'enviado', 'erro' ou 'ignorado' (ex.: opt-out)
+  status TEXT NOT NULL DEFAULT 'enviando' CHECK (status IN ('enviando', 'enviado', 'erro', 'ignorado')),
+  conteudo TEXT,
+  mensagem_id UUID REFERENCES public.chat_mensagens(id) ON DELETE SET NULL,
+  erro TEXT,
+  -- Resposta do paciente ao lembrete
+  resposta TEXT CHECK (resposta IN ('confirmado', 'cancelado')),
+  resposta_mensagem_id UUID REFERENCES public.chat_mensagens(id) ON DELETE SET NULL,
+  respondido_em TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Impede que duas rodadas do processador enviem o mesmo lembrete
+  UNIQUE (agendamento_id, horas_antes, data_agendamento)
+);
+
+CREATE INDEX idx_agendamento_lembretes_lead
+  ON public.agendamento_lembretes (lead_id, created_at DESC)
+  WHERE status = 'enviado';
+CREATE INDEX idx_agendamento_lembretes_clinica
+  ON public.agendamento_lembretes (clinica_id, created_at);
+
+-- Habilitar RLS (Row Level Security)
+ALTER TABLE public.agendamento_lembretes ENABLE ROW LEVEL SECURITY;
+
+-- Registros gravados apenas pelas Edge Functions (service role); clínicas só consultam
+CREATE POLICY "Clínicas podem ver os lembretes dos seus agendamentos"
+  ON public.agendamento_lembretes FOR SELECT
+  USING (clinica_id = get_user_clinica_id());
+
+CREATE POLICY "Admins podem ver todos os lembretes de agendamento"
+  ON public.agendamento_lembretes FOR SELECT
+  USING (public.is_current_user_admin());
+
+-- Respostas em tempo real para o aviso à equipe no CRM
+ALTER PUBLICATION supabase_realtime ADD TABLE public.agendamento_lembretes;
+
+-- Mesclagem de leads: os lembretes enviados ao duplicado passam para o principal
+-- (sem isso o ON DELETE CASCADE apagaria o histórico e a resposta ao último lembrete)
+CREATE OR REPLACE FUNCTION public.mesclar_leads(p_lead_principal UUID, p_lead_duplicado UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = 'public'
+AS $$
+DECLARE
+  v_principal public.leads%ROWTYPE;
+  v_duplicado public.leads%ROWTYPE;
+BEGIN
+  IF p_lead_principal = p_lead_duplicado THEN
+    RAISE EXCEPTION 'O lead principal e o duplicado devem ser diferentes';
+  END IF;
+
+  SELECT * INTO v_principal FROM public.leads WHERE id = p_lead_principal FOR UPDATE;
+  SELECT * INTO v_duplicado FROM public.leads WHERE id = p_lead_duplicado FOR UPDATE;
+
+  IF v_principal.id IS NULL OR v_duplicado.id IS NULL THEN
+    RAISE EXCEPTION 'Lead não encontrado';
+  END IF;
+
+  IF v_principal.clinica_id IS DISTINCT FROM v_duplicado.clinica_id THEN
+    RAISE EXCEPTION 'Não é possível mesclar leads de clínicas diferentes';
+  END IF;
+
+  IF NOT (public.is_current_user_admin() OR v_principal.clinica_id = public.get_user_clinica_id()) THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  -- Histórico do duplicado passa para o principal
+  UPDATE public.chat_mensagens SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.mensagens SET cliente_id = p_lead_principal WHERE cliente_id = p_lead_duplicado;
+  UPDATE public.agendamentos SET cliente_id = p_lead_principal WHERE cliente_id = p_lead_duplicado;
+  UPDATE public.follow_up_execucoes SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.buffer SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.webhook_logs SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.outbound_message_queue SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.lead_consentimentos SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+  UPDATE public.planos_tratamento SET cliente_id = p_lead_principal WHERE cliente_id = p_lead_duplicado;
+  UPDATE public.agendamento_lembretes SET lead_id = p_lead_principal WHERE lead_id = p_lead_duplicado;
+
+  -- Atribuição de anúncio: mantém a do principal; herda a do duplicado se o principal não tiver
+  UPDATE public.lead_ad_attributions
+  SET lead_id = p_lead_principal
+  WHERE lead_id = p_lead_duplicado
+    AND NOT EXISTS (SELECT 1 FROM public.lead_ad_attributions WHERE lead_id = p_lead_principal);
+
+  -- Completar os dados do principal (tag, canais, origem) com os do duplicado
+  UPDATE public.leads
+  SET
+    nome = CASE
+      WHEN nome IS NULL OR nome LIKE 'Contato %' THEN COALESCE(v_duplicado.nome, nome)
+      ELSE nome
+    END,
+    telefone = COALESCE(telefone, v_duplicado.telefone),
+    email = COALESCE(email, v_duplicado.email),
+    id_direct = COALESCE(id_direct, v_duplicado.id_direct),
+    meu_id_direct = COALESCE(meu_id_direct, v_duplicado.meu_id_direct),
+    tag_id = COALESCE(tag_id, v_duplicado.tag_id),
+    origem_lead = COALESCE(origem_lead, v_duplicado.origem_lead),
+    servico_interesse = COALESCE(servico_interesse, v_duplicado.servico_interesse),
+    ad_name = COALESCE(ad_name, v_duplicado.ad_name),
+    ad_platform = COALESCE(ad_platform, v_duplicado.ad_platform),
+    avatar_url = COALESCE(avatar_url, v_duplicado.avatar_url),
+    anotacoes = NULLIF(concat_ws(E'\n\n', NULLIF(anotacoes, ''), NULLIF(v_duplicado.anotacoes, '')), ''),
+    ltv = COALESCE(ltv, 0) + COALESCE(v_duplicado.ltv, 0),
+    convertido = COALESCE(convertido, false) OR COALESCE(v_duplicado.convertido, false),
+    data_ultimo_contato = GREATEST(data_ultimo_contato, v_duplicado.data_ultimo_contato),
+    created_at = LEAST(created_at, v_duplicado.created_at),
+    updated_at = now()
+  WHERE id = p_lead_principal;
+
+  DELETE FROM public.leads WHERE id = p_lead_duplicado;
+
+  RETURN p_lead_principal;
+END;
+$$;